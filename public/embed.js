@@ -0,0 +1,68 @@
+/**
+ * ALIC Calendar embed script
+ *
+ * Turns every element with a data-alic-calendar attribute into an iframe of
+ * the organization's public calendar and keeps it as tall as its content:
+ *
+ *   <div data-alic-calendar="my-church" data-view="agenda" data-max="5"></div>
+ *   <script src="https://<calendar-host>/embed.js" async></script>
+ *
+ * Other data-* attributes (view, theme, accent, bg, room, category, max,
+ * days, header) are passed to the widget as URL parameters.
+ */
+(function () {
+  var RESIZE_MESSAGE = "alic-calendar:resize";
+  var OPTIONS = ["view", "theme", "accent", "bg", "room", "category", "max", "days", "header"];
+
+  var script = document.currentScript;
+  var origin = script ? new URL(script.src).origin : window.location.origin;
+
+  function render(container) {
+    if (container.getAttribute("data-alic-rendered")) return;
+    container.setAttribute("data-alic-rendered", "true");
+
+    var slug = container.getAttribute("data-alic-calendar");
+    var params = new URLSearchParams();
+    OPTIONS.forEach(function (name) {
+      var value = container.getAttribute("data-" + name);
+      if (value !== null) params.set(name, value);
+    });
+
+    var iframe = document.createElement("iframe");
+    var query = params.toString();
+    iframe.src = origin + "/embed/" + encodeURIComponent(slug) + (query ? "?" + query : "");
+    iframe.title = container.getAttribute("data-title") || "Event calendar";
+    iframe.loading = "lazy";
+    iframe.style.width = "100%";
+    iframe.style.height = container.getAttribute("data-height") || "400px";
+    iframe.style.border = "0";
+    iframe.style.colorScheme = "normal";
+    if (params.get("bg") === "transparent") iframe.setAttribute("allowtransparency", "true");
+
+    container.innerHTML = "";
+    container.appendChild(iframe);
+  }
+
+  // Size each iframe to the height its widget reports
+  window.addEventListener("message", function (event) {
+    if (event.origin !== origin || !event.data || event.data.type !== RESIZE_MESSAGE) return;
+
+    var iframes = document.querySelectorAll("[data-alic-calendar] iframe");
+    for (var i = 0; i < iframes.length; i++) {
+      if (iframes[i].contentWindow === event.source) {
+        iframes[i].style.height = event.data.height + "px";
+      }
+    }
+  });
+
+  function renderAll() {
+    var containers = document.querySelectorAll("[data-alic-calendar]");
+    for (var i = 0; i < containers.length; i++) render(containers[i]);
+  }
+
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", renderAll);
+  } else {
+    renderAll();
+  }
+})();
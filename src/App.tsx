@@ -13,7 +13,7 @@ import {
 import { SearchProvider } from "@/shared/contexts/SearchContext";
 
 // Module page imports
-import { Dashboard, PublicCalendar } from "@/modules/calendar";
+import { CheckIn, Dashboard, EmbedCalendar, EventTicket, PublicCalendar, Signage } from "@/modules/calendar";
 import { Admin } from "@/modules/admin";
 import { Auth, ForgotPassword, ResetPassword } from "@/modules/auth";
 import { Rooms } from "@/modules/rooms";
@@ -105,6 +105,9 @@ const App = () => (
                 <Route path="/reset-password" element={<ResetPassword />} />
                 <Route path="/public" element={<PublicCalendar />} />
                 <Route path="/public/:slug" element={<PublicCalendar />} />
+                <Route path="/ticket/:token" element={<EventTicket />} />
+                <Route path="/embed/:slug" element={<EmbedCalendar />} />
+                <Route path="/signage/:slug" element={<Signage />} />
 
                 {/* Calendar module routes */}
                 <Route
@@ -116,6 +119,15 @@ const App = () => (
                   }
                 />
 
+                <Route
+                  path="/check-in/:eventId"
+                  element={
+                    <ProtectedRoute>
+                      <CheckIn />
+                    </ProtectedRoute>
+                  }
+                />
+
                 {/* Admin module routes - accessible to all authenticated users */}
                 <Route
                   path="/admin"
@@ -387,68 +387,560 @@ export type Database = {
           },
         ]
       }
+      approval_policies: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          max_duration_minutes: number | null
+          name: string
+          organization_id: string
+          require_approved_series: boolean
+          requester_roles: Database["public"]["Enums"]["app_role"][] | null
+          room_ids: string[] | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          max_duration_minutes?: number | null
+          name: string
+          organization_id: string
+          require_approved_series?: boolean
+          requester_roles?: Database["public"]["Enums"]["app_role"][] | null
+          room_ids?: string[] | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          max_duration_minutes?: number | null
+          name?: string
+          organization_id?: string
+          require_approved_series?: boolean
+          requester_roles?: Database["public"]["Enums"]["app_role"][] | null
+          room_ids?: string[] | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_policies_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blackout_periods: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          ends_on: string
+          id: string
+          organization_id: string
+          starts_on: string
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          ends_on: string
+          id?: string
+          organization_id: string
+          starts_on: string
+          title: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          ends_on?: string
+          id?: string
+          organization_id?: string
+          starts_on?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blackout_periods_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          ministry_id: string | null
+          organization_id: string
+          revoked_at: string | null
+          room_id: string | null
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          ministry_id?: string | null
+          organization_id: string
+          revoked_at?: string | null
+          room_id?: string | null
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          ministry_id?: string | null
+          organization_id?: string
+          revoked_at?: string | null
+          room_id?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_feeds_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_approvals: {
+        Row: {
+          decided_at: string
+          decided_by: string | null
+          decision: string
+          event_id: string
+          id: string
+          notes: string | null
+          organization_id: string
+          step_id: string | null
+          step_name: string
+        }
+        Insert: {
+          decided_at?: string
+          decided_by?: string | null
+          decision: string
+          event_id: string
+          id?: string
+          notes?: string | null
+          organization_id: string
+          step_id?: string | null
+          step_name: string
+        }
+        Update: {
+          decided_at?: string
+          decided_by?: string | null
+          decision?: string
+          event_id?: string
+          id?: string
+          notes?: string | null
+          organization_id?: string
+          step_id?: string | null
+          step_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_approvals_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_approvals_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_approvals_step_id_fkey"
+            columns: ["step_id"]
+            isOneToOne: false
+            referencedRelation: "room_approval_steps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_attendance: {
+        Row: {
+          checked_in_count: number
+          event_id: string
+          id: string
+          occurrence_start: string | null
+          organization_id: string
+          registered_count: number
+          updated_at: string
+          walk_in_count: number
+        }
+        Insert: {
+          checked_in_count?: number
+          event_id: string
+          id?: string
+          occurrence_start?: string | null
+          organization_id: string
+          registered_count?: number
+          updated_at?: string
+          walk_in_count?: number
+        }
+        Update: {
+          checked_in_count?: number
+          event_id?: string
+          id?: string
+          occurrence_start?: string | null
+          organization_id?: string
+          registered_count?: number
+          updated_at?: string
+          walk_in_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_attendance_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_attendance_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_history: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_name: string
+          changes: Json | null
+          created_at: string
+          event_created_by: string | null
+          event_id: string
+          event_title: string
+          id: string
+          new_status: Database["public"]["Enums"]["event_status"] | null
+          notes: string | null
+          occurrence_start: string | null
+          organization_id: string
+          previous_status: Database["public"]["Enums"]["event_status"] | null
+          series_id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_name: string
+          changes?: Json | null
+          created_at?: string
+          event_created_by?: string | null
+          event_id: string
+          event_title: string
+          id?: string
+          new_status?: Database["public"]["Enums"]["event_status"] | null
+          notes?: string | null
+          occurrence_start?: string | null
+          organization_id: string
+          previous_status?: Database["public"]["Enums"]["event_status"] | null
+          series_id: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_name?: string
+          changes?: Json | null
+          created_at?: string
+          event_created_by?: string | null
+          event_id?: string
+          event_title?: string
+          id?: string
+          new_status?: Database["public"]["Enums"]["event_status"] | null
+          notes?: string | null
+          occurrence_start?: string | null
+          organization_id?: string
+          previous_status?: Database["public"]["Enums"]["event_status"] | null
+          series_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_history_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_registrations: {
+        Row: {
+          check_in_token: string
+          checked_in_at: string | null
+          checked_in_by: string | null
+          created_at: string
+          email: string | null
+          event_id: string
+          headcount: number
+          id: string
+          is_walk_in: boolean
+          name: string
+          notified_status: string | null
+          occurrence_start: string | null
+          organization_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          check_in_token?: string
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          created_at?: string
+          email?: string | null
+          event_id: string
+          headcount?: number
+          id?: string
+          is_walk_in?: boolean
+          name: string
+          notified_status?: string | null
+          occurrence_start?: string | null
+          organization_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          check_in_token?: string
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          created_at?: string
+          email?: string | null
+          event_id?: string
+          headcount?: number
+          id?: string
+          is_walk_in?: boolean
+          name?: string
+          notified_status?: string | null
+          occurrence_start?: string | null
+          organization_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_registrations_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_registrations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_resource_requests: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          notes: string | null
+          organization_id: string
+          quantity: number
+          resource_id: string
+          responsible: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          notes?: string | null
+          organization_id: string
+          quantity?: number
+          resource_id: string
+          responsible?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          notes?: string | null
+          organization_id?: string
+          quantity?: number
+          resource_id?: string
+          responsible?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_resource_requests_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_resource_requests_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_resource_requests_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       events: {
         Row: {
+          additional_room_ids: string[]
+          approval_policy_id: string | null
+          approval_policy_name: string | null
+          blocked_ends_at: string
+          blocked_starts_at: string
+          category: Database["public"]["Enums"]["event_category"] | null
           created_at: string
           created_by: string
           description: string | null
           ends_at: string
+          hold_notified_at: string | null
+          hold_promoted_at: string | null
+          hold_queued_at: string | null
           id: string
           is_recurring: boolean | null
+          is_whole_building: boolean
+          ministry_id: string | null
           organization_id: string
           parent_event_id: string | null
           recurrence_end_date: string | null
+          recurrence_exdates: string[]
+          recurrence_id: string | null
           recurrence_rule: string | null
+          registration_capacity: number | null
+          registration_enabled: boolean
+          review_started_at: string | null
           reviewer_id: string | null
           reviewer_notes: string | null
           room_allows_overlap: boolean
           room_id: string
+          setup_minutes: number
           starts_at: string
           status: Database["public"]["Enums"]["event_status"]
+          teardown_minutes: number
           title: string
           updated_at: string
         }
         Insert: {
+          additional_room_ids?: string[]
+          approval_policy_id?: string | null
+          approval_policy_name?: string | null
+          blocked_ends_at?: string
+          blocked_starts_at?: string
+          category?: Database["public"]["Enums"]["event_category"] | null
           created_at?: string
           created_by: string
           description?: string | null
           ends_at: string
+          hold_notified_at?: string | null
+          hold_promoted_at?: string | null
+          hold_queued_at?: string | null
           id?: string
           is_recurring?: boolean | null
+          is_whole_building?: boolean
+          ministry_id?: string | null
           organization_id: string
           parent_event_id?: string | null
           recurrence_end_date?: string | null
+          recurrence_exdates?: string[]
+          recurrence_id?: string | null
           recurrence_rule?: string | null
+          registration_capacity?: number | null
+          registration_enabled?: boolean
+          review_started_at?: string | null
           reviewer_id?: string | null
           reviewer_notes?: string | null
           room_allows_overlap?: boolean
           room_id: string
+          setup_minutes?: number
           starts_at: string
           status?: Database["public"]["Enums"]["event_status"]
+          teardown_minutes?: number
           title: string
           updated_at?: string
         }
         Update: {
+          additional_room_ids?: string[]
+          approval_policy_id?: string | null
+          approval_policy_name?: string | null
+          blocked_ends_at?: string
+          blocked_starts_at?: string
+          category?: Database["public"]["Enums"]["event_category"] | null
           created_at?: string
           created_by?: string
           description?: string | null
           ends_at?: string
+          hold_notified_at?: string | null
+          hold_promoted_at?: string | null
+          hold_queued_at?: string | null
           id?: string
           is_recurring?: boolean | null
+          is_whole_building?: boolean
+          ministry_id?: string | null
           organization_id?: string
           parent_event_id?: string | null
           recurrence_end_date?: string | null
+          recurrence_exdates?: string[]
+          recurrence_id?: string | null
           recurrence_rule?: string | null
+          registration_capacity?: number | null
+          registration_enabled?: boolean
+          review_started_at?: string | null
           reviewer_id?: string | null
           reviewer_notes?: string | null
           room_allows_overlap?: boolean
           room_id?: string
+          setup_minutes?: number
           starts_at?: string
           status?: Database["public"]["Enums"]["event_status"]
+          teardown_minutes?: number
           title?: string
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "events_approval_policy_id_fkey"
+            columns: ["approval_policy_id"]
+            isOneToOne: false
+            referencedRelation: "approval_policies"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "events_organization_id_fkey"
             columns: ["organization_id"]
@@ -513,12 +1005,153 @@ export type Database = {
           },
         ]
       }
+      resources: {
+        Row: {
+          created_at: string
+          default_responsible: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          kind: string
+          name: string
+          organization_id: string
+          quantity: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          default_responsible?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name: string
+          organization_id: string
+          quantity?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          default_responsible?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name?: string
+          organization_id?: string
+          quantity?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resources_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_approval_steps: {
+        Row: {
+          approver_id: string | null
+          created_at: string
+          id: string
+          name: string
+          organization_id: string
+          room_id: string
+          step_order: number
+        }
+        Insert: {
+          approver_id?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          organization_id: string
+          room_id: string
+          step_order: number
+        }
+        Update: {
+          approver_id?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          organization_id?: string
+          room_id?: string
+          step_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_approval_steps_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_approval_steps_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_availability_windows: {
+        Row: {
+          created_at: string
+          day_of_week: number
+          end_time: string
+          id: string
+          organization_id: string
+          room_id: string
+          start_time: string
+        }
+        Insert: {
+          created_at?: string
+          day_of_week: number
+          end_time: string
+          id?: string
+          organization_id: string
+          room_id: string
+          start_time: string
+        }
+        Update: {
+          created_at?: string
+          day_of_week?: number
+          end_time?: string
+          id?: string
+          organization_id?: string
+          room_id?: string
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_availability_windows_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_availability_windows_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rooms: {
         Row: {
           allow_overlap: boolean
+          capacity: number | null
           color: string | null
           created_at: string
+          default_setup_minutes: number
+          default_teardown_minutes: number
           description: string | null
+          features: string[]
           id: string
           is_active: boolean
           name: string
@@ -527,9 +1160,13 @@ export type Database = {
         }
         Insert: {
           allow_overlap?: boolean
+          capacity?: number | null
           color?: string | null
           created_at?: string
+          default_setup_minutes?: number
+          default_teardown_minutes?: number
           description?: string | null
+          features?: string[]
           id?: string
           is_active?: boolean
           name: string
@@ -538,9 +1175,13 @@ export type Database = {
         }
         Update: {
           allow_overlap?: boolean
+          capacity?: number | null
           color?: string | null
           created_at?: string
+          default_setup_minutes?: number
+          default_teardown_minutes?: number
           description?: string | null
+          features?: string[]
           id?: string
           is_active?: boolean
           name?: string
@@ -583,6 +1224,65 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_approval_policies: {
+        Args: {
+          _event_id: string
+        }
+        Returns: string
+      }
+      claim_promoted_holds: {
+        Args: {
+          _organization_id: string
+        }
+        Returns: {
+          additional_room_ids: string[]
+          ends_at: string
+          event_id: string
+          is_whole_building: boolean
+          requester_email: string | null
+          requester_name: string | null
+          room_id: string
+          starts_at: string
+          title: string
+        }[]
+      }
+      decide_event_approval: {
+        Args: {
+          _decision: string
+          _event_id: string
+          _notes?: string
+        }
+        Returns: Database["public"]["Enums"]["event_status"]
+      }
+      event_registration_counts: {
+        Args: {
+          _event_id: string
+          _occurrence_start?: string
+        }
+        Returns: {
+          capacity: number | null
+          confirmed_count: number
+          waitlisted_count: number
+        }[]
+      }
+      get_registration_ticket: {
+        Args: {
+          _token: string
+        }
+        Returns: {
+          checked_in_at: string | null
+          ends_at: string
+          event_id: string
+          event_title: string
+          headcount: number
+          name: string
+          occurrence_start: string | null
+          organization_name: string
+          starts_at: string
+          status: string
+          timezone: string | null
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -590,15 +1290,112 @@ export type Database = {
         }
         Returns: boolean
       }
+      list_public_ministries: {
+        Args: {
+          _organization_id: string
+        }
+        Returns: {
+          id: string
+          name: string
+        }[]
+      }
+      list_replaced_occurrences: {
+        Args: {
+          _series_ids: string[]
+        }
+        Returns: {
+          occurrence_start: string
+          series_id: string
+        }[]
+      }
+      list_room_bookings: {
+        Args: {
+          _from: string
+          _organization_id: string
+          _to: string
+        }
+        Returns: {
+          additional_room_ids: string[]
+          blocked_ends_at: string
+          blocked_starts_at: string
+          created_by: string
+          ends_at: string
+          id: string
+          is_recurring: boolean | null
+          is_whole_building: boolean
+          organization_id: string
+          parent_event_id: string | null
+          recurrence_end_date: string | null
+          recurrence_exdates: string[] | null
+          recurrence_id: string | null
+          recurrence_rule: string | null
+          room_id: string
+          setup_minutes: number
+          starts_at: string
+          status: Database["public"]["Enums"]["event_status"]
+          teardown_minutes: number
+          title: string
+        }[]
+      }
+      outstanding_approval_steps: {
+        Args: {
+          _event_id: string
+        }
+        Returns: {
+          approver_id: string | null
+          created_at: string
+          id: string
+          name: string
+          organization_id: string
+          room_id: string
+          step_order: number
+        }[]
+      }
+      promote_event_holds: {
+        Args: {
+          _from: string
+          _organization_id: string
+          _to: string | null
+        }
+        Returns: number
+      }
+      register_for_event: {
+        Args: {
+          _email: string
+          _event_id: string
+          _headcount?: number
+          _name: string
+          _occurrence_start: string | null
+        }
+        Returns: {
+          registration_id: string
+          status: string
+        }[]
+      }
+      set_room_approval_steps: {
+        Args: {
+          _room_id: string
+          _steps: Json
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "contributor" | "treasury" | "finance"
+      event_category:
+        | "service"
+        | "rehearsal"
+        | "meeting"
+        | "outreach"
+        | "wedding"
+        | "funeral"
       event_status:
         | "draft"
         | "pending_review"
         | "approved"
         | "rejected"
         | "published"
+        | "hold"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -727,12 +1524,21 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "contributor", "treasury", "finance"],
+      event_category: [
+        "service",
+        "rehearsal",
+        "meeting",
+        "outreach",
+        "wedding",
+        "funeral",
+      ],
       event_status: [
         "draft",
         "pending_review",
         "approved",
         "rejected",
         "published",
+        "hold",
       ],
     },
   },
@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import DashboardLayout from "@/shared/components/layout/DashboardLayout";
@@ -6,13 +6,24 @@ import { Button } from "@/shared/components/ui/button";
 import { Badge } from "@/shared/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/shared/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/shared/components/ui/tabs";
-import { Check, X, Eye, User, Download } from "lucide-react";
+import { Check, X, Eye, User, Download, UserCheck, History, Zap, Package, Tv } from "lucide-react";
 import { useToast } from "@/shared/hooks/use-toast";
 import EventDialog from "@/modules/calendar/components/EventDialog";
-import { ExportDialog } from "@/modules/calendar/components";
+import {
+  ApprovalChainProgress,
+  ApprovalPoliciesDialog,
+  EventResourceSummary,
+  ExportDialog,
+  ResourcesDialog,
+  SignageSettingsDialog,
+} from "@/modules/calendar/components";
+import { useResourceRequests } from "@/modules/calendar/hooks";
+import { approvalService, eventService, exportService } from "@/modules/calendar/services";
+import { formatInTimeZone, formatReservedRooms, getResourceRequestEventId, isWaitingOn } from "@/modules/calendar/utils";
+import type { ApprovalChain } from "@/modules/calendar/types";
 import { RejectionReasonDialog } from "@/shared/components/RejectionReasonDialog";
 import { RecurringEventActionDialog, RecurringActionScope } from "@/shared/components/RecurringEventActionDialog";
-import { formatDistance, format } from "date-fns";
+import { formatDistance } from "date-fns";
 import { useOrganization } from "@/shared/contexts/OrganizationContext";
 import { useSearch } from "@/shared/contexts/SearchContext";
 import { useAuth } from "@/shared/contexts/AuthContext";
@@ -48,6 +59,7 @@ const filterEvents = <T extends {
 const Admin = () => {
   const { toast } = useToast();
   const { currentOrganization } = useOrganization();
+  const timezone = currentOrganization?.timezone;
   const { searchQuery } = useSearch();
   const { user, isAdmin } = useAuth();
   const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
@@ -58,13 +70,37 @@ const Admin = () => {
   const [rejectionLoading, setRejectionLoading] = useState(false);
   const [recurringRejectDialogOpen, setRecurringRejectDialogOpen] = useState(false);
   const [pendingRejectionReason, setPendingRejectionReason] = useState<string>("");
+  // Only show pending events with an approval step waiting on the current user
+  const [waitingOnMeOnly, setWaitingOnMeOnly] = useState(false);
+  const [isExportingHistory, setIsExportingHistory] = useState(false);
+  const [isPoliciesDialogOpen, setIsPoliciesDialogOpen] = useState(false);
+  const [isResourcesDialogOpen, setIsResourcesDialogOpen] = useState(false);
+  const [isSignageDialogOpen, setIsSignageDialogOpen] = useState(false);
+
+  // Names of the rooms multi-room events reserve besides their main room
+  const { data: rooms } = useQuery({
+    queryKey: ["organization-rooms", currentOrganization?.id],
+    queryFn: async () => {
+      if (!currentOrganization?.id) return [];
+
+      const { data, error } = await supabase
+        .from("rooms")
+        .select("id, name, color")
+        .eq("organization_id", currentOrganization.id)
+        .order("name");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!currentOrganization?.id,
+  });
 
   const { data: pendingEvents, refetch: refetchPending } = useQuery({
     queryKey: ["pending-events", currentOrganization?.id, user?.id, isAdmin],
     queryFn: async () => {
       if (!currentOrganization?.id) return [];
 
-      let query = supabase
+      const query = supabase
         .from("events")
         .select(`
           *,
@@ -73,18 +109,19 @@ const Admin = () => {
         .eq("organization_id", currentOrganization.id)
         .eq("status", "pending_review");
 
-      // Contributors can only see their own events
-      if (!isAdmin && user?.id) {
-        query = query.eq("created_by", user.id);
-      }
-
       const { data, error } = await query.order("created_at", { ascending: false });
 
       if (error) throw error;
 
+      // Contributors see their own events and those with an approval step waiting on them
+      const chains = await approvalService.getChains(currentOrganization.id, data || []);
+      const visible = (data || []).filter(
+        (event) => isAdmin || event.created_by === user?.id || isWaitingOn(chains[event.id], user?.id, false)
+      );
+
       // Fetch creator profiles separately
       const eventsWithCreators = await Promise.all(
-        (data || []).map(async (event) => {
+        visible.map(async (event) => {
           const { data: profile } = await supabase
             .from("profiles")
             .select("full_name, email, ministry_name")
@@ -95,6 +132,7 @@ const Admin = () => {
             ...event,
             room: event.rooms,
             creator: profile || null,
+            approval: chains[event.id],
           };
         })
       );
@@ -239,10 +277,22 @@ const Admin = () => {
     enabled: !!currentOrganization?.id,
   });
 
+  // Events in an approval chain wait on their steps' approvers; others on any admin
+  const isWaitingOnMe = useCallback(
+    (approval: ApprovalChain | undefined) =>
+      approval && approval.steps.length > 0 ? isWaitingOn(approval, user?.id, isAdmin) : isAdmin,
+    [user?.id, isAdmin]
+  );
+
+  const waitingOnMeCount = (pendingEvents || []).filter((event) => isWaitingOnMe(event.approval)).length;
+
   // Filter events based on search query
   const filteredPendingEvents = useMemo(
-    () => filterEvents(pendingEvents, searchQuery),
-    [pendingEvents, searchQuery]
+    () =>
+      filterEvents(pendingEvents, searchQuery).filter(
+        (event) => !waitingOnMeOnly || isWaitingOnMe(event.approval)
+      ),
+    [pendingEvents, searchQuery, waitingOnMeOnly, isWaitingOnMe]
   );
 
   const filteredApprovedEvents = useMemo(
@@ -250,6 +300,18 @@ const Admin = () => {
     [approvedEvents, searchQuery]
   );
 
+  // Resources requested by the events waiting on review or publishing; occurrences use their series'
+  const requestEventIds = useMemo(
+    () =>
+      Array.from(
+        new Set([...(pendingEvents || []), ...(approvedEvents || [])].map((event) => getResourceRequestEventId(event)))
+      ).sort(),
+    [pendingEvents, approvedEvents]
+  );
+  const { data: resourceRequests } = useResourceRequests(requestEventIds);
+  const getResourceRequests = (event: { id: string; parent_event_id?: string | null }) =>
+    (resourceRequests || []).filter((request) => request.event_id === getResourceRequestEventId(event));
+
   const filteredPublishedEvents = useMemo(
     () => filterEvents(publishedEvents, searchQuery),
     [publishedEvents, searchQuery]
@@ -284,12 +346,28 @@ const Admin = () => {
         .eq("id", event.created_by)
         .single();
 
-      const { error } = await supabase
-        .from("events")
-        .update({ status: finalStatus, reviewer_id: (await supabase.auth.getUser()).data.user?.id })
-        .eq("id", eventId);
+      const reviewerId = (await supabase.auth.getUser()).data.user?.id;
+      const approval = pendingEvents?.find((pending) => pending.id === eventId)?.approval;
+
+      if (status === "approved" && approval && approval.steps.length > 0) {
+        // Sign off the waiting steps; the event is approved after the last one
+        const chainStatus = await approvalService.decide(eventId, "approved");
+        if (chainStatus !== "approved") {
+          toast({ title: "Sign-off recorded", description: "The event moves on to its next approval step" });
+          refetchPending();
+          return;
+        }
+      } else if (event.recurrence_rule && !event.parent_event_id) {
+        // Series rows carry their overrides along
+        await eventService.updateSeriesStatus(eventId, finalStatus, reviewerId);
+      } else {
+        const { error } = await supabase
+          .from("events")
+          .update({ status: finalStatus, reviewer_id: reviewerId })
+          .eq("id", eventId);
 
-      if (error) throw error;
+        if (error) throw error;
+      }
 
       let statusMessage = "";
       if (isUnpublishing) {
@@ -316,13 +394,15 @@ const Admin = () => {
               to: creator.email,
               eventTitle: event.title,
               eventStartTime: new Date(event.starts_at).toLocaleString("en-US", {
+                timeZone: timezone,
                 dateStyle: "full",
                 timeStyle: "short",
               }),
               eventEndTime: new Date(event.ends_at).toLocaleString("en-US", {
+                timeZone: timezone,
                 timeStyle: "short",
               }),
-              roomName: event.rooms?.name || "Unknown Room",
+              roomName: formatReservedRooms(event, rooms || [], { full: true }) || event.rooms?.name || "Unknown Room",
               status: emailStatus,
               requesterName: creator.full_name || "User",
               reviewerNotes: event.reviewer_notes || undefined,
@@ -374,8 +454,9 @@ const Admin = () => {
   const handleRejectWithReason = async (reason: string) => {
     if (!eventToReject) return;
 
-    // Check if this is a recurring event
-    if (eventToReject.is_recurring) {
+    // Check if this is a recurring event; a rejection in an approval chain rejects the whole series
+    const approval = pendingEvents?.find((pending) => pending.id === eventToReject.id)?.approval;
+    if (eventToReject.is_recurring && !(approval && approval.steps.length > 0)) {
       setPendingRejectionReason(reason);
       setRejectionDialogOpen(false);
       setRecurringRejectDialogOpen(true);
@@ -417,32 +498,28 @@ const Admin = () => {
         .single();
 
       const reviewerId = (await supabase.auth.getUser()).data.user?.id;
+      const approval = pendingEvents?.find((pending) => pending.id === eventToReject.id)?.approval;
 
-      if (scope === "all") {
-        // Reject all events in the series
-        const parentId = eventToReject.parent_event_id || eventToReject.id;
+      if (approval && approval.steps.length > 0) {
+        // Recorded as this approver's decision, which rejects the event (and its series)
+        await approvalService.decide(eventToReject.id, "rejected", reason);
 
-        // Update the parent event
-        await supabase
-          .from("events")
-          .update({
-            status: "rejected",
-            reviewer_id: reviewerId,
-            reviewer_notes: reason,
-          })
-          .eq("id", parentId);
-
-        // Update all child events
-        await supabase
-          .from("events")
-          .update({
-            status: "rejected",
-            reviewer_id: reviewerId,
-            reviewer_notes: reason,
-          })
-          .eq("parent_event_id", parentId);
+        toast({ title: "Event rejected" });
+      } else if (scope === "all") {
+        // Reject the series and all of its overrides
+        const parentId = eventToReject.parent_event_id || eventToReject.id;
+        await eventService.updateSeriesStatus(parentId, "rejected", reviewerId, reason);
 
         toast({ title: "All events in series rejected" });
+      } else if (event.recurrence_rule && !event.parent_event_id) {
+        // Reject only the first occurrence of the series through an override row
+        await eventService.saveOccurrence(event.id, event.starts_at, {
+          status: "rejected",
+          reviewer_id: reviewerId,
+          reviewer_notes: reason,
+        });
+
+        toast({ title: "Event rejected" });
       } else {
         // Reject only this event
         const { error } = await supabase
@@ -469,13 +546,15 @@ const Admin = () => {
               to: creator.email,
               eventTitle: event.title,
               eventStartTime: new Date(event.starts_at).toLocaleString("en-US", {
+                timeZone: timezone,
                 dateStyle: "full",
                 timeStyle: "short",
               }),
               eventEndTime: new Date(event.ends_at).toLocaleString("en-US", {
+                timeZone: timezone,
                 timeStyle: "short",
               }),
-              roomName: event.rooms?.name || "Unknown Room",
+              roomName: formatReservedRooms(event, rooms || [], { full: true }) || event.rooms?.name || "Unknown Room",
               status: "rejected",
               requesterName: creator.full_name || "User",
               reviewerNotes: reason,
@@ -506,6 +585,11 @@ const Admin = () => {
         console.warn("No email found for creator, skipping notification");
       }
 
+      // The rejected booking no longer holds its slot; tell requesters of promoted holds
+      if (currentOrganization?.id) {
+        eventService.notifyPromotedHolds(currentOrganization.id, timezone);
+      }
+
       setRejectionDialogOpen(false);
       setEventToReject(null);
       refetchPending();
@@ -544,12 +628,16 @@ const Admin = () => {
         .eq("id", event.created_by)
         .single();
 
-      const { error } = await supabase
-        .from("events")
-        .update({ status: "pending_review" })
-        .eq("id", eventId);
+      if (event.recurrence_rule && !event.parent_event_id) {
+        await eventService.updateSeriesStatus(eventId, "pending_review");
+      } else {
+        const { error } = await supabase
+          .from("events")
+          .update({ status: "pending_review" })
+          .eq("id", eventId);
 
-      if (error) throw error;
+        if (error) throw error;
+      }
 
       toast({ title: "Event moved to pending review" });
 
@@ -563,13 +651,15 @@ const Admin = () => {
               to: creator.email,
               eventTitle: event.title,
               eventStartTime: new Date(event.starts_at).toLocaleString("en-US", {
+                timeZone: timezone,
                 dateStyle: "full",
                 timeStyle: "short",
               }),
               eventEndTime: new Date(event.ends_at).toLocaleString("en-US", {
+                timeZone: timezone,
                 timeStyle: "short",
               }),
-              roomName: event.rooms?.name || "Unknown Room",
+              roomName: formatReservedRooms(event, rooms || [], { full: true }) || event.rooms?.name || "Unknown Room",
               status: "unapproved",
               requesterName: creator.full_name || "User",
               reviewerNotes: event.reviewer_notes || undefined,
@@ -613,6 +703,35 @@ const Admin = () => {
     }
   };
 
+  // Audit trail of every event in the organization, including deleted ones
+  const handleExportHistory = async () => {
+    if (!currentOrganization?.id) return;
+
+    setIsExportingHistory(true);
+    try {
+      const history = await eventService.listHistory(currentOrganization.id);
+      const result = exportService.historyToCSV(history, {
+        organizationSlug: currentOrganization.slug,
+        timezone,
+        roomNames: Object.fromEntries((rooms || []).map((room) => [room.id, room.name])),
+      });
+
+      if (result.success) {
+        toast({ title: "History exported", description: result.filename });
+      } else {
+        toast({ title: "Export failed", description: result.error, variant: "destructive" });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExportingHistory(false);
+    }
+  };
+
   const handleViewEvent = (eventId: string) => {
     setSelectedEventId(eventId);
     setIsEventDialogOpen(true);
@@ -621,6 +740,7 @@ const Admin = () => {
   const statusColors: Record<string, string> = {
     draft: "bg-gray-500",
     pending_review: "bg-amber-500",
+    hold: "bg-violet-500",
     approved: "bg-green-500",
     rejected: "bg-red-500",
     published: "bg-blue-500",
@@ -636,15 +756,62 @@ const Admin = () => {
               {isAdmin ? "Review and manage event submissions" : "Track the status of your event requests"}
             </p>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => setIsExportDialogOpen(true)}
-            className="gap-2 self-start"
-          >
-            <Download className="h-4 w-4" />
-            Export
-          </Button>
+          <div className="flex gap-2 self-start">
+            {isAdmin && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsResourcesDialogOpen(true)}
+                className="gap-2"
+              >
+                <Package className="h-4 w-4" />
+                Resources
+              </Button>
+            )}
+            {isAdmin && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsSignageDialogOpen(true)}
+                className="gap-2"
+              >
+                <Tv className="h-4 w-4" />
+                Lobby Display
+              </Button>
+            )}
+            {isAdmin && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsPoliciesDialogOpen(true)}
+                className="gap-2"
+              >
+                <Zap className="h-4 w-4" />
+                Auto-approval
+              </Button>
+            )}
+            {isAdmin && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExportHistory}
+                disabled={isExportingHistory}
+                className="gap-2"
+              >
+                <History className="h-4 w-4" />
+                {isExportingHistory ? "Exporting..." : "Export History"}
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsExportDialogOpen(true)}
+              className="gap-2"
+            >
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+          </div>
         </div>
 
         <Tabs defaultValue="pending" className="space-y-4">
@@ -666,11 +833,28 @@ const Admin = () => {
           </TabsList>
 
           <TabsContent value="pending" className="space-y-4">
+            {(isAdmin || waitingOnMeCount > 0) && (
+              <div className="flex justify-end">
+                <Button
+                  variant={waitingOnMeOnly ? "default" : "outline"}
+                  size="sm"
+                  className="gap-2 text-xs sm:text-sm"
+                  onClick={() => setWaitingOnMeOnly(!waitingOnMeOnly)}
+                >
+                  <UserCheck className="h-3 w-3 sm:h-4 sm:w-4" />
+                  Waiting on me ({waitingOnMeCount})
+                </Button>
+              </div>
+            )}
             {filteredPendingEvents.length === 0 ? (
               <Card>
                 <CardContent className="py-8">
                   <p className="text-center text-muted-foreground">
-                    {searchQuery ? "No events match your search" : "No events pending review"}
+                    {searchQuery
+                      ? "No events match your search"
+                      : waitingOnMeOnly
+                        ? "Nothing is waiting on you"
+                        : "No events pending review"}
                   </p>
                 </CardContent>
               </Card>
@@ -687,10 +871,10 @@ const Admin = () => {
                               {event.status.replace("_", " ")}
                             </Badge>
                             <span className="text-xs sm:text-sm">
-                              {event.room?.name} • {format(new Date(event.starts_at), "MMM d, yyyy")}
+                              {formatReservedRooms(event, rooms || []) || event.room?.name} • {formatInTimeZone(event.starts_at, "MMM d, yyyy", timezone)}
                             </span>
                             <span className="text-xs sm:text-sm text-muted-foreground">
-                              {format(new Date(event.starts_at), "h:mm a")} - {format(new Date(event.ends_at), "h:mm a")}
+                              {formatInTimeZone(event.starts_at, "h:mm a", timezone)} - {formatInTimeZone(event.ends_at, "h:mm a", timezone)}
                             </span>
                           </div>
                           {event.description && (
@@ -712,13 +896,15 @@ const Admin = () => {
                               Submitted {formatDistance(new Date(event.created_at), new Date(), { addSuffix: true })}
                             </span>
                           </div>
+                          <ApprovalChainProgress chain={event.approval} timezone={timezone} className="pt-1" />
+                          <EventResourceSummary event={event} requests={getResourceRequests(event)} timezone={timezone} />
                         </CardDescription>
                       </div>
                     </div>
                   </CardHeader>
                   <CardContent className="pt-0">
                     <div className="flex flex-wrap gap-2">
-                      {isAdmin && (
+                      {isWaitingOnMe(event.approval) && (
                         <>
                           <Button
                             variant="default"
@@ -727,7 +913,7 @@ const Admin = () => {
                             onClick={() => handleStatusChange(event.id, "approved")}
                           >
                             <Check className="h-3 w-3 sm:h-4 sm:w-4 mr-1" />
-                            Approve
+                            {event.approval?.steps.length > 0 ? "Sign Off" : "Approve"}
                           </Button>
                           <Button
                             variant="destructive"
@@ -772,11 +958,17 @@ const Admin = () => {
                             <Badge variant="secondary" className={`${statusColors[event.status]} text-[10px] sm:text-xs`}>
                               {event.status.replace("_", " ")}
                             </Badge>
+                            {event.approval_policy_name && (
+                              <Badge variant="outline" className="gap-1 text-[10px] sm:text-xs">
+                                <Zap className="h-3 w-3" />
+                                Auto-approved: {event.approval_policy_name}
+                              </Badge>
+                            )}
                             <span className="text-xs sm:text-sm">
-                              {event.room?.name} • {format(new Date(event.starts_at), "MMM d, yyyy")}
+                              {formatReservedRooms(event, rooms || []) || event.room?.name} • {formatInTimeZone(event.starts_at, "MMM d, yyyy", timezone)}
                             </span>
                             <span className="text-xs sm:text-sm text-muted-foreground">
-                              {format(new Date(event.starts_at), "h:mm a")} - {format(new Date(event.ends_at), "h:mm a")}
+                              {formatInTimeZone(event.starts_at, "h:mm a", timezone)} - {formatInTimeZone(event.ends_at, "h:mm a", timezone)}
                             </span>
                           </div>
                           {event.description && (
@@ -793,6 +985,7 @@ const Admin = () => {
                               )}
                             </div>
                           )}
+                          <EventResourceSummary event={event} requests={getResourceRequests(event)} timezone={timezone} />
                         </CardDescription>
                       </div>
                     </div>
@@ -850,11 +1043,17 @@ const Admin = () => {
                             <Badge variant="secondary" className={`${statusColors[event.status]} text-[10px] sm:text-xs`}>
                               {event.status.replace("_", " ")}
                             </Badge>
+                            {event.approval_policy_name && (
+                              <Badge variant="outline" className="gap-1 text-[10px] sm:text-xs">
+                                <Zap className="h-3 w-3" />
+                                Auto-approved: {event.approval_policy_name}
+                              </Badge>
+                            )}
                             <span className="text-xs sm:text-sm">
-                              {event.room?.name} • {format(new Date(event.starts_at), "MMM d, yyyy")}
+                              {formatReservedRooms(event, rooms || []) || event.room?.name} • {formatInTimeZone(event.starts_at, "MMM d, yyyy", timezone)}
                             </span>
                             <span className="text-xs sm:text-sm text-muted-foreground">
-                              {format(new Date(event.starts_at), "h:mm a")} - {format(new Date(event.ends_at), "h:mm a")}
+                              {formatInTimeZone(event.starts_at, "h:mm a", timezone)} - {formatInTimeZone(event.ends_at, "h:mm a", timezone)}
                             </span>
                           </div>
                           {event.description && (
@@ -930,10 +1129,10 @@ const Admin = () => {
                               {event.status.replace("_", " ")}
                             </Badge>
                             <span className="text-xs sm:text-sm">
-                              {event.room?.name} • {format(new Date(event.starts_at), "MMM d, yyyy")}
+                              {formatReservedRooms(event, rooms || []) || event.room?.name} • {formatInTimeZone(event.starts_at, "MMM d, yyyy", timezone)}
                             </span>
                             <span className="text-xs sm:text-sm text-muted-foreground">
-                              {format(new Date(event.starts_at), "h:mm a")} - {format(new Date(event.ends_at), "h:mm a")}
+                              {formatInTimeZone(event.starts_at, "h:mm a", timezone)} - {formatInTimeZone(event.ends_at, "h:mm a", timezone)}
                             </span>
                           </div>
                           {event.description && (
@@ -1029,9 +1228,37 @@ const Admin = () => {
           organizationName={currentOrganization?.name || "Calendar"}
           organizationSlug={currentOrganization?.slug}
           timezone={currentOrganization?.timezone}
+          organizationId={currentOrganization?.id}
           userId={user?.id}
           isAdmin={isAdmin}
         />
+
+        {isAdmin && (
+          <ApprovalPoliciesDialog
+            open={isPoliciesDialogOpen}
+            onOpenChange={setIsPoliciesDialogOpen}
+            organizationId={currentOrganization?.id}
+            rooms={rooms || []}
+          />
+        )}
+
+        {isAdmin && (
+          <ResourcesDialog
+            open={isResourcesDialogOpen}
+            onOpenChange={setIsResourcesDialogOpen}
+            organizationId={currentOrganization?.id}
+          />
+        )}
+
+        {isAdmin && (
+          <SignageSettingsDialog
+            open={isSignageDialogOpen}
+            onOpenChange={setIsSignageDialogOpen}
+            organizationId={currentOrganization?.id}
+            organizationSlug={currentOrganization?.slug}
+            rooms={rooms || []}
+          />
+        )}
       </div>
     </DashboardLayout>
   );
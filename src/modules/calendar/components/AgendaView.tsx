@@ -0,0 +1,161 @@
+import { useMemo, useState } from "react";
+import { CalendarX, Search } from "lucide-react";
+import { Badge } from "@/shared/components/ui/badge";
+import { Input } from "@/shared/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/components/ui/select";
+import { cn } from "@/shared/lib/utils";
+import OccurrenceIndicator from "./OccurrenceIndicator";
+import type { EventCategory, EventColorBy } from "../types";
+import {
+  AGENDA_RANGE_OPTIONS,
+  formatInTimeZone,
+  formatReservedRooms,
+  getEventColor,
+  groupEventsByDay,
+  searchEvents,
+  zonedNow,
+} from "../utils";
+
+interface AgendaEvent {
+  id: string;
+  title: string;
+  description?: string | null;
+  starts_at: string;
+  ends_at: string;
+  status: string;
+  room_id: string;
+  room: { id: string; name: string; color: string } | null;
+  additional_room_ids?: string[] | null;
+  is_whole_building?: boolean | null;
+  reserved_rooms?: { id: string; name: string; color: string }[];
+  category?: EventCategory | null;
+  ministry_id?: string | null;
+  creator: { full_name: string; ministry_name?: string | null } | null;
+  is_recurring?: boolean | null;
+  series_id?: string;
+  parent_event_id?: string | null;
+  recurrence_id?: string | null;
+}
+
+interface AgendaViewProps {
+  events: AgendaEvent[];
+  onEventClick: (eventId: string) => void;
+  // Days the agenda covers, chosen by the viewer and loaded by the page
+  rangeDays: number;
+  onRangeDaysChange: (days: number) => void;
+  hideStatus?: boolean;
+  timezone?: string;
+  colorBy?: EventColorBy;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: "Draft",
+  pending_review: "Pending",
+  hold: "Hold",
+  approved: "Approved",
+  rejected: "Rejected",
+  published: "Published",
+};
+
+/**
+ * Scrollable list of the events in a range, grouped by day, with search
+ */
+const AgendaView = ({
+  events,
+  onEventClick,
+  rangeDays,
+  onRangeDaysChange,
+  hideStatus = false,
+  timezone,
+  colorBy = "room",
+}: AgendaViewProps) => {
+  const [search, setSearch] = useState("");
+  const days = useMemo(() => groupEventsByDay(searchEvents(events, search), timezone), [events, search, timezone]);
+  const today = formatInTimeZone(zonedNow(), "yyyy-MM-dd", timezone);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search events, rooms or organizers..."
+            className="pl-9"
+          />
+        </div>
+        <Select value={String(rangeDays)} onValueChange={(value) => onRangeDaysChange(Number(value))}>
+          <SelectTrigger className="sm:w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {AGENDA_RANGE_OPTIONS.map((option) => (
+              <SelectItem key={option.days} value={String(option.days)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="max-h-[70vh] overflow-y-auto rounded-lg border bg-background">
+        {days.length === 0 ? (
+          <div className="py-12 text-center text-muted-foreground">
+            <CalendarX className="mx-auto mb-3 h-10 w-10" />
+            <p>{search ? "No events match your search" : "No events in this period"}</p>
+          </div>
+        ) : (
+          days.map(({ day, events: dayEvents }) => (
+            <section key={day}>
+              <h3 className="sticky top-0 z-10 flex items-center gap-2 border-b bg-muted/80 px-3 py-2 text-sm font-semibold backdrop-blur">
+                {formatInTimeZone(dayEvents[0].starts_at, "EEEE, MMMM d, yyyy", timezone)}
+                {day === today && <Badge className="h-5 text-[10px]">Today</Badge>}
+              </h3>
+              <ul className="divide-y">
+                {dayEvents.map((event) => (
+                  <li
+                    key={event.id}
+                    className="flex cursor-pointer items-start gap-3 px-3 py-2.5 hover:bg-accent/50"
+                    onClick={() => onEventClick(event.id)}
+                  >
+                    <span className="w-28 shrink-0 pt-0.5 text-xs text-muted-foreground sm:w-36 sm:text-sm">
+                      {formatInTimeZone(event.starts_at, "h:mm a", timezone)} –{" "}
+                      {formatInTimeZone(event.ends_at, "h:mm a", timezone)}
+                    </span>
+                    <span
+                      className="mt-1.5 h-2.5 w-2.5 shrink-0 rounded-full"
+                      style={{ backgroundColor: getEventColor(event, colorBy) }}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="flex items-center gap-1.5 text-sm font-medium">
+                        <span className="truncate">{event.title}</span>
+                        <OccurrenceIndicator event={event} className="h-3 w-3 text-muted-foreground" timezone={timezone} />
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {(event.reserved_rooms?.length
+                          ? formatReservedRooms(event, event.reserved_rooms)
+                          : event.room?.name) || "No room"}
+                        {event.creator?.ministry_name && ` · ${event.creator.ministry_name}`}
+                      </p>
+                    </div>
+                    {!hideStatus && (
+                      <Badge
+                        variant="outline"
+                        className={cn("shrink-0 text-[10px]", event.status === "pending_review" && "border-amber-400")}
+                      >
+                        {STATUS_LABELS[event.status] || event.status}
+                      </Badge>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AgendaView;
@@ -0,0 +1,61 @@
+import { CheckCircle2, Circle, Clock, XCircle } from "lucide-react";
+import { cn } from "@/shared/lib/utils";
+import type { ApprovalChain } from "../types";
+import { formatInTimeZone } from "../utils";
+
+interface ApprovalChainProgressProps {
+  chain: ApprovalChain | undefined;
+  // Zone the decision times are shown in
+  timezone?: string;
+  className?: string;
+}
+
+/**
+ * Steps of an event's approval chain, in order, with who decided each one and
+ * which steps the event is waiting on
+ */
+const ApprovalChainProgress = ({ chain, timezone, className }: ApprovalChainProgressProps) => {
+  if (!chain || chain.steps.length === 0) return null;
+
+  return (
+    <ol className={cn("space-y-1 text-xs", className)}>
+      {chain.steps.map((step) => {
+        const isWaiting = chain.waiting.some((waiting) => waiting.id === step.id);
+        const decision = step.approval?.decision;
+
+        return (
+          <li key={step.id} className="flex items-start gap-1.5">
+            {decision === "approved" ? (
+              <CheckCircle2 className="mt-px h-3.5 w-3.5 shrink-0 text-green-600" />
+            ) : decision === "rejected" ? (
+              <XCircle className="mt-px h-3.5 w-3.5 shrink-0 text-red-600" />
+            ) : isWaiting ? (
+              <Clock className="mt-px h-3.5 w-3.5 shrink-0 text-amber-600" />
+            ) : (
+              <Circle className="mt-px h-3.5 w-3.5 shrink-0 text-slate-300" />
+            )}
+            <span className={cn("min-w-0", !decision && !isWaiting && "text-muted-foreground")}>
+              <span className="font-medium text-foreground">{step.name}</span>
+              <span className="text-muted-foreground"> · {step.room_name}</span>
+              {step.approval ? (
+                <span className="text-muted-foreground">
+                  {" "}
+                  — {decision === "approved" ? "signed off" : "rejected"}{" "}
+                  {formatInTimeZone(step.approval.decided_at, "MMM d, h:mm a", timezone)}
+                </span>
+              ) : (
+                <span className="text-muted-foreground">
+                  {" "}
+                  — {isWaiting ? "waiting on " : ""}
+                  {step.approver_name || "any admin"}
+                </span>
+              )}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default ApprovalChainProgress;
@@ -0,0 +1,310 @@
+/**
+ * ApprovalPoliciesDialog - manage the policies that approve routine bookings
+ * as soon as they are submitted for review
+ */
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/shared/components/ui/dialog";
+import { Button } from "@/shared/components/ui/button";
+import { Checkbox } from "@/shared/components/ui/checkbox";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import { Switch } from "@/shared/components/ui/switch";
+import { Pencil, Plus, Trash2, Zap } from "lucide-react";
+import { useToast } from "@/shared/hooks/use-toast";
+import { useAuth } from "@/shared/contexts/AuthContext";
+import {
+  useApprovalPolicies,
+  useCreateApprovalPolicy,
+  useDeleteApprovalPolicy,
+  useUpdateApprovalPolicy,
+} from "../hooks";
+import type { ApprovalPolicyInput } from "../services";
+import type { ApprovalPolicy } from "../types";
+import { describeApprovalPolicy, REQUESTER_ROLE_LABELS } from "../utils";
+
+type RequesterRole = NonNullable<ApprovalPolicy["requester_roles"]>[number];
+
+// Form state; the duration is edited in hours
+interface PolicyForm {
+  name: string;
+  requester_roles: RequesterRole[];
+  room_ids: string[];
+  max_duration_hours: string;
+  require_approved_series: boolean;
+}
+
+const EMPTY_FORM: PolicyForm = {
+  name: "",
+  requester_roles: [],
+  room_ids: [],
+  max_duration_hours: "",
+  require_approved_series: false,
+};
+
+const toForm = (policy: ApprovalPolicy): PolicyForm => ({
+  name: policy.name,
+  requester_roles: policy.requester_roles || [],
+  room_ids: policy.room_ids || [],
+  max_duration_hours: policy.max_duration_minutes ? String(policy.max_duration_minutes / 60) : "",
+  require_approved_series: policy.require_approved_series,
+});
+
+const toggle = <T,>(values: T[], value: T, checked: boolean): T[] =>
+  checked ? [...values, value] : values.filter((v) => v !== value);
+
+interface ApprovalPoliciesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId: string | undefined;
+  rooms: { id: string; name: string }[];
+}
+
+const ApprovalPoliciesDialog = ({ open, onOpenChange, organizationId, rooms }: ApprovalPoliciesDialogProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { data: policies } = useApprovalPolicies(organizationId);
+  const createPolicy = useCreateApprovalPolicy();
+  const updatePolicy = useUpdateApprovalPolicy();
+  const deletePolicy = useDeleteApprovalPolicy();
+
+  // Policy being edited: its id, "new", or null while listing
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<PolicyForm>(EMPTY_FORM);
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "An error occurred",
+      variant: "destructive",
+    });
+
+  const startEditing = (policy?: ApprovalPolicy) => {
+    setForm(policy ? toForm(policy) : EMPTY_FORM);
+    setEditing(policy?.id || "new");
+  };
+
+  const handleSave = async () => {
+    if (!organizationId || !user) return;
+
+    const hours = form.max_duration_hours ? Number(form.max_duration_hours) : null;
+    if (!form.name.trim()) {
+      toast({ title: "Validation error", description: "Give the policy a name", variant: "destructive" });
+      return;
+    }
+    if (hours !== null && (!Number.isFinite(hours) || hours <= 0)) {
+      toast({ title: "Validation error", description: "Maximum length must be more than 0 hours", variant: "destructive" });
+      return;
+    }
+
+    const policy: Omit<ApprovalPolicyInput, "is_active"> = {
+      name: form.name.trim(),
+      requester_roles: form.requester_roles.length > 0 ? form.requester_roles : null,
+      room_ids: form.room_ids.length > 0 ? form.room_ids : null,
+      max_duration_minutes: hours !== null ? Math.round(hours * 60) : null,
+      require_approved_series: form.require_approved_series,
+    };
+
+    if (describeApprovalPolicy(policy).length === 0) {
+      toast({
+        title: "Validation error",
+        description: "Choose at least one condition, or every event would be approved",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      if (editing === "new") {
+        await createPolicy.mutateAsync({ organizationId, userId: user.id, policy: { ...policy, is_active: true } });
+        toast({ title: "Policy added" });
+      } else if (editing) {
+        await updatePolicy.mutateAsync({ policyId: editing, policy });
+        toast({ title: "Policy updated" });
+      }
+      setEditing(null);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleToggle = async (policy: ApprovalPolicy, isActive: boolean) => {
+    try {
+      await updatePolicy.mutateAsync({ policyId: policy.id, policy: { is_active: isActive } });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (policy: ApprovalPolicy) => {
+    try {
+      await deletePolicy.mutateAsync({ policyId: policy.id, organizationId: policy.organization_id });
+      toast({ title: "Policy removed" });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) setEditing(null);
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Zap className="h-5 w-5" />
+            Auto-approval Policies
+          </DialogTitle>
+          <DialogDescription>
+            Events submitted for review are approved straight away when they meet every condition of a policy.
+            Rooms with an approval chain always need their sign-offs.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="policy-name">Name</Label>
+              <Input
+                id="policy-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., Weekly prayer meetings"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Requested by</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(REQUESTER_ROLE_LABELS) as RequesterRole[]).map((role) => (
+                  <label key={role} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.requester_roles.includes(role)}
+                      onCheckedChange={(checked) =>
+                        setForm({ ...form, requester_roles: toggle(form.requester_roles, role, checked === true) })
+                      }
+                    />
+                    {REQUESTER_ROLE_LABELS[role]}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Leave empty for any role.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rooms</Label>
+              <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+                {rooms.map((room) => (
+                  <label key={room.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.room_ids.includes(room.id)}
+                      onCheckedChange={(checked) =>
+                        setForm({ ...form, room_ids: toggle(form.room_ids, room.id, checked === true) })
+                      }
+                    />
+                    <span className="truncate">{room.name}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Every room an event books must be listed. Leave empty for any room; whole-building events never qualify.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="policy-duration">Maximum length (hours)</Label>
+              <Input
+                id="policy-duration"
+                type="number"
+                min="0.5"
+                step="0.5"
+                value={form.max_duration_hours}
+                onChange={(e) => setForm({ ...form, max_duration_hours: e.target.value })}
+                placeholder="Any length"
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={form.require_approved_series}
+                onCheckedChange={(checked) => setForm({ ...form, require_approved_series: checked === true })}
+              />
+              Only recurring series an admin has approved before
+            </label>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={handleSave}
+                disabled={createPolicy.isPending || updatePolicy.isPending}
+              >
+                {editing === "new" ? "Add Policy" : "Save Policy"}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {policies?.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No policies yet. Every event waits for an admin to review it.
+              </p>
+            )}
+
+            {policies?.map((policy) => (
+              <div key={policy.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+                <div className="min-w-0 space-y-1">
+                  <p className="text-sm font-medium">{policy.name}</p>
+                  <ul className="text-xs text-muted-foreground">
+                    {describeApprovalPolicy(policy, rooms).map((condition) => (
+                      <li key={condition}>{condition}</li>
+                    ))}
+                  </ul>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Switch
+                    checked={policy.is_active}
+                    onCheckedChange={(checked) => handleToggle(policy, checked)}
+                    aria-label="Active"
+                  />
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => startEditing(policy)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-destructive"
+                    onClick={() => handleDelete(policy)}
+                    disabled={deletePolicy.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <Button variant="outline" size="sm" className="w-full gap-2" onClick={() => startEditing()}>
+              <Plus className="h-4 w-4" />
+              Add Policy
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ApprovalPoliciesDialog;
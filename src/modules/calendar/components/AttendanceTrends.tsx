@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { TrendingUp } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/shared/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/components/ui/select";
+import { useIsMobile } from "@/shared/hooks/use-mobile";
+import { useAttendanceTrends } from "../hooks";
+import { formatInTimeZone } from "../utils";
+
+interface AttendanceTrendsProps {
+  organizationId: string | undefined;
+  // Zone the occurrence dates are shown in
+  timezone?: string;
+}
+
+/**
+ * Registered and attending headcounts over the occurrences of a recurring
+ * series. Hidden until a series has attendance.
+ */
+const AttendanceTrends = ({ organizationId, timezone }: AttendanceTrendsProps) => {
+  const isMobile = useIsMobile();
+  const { data: trends = [] } = useAttendanceTrends(organizationId);
+  const [seriesId, setSeriesId] = useState<string | null>(null);
+
+  if (trends.length === 0) return null;
+
+  const trend = trends.find((t) => t.series_id === seriesId) || trends[0];
+  const data = trend.points.map((point) => ({
+    ...point,
+    label: formatInTimeZone(point.occurrence_start, "MMM d", timezone),
+  }));
+  const latest = trend.points[trend.points.length - 1];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-3 space-y-0 pb-2 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <TrendingUp className="h-4 w-4" />
+            Attendance
+          </CardTitle>
+          <CardDescription>
+            {latest.attended} attended on {formatInTimeZone(latest.occurrence_start, "MMM d", timezone)}
+            {latest.walk_ins > 0 && ` (${latest.walk_ins} walk-ins)`}
+          </CardDescription>
+        </div>
+        <Select value={trend.series_id} onValueChange={setSeriesId}>
+          <SelectTrigger className="h-8 w-full text-xs sm:w-[220px]" aria-label="Series">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {trends.map((t) => (
+              <SelectItem key={t.series_id} value={t.series_id}>
+                {t.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={isMobile ? 200 : 260}>
+          <LineChart data={data} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="label" tick={{ fontSize: 11 }} interval="preserveStartEnd" />
+            <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+            <Tooltip />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Line type="monotone" dataKey="registered" name="Registered" stroke="#94a3b8" strokeDasharray="4 4" dot={false} />
+            <Line type="monotone" dataKey="attended" name="Attended" stroke="#2563eb" strokeWidth={2} />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AttendanceTrends;
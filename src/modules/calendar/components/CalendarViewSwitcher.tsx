@@ -1,22 +1,30 @@
 import { Button } from "@/shared/components/ui/button";
-import { Calendar, CalendarDays, CalendarRange } from "lucide-react";
+import { Calendar, CalendarDays, CalendarRange, Grid3x3, List, Rows3 } from "lucide-react";
 import { cn } from "@/shared/lib/utils";
 
-export type CalendarView = "week" | "day" | "month";
+export type CalendarView = "week" | "day" | "month" | "agenda" | "year" | "timeline";
 
 interface CalendarViewSwitcherProps {
   currentView: CalendarView;
   onViewChange: (view: CalendarView) => void;
+  // Offer the room-by-room timeline (internal calendars only)
+  showTimeline?: boolean;
 }
 
 const CalendarViewSwitcher = ({
   currentView,
   onViewChange,
+  showTimeline = false,
 }: CalendarViewSwitcherProps) => {
   const views: { value: CalendarView; label: string; icon: React.ReactNode }[] = [
     { value: "day", label: "Day", icon: <Calendar className="h-4 w-4" /> },
     { value: "week", label: "Week", icon: <CalendarRange className="h-4 w-4" /> },
     { value: "month", label: "Month", icon: <CalendarDays className="h-4 w-4" /> },
+    { value: "agenda", label: "Agenda", icon: <List className="h-4 w-4" /> },
+    { value: "year", label: "Year", icon: <Grid3x3 className="h-4 w-4" /> },
+    ...(showTimeline
+      ? [{ value: "timeline" as const, label: "Rooms", icon: <Rows3 className="h-4 w-4" /> }]
+      : []),
   ];
 
   return (
@@ -0,0 +1,117 @@
+import { CalendarClock, DoorOpen, Loader2, Users } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { useAlternativeRooms, useFreeSlots } from "../hooks";
+import type { BookingRequest, SlotSuggestion } from "../services";
+import type { Room } from "../types";
+import { formatInTimeZone } from "../utils";
+
+interface ConflictAssistantProps {
+  organizationId?: string;
+  // Booking that could not be made; null hides the assistant
+  request: BookingRequest | null;
+  timeZone?: string;
+  // Offer other rooms only when the booking holds a single room
+  suggestRooms?: boolean;
+  onSelectSlot: (slot: SlotSuggestion) => void;
+  onSelectRoom: (room: Room) => void;
+}
+
+/**
+ * Suggestions for a booking that collides or falls outside room availability:
+ * the nearest free times in the same rooms and other rooms free at that time
+ */
+const ConflictAssistant = ({
+  organizationId,
+  request,
+  timeZone,
+  suggestRooms = true,
+  onSelectSlot,
+  onSelectRoom,
+}: ConflictAssistantProps) => {
+  const { data: slots, isLoading: slotsLoading } = useFreeSlots(organizationId, request, timeZone);
+  const { data: alternatives, isLoading: roomsLoading } = useAlternativeRooms(
+    organizationId,
+    suggestRooms ? request : null,
+    timeZone
+  );
+
+  if (!request) return null;
+
+  const formatSlot = (slot: SlotSuggestion) =>
+    `${formatInTimeZone(slot.starts_at, "EEE, MMM d · h:mm a", timeZone)} – ${formatInTimeZone(slot.ends_at, "h:mm a", timeZone)}`;
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-200 bg-slate-50/60 p-4">
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <CalendarClock className="h-4 w-4" />
+          Nearest free times
+        </div>
+        {slotsLoading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Looking for free times...
+          </div>
+        ) : !slots || slots.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No free time found within a few days.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1.5">
+            {slots.map((slot) => (
+              <Button
+                key={slot.starts_at}
+                type="button"
+                size="sm"
+                variant="outline"
+                className="h-7 bg-white text-xs"
+                onClick={() => onSelectSlot(slot)}
+              >
+                {formatSlot(slot)}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {suggestRooms && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+            <DoorOpen className="h-4 w-4" />
+            Other rooms free at this time
+          </div>
+          {roomsLoading ? (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              Checking rooms...
+            </div>
+          ) : !alternatives || alternatives.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No other room is free at this time.</p>
+          ) : (
+            <div className="flex flex-wrap gap-1.5">
+              {alternatives.slice(0, 5).map((room) => (
+                <Button
+                  key={room.id}
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="h-7 gap-1.5 bg-white text-xs"
+                  onClick={() => onSelectRoom(room)}
+                >
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: room.color || "#888" }} />
+                  {room.name}
+                  {room.capacity && (
+                    <span className="flex items-center gap-0.5 text-muted-foreground">
+                      <Users className="h-3 w-3" />
+                      {room.capacity}
+                    </span>
+                  )}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConflictAssistant;
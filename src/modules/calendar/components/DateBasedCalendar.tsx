@@ -14,6 +14,7 @@ import {
 } from "date-fns";
 import { Clock, Plus } from "lucide-react";
 import { cn } from "@/shared/lib/utils";
+import OccurrenceIndicator from "./OccurrenceIndicator";
 
 interface Event {
   id: string;
@@ -24,6 +25,10 @@ interface Event {
   created_by: string;
   room: { id: string; name: string; color: string };
   creator: { full_name: string; ministry_name?: string } | null;
+  is_recurring?: boolean | null;
+  series_id?: string;
+  parent_event_id?: string | null;
+  recurrence_id?: string | null;
 }
 
 interface DateBasedCalendarProps {
@@ -100,6 +105,7 @@ const DateBasedCalendar = ({
     const colors: Record<string, string> = {
       draft: "bg-gray-500",
       pending_review: "bg-amber-500",
+      hold: "bg-violet-500",
       approved: "bg-green-500",
       rejected: "bg-red-500",
       published: "bg-blue-500",
@@ -214,6 +220,7 @@ const DateBasedCalendar = ({
                               <span>
                                 {format(parseISO(event.starts_at), "h:mm a")} - {format(parseISO(event.ends_at), "h:mm a")}
                               </span>
+                              <OccurrenceIndicator event={event} className="h-3 w-3" />
                             </div>
                             <div className="flex flex-wrap items-center gap-1">
                               {event.room && (
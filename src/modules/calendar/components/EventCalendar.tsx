@@ -57,6 +57,7 @@ interface EventCalendarProps {
 const statusColors = {
   draft: "bg-muted text-muted-foreground border-muted",
   pending_review: "bg-warning/10 text-warning border-warning/20",
+  hold: "bg-violet-500/10 text-violet-600 border-violet-500/20",
   approved: "bg-success/10 text-success border-success/20",
   rejected: "bg-destructive/10 text-destructive border-destructive/20",
   published: "bg-primary/10 text-primary border-primary/20",
@@ -65,6 +66,7 @@ const statusColors = {
 const statusLabels = {
   draft: "Draft",
   pending_review: "Pending",
+  hold: "On Hold",
   approved: "Approved",
   rejected: "Rejected",
   published: "Published",
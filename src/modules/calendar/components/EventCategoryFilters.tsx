@@ -0,0 +1,90 @@
+import { Palette } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/components/ui/select";
+import { cn } from "@/shared/lib/utils";
+import { EVENT_CATEGORIES, EVENT_CATEGORY_LABELS } from "../utils";
+import type { EventCategory, EventColorBy, EventFilters, EventMinistry } from "../types";
+
+export type CategoryFilters = Pick<EventFilters, "category" | "ministry_id">;
+
+interface EventCategoryFiltersProps {
+  value: CategoryFilters;
+  onChange: (value: CategoryFilters) => void;
+  ministries?: EventMinistry[];
+  // Shows a "color by" select next to the filters when set
+  colorBy?: EventColorBy;
+  onColorByChange?: (colorBy: EventColorBy) => void;
+  className?: string;
+  triggerClassName?: string;
+}
+
+const ALL = "all";
+
+/**
+ * Category and owning ministry filters for lists of events, optionally with
+ * the choice of what the calendar colors events by
+ */
+const EventCategoryFilters = ({
+  value,
+  onChange,
+  ministries = [],
+  colorBy,
+  onColorByChange,
+  className,
+  triggerClassName,
+}: EventCategoryFiltersProps) => (
+  <div className={cn("flex flex-wrap items-center gap-2", className)}>
+    <Select
+      value={value.category || ALL}
+      onValueChange={(category) =>
+        onChange({ ...value, category: category === ALL ? undefined : (category as EventCategory) })
+      }
+    >
+      <SelectTrigger className={cn("h-8 w-[140px] text-xs", triggerClassName)} aria-label="Category">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>All categories</SelectItem>
+        {EVENT_CATEGORIES.map((category) => (
+          <SelectItem key={category} value={category}>
+            {EVENT_CATEGORY_LABELS[category]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+
+    {ministries.length > 0 && (
+      <Select
+        value={value.ministry_id || ALL}
+        onValueChange={(ministryId) => onChange({ ...value, ministry_id: ministryId === ALL ? undefined : ministryId })}
+      >
+        <SelectTrigger className={cn("h-8 w-[160px] text-xs", triggerClassName)} aria-label="Ministry">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All ministries</SelectItem>
+          {ministries.map((ministry) => (
+            <SelectItem key={ministry.id} value={ministry.id}>
+              {ministry.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )}
+
+    {colorBy && onColorByChange && (
+      <Select value={colorBy} onValueChange={(next) => onColorByChange(next as EventColorBy)}>
+        <SelectTrigger className={cn("h-8 w-[170px] text-xs", triggerClassName)} aria-label="Color events by">
+          <Palette className="h-3.5 w-3.5 mr-1.5 shrink-0" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="room">Color by room</SelectItem>
+          <SelectItem value="category">Color by category</SelectItem>
+          <SelectItem value="ministry">Color by ministry</SelectItem>
+        </SelectContent>
+      </Select>
+    )}
+  </div>
+);
+
+export default EventCategoryFilters;
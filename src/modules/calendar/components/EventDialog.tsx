@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/shared/contexts/AuthContext";
@@ -9,6 +9,8 @@ import { Input } from "@/shared/components/ui/input";
 import { Label } from "@/shared/components/ui/label";
 import { Textarea } from "@/shared/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/components/ui/select";
+import { Checkbox } from "@/shared/components/ui/checkbox";
+import { Switch } from "@/shared/components/ui/switch";
 import { useToast } from "@/shared/hooks/use-toast";
 import { Alert, AlertDescription } from "@/shared/components/ui/alert";
 import { AlertCircle, Info } from "lucide-react";
@@ -16,18 +18,67 @@ import { z } from "zod";
 import { Badge } from "@/shared/components/ui/badge";
 import { ScrollArea } from "@/shared/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/shared/components/ui/tabs";
-import { Clock, MapPin, User, Repeat, Calendar } from "lucide-react";
-import { format, parseISO } from "date-fns";
+import { Clock, MapPin, User, Repeat, Calendar, Search, Hourglass, Zap } from "lucide-react";
+import { format } from "date-fns";
 import { cn } from "@/shared/lib/utils";
 import { RecurrenceSelector, RecurrenceConfig, recurrenceConfigToRRule, rruleToRecurrenceConfig } from "@/modules/calendar/components/RecurrenceSelector";
 import { RejectionReasonDialog } from "@/shared/components/RejectionReasonDialog";
 import { RecurringEventActionDialog, RecurringActionScope } from "@/shared/components/RecurringEventActionDialog";
+import RecurrenceExceptions from "@/modules/calendar/components/RecurrenceExceptions";
+import RoomFinder from "@/modules/calendar/components/RoomFinder";
+import ConflictAssistant from "@/modules/calendar/components/ConflictAssistant";
+import SeriesConflictReport from "@/modules/calendar/components/SeriesConflictReport";
+import ApprovalChainProgress from "@/modules/calendar/components/ApprovalChainProgress";
+import EventHistoryTimeline from "@/modules/calendar/components/EventHistoryTimeline";
+import EventRegistrations from "@/modules/calendar/components/EventRegistrations";
+import ResourceRequestsEditor from "@/modules/calendar/components/ResourceRequestsEditor";
+import TimeZoneNotice from "@/modules/calendar/components/TimeZoneNotice";
+import {
+  approvalService,
+  eventService,
+  type BookingRequest,
+  type ResourceCheck,
+  type ResourceRequestInput,
+} from "@/modules/calendar/services";
+import {
+  useApprovalChain,
+  useEventMinistries,
+  useHoldQueue,
+  useResourceRequests,
+  useResources,
+  useResourceShortages,
+  useRoomAvailability,
+  useSeriesConflicts,
+  useSetResourceRequests,
+} from "@/modules/calendar/hooks";
+import {
+  EVENT_CATEGORIES,
+  EVENT_CATEGORY_LABELS,
+  formatBuffers,
+  formatInTimeZone,
+  formatReservedRooms,
+  fromZonedTime,
+  getAvailabilityIssue,
+  getBlockedRange,
+  getRegistrationTarget,
+  getSeriesEditChanges,
+  getSeriesEndDate,
+  isSameInstant,
+  isWaitingOn,
+  MAX_BUFFER_MINUTES,
+  toZonedTime,
+  zonedNow,
+} from "@/modules/calendar/utils";
+import type { EventCategory, EventStatus } from "@/modules/calendar/types";
 
 interface EventDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   eventId: string | null;
   initialDate?: Date | null;
+  // End and room of a slot picked on the room timeline
+  initialEndDate?: Date | null;
+  initialRoomId?: string | null;
   onSuccess: () => void;
   allEvents?: any[];
   onEventSelect?: (eventId: string) => void;
@@ -37,6 +88,18 @@ const eventSchema = z.object({
   title: z.string().min(1, "Title is required").max(200, "Title too long"),
   description: z.string().max(1000, "Description too long").optional(),
   room_id: z.string().uuid("Invalid room"),
+  additional_room_ids: z.array(z.string().uuid("Invalid room")),
+  is_whole_building: z.boolean(),
+  setup_minutes: z.number().int().min(0, "Setup time cannot be negative").max(MAX_BUFFER_MINUTES, "Setup time too long"),
+  teardown_minutes: z.number().int().min(0, "Teardown time cannot be negative").max(MAX_BUFFER_MINUTES, "Teardown time too long"),
+  category: z.enum(EVENT_CATEGORIES as [EventCategory, ...EventCategory[]]).or(z.literal("")),
+  ministry_id: z.string().uuid("Invalid ministry").or(z.literal("")),
+  registration_enabled: z.boolean(),
+  // Empty for no limit
+  registration_capacity: z.string().refine(
+    (value) => value === "" || (Number.isInteger(Number(value)) && Number(value) > 0),
+    "Capacity must be a whole number above 0"
+  ),
   starts_at: z.string().min(1, "Start time is required"),
   ends_at: z.string().min(1, "End time is required"),
 }).refine((data) => new Date(data.ends_at) > new Date(data.starts_at), {
@@ -44,16 +107,50 @@ const eventSchema = z.object({
   path: ["ends_at"],
 });
 
-const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allEvents = [], onEventSelect }: EventDialogProps) => {
+// Helper function to format date for datetime-local input (preserves local timezone)
+const formatDateTimeLocal = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${year}-${month}-${day}T${hours}:${minutes}`;
+};
+
+const EventDialog = ({
+  open,
+  onOpenChange,
+  eventId,
+  initialDate,
+  initialEndDate,
+  initialRoomId,
+  onSuccess,
+  allEvents = [],
+  onEventSelect,
+}: EventDialogProps) => {
   const { user, isAdmin } = useAuth();
   const { currentOrganization } = useOrganization();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
+  // Times are entered and shown in the organization's zone
+  const timezone = currentOrganization?.timezone;
 
   const [formData, setFormData] = useState({
     title: "",
     description: "",
     room_id: "",
+    // Further rooms held by the event, or every room with is_whole_building
+    additional_room_ids: [] as string[],
+    is_whole_building: false,
+    // Setup and teardown buffers, in minutes; new events start from the room's defaults
+    setup_minutes: 0,
+    teardown_minutes: 0,
+    // Empty when not set
+    category: "" as EventCategory | "",
+    ministry_id: "",
+    // Public registration; an empty capacity means no limit
+    registration_enabled: false,
+    registration_capacity: "",
     starts_at: "",
     ends_at: "",
   });
@@ -65,6 +162,9 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
   });
 
   const [validationError, setValidationError] = useState<string>("");
+  const [showRoomFinder, setShowRoomFinder] = useState(false);
+  // Colliding dates a new series is created without
+  const [skippedDates, setSkippedDates] = useState<string[]>([]);
   const [roomConflict, setRoomConflict] = useState<{hasConflict: boolean, conflictingEvent?: any, creatorName?: string}>({hasConflict: false});
   const [rejectionDialogOpen, setRejectionDialogOpen] = useState(false);
   const [rejectionLoading, setRejectionLoading] = useState(false);
@@ -73,23 +173,23 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
   const [recurringUpdateDialogOpen, setRecurringUpdateDialogOpen] = useState(false);
   const [pendingRejectionReason, setPendingRejectionReason] = useState<string>("");
   const [pendingUpdateData, setPendingUpdateData] = useState<any>(null);
+  // Resources requested with the booking, saved with the event or its series
+  const [resourceRequests, setResourceRequests] = useState<ResourceRequestInput[]>([]);
 
+  // eventId may be an expanded occurrence id (`<series id>_<start>`), which the service resolves
   const { data: event } = useQuery({
     queryKey: ["event", eventId],
     queryFn: async () => {
       if (!eventId) return null;
-      const { data, error } = await supabase
-        .from("events")
-        .select("*")
-        .eq("id", eventId)
-        .single();
-
-      if (error) throw error;
-      return data;
+      return eventService.get(eventId);
     },
     enabled: !!eventId,
   });
 
+  // Series and original occurrence start the dialog acts on for recurring events
+  const seriesId = event ? event.series_id || event.parent_event_id || event.id : null;
+  const occurrenceStart = event ? event.occurrence_start || event.recurrence_id || event.starts_at : null;
+
   const { data: rooms } = useQuery({
     queryKey: ["rooms", currentOrganization?.id],
     queryFn: async () => {
@@ -108,33 +208,68 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
     enabled: !!currentOrganization?.id,
   });
 
-  // Helper function to format date for datetime-local input (preserves local timezone)
-  const formatDateTimeLocal = (date: Date): string => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const hours = String(date.getHours()).padStart(2, '0');
-    const minutes = String(date.getMinutes()).padStart(2, '0');
-    return `${year}-${month}-${day}T${hours}:${minutes}`;
-  };
+  const { data: availabilityRules } = useRoomAvailability(currentOrganization?.id);
+  const { data: ministries } = useEventMinistries(currentOrganization?.id);
+  const { data: resources } = useResources(currentOrganization?.id);
+  const { data: savedResourceRequests } = useResourceRequests(seriesId ? [seriesId] : []);
+  const savedRequestInputs = useMemo<ResourceRequestInput[]>(
+    () =>
+      (savedResourceRequests || []).map(({ resource_id, quantity, responsible, notes }) => ({
+        resource_id,
+        quantity,
+        responsible,
+        notes,
+      })),
+    [savedResourceRequests]
+  );
+  const saveResourceRequestsMutation = useSetResourceRequests();
+
+  useEffect(() => {
+    setResourceRequests(savedRequestInputs);
+  }, [savedRequestInputs]);
+
+  // Ministry named on the requester's profile
+  const { data: requesterMinistryName } = useQuery({
+    queryKey: ["profile-ministry", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("ministry_name")
+        .eq("id", user!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.ministry_name || null;
+    },
+    enabled: !!user?.id && !eventId,
+  });
+  const defaultMinistryId = ministries?.find((m) => m.name === requesterMinistryName)?.id || "";
 
   useEffect(() => {
     if (event) {
-      // Parse ISO string to local time for editing
-      const startsAt = new Date(event.starts_at);
-      const endsAt = new Date(event.ends_at);
+      // Show the stored times as wall-clock times in the organization's zone
+      const startsAt = toZonedTime(event.starts_at, timezone);
+      const endsAt = toZonedTime(event.ends_at, timezone);
 
       setFormData({
         title: event.title,
         description: event.description || "",
         room_id: event.room_id,
+        additional_room_ids: event.additional_room_ids || [],
+        is_whole_building: event.is_whole_building || false,
+        setup_minutes: event.setup_minutes || 0,
+        teardown_minutes: event.teardown_minutes || 0,
+        category: event.category || "",
+        ministry_id: event.ministry_id || "",
+        registration_enabled: event.registration_enabled || false,
+        registration_capacity: event.registration_capacity ? String(event.registration_capacity) : "",
         starts_at: formatDateTimeLocal(startsAt),
         ends_at: formatDateTimeLocal(endsAt),
       });
 
       // Load recurrence config if available
       if (event.recurrence_rule) {
-        setRecurrence(rruleToRecurrenceConfig(event.recurrence_rule));
+        setRecurrence(rruleToRecurrenceConfig(event.recurrence_rule, timezone));
       } else {
         setRecurrence({
           frequency: 'none',
@@ -143,8 +278,8 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
         });
       }
     } else {
-      // Set default start time based on initialDate or now
-      const baseDate = initialDate || new Date();
+      // Set default start time based on initialDate (a wall-clock time from the calendar views) or now
+      const baseDate = initialDate || zonedNow(timezone);
       // If initialDate is provided, use its time if it has one (not midnight), otherwise default to 9 AM
       let startDate: Date;
       if (initialDate) {
@@ -160,9 +295,17 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
       setFormData({
         title: "",
         description: "",
-        room_id: "",
+        room_id: initialRoomId || "",
+        additional_room_ids: [],
+        is_whole_building: false,
+        setup_minutes: 0,
+        teardown_minutes: 0,
+        category: "",
+        ministry_id: "",
+        registration_enabled: false,
+        registration_capacity: "",
         starts_at: formatDateTimeLocal(startDate),
-        ends_at: formatDateTimeLocal(oneHourLater),
+        ends_at: formatDateTimeLocal(initialEndDate && initialEndDate > startDate ? initialEndDate : oneHourLater),
       });
 
       // Reset recurrence for new events
@@ -173,7 +316,31 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
       });
     }
     setValidationError("");
-  }, [event, initialDate]);
+    setSkippedDates([]);
+  }, [event, initialDate, initialEndDate, initialRoomId, timezone]);
+
+  // New events belong to the requester's ministry unless they pick another
+  useEffect(() => {
+    if (!event && defaultMinistryId) {
+      setFormData((current) => (current.ministry_id ? current : { ...current, ministry_id: defaultMinistryId }));
+    }
+  }, [event, initialDate, defaultMinistryId]);
+
+  // New events booked from a room's row start with that room's buffers
+  useEffect(() => {
+    const initialRoom = !event && initialRoomId ? rooms?.find((r) => r.id === initialRoomId) : undefined;
+    if (initialRoom) {
+      setFormData((current) =>
+        current.room_id === initialRoom.id && !current.setup_minutes && !current.teardown_minutes
+          ? {
+              ...current,
+              setup_minutes: initialRoom.default_setup_minutes || 0,
+              teardown_minutes: initialRoom.default_teardown_minutes || 0,
+            }
+          : current
+      );
+    }
+  }, [event, initialDate, initialRoomId, rooms]);
 
   // Check for room conflicts
   const checkRoomConflict = async () => {
@@ -183,38 +350,26 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
     }
 
     try {
-      // First, check if the selected room allows overlapping bookings
-      const selectedRoom = rooms?.find(r => r.id === formData.room_id);
-      if (selectedRoom?.allow_overlap) {
-        // Allow multiple bookings for rooms that permit overlaps
-        setRoomConflict({hasConflict: false});
-        return;
-      }
-
-      // Check for conflicting events in the same room
+      // Check for conflicting events in any of the reserved rooms (rooms that allow
+      // overlapping bookings never conflict)
       // Include pending_review, approved, and published events
       // Convert datetime-local to ISO format for proper comparison
       const startISO = dateTimeLocalToISO(formData.starts_at);
       const endISO = dateTimeLocalToISO(formData.ends_at);
 
-      const { data: conflictingEvents, error } = await supabase
-        .from("events")
-        .select(`
-          id,
-          title,
-          starts_at,
-          ends_at,
-          status,
-          created_by
-        `)
-        .eq("room_id", formData.room_id)
-        .in("status", ["pending_review", "approved", "published"])
-        .or(`and(starts_at.lt.${endISO},ends_at.gt.${startISO})`);
-
-      if (error) throw error;
-
-      // Filter out the current event if editing
-      const conflicts = conflictingEvents?.filter(e => e.id !== eventId) || [];
+      // Includes occurrences of recurring series; the current event's series is excluded when editing
+      const conflicts = await eventService.checkConflicts(
+        {
+          room_id: formData.room_id,
+          additional_room_ids: formData.additional_room_ids,
+          is_whole_building: formData.is_whole_building,
+          setup_minutes: formData.setup_minutes,
+          teardown_minutes: formData.teardown_minutes,
+        },
+        startISO,
+        endISO,
+        eventId || undefined
+      );
 
       if (conflicts.length > 0) {
         const conflict = conflicts[0];
@@ -258,7 +413,31 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
   useEffect(() => {
     checkRoomConflict();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [formData.room_id, formData.starts_at, formData.ends_at, eventId, rooms]);
+  }, [
+    formData.room_id,
+    formData.additional_room_ids,
+    formData.is_whole_building,
+    formData.setup_minutes,
+    formData.teardown_minutes,
+    formData.starts_at,
+    formData.ends_at,
+    eventId,
+    rooms,
+  ]);
+
+  const handleRoomChange = (value: string) => {
+    const room = rooms?.find((r) => r.id === value);
+    setFormData({
+      ...formData,
+      room_id: value,
+      additional_room_ids: formData.additional_room_ids.filter((id) => id !== value),
+      // New events pick up the room's buffers; edits keep their own
+      ...(!eventId && room && {
+        setup_minutes: room.default_setup_minutes,
+        teardown_minutes: room.default_teardown_minutes,
+      }),
+    });
+  };
 
   const handleStartTimeChange = (value: string) => {
     setFormData({ ...formData, starts_at: value });
@@ -281,15 +460,167 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
   };
 
   // Helper function to convert datetime-local string to ISO string
-  const dateTimeLocalToISO = (dateTimeLocal: string): string => {
+  const dateTimeLocalToISO = useCallback((dateTimeLocal: string): string => {
     // datetime-local gives us "2025-10-31T08:06" (no timezone info)
-    // Parse it as local time and convert to ISO (UTC)
-    // This preserves the user's intended time when displayed back in their timezone
-    const date = new Date(dateTimeLocal);
+    // Read it as a wall-clock time in the organization's zone and convert to ISO (UTC),
+    // so the event lands at the same local time whatever zone the editor is in
+    const date = fromZonedTime(new Date(dateTimeLocal), timezone);
     return date.toISOString();
+  }, [timezone]);
+
+  // Blackout periods and room availability windows refuse some slots outright
+  const availabilityIssue = useMemo(() => {
+    if (!formData.room_id || !formData.starts_at || !formData.ends_at || validationError || !availabilityRules) {
+      return null;
+    }
+
+    return getAvailabilityIssue(
+      {
+        room_id: formData.room_id,
+        additional_room_ids: formData.is_whole_building ? [] : formData.additional_room_ids,
+        starts_at: dateTimeLocalToISO(formData.starts_at),
+        ends_at: dateTimeLocalToISO(formData.ends_at),
+        setup_minutes: formData.setup_minutes,
+        teardown_minutes: formData.teardown_minutes,
+      },
+      rooms || [],
+      availabilityRules.windows,
+      availabilityRules.blackouts,
+      timezone
+    );
+  }, [
+    formData.room_id,
+    formData.additional_room_ids,
+    formData.is_whole_building,
+    formData.setup_minutes,
+    formData.teardown_minutes,
+    formData.starts_at,
+    formData.ends_at,
+    validationError,
+    availabilityRules,
+    rooms,
+    timezone,
+    dateTimeLocalToISO,
+  ]);
+
+  // Booking as entered, for conflict suggestions and the series report
+  const bookingRequest = useMemo<BookingRequest | null>(() => {
+    if (!formData.room_id || !formData.starts_at || !formData.ends_at || validationError) return null;
+
+    return {
+      room_id: formData.room_id,
+      additional_room_ids: formData.is_whole_building ? [] : formData.additional_room_ids,
+      is_whole_building: formData.is_whole_building,
+      starts_at: dateTimeLocalToISO(formData.starts_at),
+      ends_at: dateTimeLocalToISO(formData.ends_at),
+      setup_minutes: formData.setup_minutes,
+      teardown_minutes: formData.teardown_minutes,
+      excludeEventId: eventId || undefined,
+    };
+  }, [
+    formData.room_id,
+    formData.additional_room_ids,
+    formData.is_whole_building,
+    formData.setup_minutes,
+    formData.teardown_minutes,
+    formData.starts_at,
+    formData.ends_at,
+    validationError,
+    eventId,
+    dateTimeLocalToISO,
+  ]);
+
+  // New series (including a single event being made recurring) are checked date by date
+  const isNewSeries = recurrence.frequency !== 'none' && !event?.is_recurring;
+  const seriesRule = isNewSeries && bookingRequest
+    ? recurrenceConfigToRRule(recurrence, new Date(bookingRequest.starts_at), timezone)
+    : null;
+  const { data: seriesConflicts, isLoading: seriesConflictsLoading } = useSeriesConflicts(
+    currentOrganization?.id,
+    isNewSeries ? bookingRequest : null,
+    seriesRule,
+    timezone
+  );
+  const seriesExdates = skippedDates.filter((date) =>
+    seriesConflicts?.some((occurrence) => isSameInstant(occurrence.occurrence_start, date))
+  );
+  const unresolvedSeriesConflicts = (seriesConflicts || []).filter(
+    (occurrence) => !seriesExdates.some((date) => isSameInstant(date, occurrence.occurrence_start))
+  );
+  // A hold waits on the booking it collides with, so that collision does not block saving it
+  const isHold = event?.status === 'hold';
+  const { data: holdQueue } = useHoldQueue(isHold ? event : null);
+  const canPlaceHold = !eventId && !isNewSeries && roomConflict.hasConflict && !availabilityIssue;
+  const hasBlockingConflict = isNewSeries
+    ? (!!seriesRule && seriesConflictsLoading) || unresolvedSeriesConflicts.length > 0
+    : (roomConflict.hasConflict && !isHold) || !!availabilityIssue;
+
+  // Requested resources are checked against overlapping bookings on every date
+  const resourceCheck = useMemo<ResourceCheck | null>(() => {
+    if (!bookingRequest || resourceRequests.length === 0) return null;
+
+    return {
+      starts_at: bookingRequest.starts_at,
+      ends_at: bookingRequest.ends_at,
+      setup_minutes: bookingRequest.setup_minutes,
+      teardown_minutes: bookingRequest.teardown_minutes,
+      recurrence_rule: recurrenceConfigToRRule(recurrence, new Date(bookingRequest.starts_at), timezone),
+      requests: resourceRequests.map(({ resource_id, quantity }) => ({ resource_id, quantity })),
+      excludeEventId: seriesId,
+    };
+  }, [bookingRequest, recurrence, resourceRequests, seriesId, timezone]);
+  const { data: resourceShortages, isFetching: resourceShortagesLoading } = useResourceShortages(
+    currentOrganization?.id,
+    resourceCheck,
+    timezone
+  );
+
+  // Rooms with approval chains need every step to sign off; the chain is kept on the series
+  const { data: approvalChain } = useApprovalChain(
+    currentOrganization?.id,
+    event?.status === 'pending_review' && !event.parent_event_id ? { ...event, id: seriesId! } : null
+  );
+  const hasApprovalChain = !!approvalChain && approvalChain.steps.length > 0;
+  const canReview = hasApprovalChain ? isWaitingOn(approvalChain, user?.id, isAdmin) : isAdmin;
+
+  // Actions that free a slot may promote holds, whose requesters are then emailed
+  const handleSuccess = () => {
+    if (currentOrganization?.id) {
+      eventService.notifyPromotedHolds(currentOrganization.id, timezone);
+    }
+    onSuccess();
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // Submitted events may be approved straight away by an auto-approval policy;
+  // a failure leaves them waiting for a reviewer
+  const applyApprovalPolicies = async (submittedId: string): Promise<string | null> => {
+    try {
+      return await approvalService.applyPolicies(submittedId);
+    } catch (error) {
+      console.error("Failed to apply approval policies:", error);
+      return null;
+    }
+  };
+
+  // Save the requested resources with a standalone event or series; a new
+  // series split off an old one starts without requests, so it always gets them
+  const saveResourceRequests = async (bookingId: string, always = false) => {
+    if (!currentOrganization?.id) return;
+    if (!always && JSON.stringify(resourceRequests) === JSON.stringify(savedRequestInputs)) return;
+
+    await saveResourceRequestsMutation.mutateAsync({
+      organizationId: currentOrganization.id,
+      eventId: bookingId,
+      requests: resourceRequests,
+    });
+  };
+
+  const autoApprovedToast = (policyName: string) => ({
+    title: "Event approved",
+    description: `Approved automatically by the "${policyName}" policy`,
+  });
+
+  const handleSubmit = async (e: React.FormEvent, asHold = false) => {
     e.preventDefault();
     setLoading(true);
 
@@ -324,6 +655,16 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
         title: validated.title,
         description: validated.description,
         room_id: validated.room_id,
+        additional_room_ids: validated.is_whole_building
+          ? []
+          : validated.additional_room_ids.filter((id) => id !== validated.room_id),
+        is_whole_building: validated.is_whole_building,
+        setup_minutes: validated.setup_minutes,
+        teardown_minutes: validated.teardown_minutes,
+        category: validated.category || null,
+        ministry_id: validated.ministry_id || null,
+        registration_enabled: validated.registration_enabled,
+        registration_capacity: validated.registration_capacity ? Number(validated.registration_capacity) : null,
         starts_at: startsAt,
         ends_at: endsAt,
         organization_id: currentOrganization.id,
@@ -345,102 +686,85 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
           return;
         }
 
-        // Not recurring, proceed with single event update
+        // Not recurring, proceed with single event update (optionally turning it into a series)
+        const rrule = recurrenceConfigToRRule(recurrence, new Date(startsAt), timezone);
+        // A hold moved to a free time, or made a series, goes to review instead
+        const releasesHold = isHold && (!!rrule || !roomConflict.hasConflict);
         const { error } = await supabase
           .from("events")
-          .update(updatePayload)
+          .update({
+            ...updatePayload,
+            ...(releasesHold && { status: 'pending_review' as const }),
+            is_recurring: !!rrule,
+            recurrence_rule: rrule,
+            recurrence_end_date: getSeriesEndDate(rrule, startsAt, endsAt, timezone),
+            ...(rrule && { recurrence_exdates: seriesExdates }),
+          })
           .eq("id", eventId);
 
         if (error) throw error;
+        await saveResourceRequests(seriesId || eventId);
 
-        toast({
-          title: shouldAutoSubmit ? "Event updated and submitted for review" : "Event updated successfully",
-          description: shouldAutoSubmit ? "Your changes have been sent to admins for approval" : undefined
+        const policyName = shouldAutoSubmit || releasesHold ? await applyApprovalPolicies(eventId) : null;
+        toast(policyName ? autoApprovedToast(policyName) : {
+          title: shouldAutoSubmit || releasesHold ? "Event updated and submitted for review" : "Event updated successfully",
+          description: shouldAutoSubmit || releasesHold ? "Your changes have been sent to admins for approval" : undefined
         });
       } else {
         // For new events, check if recurring
         if (recurrence.frequency !== 'none') {
           // Generate RRULE
-          const rrule = recurrenceConfigToRRule(recurrence, new Date(startsAt));
-
-          // Calculate recurrence end date
-          let recurrenceEndDate: string | null = null;
-          if (recurrence.endType === 'on' && recurrence.endDate) {
-            recurrenceEndDate = new Date(recurrence.endDate).toISOString();
-          }
+          const rrule = recurrenceConfigToRRule(recurrence, new Date(startsAt), timezone);
 
-          // Create parent event with recurrence rule
-          const parentEvent = {
+          // The series is stored once; occurrences are expanded when events are listed
+          const { data: created, error } = await supabase.from("events").insert([{
             ...eventData,
             created_by: user!.id,
             status: 'pending_review' as const,
             is_recurring: true,
             recurrence_rule: rrule,
-            recurrence_end_date: recurrenceEndDate,
-          };
-
-          const { data: parent, error: parentError } = await supabase
-            .from("events")
-            .insert([parentEvent])
-            .select()
-            .single();
-
-          if (parentError) throw parentError;
-
-          // Generate recurring instances
-          const instances = generateRecurringInstances(
-            new Date(startsAt),
-            new Date(endsAt),
-            recurrence,
-            parent.id,
-            100 // Limit to 100 instances
-          );
-
-          // Insert all instances
-          const instancesData = instances.map(inst => ({
-            title: validated.title,
-            description: validated.description,
-            room_id: validated.room_id,
-            starts_at: inst.starts_at.toISOString(),
-            ends_at: inst.ends_at.toISOString(),
-            created_by: user!.id,
-            status: 'pending_review' as const,
-            is_recurring: true,
-            parent_event_id: parent.id,
-            organization_id: currentOrganization.id,
-          }));
+            recurrence_end_date: getSeriesEndDate(rrule, startsAt, endsAt, timezone),
+            recurrence_exdates: seriesExdates,
+          }]).select("id").single();
 
-          if (instancesData.length > 0) {
-            const { error: instancesError } = await supabase
-              .from("events")
-              .insert(instancesData);
-
-            if (instancesError) throw instancesError;
-          }
+          if (error) throw error;
+          await saveResourceRequests(created.id);
 
-          toast({
+          const policyName = await applyApprovalPolicies(created.id);
+          toast(policyName ? autoApprovedToast(policyName) : {
             title: "Recurring event created",
-            description: `Created ${instancesData.length + 1} event${instancesData.length > 0 ? 's' : ''} and submitted for review`
+            description: "The series has been submitted for review"
           });
         } else {
-          // Non-recurring event
-          const { error } = await supabase.from("events").insert([{
+          // Non-recurring event, or a hold waiting for the booked slot
+          const { data: created, error } = await supabase.from("events").insert([{
             ...eventData,
             created_by: user!.id,
-            status: 'pending_review' as const,
+            status: asHold ? 'hold' as const : 'pending_review' as const,
             is_recurring: false,
-          }]);
+          }]).select("id").single();
 
           if (error) throw error;
+          await saveResourceRequests(created.id);
 
-          toast({
-            title: "Event created and submitted for review",
-            description: "Your event has been sent to admins for approval"
-          });
+          const policyName = asHold ? null : await applyApprovalPolicies(created.id);
+          if (policyName) {
+            toast(autoApprovedToast(policyName));
+          } else {
+            toast(asHold
+              ? {
+                  title: "Hold placed",
+                  description: "You'll be emailed and the event submitted for review if the time frees up"
+                }
+              : {
+                  title: "Event created and submitted for review",
+                  description: "Your event has been sent to admins for approval"
+                });
+          }
         }
       }
 
-      onSuccess();
+      handleSuccess();
     } catch (error) {
       if (error instanceof z.ZodError) {
         toast({
@@ -460,148 +784,6 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
     }
   };
 
-  // Helper function to get the nth weekday of a month (e.g., 1st Monday, last Saturday)
-  // weekOfMonth: 1-4 for first through fourth, -1 for last
-  const getNthWeekdayOfMonth = (
-    year: number,
-    month: number,
-    dayOfWeek: number, // 0 = Sunday, 6 = Saturday
-    weekOfMonth: number // 1-4 or -1 for last
-  ): Date | null => {
-    if (weekOfMonth === -1) {
-      // Last occurrence of the weekday in the month
-      const lastDay = new Date(year, month + 1, 0); // Last day of month
-      const lastDayOfWeek = lastDay.getDay();
-      let diff = lastDayOfWeek - dayOfWeek;
-      if (diff < 0) diff += 7;
-      const result = new Date(year, month, lastDay.getDate() - diff);
-      return result;
-    } else if (weekOfMonth >= 1 && weekOfMonth <= 4) {
-      // First, second, third, or fourth occurrence
-      const firstDay = new Date(year, month, 1);
-      const firstDayOfWeek = firstDay.getDay();
-      let diff = dayOfWeek - firstDayOfWeek;
-      if (diff < 0) diff += 7;
-      const firstOccurrence = 1 + diff;
-      const nthOccurrence = firstOccurrence + (weekOfMonth - 1) * 7;
-
-      // Verify it's still in the same month
-      const result = new Date(year, month, nthOccurrence);
-      if (result.getMonth() !== month) {
-        return null; // This occurrence doesn't exist (e.g., 5th Monday)
-      }
-      return result;
-    }
-    return null;
-  };
-
-  // Helper function to generate recurring event instances
-  const generateRecurringInstances = (
-    startDate: Date,
-    endDate: Date,
-    config: RecurrenceConfig,
-    parentId: string,
-    maxInstances: number
-  ): Array<{ starts_at: Date; ends_at: Date }> => {
-    const instances: Array<{ starts_at: Date; ends_at: Date }> = [];
-    const duration = endDate.getTime() - startDate.getTime();
-
-    let currentDate = new Date(startDate);
-    let count = 0;
-
-    // Determine end condition
-    const maxDate = config.endType === 'on' && config.endDate
-      ? new Date(config.endDate)
-      : new Date(startDate.getTime() + 365 * 24 * 60 * 60 * 1000); // 1 year max if no end date
-
-    const maxCount = config.endType === 'after' && config.occurrences
-      ? config.occurrences - 1 // -1 because parent event is the first occurrence
-      : maxInstances;
-
-    while (count < maxCount && currentDate <= maxDate) {
-      // Calculate next occurrence based on frequency
-      let nextDate: Date | null = null;
-
-      switch (config.frequency) {
-        case 'daily':
-          currentDate.setDate(currentDate.getDate() + config.interval);
-          nextDate = new Date(currentDate);
-          break;
-
-        case 'weekly':
-          // For weekly, we need to find the next matching day of week
-          let daysAdded = 0;
-          const maxDaysToCheck = 7 * config.interval;
-
-          while (daysAdded < maxDaysToCheck) {
-            currentDate.setDate(currentDate.getDate() + 1);
-            daysAdded++;
-
-            const dayOfWeek = currentDate.getDay();
-            const weeksSinceStart = Math.floor(
-              (currentDate.getTime() - startDate.getTime()) / (7 * 24 * 60 * 60 * 1000)
-            );
-
-            // Check if this day matches and we're on the right interval week
-            if (
-              config.daysOfWeek?.includes(dayOfWeek) &&
-              weeksSinceStart % config.interval === 0
-            ) {
-              nextDate = new Date(currentDate);
-              break;
-            }
-          }
-          break;
-
-        case 'monthly':
-          currentDate.setMonth(currentDate.getMonth() + config.interval);
-          if (config.monthlyType === 'weekday' && config.weekOfMonth !== undefined && config.dayOfWeekForMonth !== undefined) {
-            // Calculate the nth weekday of the month (e.g., first Monday, last Saturday)
-            nextDate = getNthWeekdayOfMonth(
-              currentDate.getFullYear(),
-              currentDate.getMonth(),
-              config.dayOfWeekForMonth,
-              config.weekOfMonth
-            );
-            if (nextDate) {
-              // Preserve the time from the original event
-              nextDate.setHours(startDate.getHours(), startDate.getMinutes(), startDate.getSeconds());
-              currentDate = new Date(nextDate);
-            }
-          } else if (config.dayOfMonth) {
-            currentDate.setDate(Math.min(config.dayOfMonth, new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0).getDate()));
-            nextDate = new Date(currentDate);
-          } else {
-            nextDate = new Date(currentDate);
-          }
-          break;
-
-        case 'yearly':
-          currentDate.setFullYear(currentDate.getFullYear() + config.interval);
-          if (config.monthOfYear) {
-            currentDate.setMonth(config.monthOfYear - 1);
-          }
-          if (config.dayOfMonth) {
-            currentDate.setDate(Math.min(config.dayOfMonth, new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0).getDate()));
-          }
-          nextDate = new Date(currentDate);
-          break;
-      }
-
-      if (!nextDate || nextDate > maxDate) break;
-
-      const instanceEnd = new Date(nextDate.getTime() + duration);
-      instances.push({
-        starts_at: nextDate,
-        ends_at: instanceEnd,
-      });
-
-      count++;
-    }
-
-    return instances;
-  };
-
   const handleStatusChange = async (newStatus: string) => {
     if (!eventId || !event) return;
 
@@ -620,15 +802,28 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
         .eq("id", event.created_by)
         .single();
 
-      // Get room name
-      const selectedRoom = rooms?.find(r => r.id === event.room_id);
+      // Get room names
+      const roomNames = formatReservedRooms(event, rooms || [], { full: true });
 
-      const { error } = await supabase
-        .from("events")
-        .update(updateData)
-        .eq("id", eventId);
+      if (hasApprovalChain && newStatus === "approved") {
+        // Sign off the waiting steps; the event is approved after the last one
+        const chainStatus = await approvalService.decide(seriesId!, "approved");
+        if (chainStatus !== "approved") {
+          toast({ title: "Sign-off recorded", description: "The event moves on to its next approval step" });
+          handleSuccess();
+          return;
+        }
+      } else if (event.is_recurring && !event.parent_event_id) {
+        // Reviewing a series occurrence reviews the whole series
+        await eventService.updateSeriesStatus(seriesId!, newStatus as EventStatus, updateData.reviewer_id);
+      } else {
+        const { error } = await supabase
+          .from("events")
+          .update(updateData)
+          .eq("id", event.id);
 
-      if (error) throw error;
+        if (error) throw error;
+      }
 
       toast({ title: `Event ${newStatus}` });
 
@@ -644,11 +839,13 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
               eventStartTime: new Date(event.starts_at).toLocaleString("en-US", {
                 dateStyle: "full",
                 timeStyle: "short",
+                timeZone: timezone,
               }),
               eventEndTime: new Date(event.ends_at).toLocaleString("en-US", {
                 timeStyle: "short",
+                timeZone: timezone,
               }),
-              roomName: selectedRoom?.name || "Unknown Room",
+              roomName: roomNames || "Unknown Room",
               status: emailStatus,
               requesterName: creator.full_name || "User",
               reviewerNotes: event.reviewer_notes || undefined,
@@ -660,7 +857,7 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
         }
       }
 
-      onSuccess();
+      handleSuccess();
     } catch (error) {
       toast({
         title: "Error",
@@ -675,8 +872,8 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
   const handleRejectWithReason = async (reason: string) => {
     if (!eventId || !event) return;
 
-    // Check if this is a recurring event
-    if (event.is_recurring) {
+    // Check if this is a recurring event; a rejection in an approval chain rejects the whole series
+    if (event.is_recurring && !hasApprovalChain) {
       setPendingRejectionReason(reason);
       setRejectionDialogOpen(false);
       setRecurringRejectDialogOpen(true);
@@ -705,34 +902,28 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
         .eq("id", event.created_by)
         .single();
 
-      // Get room name
-      const selectedRoom = rooms?.find(r => r.id === event.room_id);
+      // Get room names
+      const roomNames = formatReservedRooms(event, rooms || [], { full: true });
 
-      if (scope === "all") {
-        // Reject all events in the series
-        const parentId = event.parent_event_id || eventId;
-
-        // Update the parent event
-        await supabase
-          .from("events")
-          .update({
-            status: "rejected",
-            reviewer_id: user!.id,
-            reviewer_notes: reason,
-          })
-          .eq("id", parentId);
+      if (hasApprovalChain) {
+        // Recorded as this approver's decision, which rejects the event (and its series)
+        await approvalService.decide(seriesId!, "rejected", reason);
 
-        // Update all child events
-        await supabase
-          .from("events")
-          .update({
-            status: "rejected",
-            reviewer_id: user!.id,
-            reviewer_notes: reason,
-          })
-          .eq("parent_event_id", parentId);
+        toast({ title: "Event rejected" });
+      } else if (scope === "all") {
+        // Reject the series and all of its overrides
+        await eventService.updateSeriesStatus(seriesId!, "rejected", user!.id, reason);
 
         toast({ title: "All events in series rejected" });
+      } else if (event.is_recurring) {
+        // Reject only this occurrence through its override row
+        await eventService.saveOccurrence(seriesId!, occurrenceStart!, {
+          status: "rejected",
+          reviewer_id: user!.id,
+          reviewer_notes: reason,
+        });
+
+        toast({ title: "Event rejected" });
       } else {
         // Reject only this event
         const { error } = await supabase
@@ -742,7 +933,7 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
             reviewer_id: user!.id,
             reviewer_notes: reason,
           })
-          .eq("id", eventId);
+          .eq("id", event.id);
 
         if (error) throw error;
 
@@ -759,11 +950,13 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
               eventStartTime: new Date(event.starts_at).toLocaleString("en-US", {
                 dateStyle: "full",
                 timeStyle: "short",
+                timeZone: timezone,
               }),
               eventEndTime: new Date(event.ends_at).toLocaleString("en-US", {
                 timeStyle: "short",
+                timeZone: timezone,
               }),
-              roomName: selectedRoom?.name || "Unknown Room",
+              roomName: roomNames || "Unknown Room",
               status: "rejected",
               requesterName: creator.full_name || "User",
               reviewerNotes: reason,
@@ -775,7 +968,7 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
         }
       }
 
-      onSuccess();
+      handleSuccess();
     } catch (error) {
       toast({
         title: "Error",
@@ -815,28 +1008,35 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
     setLoading(true);
     try {
       if (scope === "all") {
-        // Delete all events in the series
-        const parentId = event.parent_event_id || eventId;
-
-        // Delete all child events first
+        // Delete all overrides first
         await supabase
           .from("events")
           .delete()
-          .eq("parent_event_id", parentId);
+          .eq("parent_event_id", seriesId!);
 
-        // Delete the parent event
+        // Delete the series itself
         await supabase
           .from("events")
           .delete()
-          .eq("id", parentId);
+          .eq("id", seriesId!);
 
         toast({ title: "All events in series deleted" });
+      } else if (scope === "following") {
+        // End the series before this occurrence
+        await eventService.truncateSeries(seriesId!, occurrenceStart!);
+
+        toast({ title: "This and following events deleted" });
+      } else if (event.is_recurring) {
+        // Skip this occurrence of the series
+        await eventService.excludeOccurrence(seriesId!, occurrenceStart!);
+
+        toast({ title: "Event deleted successfully" });
       } else {
         // Delete only this event
         const { error } = await supabase
           .from("events")
           .delete()
-          .eq("id", eventId);
+          .eq("id", event.id);
 
         if (error) throw error;
 
@@ -844,7 +1044,7 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
       }
 
       onOpenChange(false);
-      onSuccess();
+      handleSuccess();
     } catch (error) {
       toast({
         title: "Error",
@@ -864,43 +1064,63 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
       const { updatePayload, shouldAutoSubmit } = pendingUpdateData;
 
       if (scope === "all") {
-        // Update all events in the series
-        const parentId = event.parent_event_id || eventId;
-
-        // Update the parent event
-        await supabase
-          .from("events")
-          .update(updatePayload)
-          .eq("id", parentId);
-
-        // Update all child events
-        await supabase
-          .from("events")
-          .update(updatePayload)
-          .eq("parent_event_id", parentId);
-
-        toast({
+        // Update the series; override rows keep their own times.
+        // Only occurrences loaded from the series carry its rule, so overrides leave it untouched.
+        const recurrenceChanges = event.recurrence_rule
+          ? { recurrence_rule: recurrenceConfigToRRule(recurrence, new Date(updatePayload.starts_at), timezone) }
+          : {};
+
+        // Only what was changed in the form, so occurrences changed on their own keep the rest
+        await eventService.updateSeries(
+          seriesId!,
+          { ...getSeriesEditChanges(updatePayload, event), ...recurrenceChanges },
+          occurrenceStart!
+        );
+        await saveResourceRequests(seriesId!);
+
+        const policyName = shouldAutoSubmit ? await applyApprovalPolicies(seriesId!) : null;
+        toast(policyName ? autoApprovedToast(policyName) : {
           title: shouldAutoSubmit ? "All events updated and submitted for review" : "All events in series updated",
           description: shouldAutoSubmit ? "Your changes have been sent to admins for approval" : undefined
         });
+      } else if (scope === "following") {
+        // Split the series: earlier occurrences keep the old settings
+        const recurrenceChanges = event.recurrence_rule
+          ? { recurrence_rule: recurrenceConfigToRRule(recurrence, new Date(updatePayload.starts_at), timezone) }
+          : {};
+
+        const newSeries = await eventService.splitSeries(
+          seriesId!,
+          occurrenceStart!,
+          { ...updatePayload, ...recurrenceChanges }
+        );
+        if (newSeries) await saveResourceRequests(newSeries.id, true);
+
+        const policyName = shouldAutoSubmit && newSeries ? await applyApprovalPolicies(newSeries.id) : null;
+        toast(policyName ? autoApprovedToast(policyName) : {
+          title: shouldAutoSubmit ? "Following events updated and submitted for review" : "This and following events updated",
+          description: shouldAutoSubmit ? "Your changes have been sent to admins for approval" : undefined
+        });
       } else {
-        // Update only this event
-        const { error } = await supabase
-          .from("events")
-          .update(updatePayload)
-          .eq("id", eventId);
-
-        if (error) throw error;
-
-        toast({
+        // Update only this occurrence through its override row. Resource
+        // requests belong to the whole series, so they are left as they are
+        await eventService.saveOccurrence(seriesId!, occurrenceStart!, updatePayload);
+        const resourcesChanged = JSON.stringify(resourceRequests) !== JSON.stringify(savedRequestInputs);
+
+        // The occurrence follows its series, which the policies are checked against
+        const policyName = shouldAutoSubmit ? await applyApprovalPolicies(seriesId!) : null;
+        toast(policyName ? autoApprovedToast(policyName) : {
           title: shouldAutoSubmit ? "Event updated and submitted for review" : "Event updated successfully",
-          description: shouldAutoSubmit ? "Your changes have been sent to admins for approval" : undefined
+          description: [
+            shouldAutoSubmit ? "Your changes have been sent to admins for approval" : null,
+            resourcesChanged ? "Resource requests apply to every event in the series; edit all events to change them" : null,
+          ].filter(Boolean).join(". ") || undefined
         });
       }
 
       setRecurringUpdateDialogOpen(false);
       setPendingUpdateData(null);
-      onSuccess();
+      handleSuccess();
     } catch (error) {
       toast({
         title: "Error",
@@ -915,7 +1135,7 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
   const canEdit = !event || event.created_by === user?.id || isAdmin;
 
   // Determine the date to filter events by
-  const filterDate = initialDate || (event ? new Date(event.starts_at) : new Date());
+  const filterDate = initialDate || (event ? toZonedTime(event.starts_at, timezone) : zonedNow(timezone));
 
   // Helper function to check if event is on the same day
   const isSameDay = (date1: Date, date2: Date) => {
@@ -928,7 +1148,7 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
 
   // Filter events by selected date and then by status
   const eventsForDate = allEvents.filter((e) =>
-    isSameDay(parseISO(e.starts_at), filterDate)
+    isSameDay(toZonedTime(e.starts_at, timezone), filterDate)
   );
 
   const pendingEvents = eventsForDate.filter((e) => e.status === "pending_review");
@@ -940,6 +1160,7 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
     const colors: Record<string, string> = {
       draft: "bg-gray-500",
       pending_review: "bg-amber-500",
+      hold: "bg-violet-500",
       approved: "bg-green-500",
       rejected: "bg-red-500",
       published: "bg-blue-500",
@@ -984,8 +1205,8 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
             <div className="flex items-center gap-1.5">
               <Clock className="h-3 w-3" />
               <span>
-                {format(parseISO(evt.starts_at), "MMM d, h:mm a")} -{" "}
-                {format(parseISO(evt.ends_at), "h:mm a")}
+                {formatInTimeZone(evt.starts_at, "MMM d, h:mm a", timezone)} -{" "}
+                {formatInTimeZone(evt.ends_at, "h:mm a", timezone)}
               </span>
             </div>
 
@@ -995,7 +1216,7 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
                 className="font-medium"
                 style={{ color: evt.room?.color }}
               >
-                {evt.room?.name}
+                {formatReservedRooms(evt, rooms || []) || evt.room?.name}
               </span>
             </div>
 
@@ -1074,11 +1295,48 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
                   </Alert>
                 )}
 
-                {roomConflict.hasConflict && (
+                {!isNewSeries && availabilityIssue && (
+                  <Alert variant="destructive" className="rounded-xl">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{availabilityIssue}</AlertDescription>
+                  </Alert>
+                )}
+
+                {isHold && holdQueue && (
+                  <Alert className="rounded-xl bg-violet-50 border-violet-200">
+                    <Hourglass className="h-4 w-4 text-violet-600" />
+                    <AlertDescription className="text-violet-800">
+                      On hold — #{holdQueue.position} of {holdQueue.holds.length} in line.{" "}
+                      {holdQueue.blockers.length > 0
+                        ? `Waiting on ${holdQueue.blockers.map((blocker) => `"${blocker.title}"`).join(", ")}; the requester is emailed and the event submitted for review when the time frees up.`
+                        : "The time is free; saving the event submits it for review."}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {hasApprovalChain && (
+                  <div className="rounded-xl border border-slate-200 bg-slate-50/60 p-4 space-y-2">
+                    <p className="text-sm font-medium text-slate-700">Approvals</p>
+                    <ApprovalChainProgress chain={approvalChain} timezone={timezone} />
+                  </div>
+                )}
+
+                {event?.approval_policy_name && (event.status === 'approved' || event.status === 'published') && (
+                  <Alert className="rounded-xl bg-green-50 border-green-200">
+                    <Zap className="h-4 w-4 text-green-600" />
+                    <AlertDescription className="text-green-800">
+                      Approved automatically by the "{event.approval_policy_name}" policy.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {!isNewSeries && !isHold && roomConflict.hasConflict && (
                   <Alert variant="destructive" className="rounded-xl">
                     <AlertCircle className="h-4 w-4" />
                     <AlertDescription>
-                      This room is already booked for "{roomConflict.conflictingEvent?.title}"
+                      {formData.is_whole_building || formData.additional_room_ids.length > 0
+                        ? "A reserved room is"
+                        : "This room is"} already booked for "{roomConflict.conflictingEvent?.title}"
                       {roomConflict.creatorName && ` by ${roomConflict.creatorName}`}
                       {roomConflict.conflictingEvent?.status === 'pending_review' && ' (pending review)'}
                       {roomConflict.conflictingEvent?.status === 'approved' && ' (approved)'}
@@ -1087,6 +1345,33 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
                   </Alert>
                 )}
 
+                {!isNewSeries && ((roomConflict.hasConflict && !isHold) || availabilityIssue) && canEdit && (
+                  <ConflictAssistant
+                    organizationId={currentOrganization?.id}
+                    request={bookingRequest}
+                    timeZone={timezone}
+                    suggestRooms={!formData.is_whole_building && formData.additional_room_ids.length === 0}
+                    onSelectSlot={(slot) =>
+                      setFormData({
+                        ...formData,
+                        starts_at: formatDateTimeLocal(toZonedTime(slot.starts_at, timezone)),
+                        ends_at: formatDateTimeLocal(toZonedTime(slot.ends_at, timezone)),
+                      })
+                    }
+                    onSelectRoom={(room) => handleRoomChange(room.id)}
+                  />
+                )}
+
+                {isNewSeries && seriesRule && canEdit && (
+                  <SeriesConflictReport
+                    conflicts={seriesConflicts}
+                    isLoading={seriesConflictsLoading}
+                    timeZone={timezone}
+                    skippedDates={skippedDates}
+                    onSkippedDatesChange={setSkippedDates}
+                  />
+                )}
+
                 {!isAdmin && !eventId && (
                   <Alert className="rounded-xl bg-blue-50 border-blue-200">
                     <Info className="h-4 w-4 text-blue-600" />
@@ -1134,12 +1419,72 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
                   />
                 </div>
 
+                {/* Category and owning ministry */}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="category" className="text-sm font-medium text-slate-700">Category</Label>
+                    <Select
+                      value={formData.category || "none"}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, category: value === "none" ? "" : (value as EventCategory) })
+                      }
+                      disabled={!canEdit || loading}
+                    >
+                      <SelectTrigger id="category" className="h-11 border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-400">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No category</SelectItem>
+                        {EVENT_CATEGORIES.map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {EVENT_CATEGORY_LABELS[category]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ministry" className="text-sm font-medium text-slate-700">Ministry</Label>
+                    <Select
+                      value={formData.ministry_id || "none"}
+                      onValueChange={(value) => setFormData({ ...formData, ministry_id: value === "none" ? "" : value })}
+                      disabled={!canEdit || loading}
+                    >
+                      <SelectTrigger id="ministry" className="h-11 border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-400">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Whole church</SelectItem>
+                        {ministries?.map((ministry) => (
+                          <SelectItem key={ministry.id} value={ministry.id}>
+                            {ministry.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
                 {/* Room Selection */}
                 <div className="space-y-2">
-                  <Label htmlFor="room" className="text-sm font-medium text-slate-700">Room</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="room" className="text-sm font-medium text-slate-700">Room</Label>
+                    {canEdit && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 gap-1.5 text-xs text-blue-600"
+                        onClick={() => setShowRoomFinder(!showRoomFinder)}
+                      >
+                        <Search className="h-3.5 w-3.5" />
+                        {showRoomFinder ? "Hide room finder" : "Find a room"}
+                      </Button>
+                    )}
+                  </div>
                   <Select
                     value={formData.room_id}
-                    onValueChange={(value) => setFormData({ ...formData, room_id: value })}
+                    onValueChange={handleRoomChange}
                     disabled={!canEdit || loading}
                   >
                     <SelectTrigger className="h-11 border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-400">
@@ -1149,10 +1494,67 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
                       {rooms?.map((room) => (
                         <SelectItem key={room.id} value={room.id}>
                           {room.name}
+                          {room.capacity && <span className="text-muted-foreground"> &middot; {room.capacity} seats</span>}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
+                  {showRoomFinder && canEdit && (
+                    <RoomFinder
+                      organizationId={currentOrganization?.id}
+                      startsAt={formData.starts_at && formData.ends_at && !validationError ? dateTimeLocalToISO(formData.starts_at) : ""}
+                      endsAt={formData.starts_at && formData.ends_at && !validationError ? dateTimeLocalToISO(formData.ends_at) : ""}
+                      setupMinutes={formData.setup_minutes}
+                      teardownMinutes={formData.teardown_minutes}
+                      timeZone={timezone}
+                      excludeEventId={eventId || undefined}
+                      rooms={rooms || []}
+                      selectedRoomId={formData.room_id}
+                      onSelect={(room) => handleRoomChange(room.id)}
+                    />
+                  )}
+                </div>
+
+                {/* Additional Rooms */}
+                <div className="space-y-3 rounded-xl border border-slate-200 p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="whole_building" className="text-sm font-medium text-slate-700">Reserve whole building</Label>
+                      <p className="text-xs text-muted-foreground mt-0.5">Holds every room for this event</p>
+                    </div>
+                    <Switch
+                      id="whole_building"
+                      checked={formData.is_whole_building}
+                      onCheckedChange={(checked) => setFormData({ ...formData, is_whole_building: checked })}
+                      disabled={!canEdit || loading}
+                    />
+                  </div>
+
+                  {!formData.is_whole_building && rooms && rooms.length > 1 && (
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium text-slate-700">Additional rooms</Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {rooms
+                          .filter((room) => room.id !== formData.room_id)
+                          .map((room) => (
+                            <label key={room.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                              <Checkbox
+                                checked={formData.additional_room_ids.includes(room.id)}
+                                onCheckedChange={(checked) => setFormData({
+                                  ...formData,
+                                  additional_room_ids: checked
+                                    ? [...formData.additional_room_ids, room.id]
+                                    : formData.additional_room_ids.filter((id) => id !== room.id),
+                                })}
+                                disabled={!canEdit || loading}
+                              />
+                              <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: room.color }} />
+                              <span className="truncate">{room.name}</span>
+                            </label>
+                          ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 {/* Time Section */}
@@ -1189,14 +1591,128 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
                       />
                     </div>
                   </div>
+
+                  {/* Setup and teardown buffers */}
+                  <div className="grid grid-cols-2 gap-4 mt-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="setup_minutes" className="text-sm font-medium text-slate-600">Setup (minutes)</Label>
+                      <Input
+                        id="setup_minutes"
+                        type="number"
+                        min={0}
+                        max={MAX_BUFFER_MINUTES}
+                        step={5}
+                        value={formData.setup_minutes}
+                        onChange={(e) => setFormData({ ...formData, setup_minutes: Math.max(0, Number(e.target.value) || 0) })}
+                        disabled={!canEdit || loading}
+                        className="h-11 bg-white border-slate-200 rounded-xl shadow-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-400"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="teardown_minutes" className="text-sm font-medium text-slate-600">Teardown (minutes)</Label>
+                      <Input
+                        id="teardown_minutes"
+                        type="number"
+                        min={0}
+                        max={MAX_BUFFER_MINUTES}
+                        step={5}
+                        value={formData.teardown_minutes}
+                        onChange={(e) => setFormData({ ...formData, teardown_minutes: Math.max(0, Number(e.target.value) || 0) })}
+                        disabled={!canEdit || loading}
+                        className="h-11 bg-white border-slate-200 rounded-xl shadow-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-400"
+                      />
+                    </div>
+                  </div>
+                  {formatBuffers(formData) && formData.starts_at && formData.ends_at && !validationError && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Rooms are held from {format(getBlockedRange(formData).start, "h:mm a")} to{" "}
+                      {format(getBlockedRange(formData).end, "h:mm a")} ({formatBuffers(formData)}).
+                      Buffers are not shown on the public calendar.
+                    </p>
+                  )}
+                  <TimeZoneNotice timezone={timezone} className="mt-3" />
                 </div>
 
+                {/* Public registration */}
+                <div className="space-y-3 rounded-xl border border-slate-200 p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="registration_enabled" className="text-sm font-medium text-slate-700">Public registration</Label>
+                      <p className="text-xs text-muted-foreground mt-0.5">Visitors of the public calendar can register once the event is published</p>
+                    </div>
+                    <Switch
+                      id="registration_enabled"
+                      checked={formData.registration_enabled}
+                      onCheckedChange={(checked) => setFormData({ ...formData, registration_enabled: checked })}
+                      disabled={!canEdit || loading}
+                    />
+                  </div>
+
+                  {formData.registration_enabled && (
+                    <div className="space-y-2">
+                      <Label htmlFor="registration_capacity" className="text-sm font-medium text-slate-600">Capacity</Label>
+                      <Input
+                        id="registration_capacity"
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={formData.registration_capacity}
+                        onChange={(e) => setFormData({ ...formData, registration_capacity: e.target.value })}
+                        placeholder="No limit"
+                        disabled={!canEdit || loading}
+                        className="h-11 bg-white border-slate-200 rounded-xl shadow-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-400"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        People who register once it is full join a waitlist{event?.is_recurring ? ", for each date" : ""}.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Equipment, staff and services */}
+                <ResourceRequestsEditor
+                  resources={resources || []}
+                  value={resourceRequests}
+                  onChange={setResourceRequests}
+                  shortages={resourceShortages}
+                  isCheckingShortages={resourceShortagesLoading}
+                  isRecurring={recurrence.frequency !== 'none'}
+                  timezone={timezone}
+                  disabled={!canEdit || loading}
+                />
+
                 {/* Recurrence Selector */}
                 <RecurrenceSelector
                   value={recurrence}
                   onChange={setRecurrence}
                   startDate={formData.starts_at}
                 />
+
+                {/* Skipped and changed occurrences of the series */}
+                {event?.is_recurring && seriesId && (
+                  <RecurrenceExceptions seriesId={seriesId} canEdit={canEdit} timezone={timezone} />
+                )}
+
+                {/* People registered from the public calendar */}
+                {event?.registration_enabled && canEdit && (
+                  <EventRegistrations
+                    target={getRegistrationTarget(event)}
+                    eventTitle={event.title}
+                    capacity={event.registration_capacity}
+                    timezone={timezone}
+                    showOccurrence={!!event.is_recurring && !event.series_id}
+                  />
+                )}
+
+                {/* Audit trail of the event (the creator and admins can see it) */}
+                {event && seriesId && (
+                  <EventHistoryTimeline
+                    seriesId={seriesId}
+                    eventTitle={event.title}
+                    timezone={timezone}
+                    rooms={rooms}
+                  />
+                )}
                 </div>
               </ScrollArea>
 
@@ -1224,10 +1740,22 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
                         Delete
                       </Button>
                     )}
+                    {canPlaceHold && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="flex-1 border-violet-300 text-violet-700 hover:bg-violet-50"
+                        onClick={(e) => handleSubmit(e, true)}
+                        disabled={loading || !!validationError}
+                      >
+                        <Hourglass className="mr-2 h-4 w-4" />
+                        Place Hold
+                      </Button>
+                    )}
                     <Button
                       type="submit"
                       className="flex-1 bg-blue-600 hover:bg-blue-700"
-                      disabled={loading || !!validationError || roomConflict.hasConflict}
+                      disabled={loading || !!validationError || hasBlockingConflict}
                     >
                       {eventId
                         ? (!isAdmin && event && (event.status === 'draft' || event.status === 'pending_review')
@@ -1239,7 +1767,7 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
                   </div>
                 )}
 
-                {isAdmin && event && event.status === "pending_review" && (
+                {canReview && event && event.status === "pending_review" && (
                   <div className="flex gap-3">
                     <Button
                       type="button"
@@ -1379,6 +1907,7 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
         actionType="delete"
         eventTitle={event?.title || ""}
         loading={loading}
+        allowFollowing
       />
 
       <RecurringEventActionDialog
@@ -1400,6 +1929,7 @@ const EventDialog = ({ open, onOpenChange, eventId, initialDate, onSuccess, allE
         actionType="update"
         eventTitle={event?.title || ""}
         loading={loading}
+        allowFollowing
       />
     </Dialog>
   );
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Download, History } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { useToast } from "@/shared/hooks/use-toast";
+import { cn } from "@/shared/lib/utils";
+import { useEventHistory } from "../hooks";
+import { exportService } from "../services";
+import { describeHistoryEntry, formatHistoryChange, formatInTimeZone, getHistoryChanges } from "../utils";
+
+// Entries shown before "Show all"
+const COLLAPSED_ENTRIES = 5;
+
+// Dot colour of each action on the timeline
+const ACTION_COLORS: Record<string, string> = {
+  created: "bg-slate-400",
+  edited: "bg-slate-400",
+  submitted: "bg-amber-500",
+  held: "bg-violet-500",
+  hold_promoted: "bg-amber-500",
+  signed_off: "bg-green-400",
+  approved: "bg-green-500",
+  auto_approved: "bg-green-500",
+  unapproved: "bg-amber-500",
+  rejected: "bg-red-500",
+  published: "bg-blue-500",
+  unpublished: "bg-green-500",
+  occurrence_edited: "bg-slate-400",
+  occurrence_restored: "bg-slate-400",
+  deleted: "bg-red-500",
+};
+
+interface EventHistoryTimelineProps {
+  seriesId: string;
+  eventTitle: string;
+  // Zone the change times are shown in
+  timezone?: string;
+  // Rooms of the organization, to name room changes
+  rooms?: { id: string; name: string }[];
+}
+
+/**
+ * Audit trail of an event or series: who created, edited, submitted,
+ * approved, rejected or published it and when, newest first, with CSV export
+ */
+const EventHistoryTimeline = ({ seriesId, eventTitle, timezone, rooms = [] }: EventHistoryTimelineProps) => {
+  const { toast } = useToast();
+  const { data: history } = useEventHistory(seriesId);
+  const [showAll, setShowAll] = useState(false);
+
+  if (!history || history.length === 0) return null;
+
+  const roomNames = Object.fromEntries(rooms.map((room) => [room.id, room.name]));
+  const visible = showAll ? history : history.slice(0, COLLAPSED_ENTRIES);
+
+  const handleExport = () => {
+    const result = exportService.historyToCSV(history, { eventTitle, timezone, roomNames });
+    if (!result.success) {
+      toast({
+        title: "Export failed",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-200/60 bg-slate-50 p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h4 className="flex items-center gap-1.5 text-sm font-medium text-slate-700">
+            <History className="h-4 w-4" />
+            History
+          </h4>
+          <p className="text-xs text-muted-foreground">Who changed this event and when</p>
+        </div>
+        <Button type="button" variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={handleExport}>
+          <Download className="h-3 w-3" />
+          Export
+        </Button>
+      </div>
+
+      <ol className="relative space-y-3 border-l border-slate-200 pl-4">
+        {visible.map((entry) => {
+          const changes = getHistoryChanges(entry.changes);
+
+          return (
+            <li key={entry.id} className="relative text-xs">
+              <span
+                className={cn(
+                  "absolute -left-[21px] top-1 h-2.5 w-2.5 rounded-full ring-2 ring-slate-50",
+                  ACTION_COLORS[entry.action] || "bg-slate-400"
+                )}
+              />
+              <p className="text-sm font-medium text-slate-700">{describeHistoryEntry(entry, timezone)}</p>
+              <p className="text-muted-foreground">
+                {entry.actor_name} · {formatInTimeZone(entry.created_at, "MMM d, yyyy 'at' h:mm a", timezone)}
+              </p>
+              {entry.notes && <p className="mt-1 text-slate-600">"{entry.notes}"</p>}
+              {changes.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-slate-600">
+                  {changes.map((change) => (
+                    <li key={change.field}>{formatHistoryChange(change, roomNames, timezone)}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {history.length > COLLAPSED_ENTRIES && (
+        <Button
+          type="button"
+          variant="link"
+          size="sm"
+          className="h-auto p-0 text-xs"
+          onClick={() => setShowAll(!showAll)}
+        >
+          {showAll ? "Show less" : `Show all (${history.length})`}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default EventHistoryTimeline;
@@ -0,0 +1,168 @@
+import { Link } from "react-router-dom";
+import { Download, ScanLine, Users, X } from "lucide-react";
+import { Badge } from "@/shared/components/ui/badge";
+import { Button } from "@/shared/components/ui/button";
+import { useToast } from "@/shared/hooks/use-toast";
+import { useCancelRegistration, useEventRegistrations } from "../hooks";
+import { exportService } from "../services";
+import type { EventRegistration } from "../types";
+import {
+  describeRegistrationCounts,
+  formatInTimeZone,
+  getCheckInEventId,
+  getRegistrationStatusLabel,
+  type RegistrationTarget,
+} from "../utils";
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "outline"> = {
+  confirmed: "default",
+  waitlisted: "secondary",
+  cancelled: "outline",
+};
+
+const sumHeadcount = (registrations: EventRegistration[], status: string) =>
+  registrations.filter((r) => r.status === status).reduce((total, r) => total + r.headcount, 0);
+
+interface EventRegistrationsProps {
+  target: RegistrationTarget;
+  eventTitle: string;
+  capacity: number | null;
+  // Zone the occurrence and registration times are shown in
+  timezone?: string;
+  // Whether the occurrence of each registration is shown (whole series)
+  showOccurrence?: boolean;
+}
+
+/**
+ * Attendee list of an event or occurrence for its organizer, with
+ * cancellation and CSV export
+ */
+const EventRegistrations = ({ target, eventTitle, capacity, timezone, showOccurrence }: EventRegistrationsProps) => {
+  const { toast } = useToast();
+  const { data: registrations = [] } = useEventRegistrations(target);
+  const cancelRegistration = useCancelRegistration();
+
+  const counts = {
+    capacity,
+    confirmed_count: sumHeadcount(registrations, "confirmed"),
+    waitlisted_count: sumHeadcount(registrations, "waitlisted"),
+  };
+
+  const handleCancel = async (registration: EventRegistration) => {
+    try {
+      const promoted = await cancelRegistration.mutateAsync(registration);
+      toast({
+        title: "Registration cancelled",
+        description:
+          promoted.length > 0
+            ? `${promoted.length} waitlisted ${promoted.length === 1 ? "registration was" : "registrations were"} confirmed`
+            : undefined,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExport = () => {
+    const result = exportService.registrationsToCSV(registrations, { eventTitle, timezone });
+    if (!result.success) {
+      toast({
+        title: "Export failed",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-200/60 bg-slate-50 p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h4 className="flex items-center gap-1.5 text-sm font-medium text-slate-700">
+            <Users className="h-4 w-4" />
+            Attendees
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            {showOccurrence ? "All dates · " : ""}
+            {describeRegistrationCounts(counts)}
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          {!showOccurrence && (
+            <Button asChild variant="ghost" size="sm" className="h-7 gap-1 text-xs">
+              <Link to={`/check-in/${getCheckInEventId(target)}`}>
+                <ScanLine className="h-3 w-3" />
+                Check-in
+              </Link>
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={handleExport}
+            disabled={registrations.length === 0}
+          >
+            <Download className="h-3 w-3" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {registrations.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No one has registered yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-200 text-xs">
+          {registrations.map((registration) => (
+            <li key={registration.id} className="flex items-center justify-between gap-2 py-2">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium text-slate-700">
+                  {registration.name}
+                  {registration.headcount > 1 && (
+                    <span className="font-normal text-muted-foreground"> +{registration.headcount - 1}</span>
+                  )}
+                </p>
+                <p className="truncate text-muted-foreground">
+                  {registration.is_walk_in ? "Walk-in" : registration.email}
+                  {showOccurrence && registration.occurrence_start && (
+                    <> · {formatInTimeZone(registration.occurrence_start, "MMM d, yyyy", timezone)}</>
+                  )}
+                </p>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                {registration.checked_in_at && registration.status !== "cancelled" && (
+                  <Badge variant="outline" className="border-green-200 text-[10px] text-green-700">
+                    Checked in
+                  </Badge>
+                )}
+                <Badge variant={STATUS_VARIANTS[registration.status] || "outline"} className="text-[10px]">
+                  {getRegistrationStatusLabel(registration.status)}
+                </Badge>
+                {registration.status !== "cancelled" && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-destructive"
+                    onClick={() => handleCancel(registration)}
+                    disabled={cancelRegistration.isPending}
+                    aria-label={`Cancel registration of ${registration.name}`}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default EventRegistrations;
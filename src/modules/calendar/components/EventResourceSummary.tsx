@@ -0,0 +1,74 @@
+import { useMemo } from "react";
+import { Package } from "lucide-react";
+import { cn } from "@/shared/lib/utils";
+import { useResources, useResourceShortages } from "../hooks";
+import type { ResourceCheck } from "../services";
+import type { EventResourceRequest } from "../types";
+import { formatResourceRequest, getResourceRequestEventId } from "../utils";
+import ResourceShortageAlerts from "./ResourceShortageAlerts";
+
+interface EventResourceSummaryProps {
+  event: {
+    id: string;
+    organization_id: string;
+    parent_event_id?: string | null;
+    starts_at: string;
+    ends_at: string;
+    setup_minutes?: number | null;
+    teardown_minutes?: number | null;
+    recurrence_rule?: string | null;
+  };
+  // Requests of the event, or of its series
+  requests: EventResourceRequest[];
+  timezone?: string;
+  className?: string;
+}
+
+/**
+ * Resources an event requests and who provides them, for approvers, with
+ * those overlapping bookings already take
+ */
+const EventResourceSummary = ({ event, requests, timezone, className }: EventResourceSummaryProps) => {
+  const { data: resources = [] } = useResources(event.organization_id);
+
+  const check = useMemo<ResourceCheck | null>(
+    () =>
+      requests.length > 0
+        ? {
+            starts_at: event.starts_at,
+            ends_at: event.ends_at,
+            setup_minutes: event.setup_minutes,
+            teardown_minutes: event.teardown_minutes,
+            recurrence_rule: event.recurrence_rule,
+            requests: requests.map(({ resource_id, quantity }) => ({ resource_id, quantity })),
+            excludeEventId: getResourceRequestEventId(event),
+          }
+        : null,
+    [event, requests]
+  );
+  const { data: shortages = [] } = useResourceShortages(event.organization_id, check, timezone);
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-start gap-1.5 text-xs text-muted-foreground">
+        <Package className="h-3 w-3 mt-0.5 flex-shrink-0" />
+        <ul className="space-y-0.5">
+          {requests.map((request) => (
+            <li key={request.id}>
+              <span className="font-medium text-foreground">
+                {formatResourceRequest(request, resources.find((r) => r.id === request.resource_id))}
+              </span>
+              {request.responsible && ` · ${request.responsible}`}
+              {request.notes && ` · ${request.notes}`}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <ResourceShortageAlerts shortages={shortages} timezone={timezone} />
+    </div>
+  );
+};
+
+export default EventResourceSummary;
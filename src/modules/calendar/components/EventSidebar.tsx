@@ -1,10 +1,14 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/shared/components/ui/card";
 import { Badge } from "@/shared/components/ui/badge";
 import { ScrollArea } from "@/shared/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/shared/components/ui/tabs";
-import { Clock, MapPin, User } from "lucide-react";
+import { Clock, MapPin, Tag, User } from "lucide-react";
 import { format, parseISO } from "date-fns";
 import { cn } from "@/shared/lib/utils";
+import EventCategoryFilters, { type CategoryFilters } from "./EventCategoryFilters";
+import { filterEventsByCategory, getCategoryLabel, getMinistryName } from "../utils";
+import type { EventCategory, EventMinistry } from "../types";
 
 interface Event {
   id: string;
@@ -14,6 +18,8 @@ interface Event {
   status: string;
   created_by: string;
   room: { id: string; name: string; color: string };
+  category?: EventCategory | null;
+  ministry_id?: string | null;
   creator: { full_name: string; ministry_name?: string } | null;
 }
 
@@ -21,13 +27,19 @@ interface EventSidebarProps {
   events: Event[];
   onEventClick: (eventId: string) => void;
   currentUserId?: string;
+  // Ministries that can own events, for the ministry filter and names
+  ministries?: EventMinistry[];
 }
 
 const EventSidebar = ({
-  events,
+  events: allEvents,
   onEventClick,
   currentUserId,
+  ministries = [],
 }: EventSidebarProps) => {
+  const [filters, setFilters] = useState<CategoryFilters>({});
+  const events = filterEventsByCategory(allEvents, filters);
+
   const pendingEvents = events.filter((e) => e.status === "pending_review");
   const publishedEvents = events.filter((e) => e.status === "published");
   const approvedEvents = events.filter((e) => e.status === "approved");
@@ -37,6 +49,7 @@ const EventSidebar = ({
     const colors: Record<string, string> = {
       draft: "bg-gray-500",
       pending_review: "bg-amber-500",
+      hold: "bg-violet-500",
       approved: "bg-green-500",
       rejected: "bg-red-500",
       published: "bg-blue-500",
@@ -96,13 +109,25 @@ const EventSidebar = ({
               </span>
             </div>
 
+            {(event.category || event.ministry_id) && (
+              <div className="flex items-center gap-1.5">
+                <Tag className="h-3 w-3" />
+                <span>
+                  {[
+                    event.category && getCategoryLabel(event.category),
+                    getMinistryName(event.ministry_id, ministries),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              </div>
+            )}
+
             {event.creator && (
               <div className="flex items-center gap-1.5">
                 <User className="h-3 w-3" />
                 <span className={cn(isOwnEvent && "font-medium text-foreground")}>
                   {isOwnEvent ? "You" : event.creator.full_name}
-                  {event.creator.ministry_name &&
-                    ` (${event.creator.ministry_name})`}
                 </span>
               </div>
             )}
@@ -140,6 +165,13 @@ const EventSidebar = ({
         <CardTitle className="text-lg">Events</CardTitle>
       </CardHeader>
       <CardContent>
+        <EventCategoryFilters
+          value={filters}
+          onChange={setFilters}
+          ministries={ministries}
+          className="mb-3"
+          triggerClassName="flex-1"
+        />
         <Tabs defaultValue="pending" className="w-full">
           <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="pending" className="text-xs relative">
@@ -3,6 +3,7 @@
  */
 
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -17,6 +18,16 @@ import { RadioGroup, RadioGroupItem } from "@/shared/components/ui/radio-group";
 import { Checkbox } from "@/shared/components/ui/checkbox";
 import { Separator } from "@/shared/components/ui/separator";
 import { Badge } from "@/shared/components/ui/badge";
+import { Input } from "@/shared/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
 import {
   Download,
   Calendar,
@@ -25,9 +36,28 @@ import {
   Loader2,
   CheckCircle2,
   AlertCircle,
+  Rss,
+  Copy,
+  RefreshCw,
 } from "lucide-react";
 import { useToast } from "@/shared/hooks/use-toast";
-import { exportService, type ExportFormat, type ExportScope, type ExportOptions, type ExportableEvent } from "../services";
+import { supabase } from "@/integrations/supabase/client";
+import EventCategoryFilters, { type CategoryFilters } from "./EventCategoryFilters";
+import { exportService, feedService, type ExportFormat, type ExportScope, type ExportOptions, type ExportableEvent } from "../services";
+import { useCalendarFeed, useEventMinistries, useResetCalendarFeed } from "../hooks";
+import { filterEventsByCategory } from "../utils";
+import type { CalendarFeedScope } from "../types";
+
+// Subscribing is offered next to the one-off export formats
+type DialogFormat = ExportFormat | "subscribe";
+
+// Feed scope select values: "all", "room:<id>" or "ministry:<id>"
+const toFeedScope = (value: string): CalendarFeedScope => {
+  const [kind, id] = value.split(":");
+  if (kind === "room") return { room_id: id };
+  if (kind === "ministry") return { ministry_id: id };
+  return {};
+};
 
 interface ExportDialogProps {
   open: boolean;
@@ -36,6 +66,8 @@ interface ExportDialogProps {
   organizationName: string;
   organizationSlug?: string;
   timezone?: string;
+  // Names the ministries to filter by; subscription feeds also need a signed-in member
+  organizationId?: string;
   userId?: string;
   isAdmin?: boolean;
   dateRange?: {
@@ -51,22 +83,57 @@ const ExportDialog = ({
   organizationName,
   organizationSlug,
   timezone,
+  organizationId,
   userId,
   isAdmin = false,
   dateRange,
 }: ExportDialogProps) => {
   const { toast } = useToast();
-  const [format, setFormat] = useState<ExportFormat>("ics");
+  const [format, setFormat] = useState<DialogFormat>("ics");
   const [scope, setScope] = useState<ExportScope>(isAdmin ? "both" : "published");
   const [separateByStatus, setSeparateByStatus] = useState(true);
   const [includeDescription, setIncludeDescription] = useState(true);
   const [includeLocation, setIncludeLocation] = useState(true);
   const [includeOrganizer, setIncludeOrganizer] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [feedScopeValue, setFeedScopeValue] = useState("all");
+  const [categoryFilters, setCategoryFilters] = useState<CategoryFilters>({});
+
+  const canSubscribe = !!organizationId && !!userId;
+  const isFileExport = format === "ics" || format === "pdf";
+
+  const { data: rooms } = useQuery({
+    queryKey: ["rooms", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const { data, error } = await supabase
+        .from("rooms")
+        .select("*")
+        .eq("organization_id", organizationId)
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: canSubscribe && open && format === "subscribe",
+  });
+  const { data: ministries } = useEventMinistries(open ? organizationId : undefined);
+  const { data: feed, isLoading: isFeedLoading } = useCalendarFeed(
+    organizationId,
+    userId,
+    toFeedScope(feedScopeValue),
+    open && format === "subscribe"
+  );
+  const resetFeed = useResetCalendarFeed(userId || "");
+
+  // Events of the chosen category and ministry
+  const filteredEvents = filterEventsByCategory(events, categoryFilters);
 
   // Filter events for preview counts
   const getFilteredEventCount = (filterScope: ExportScope): number => {
-    return events.filter((event) => {
+    return filteredEvents.filter((event) => {
       // For non-admin users, only show their own events
       if (!isAdmin && userId && event.created_by !== userId) {
         return false;
@@ -92,7 +159,7 @@ const ExportDialog = ({
 
     try {
       const options: ExportOptions = {
-        format,
+        format: format as ExportFormat,
         scope,
         organizationName,
         organizationSlug,
@@ -104,7 +171,7 @@ const ExportDialog = ({
         separateByStatus: format === "pdf" ? separateByStatus : false,
       };
 
-      const result = exportService.export(events, options, userId, isAdmin);
+      const result = exportService.export(filteredEvents, options, userId, isAdmin);
 
       if (result.success) {
         toast({
@@ -139,12 +206,39 @@ const ExportDialog = ({
   };
 
   const handleGoogleCalendarAdd = (event: ExportableEvent) => {
-    const url = exportService.toGoogleCalendarUrl(event);
+    const url = exportService.toGoogleCalendarUrl(event, { timezone });
     window.open(url, "_blank");
   };
 
+  const handleCopyFeedUrl = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feedService.getWebcalUrl(feed.token));
+      toast({ title: "Link copied", description: "Paste it into your calendar app to subscribe." });
+    } catch {
+      toast({ title: "Copy failed", description: "Select the link and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  const handleResetFeed = async () => {
+    if (!feed) return;
+    try {
+      await resetFeed.mutateAsync(feed);
+      toast({
+        title: "Link reset",
+        description: "The previous link no longer works. Share the new link with subscribers.",
+      });
+    } catch (error) {
+      toast({
+        title: "Reset failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Get events available for Google Calendar export
-  const googleCalendarEvents = events.filter((event) => {
+  const googleCalendarEvents = filteredEvents.filter((event) => {
     // For non-admin users, only show their own events
     if (!isAdmin && userId && event.created_by !== userId) {
       return false;
@@ -171,8 +265,8 @@ const ExportDialog = ({
             <Label className="text-sm font-medium">Export Format</Label>
             <RadioGroup
               value={format}
-              onValueChange={(value) => setFormat(value as ExportFormat)}
-              className="grid grid-cols-3 gap-3"
+              onValueChange={(value) => setFormat(value as DialogFormat)}
+              className={canSubscribe ? "grid grid-cols-2 sm:grid-cols-4 gap-3" : "grid grid-cols-3 gap-3"}
             >
               <div>
                 <RadioGroupItem
@@ -221,11 +315,42 @@ const ExportDialog = ({
                   <span className="text-xs text-muted-foreground">Print-ready</span>
                 </Label>
               </div>
+
+              {canSubscribe && (
+                <div>
+                  <RadioGroupItem
+                    value="subscribe"
+                    id="format-subscribe"
+                    className="peer sr-only"
+                  />
+                  <Label
+                    htmlFor="format-subscribe"
+                    className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-popover p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary cursor-pointer"
+                  >
+                    <Rss className="mb-2 h-6 w-6" />
+                    <span className="text-sm font-medium">Subscribe</span>
+                    <span className="text-xs text-muted-foreground">Live feed</span>
+                  </Label>
+                </div>
+              )}
             </RadioGroup>
           </div>
 
           <Separator />
 
+          {/* Category and ministry filters (for one-off exports) */}
+          {format !== "subscribe" && (
+            <div className="space-y-3">
+              <Label className="text-sm font-medium">Filter Events</Label>
+              <EventCategoryFilters
+                value={categoryFilters}
+                onChange={setCategoryFilters}
+                ministries={ministries}
+                triggerClassName="h-9 text-sm"
+              />
+            </div>
+          )}
+
           {/* Google Calendar - Event Selection */}
           {format === "google" && (
             <div className="space-y-3">
@@ -246,7 +371,7 @@ const ExportDialog = ({
                         <p className="text-sm font-medium truncate">{event.title}</p>
                         <p className="text-xs text-muted-foreground">
                           {event.room?.name} &bull;{" "}
-                          {new Date(event.starts_at).toLocaleDateString()}
+                          {new Date(event.starts_at).toLocaleDateString(undefined, { timeZone: timezone })}
                         </p>
                       </div>
                       <div className="flex items-center gap-2">
@@ -268,8 +393,104 @@ const ExportDialog = ({
             </div>
           )}
 
+          {/* Subscription feed */}
+          {format === "subscribe" && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Feed Contents</Label>
+                <Select value={feedScopeValue} onValueChange={setFeedScopeValue}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All published events</SelectItem>
+                    {rooms && rooms.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Room</SelectLabel>
+                        {rooms.map((room) => (
+                          <SelectItem key={room.id} value={`room:${room.id}`}>
+                            {room.name}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    {ministries && ministries.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Ministry</SelectLabel>
+                        {ministries.map((ministry) => (
+                          <SelectItem key={ministry.id} value={`ministry:${ministry.id}`}>
+                            {ministry.name}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Feed Link</Label>
+                {isFeedLoading || !feed ? (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Preparing link...
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex gap-2">
+                      <Input
+                        readOnly
+                        value={feedService.getWebcalUrl(feed.token)}
+                        onFocus={(e) => e.target.select()}
+                        className="font-mono text-xs"
+                      />
+                      <Button variant="outline" size="icon" onClick={handleCopyFeedUrl} title="Copy link">
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={feedService.getWebcalUrl(feed.token)}>
+                          <Calendar className="mr-2 h-4 w-4" />
+                          Open in Calendar App
+                        </a>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          window.open(
+                            exportService.toGoogleCalendarSubscribeUrl(feedService.getFeedUrl(feed.token)),
+                            "_blank"
+                          )
+                        }
+                      >
+                        <ExternalLink className="mr-2 h-4 w-4" />
+                        Add to Google Calendar
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleResetFeed}
+                        disabled={resetFeed.isPending}
+                      >
+                        <RefreshCw className={`mr-2 h-4 w-4 ${resetFeed.isPending ? "animate-spin" : ""}`} />
+                        Reset Link
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Calendar apps check the feed for changes about once an hour. Only published events are
+                included, and anyone with the link can view them; reset the link to stop sharing it.
+              </p>
+            </div>
+          )}
+
           {/* Scope Selection (for ICS and PDF) */}
-          {format !== "google" && (
+          {isFileExport && (
             <div className="space-y-3">
               <Label className="text-sm font-medium">Event Selection</Label>
               <RadioGroup
@@ -395,7 +616,7 @@ const ExportDialog = ({
           )}
 
           {/* Event count preview */}
-          {format !== "google" && (
+          {isFileExport && (
             <div className="bg-muted/50 rounded-lg p-3">
               <div className="flex items-center gap-2">
                 {getFilteredEventCount(scope) > 0 ? (
@@ -423,7 +644,7 @@ const ExportDialog = ({
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          {format !== "google" && (
+          {isFileExport && (
             <Button
               onClick={handleExport}
               disabled={isExporting || getFilteredEventCount(scope) === 0}
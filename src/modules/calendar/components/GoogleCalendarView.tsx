@@ -6,7 +6,6 @@ import {
   startOfWeek,
   addDays,
   isSameDay,
-  parseISO,
   startOfDay,
   endOfDay,
   isBefore,
@@ -24,7 +23,20 @@ import {
 } from "date-fns";
 import { Clock, Plus } from "lucide-react";
 import { cn } from "@/shared/lib/utils";
-import { useMemo, useRef, useEffect } from "react";
+import OccurrenceIndicator from "./OccurrenceIndicator";
+import {
+  EVENT_CATEGORIES,
+  EVENT_CATEGORY_COLORS,
+  EVENT_CATEGORY_LABELS,
+  formatReservedRooms,
+  getEventColor,
+  getMinistryColor,
+  toZonedTime,
+  UNASSIGNED_COLOR,
+  zonedNow,
+} from "../utils";
+import type { EventCategory, EventColorBy, EventMinistry } from "../types";
+import { Fragment, useMemo, useRef, useEffect } from "react";
 import { useIsMobile } from "@/shared/hooks/use-mobile";
 
 interface Event {
@@ -34,8 +46,22 @@ interface Event {
   ends_at: string;
   status: string;
   created_by: string;
+  room_id: string;
   room: { id: string; name: string; color: string };
+  // Every room the event holds, for multi-room and whole-building events
+  additional_room_ids?: string[] | null;
+  is_whole_building?: boolean | null;
+  reserved_rooms?: { id: string; name: string; color: string }[];
+  // Room prep and cleanup time around the event
+  setup_minutes?: number;
+  teardown_minutes?: number;
+  category?: EventCategory | null;
+  ministry_id?: string | null;
   creator: { full_name: string; ministry_name?: string } | null;
+  is_recurring?: boolean | null;
+  series_id?: string;
+  parent_event_id?: string | null;
+  recurrence_id?: string | null;
 }
 
 interface GoogleCalendarViewProps {
@@ -53,6 +79,10 @@ interface GoogleCalendarViewProps {
   view?: "week" | "day" | "month";
   selectedDate?: Date; // For day view
   readOnly?: boolean; // Hide add event controls
+  timezone?: string; // Organization time zone events are laid out in (default: viewer's zone)
+  showBuffers?: boolean; // Shade setup and teardown time around events (internal views only)
+  colorBy?: EventColorBy; // Default: "room"
+  ministries?: EventMinistry[]; // Names for the ministry color legend
 }
 
 interface PositionedEvent extends Event {
@@ -62,6 +92,8 @@ interface PositionedEvent extends Event {
   width: number;
   column: number;
   totalColumns: number;
+  setupHeight: number;
+  teardownHeight: number;
 }
 
 const GoogleCalendarView = ({
@@ -79,6 +111,10 @@ const GoogleCalendarView = ({
   view = "week",
   selectedDate,
   readOnly = false,
+  timezone,
+  showBuffers = false,
+  colorBy = "room",
+  ministries = [],
 }: GoogleCalendarViewProps) => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const isMobile = useIsMobile();
@@ -86,7 +122,10 @@ const GoogleCalendarView = ({
   const weekDays = view === "day" && selectedDate
     ? [selectedDate]
     : Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
-  const today = new Date();
+  // Dates below are wall-clock times in the organization's zone; dates passed to
+  // onDateClick / onTimeSlotClick are too
+  const today = zonedNow(timezone);
+  const toZoned = (value: string) => toZonedTime(value, timezone);
 
   const hours = Array.from(
     { length: endHour - startHour + 1 },
@@ -97,7 +136,7 @@ const GoogleCalendarView = ({
 
   const getEventsForDay = (day: Date) => {
     return events.filter((event) => {
-      const eventDate = parseISO(event.starts_at);
+      const eventDate = toZoned(event.starts_at);
       return isSameDay(eventDate, day);
     });
   };
@@ -108,13 +147,13 @@ const GoogleCalendarView = ({
 
     // Sort by start time, then by duration (longer first)
     const sorted = [...dayEvents].sort((a, b) => {
-      const aStart = parseISO(a.starts_at);
-      const bStart = parseISO(b.starts_at);
+      const aStart = toZoned(a.starts_at);
+      const bStart = toZoned(b.starts_at);
       if (aStart.getTime() !== bStart.getTime()) {
         return aStart.getTime() - bStart.getTime();
       }
-      const aDuration = differenceInMinutes(parseISO(a.ends_at), aStart);
-      const bDuration = differenceInMinutes(parseISO(b.ends_at), bStart);
+      const aDuration = differenceInMinutes(toZoned(a.ends_at), aStart);
+      const bDuration = differenceInMinutes(toZoned(b.ends_at), bStart);
       return bDuration - aDuration;
     });
 
@@ -122,8 +161,8 @@ const GoogleCalendarView = ({
     const columns: { start: Date; end: Date; events: PositionedEvent[] }[] = [];
 
     sorted.forEach((event) => {
-      const eventStart = parseISO(event.starts_at);
-      const eventEnd = parseISO(event.ends_at);
+      const eventStart = toZoned(event.starts_at);
+      const eventEnd = toZoned(event.ends_at);
 
       // Calculate top position (minutes from start hour)
       const startMinutes =
@@ -139,7 +178,7 @@ const GoogleCalendarView = ({
           (e) =>
             !areIntervalsOverlapping(
               { start: eventStart, end: eventEnd },
-              { start: parseISO(e.starts_at), end: parseISO(e.ends_at) },
+              { start: toZoned(e.starts_at), end: toZoned(e.ends_at) },
               { inclusive: false }
             )
         )
@@ -158,6 +197,12 @@ const GoogleCalendarView = ({
         width: 100,
         column: columnIndex,
         totalColumns: columns.length,
+        // Buffers are clipped to the displayed day
+        setupHeight: Math.min((event.setup_minutes || 0) * MINUTE_HEIGHT, top),
+        teardownHeight: Math.max(
+          0,
+          Math.min((event.teardown_minutes || 0) * MINUTE_HEIGHT, hours.length * HOUR_HEIGHT - top - height)
+        ),
       };
 
       columns[columnIndex].events.push(positionedEvent);
@@ -166,8 +211,8 @@ const GoogleCalendarView = ({
 
     // Calculate widths and left positions based on overlaps
     positioned.forEach((event) => {
-      const eventStart = parseISO(event.starts_at);
-      const eventEnd = parseISO(event.ends_at);
+      const eventStart = toZoned(event.starts_at);
+      const eventEnd = toZoned(event.ends_at);
 
       // Find all columns that overlap with this event's time range
       const overlappingColumns = columns.filter((col) =>
@@ -194,15 +239,22 @@ const GoogleCalendarView = ({
       map.set(day.toISOString(), getPositionedEvents(dayEvents));
     });
     return map;
-  }, [weekDays, events]);
+  }, [weekDays, events, timezone]);
 
   const isToday = (date: Date) => isSameDay(date, today);
   const isPast = (date: Date) => isBefore(endOfDay(date), startOfDay(today));
 
+  // Multi-room events list all their rooms instead of only the main one
+  const getRoomLabel = (event: Event) =>
+    event.reserved_rooms?.length ? formatReservedRooms(event, event.reserved_rooms) : event.room?.name;
+
+  const getColor = (event: Event) => getEventColor(event, colorBy);
+
   const getStatusColor = (status: string) => {
     const colors: Record<string, string> = {
       draft: "bg-gray-500",
       pending_review: "bg-amber-500",
+      hold: "bg-violet-500",
       approved: "bg-green-500",
       rejected: "bg-red-500",
       published: "bg-blue-500",
@@ -234,6 +286,37 @@ const GoogleCalendarView = ({
     }
   }, [scrollToHour, startHour, view]);
 
+  // Legend of the category or ministry colors; rooms are named on the events
+  const colorLegend = colorBy !== "room" && (
+    <Card className="p-2 sm:p-3">
+      <div className="flex flex-wrap items-center gap-2 sm:gap-4 text-[10px] sm:text-xs">
+        {(colorBy === "category"
+          ? EVENT_CATEGORIES.map((category) => ({
+              key: category,
+              label: EVENT_CATEGORY_LABELS[category],
+              color: EVENT_CATEGORY_COLORS[category],
+            }))
+          : ministries.map((ministry) => ({
+              key: ministry.id,
+              label: ministry.name,
+              color: getMinistryColor(ministry.id),
+            }))
+        )
+          .concat({
+            key: "none",
+            label: colorBy === "category" ? "Uncategorized" : "Whole church",
+            color: UNASSIGNED_COLOR,
+          })
+          .map((item) => (
+            <div key={item.key} className="flex items-center gap-1 sm:gap-2">
+              <div className="w-2 h-2 sm:w-3 sm:h-3 rounded-full" style={{ backgroundColor: item.color }} />
+              <span>{item.label}</span>
+            </div>
+          ))}
+      </div>
+    </Card>
+  );
+
   if (view === "week" || view === "day") {
     const containerHeight = visibleHours * HOUR_HEIGHT;
 
@@ -342,56 +425,87 @@ const GoogleCalendarView = ({
                               const isPendingFromOther =
                                 event.status === "pending_review" && !isOwnEvent;
 
+                              // Setup and teardown render as hatched blocks around the event
+                              const bufferStyle = (top: number, height: number) => ({
+                                top: `${top}px`,
+                                height: `${height}px`,
+                                left: `${event.left}%`,
+                                width: `${event.width}%`,
+                                backgroundImage: `repeating-linear-gradient(135deg, ${getColor(event)}33 0 4px, transparent 4px 8px)`,
+                                zIndex: 14,
+                              });
+
                               return (
-                                <div
-                                  key={event.id}
-                                  className={cn(
-                                    "absolute overflow-hidden rounded-md shadow-md border-l-4 cursor-pointer hover:shadow-lg hover:z-30 transition-all",
-                                    isPendingFromOther && "border-dashed opacity-80"
+                                <Fragment key={event.id}>
+                                  {showBuffers && event.setupHeight > 0 && (
+                                    <div
+                                      className="absolute rounded-t-md pointer-events-none"
+                                      style={bufferStyle(event.top - event.setupHeight, event.setupHeight)}
+                                    />
                                   )}
-                                  style={{
-                                    top: `${event.top}px`,
-                                    height: `${event.height}px`,
-                                    left: `${event.left}%`,
-                                    width: `${event.width}%`,
-                                    borderLeftColor: event.room?.color || "#888",
-                                    backgroundColor: `${event.room?.color}15`,
-                                    zIndex: 15,
-                                  }}
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    onEventClick(event.id);
-                                  }}
-                                >
-                                  <div className="p-1.5 text-xs h-full flex flex-col">
-                                    <div className="font-semibold text-foreground line-clamp-2">
-                                      {event.title}
-                                    </div>
-                                    <div className="flex items-center gap-1 text-[10px] text-muted-foreground mt-0.5">
-                                      <Clock className="h-2.5 w-2.5" />
-                                      <span>
-                                        {format(parseISO(event.starts_at), "h:mm a")}
-                                      </span>
-                                    </div>
-                                    {event.room && (
-                                      <div className="text-[9px] mt-1 font-medium" style={{ color: event.room.color }}>
-                                        {event.room.name}
-                                      </div>
+                                  {showBuffers && event.teardownHeight > 0 && (
+                                    <div
+                                      className="absolute rounded-b-md pointer-events-none"
+                                      style={bufferStyle(event.top + event.height, event.teardownHeight)}
+                                    />
+                                  )}
+                                  <div
+                                    className={cn(
+                                      "absolute overflow-hidden rounded-md shadow-md border-l-4 cursor-pointer hover:shadow-lg hover:z-30 transition-all",
+                                      isPendingFromOther && "border-dashed opacity-80"
                                     )}
-                                    {!hideStatus && event.height > 50 && (
-                                      <div className="mt-auto pt-1">
-                                        <Badge
-                                          className={cn(
-                                            "text-[8px] h-auto py-0.5 px-1 text-white",
-                                            getStatusColor(event.status)
-                                          )}
-                                        >
-                                          {getStatusLabel(event.status)}
-                                        </Badge>
+                                    style={{
+                                      top: `${event.top}px`,
+                                      height: `${event.height}px`,
+                                      left: `${event.left}%`,
+                                      width: `${event.width}%`,
+                                      borderLeftColor: getColor(event),
+                                      backgroundColor: `${getColor(event)}15`,
+                                      zIndex: 15,
+                                    }}
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      onEventClick(event.id);
+                                    }}
+                                  >
+                                    {(event.reserved_rooms?.length || 0) > 1 && (
+                                      <div className="flex h-1">
+                                        {event.reserved_rooms!.map((room) => (
+                                          <div key={room.id} className="flex-1" style={{ backgroundColor: room.color }} />
+                                        ))}
                                       </div>
                                     )}
+                                    <div className="p-1.5 text-xs h-full flex flex-col">
+                                      <div className="font-semibold text-foreground line-clamp-2">
+                                        {event.title}
+                                      </div>
+                                      <div className="flex items-center gap-1 text-[10px] text-muted-foreground mt-0.5">
+                                        <Clock className="h-2.5 w-2.5" />
+                                        <span>
+                                          {format(toZoned(event.starts_at), "h:mm a")}
+                                        </span>
+                                        <OccurrenceIndicator event={event} className="h-2.5 w-2.5" timezone={timezone} />
+                                      </div>
+                                      {event.room && (
+                                        <div className="text-[9px] mt-1 font-medium" style={{ color: event.room.color }}>
+                                          {getRoomLabel(event)}
+                                        </div>
+                                      )}
+                                      {!hideStatus && event.height > 50 && (
+                                        <div className="mt-auto pt-1">
+                                          <Badge
+                                            className={cn(
+                                              "text-[8px] h-auto py-0.5 px-1 text-white",
+                                              getStatusColor(event.status)
+                                            )}
+                                          >
+                                            {getStatusLabel(event.status)}
+                                          </Badge>
+                                        </div>
+                                      )}
+                                    </div>
                                   </div>
-                                </div>
+                                </Fragment>
                               );
                             })}
                           </>
@@ -404,6 +518,7 @@ const GoogleCalendarView = ({
             </div>
           </div>
         </div>
+        {colorLegend}
       </div>
     );
   }
@@ -423,8 +538,8 @@ const GoogleCalendarView = ({
 
     const getEventsForDay = (day: Date) => {
       return events
-        .filter((event) => isSameDay(parseISO(event.starts_at), day))
-        .sort((a, b) => parseISO(a.starts_at).getTime() - parseISO(b.starts_at).getTime());
+        .filter((event) => isSameDay(toZoned(event.starts_at), day))
+        .sort((a, b) => toZoned(a.starts_at).getTime() - toZoned(b.starts_at).getTime());
     };
 
     return (
@@ -507,9 +622,10 @@ const GoogleCalendarView = ({
                               isPendingFromOther && "border-dashed opacity-80"
                             )}
                             style={{
-                              borderLeftColor: event.room?.color || "#888",
-                              backgroundColor: `${event.room?.color}20`,
+                              borderLeftColor: getColor(event),
+                              backgroundColor: `${getColor(event)}20`,
                             }}
+                            title={getRoomLabel(event)}
                             onClick={(e) => {
                               e.stopPropagation();
                               onEventClick(event.id);
@@ -517,9 +633,10 @@ const GoogleCalendarView = ({
                           >
                             <div className="flex items-center gap-0.5 sm:gap-1">
                               <span className="font-medium truncate hidden sm:inline">
-                                {format(parseISO(event.starts_at), "h:mm a")}
+                                {format(toZoned(event.starts_at), "h:mm a")}
                               </span>
                               <span className="truncate">{event.title}</span>
+                              <OccurrenceIndicator event={event} className="h-2.5 w-2.5 text-muted-foreground" timezone={timezone} />
                             </div>
                           </div>
                         );
@@ -536,13 +653,20 @@ const GoogleCalendarView = ({
                     {/* Event count dots - shown on mobile when no room for events */}
                     {dayEvents.length > 0 && (
                       <div className="absolute bottom-0.5 sm:bottom-1 right-0.5 sm:right-1 flex gap-0.5 sm:hidden">
-                        {dayEvents.slice(0, 3).map((event, idx) => (
-                          <div
-                            key={idx}
-                            className="w-1 h-1 sm:w-1.5 sm:h-1.5 rounded-full"
-                            style={{ backgroundColor: event.room?.color || "#888" }}
-                          />
-                        ))}
+                        {(colorBy === "room"
+                          ? dayEvents
+                              .flatMap((event) => event.reserved_rooms?.length ? event.reserved_rooms : [event.room])
+                              .map((room) => room?.color || "#888")
+                          : dayEvents.map(getColor)
+                        )
+                          .slice(0, 3)
+                          .map((color, idx) => (
+                            <div
+                              key={idx}
+                              className="w-1 h-1 sm:w-1.5 sm:h-1.5 rounded-full"
+                              style={{ backgroundColor: color }}
+                            />
+                          ))}
                       </div>
                     )}
                   </div>
@@ -579,6 +703,7 @@ const GoogleCalendarView = ({
             </div>
           </Card>
         )}
+        {colorLegend}
       </div>
     );
   }
@@ -0,0 +1,411 @@
+/**
+ * ImportDialog - Import events from an iCalendar (.ics) file into a room calendar
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/shared/components/ui/dialog";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/shared/components/ui/radio-group";
+import { Checkbox } from "@/shared/components/ui/checkbox";
+import { Separator } from "@/shared/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/components/ui/select";
+import { Upload, Loader2, AlertCircle, AlertTriangle, CheckCircle2, Repeat } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/shared/hooks/use-toast";
+import { useImportEvents } from "../hooks";
+import { importService, type ImportCandidate, type ImportPreview, type ImportStatus } from "../services";
+import type { Room } from "../types";
+import { formatInTimeZone } from "../utils";
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId?: string;
+  // Organization time zone; all-day and floating times are imported in it
+  timezone?: string;
+  userId?: string;
+  onSuccess?: () => void;
+}
+
+/**
+ * Room whose name matches an event's LOCATION, if any
+ */
+const matchRoom = (rooms: Room[], location: string | null): string | undefined => {
+  if (!location) return undefined;
+  const normalized = location.toLowerCase();
+  return (
+    rooms.find((room) => room.name.toLowerCase() === normalized) ||
+    rooms.find((room) => normalized.includes(room.name.toLowerCase()))
+  )?.id;
+};
+
+const formatWhen = (candidate: ImportCandidate, timezone?: string) => {
+  const { starts_at, ends_at } = candidate.event;
+  return candidate.event.all_day
+    ? formatInTimeZone(starts_at, "EEE, MMM d, yyyy", timezone)
+    : `${formatInTimeZone(starts_at, "EEE, MMM d, yyyy h:mm a", timezone)} – ${formatInTimeZone(ends_at, "h:mm a", timezone)}`;
+};
+
+const ImportDialog = ({ open, onOpenChange, organizationId, timezone, userId, onSuccess }: ImportDialogProps) => {
+  const { toast } = useToast();
+  const importEvents = useImportEvents();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [defaultRoomId, setDefaultRoomId] = useState<string>("");
+  const [roomAssignments, setRoomAssignments] = useState<Record<string, string>>({});
+  const [status, setStatus] = useState<ImportStatus>("draft");
+  const [skipConflicts, setSkipConflicts] = useState(true);
+
+  const { data: rooms } = useQuery({
+    queryKey: ["rooms", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const { data, error } = await supabase
+        .from("rooms")
+        .select("*")
+        .eq("organization_id", organizationId)
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId && open,
+  });
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFileName(null);
+      setPreview(null);
+      setParseError(null);
+      setSelected(new Set());
+      setRoomAssignments({});
+      setStatus("draft");
+      setSkipConflicts(true);
+    }
+  }, [open]);
+
+  const getRoomId = useCallback(
+    (candidate: ImportCandidate) => roomAssignments[candidate.key] || defaultRoomId,
+    [roomAssignments, defaultRoomId]
+  );
+
+  // Conflicts per candidate for its assigned room
+  const assignmentKey = (preview?.candidates || []).map((c) => `${c.key}:${getRoomId(c)}`).join("|");
+  const { data: conflicts, isFetching: checkingConflicts } = useQuery({
+    queryKey: ["import-conflicts", assignmentKey, rooms?.length],
+    queryFn: async () => {
+      const entries = await Promise.all(
+        (preview?.candidates || [])
+          .filter((candidate) => getRoomId(candidate))
+          .map(async (candidate) => {
+            const room = rooms?.find((r) => r.id === getRoomId(candidate));
+            if (room?.allow_overlap) return [candidate.key, []] as const;
+            return [candidate.key, await importService.findConflicts(getRoomId(candidate), candidate, timezone)] as const;
+          })
+      );
+      return Object.fromEntries(entries);
+    },
+    enabled: !!preview && preview.candidates.length > 0,
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setFileName(file.name);
+    setParseError(null);
+    try {
+      const result = importService.parse(await file.text(), timezone);
+      const assignments: Record<string, string> = {};
+      for (const candidate of result.candidates) {
+        const roomId = matchRoom(rooms || [], candidate.event.location);
+        if (roomId) assignments[candidate.key] = roomId;
+      }
+
+      setPreview(result);
+      setRoomAssignments(assignments);
+      setSelected(new Set(result.candidates.map((c) => c.key)));
+    } catch (error) {
+      setPreview(null);
+      setParseError(error instanceof Error ? error.message : "The file could not be read.");
+    }
+  };
+
+  const toggleSelected = (key: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(key);
+    else next.delete(key);
+    setSelected(next);
+  };
+
+  const importable = useMemo(
+    () =>
+      (preview?.candidates || []).filter(
+        (candidate) =>
+          selected.has(candidate.key) &&
+          getRoomId(candidate) &&
+          !(skipConflicts && (conflicts?.[candidate.key]?.length || 0) > 0)
+      ),
+    [preview, selected, getRoomId, skipConflicts, conflicts]
+  );
+
+  const handleImport = async () => {
+    if (!organizationId || !userId) return;
+
+    try {
+      const result = await importEvents.mutateAsync({
+        organizationId,
+        userId,
+        items: importable.map((candidate) => ({ candidate, roomId: getRoomId(candidate) })),
+        status,
+        timezone,
+      });
+
+      if (result.failed.length === 0) {
+        toast({
+          title: "Import successful",
+          description: `Imported ${result.created} event${result.created !== 1 ? "s" : ""} as ${status === "draft" ? "drafts" : "pending review"}.`,
+        });
+        onSuccess?.();
+        onOpenChange(false);
+      } else {
+        toast({
+          title: `Imported ${result.created} of ${result.created + result.failed.length} events`,
+          description: result.failed.map((f) => `${f.title}: ${f.message}`).join("\n"),
+          variant: "destructive",
+        });
+        onSuccess?.();
+      }
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const candidates = preview?.candidates || [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Import Calendar
+          </DialogTitle>
+          <DialogDescription>
+            Bring events in from Google Calendar, Outlook or any app that exports iCalendar (.ics) files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          {/* File selection */}
+          <div className="space-y-2">
+            <Label htmlFor="import-file" className="text-sm font-medium">Calendar File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {parseError && (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                {parseError}
+              </p>
+            )}
+            {preview && (
+              <p className="text-xs text-muted-foreground">
+                {preview.calendarName || fileName}: {candidates.length} event{candidates.length !== 1 ? "s" : ""} found
+              </p>
+            )}
+            {preview?.warnings.map((warning) => (
+              <p key={warning} className="text-xs text-amber-600">{warning}</p>
+            ))}
+          </div>
+
+          {preview && candidates.length > 0 && (
+            <>
+              <Separator />
+
+              {/* Import options */}
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Room</Label>
+                  <Select value={defaultRoomId} onValueChange={setDefaultRoomId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a room" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rooms?.map((room) => (
+                        <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Used for events whose location does not match a room
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Create As</Label>
+                  <RadioGroup
+                    value={status}
+                    onValueChange={(value) => setStatus(value as ImportStatus)}
+                    className="space-y-1"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="draft" id="import-draft" />
+                      <Label htmlFor="import-draft" className="text-sm cursor-pointer">Drafts</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="pending_review" id="import-pending" />
+                      <Label htmlFor="import-pending" className="text-sm cursor-pointer">Submitted for review</Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="skip-conflicts"
+                  checked={skipConflicts}
+                  onCheckedChange={(checked) => setSkipConflicts(checked as boolean)}
+                />
+                <Label htmlFor="skip-conflicts" className="text-sm cursor-pointer">
+                  Skip events that conflict with existing bookings
+                </Label>
+              </div>
+
+              {/* Preview */}
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Events</Label>
+                <div className="max-h-72 overflow-y-auto space-y-2 border rounded-md p-2">
+                  {candidates.map((candidate) => {
+                    const roomId = getRoomId(candidate);
+                    const candidateConflicts = conflicts?.[candidate.key] || [];
+
+                    return (
+                      <div key={candidate.key} className="flex items-start gap-3 p-2 rounded-md border">
+                        <Checkbox
+                          checked={selected.has(candidate.key)}
+                          onCheckedChange={(checked) => toggleSelected(candidate.key, checked as boolean)}
+                          className="mt-1"
+                        />
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <p className="text-sm font-medium truncate">{candidate.event.title}</p>
+                            {candidate.event.recurrence_rule && (
+                              <Repeat className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {formatWhen(candidate, timezone)}
+                            {candidate.event.location && ` · ${candidate.event.location}`}
+                          </p>
+                          {candidate.overrides.length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              {candidate.overrides.length} changed occurrence{candidate.overrides.length !== 1 ? "s" : ""}
+                            </p>
+                          )}
+                          {candidate.warnings.map((warning) => (
+                            <p key={warning} className="text-xs text-amber-600">{warning}</p>
+                          ))}
+                          {candidateConflicts.length > 0 && (
+                            <p className="flex items-center gap-1 text-xs text-destructive">
+                              <AlertTriangle className="h-3 w-3" />
+                              Conflicts with "{candidateConflicts[0].title}"
+                              {candidateConflicts.length > 1 && ` and ${candidateConflicts.length - 1} more`}
+                            </p>
+                          )}
+                        </div>
+                        <Select
+                          value={roomId}
+                          onValueChange={(value) => setRoomAssignments({ ...roomAssignments, [candidate.key]: value })}
+                        >
+                          <SelectTrigger className="h-8 w-36 text-xs">
+                            <SelectValue placeholder="Room" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {rooms?.map((room) => (
+                              <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="bg-muted/50 rounded-lg p-3">
+                <div className="flex items-center gap-2">
+                  {checkingConflicts ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span className="text-sm text-muted-foreground">Checking room availability...</span>
+                    </>
+                  ) : importable.length > 0 ? (
+                    <>
+                      <CheckCircle2 className="h-4 w-4 text-green-500" />
+                      <span className="text-sm">
+                        Ready to import <strong>{importable.length}</strong> event{importable.length !== 1 ? "s" : ""}
+                      </span>
+                    </>
+                  ) : (
+                    <>
+                      <AlertCircle className="h-4 w-4 text-amber-500" />
+                      <span className="text-sm text-muted-foreground">
+                        Select events and a room to import
+                      </span>
+                    </>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={importEvents.isPending || checkingConflicts || importable.length === 0 || !userId}
+          >
+            {importEvents.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              <>
+                <Upload className="mr-2 h-4 w-4" />
+                Import {importable.length > 0 ? importable.length : ""} Event{importable.length !== 1 ? "s" : ""}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
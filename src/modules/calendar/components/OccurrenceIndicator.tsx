@@ -0,0 +1,35 @@
+import { CalendarClock, Repeat } from "lucide-react";
+import { cn } from "@/shared/lib/utils";
+import { describeOccurrence } from "../utils";
+
+interface OccurrenceIndicatorProps {
+  event: {
+    starts_at: string;
+    is_recurring?: boolean | null;
+    series_id?: string;
+    parent_event_id?: string | null;
+    recurrence_id?: string | null;
+  };
+  className?: string;
+  // Zone the original time is shown in
+  timezone?: string;
+}
+
+/**
+ * Small icon marking recurring occurrences; moved or edited occurrences get a
+ * distinct icon and a tooltip with their original time
+ */
+const OccurrenceIndicator = ({ event, className, timezone }: OccurrenceIndicatorProps) => {
+  const description = describeOccurrence(event, timezone);
+  if (!description) return null;
+
+  const Icon = event.parent_event_id ? CalendarClock : Repeat;
+
+  return (
+    <span title={description} aria-label={description} className={cn("inline-flex shrink-0", className)}>
+      <Icon className="h-full w-full" />
+    </span>
+  );
+};
+
+export default OccurrenceIndicator;
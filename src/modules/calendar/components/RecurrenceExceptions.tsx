@@ -0,0 +1,116 @@
+import { CalendarClock, CalendarX, RotateCcw } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { useToast } from "@/shared/hooks/use-toast";
+import { useRestoreOccurrence, useSeriesExceptions } from "../hooks";
+import { formatInTimeZone, isSameInstant } from "../utils";
+
+interface RecurrenceExceptionsProps {
+  seriesId: string;
+  canEdit: boolean;
+  // Zone the occurrence times are shown in
+  timezone?: string;
+}
+
+/**
+ * Lists skipped and changed occurrences of a recurring series, with the option
+ * to put each one back to the series defaults
+ */
+const RecurrenceExceptions = ({ seriesId, canEdit, timezone }: RecurrenceExceptionsProps) => {
+  const { toast } = useToast();
+  const { data: exceptions } = useSeriesExceptions(seriesId);
+  const restoreOccurrence = useRestoreOccurrence();
+
+  if (!exceptions || (exceptions.skipped.length === 0 && exceptions.overrides.length === 0)) {
+    return null;
+  }
+
+  const handleRestore = async (occurrenceStart: string) => {
+    try {
+      await restoreOccurrence.mutateAsync({ seriesId, occurrenceStart });
+      toast({ title: "Occurrence restored to the series" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-200/60 bg-slate-50 p-4 space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-slate-700">Series exceptions</h4>
+        <p className="text-xs text-muted-foreground">
+          Occurrences that were skipped or changed individually
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {exceptions.skipped.map((date) => (
+          <div key={date} className="flex items-center justify-between gap-2 rounded-lg bg-white px-3 py-2 text-sm shadow-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              <CalendarX className="h-4 w-4 shrink-0 text-red-500" />
+              <span className="truncate line-through text-muted-foreground">
+                {formatInTimeZone(date, "EEE, MMM d, yyyy 'at' h:mm a", timezone)}
+              </span>
+              <span className="text-xs text-red-600">Skipped</span>
+            </div>
+            {canEdit && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 text-xs"
+                onClick={() => handleRestore(date)}
+                disabled={restoreOccurrence.isPending}
+              >
+                <RotateCcw className="h-3 w-3" />
+                Restore
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {exceptions.overrides.map((override) => {
+          const moved = override.recurrence_id && !isSameInstant(override.recurrence_id, override.starts_at);
+
+          return (
+            <div key={override.id} className="flex items-center justify-between gap-2 rounded-lg bg-white px-3 py-2 text-sm shadow-sm">
+              <div className="flex items-start gap-2 min-w-0">
+                <CalendarClock className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+                <div className="min-w-0">
+                  <div className="truncate">
+                    {override.recurrence_id && formatInTimeZone(override.recurrence_id, "EEE, MMM d, yyyy", timezone)}
+                    {override.title && <span className="text-muted-foreground"> · {override.title}</span>}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {moved
+                      ? `Moved to ${formatInTimeZone(override.starts_at, "EEE, MMM d 'at' h:mm a", timezone)}`
+                      : `At ${formatInTimeZone(override.starts_at, "h:mm a", timezone)}`}
+                    {override.room?.name && ` in ${override.room.name}`}
+                  </div>
+                </div>
+              </div>
+              {canEdit && override.recurrence_id && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1 text-xs"
+                  onClick={() => handleRestore(override.recurrence_id!)}
+                  disabled={restoreOccurrence.isPending}
+                >
+                  <RotateCcw className="h-3 w-3" />
+                  Reset
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceExceptions;
@@ -3,9 +3,22 @@ import { Label } from '@/shared/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
 import { Input } from '@/shared/components/ui/input';
 import { RadioGroup, RadioGroupItem } from '@/shared/components/ui/radio-group';
-import { Repeat, Calendar, X } from 'lucide-react';
+import { Repeat, Calendar, X, AlertTriangle } from 'lucide-react';
 import { cn } from '@/shared/lib/utils';
 import { Button } from '@/shared/components/ui/button';
+import {
+  createRRule,
+  formatRRuleWeekday,
+  getUnsupportedRRuleParts,
+  parseRRule,
+  resolveRRuleUntil,
+  serializeRRule,
+  SUPPORTED_FREQUENCIES,
+  WEEKDAY_CODES,
+  type RRule,
+  type RRuleFrequency,
+} from '../utils/rrule';
+import { formatInTimeZone } from '../utils/timezone';
 
 export interface RecurrenceConfig {
   frequency: 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly';
@@ -22,6 +35,8 @@ export interface RecurrenceConfig {
   endType: 'never' | 'on' | 'after';
   endDate?: string;
   occurrences?: number;
+  // Parsed rule the config was loaded from; parts the editor cannot show are kept from it
+  sourceRule?: RRule;
 }
 
 interface RecurrenceSelectorProps {
@@ -133,6 +148,11 @@ export const RecurrenceSelector: React.FC<RecurrenceSelectorProps> = ({
     }
   };
 
+  const hiddenParts = value.sourceRule && toEditorFrequency(value.sourceRule.freq) === value.frequency
+    ? getHiddenRuleParts(value.sourceRule)
+    : [];
+  const unsupportedParts = value.sourceRule ? getUnsupportedRRuleParts(value.sourceRule) : [];
+
   // Simple view when not recurring
   if (value.frequency === 'none') {
     return (
@@ -489,6 +509,21 @@ export const RecurrenceSelector: React.FC<RecurrenceSelectorProps> = ({
             </div>
           </div>
         </div>
+
+        {/* Rule parts the editor cannot show or the calendar cannot apply */}
+        {(hiddenParts.length > 0 || unsupportedParts.length > 0) && (
+          <div className="flex items-start gap-2 p-3 rounded-md bg-amber-50 border border-amber-200 text-xs text-amber-800">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <div className="space-y-1">
+              {hiddenParts.length > 0 && (
+                <p>Kept from the original rule: {hiddenParts.join('; ')}</p>
+              )}
+              {unsupportedParts.length > 0 && (
+                <p>Not applied on this calendar: {unsupportedParts.join('; ')}</p>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -532,7 +567,7 @@ function getRecurrenceSummary(config: RecurrenceConfig): string {
   }
 
   if (config.endType === 'on' && config.endDate) {
-    const date = new Date(config.endDate);
+    const date = new Date(`${config.endDate}T00:00:00`);
     summary += `, until ${date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`;
   } else if (config.endType === 'after' && config.occurrences) {
     summary += `, for ${config.occurrences} occurrence${config.occurrences > 1 ? 's' : ''}`;
@@ -552,62 +587,159 @@ function getDaySuffix(day: number): string {
   }
 }
 
-// Helper function to convert RecurrenceConfig to RRULE string
-export function recurrenceConfigToRRule(config: RecurrenceConfig, startDate: Date): string | null {
-  if (config.frequency === 'none') return null;
+// Editor fields that determine each part of a rule; when they are unchanged
+// from the loaded rule, that part is written back exactly as it was
+const BYDAY_FIELDS: (keyof RecurrenceConfig)[] = ['daysOfWeek', 'monthlyType', 'weekOfMonth', 'dayOfWeekForMonth'];
+const BYMONTHDAY_FIELDS: (keyof RecurrenceConfig)[] = ['dayOfMonth', 'monthlyType'];
+const BYMONTH_FIELDS: (keyof RecurrenceConfig)[] = ['monthOfYear'];
+
+const sameFields = (a: RecurrenceConfig, b: RecurrenceConfig, fields: (keyof RecurrenceConfig)[]) =>
+  fields.every((field) => JSON.stringify(a[field]) === JSON.stringify(b[field]));
+
+// Editor frequency for a parsed rule; sub-daily rules are shown as daily
+const toEditorFrequency = (freq: RRuleFrequency): RecurrenceConfig['frequency'] =>
+  SUPPORTED_FREQUENCIES.includes(freq) ? (freq.toLowerCase() as RecurrenceConfig['frequency']) : 'daily';
+
+// Build the editor config for a parsed rule; the end date is shown in `timeZone`
+function ruleToConfig(rule: RRule, timeZone?: string | null): RecurrenceConfig {
+  const config: RecurrenceConfig = {
+    frequency: toEditorFrequency(rule.freq),
+    interval: rule.interval,
+    endType: 'never',
+  };
+
+  const ordinalDay = rule.byDay.find((d) => d.ordinal !== undefined);
+  if (ordinalDay) {
+    // Monthly weekday pattern (e.g., "1MO", "-1SA")
+    config.monthlyType = 'weekday';
+    config.weekOfMonth = ordinalDay.ordinal;
+    config.dayOfWeekForMonth = ordinalDay.weekday;
+  } else if (rule.byDay.length > 0) {
+    config.daysOfWeek = rule.byDay.map((d) => d.weekday);
+  }
 
-  const parts: string[] = [];
+  if (rule.byMonthDay.length > 0) {
+    config.dayOfMonth = rule.byMonthDay[0];
+    if (!ordinalDay) config.monthlyType = 'dayOfMonth';
+  }
+  if (rule.byMonth.length > 0) {
+    config.monthOfYear = rule.byMonth[0];
+  }
+
+  if (rule.until) {
+    config.endType = 'on';
+    config.endDate = formatInTimeZone(resolveRRuleUntil(rule, timeZone)!, 'yyyy-MM-dd', timeZone);
+  } else if (rule.count !== undefined) {
+    config.endType = 'after';
+    config.occurrences = rule.count;
+  }
+
+  return config;
+}
 
-  // Frequency
-  parts.push(`FREQ=${config.frequency.toUpperCase()}`);
+// Parts of a loaded rule the editor cannot display; they are kept on save
+export function getHiddenRuleParts(rule: RRule): string[] {
+  const shown = configToRule(ruleToConfig(rule));
+  const hidden: string[] = [];
 
-  // Interval
-  if (config.interval > 1) {
-    parts.push(`INTERVAL=${config.interval}`);
+  if (rule.wkst !== undefined) hidden.push(`WKST=${WEEKDAY_CODES[rule.wkst]}`);
+  if (rule.byDay.map(formatRRuleWeekday).join(',') !== shown.byDay.map(formatRRuleWeekday).join(',')) {
+    hidden.push(`BYDAY=${rule.byDay.map(formatRRuleWeekday).join(',')}`);
   }
+  if (rule.byMonthDay.join(',') !== shown.byMonthDay.join(',')) hidden.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byYearDay.length > 0) hidden.push(`BYYEARDAY=${rule.byYearDay.join(',')}`);
+  if (rule.byMonth.join(',') !== shown.byMonth.join(',')) hidden.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.bySetPos.length > 0) hidden.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+
+  return hidden;
+}
+
+// Build a rule from the editor fields alone; an end date runs to the end of that day in `timeZone`
+function configToRule(config: RecurrenceConfig, timeZone?: string | null): RRule {
+  const rule = createRRule(config.frequency.toUpperCase() as RRuleFrequency, {
+    interval: Math.max(1, config.interval || 1),
+  });
 
   // Days of week (for weekly)
   if (config.frequency === 'weekly' && config.daysOfWeek && config.daysOfWeek.length > 0) {
-    const dayMap = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
-    const days = config.daysOfWeek.map(d => dayMap[d]).join(',');
-    parts.push(`BYDAY=${days}`);
+    rule.byDay = config.daysOfWeek.map((weekday) => ({ weekday }));
   }
 
   // Monthly with weekday pattern (e.g., "first Monday", "last Saturday")
   if (config.frequency === 'monthly' && config.monthlyType === 'weekday' &&
       config.weekOfMonth !== undefined && config.dayOfWeekForMonth !== undefined) {
-    const dayMap = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
-    const dayCode = dayMap[config.dayOfWeekForMonth];
-    // RRULE uses ordinal prefix: 1MO = first Monday, -1SA = last Saturday
-    parts.push(`BYDAY=${config.weekOfMonth}${dayCode}`);
+    rule.byDay = [{ weekday: config.dayOfWeekForMonth, ordinal: config.weekOfMonth }];
   }
   // Day of month (for monthly without weekday pattern, or yearly)
   else if ((config.frequency === 'monthly' && config.monthlyType !== 'weekday' && config.dayOfMonth) ||
            (config.frequency === 'yearly' && config.dayOfMonth)) {
-    parts.push(`BYMONTHDAY=${config.dayOfMonth}`);
+    rule.byMonthDay = [config.dayOfMonth];
   }
 
   // Month of year (for yearly)
   if (config.frequency === 'yearly' && config.monthOfYear) {
-    parts.push(`BYMONTH=${config.monthOfYear}`);
+    rule.byMonth = [config.monthOfYear];
   }
 
   // End condition
   if (config.endType === 'on' && config.endDate) {
-    const endDate = new Date(config.endDate);
-    endDate.setHours(23, 59, 59, 999);
-    const until = endDate.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    parts.push(`UNTIL=${until}`);
+    // Read like a DATE bound, so the day ends in the calendar's zone rather than the browser's
+    rule.until = resolveRRuleUntil(
+      { ...rule, until: new Date(`${config.endDate}T00:00:00Z`), untilIsDate: true },
+      timeZone
+    );
   } else if (config.endType === 'after' && config.occurrences) {
-    parts.push(`COUNT=${config.occurrences}`);
+    rule.count = config.occurrences;
   }
 
-  return parts.join(';');
+  return rule;
+}
+
+// Helper function to convert RecurrenceConfig to RRULE string
+export function recurrenceConfigToRRule(
+  config: RecurrenceConfig,
+  startDate: Date,
+  timeZone?: string | null
+): string | null {
+  if (config.frequency === 'none') return null;
+
+  const rule = configToRule(config, timeZone);
+  const source = config.sourceRule;
+  if (!source) return serializeRRule(rule);
+
+  // Carry over what the editor cannot show from the rule it was loaded from
+  const loaded = ruleToConfig(source, timeZone);
+  rule.wkst = source.wkst;
+  rule.unknown = source.unknown;
+
+  if (toEditorFrequency(source.freq) === config.frequency) {
+    rule.freq = source.freq;
+    rule.bySecond = source.bySecond;
+    rule.byMinute = source.byMinute;
+    rule.byHour = source.byHour;
+    rule.byYearDay = source.byYearDay;
+    rule.byWeekNo = source.byWeekNo;
+    rule.bySetPos = source.bySetPos;
+    if (sameFields(config, loaded, BYDAY_FIELDS)) rule.byDay = source.byDay;
+    if (sameFields(config, loaded, BYMONTHDAY_FIELDS)) rule.byMonthDay = source.byMonthDay;
+    if (sameFields(config, loaded, BYMONTH_FIELDS)) rule.byMonth = source.byMonth;
+  }
+
+  // Keep the original end value (and its DATE / floating form) when untouched
+  if (sameFields(config, loaded, ['endType', 'endDate', 'occurrences'])) {
+    rule.count = source.count;
+    rule.until = source.until;
+    rule.untilIsDate = source.untilIsDate;
+    rule.untilIsLocal = source.untilIsLocal;
+  }
+
+  return serializeRRule(rule);
 }
 
 // Helper function to parse RRULE string to RecurrenceConfig
-export function rruleToRecurrenceConfig(rrule: string | null): RecurrenceConfig {
-  if (!rrule) {
+export function rruleToRecurrenceConfig(rrule: string | null, timeZone?: string | null): RecurrenceConfig {
+  const rule = parseRRule(rrule);
+  if (!rule) {
     return {
       frequency: 'none',
       interval: 1,
@@ -615,55 +747,5 @@ export function rruleToRecurrenceConfig(rrule: string | null): RecurrenceConfig
     };
   }
 
-  const config: RecurrenceConfig = {
-    frequency: 'none',
-    interval: 1,
-    endType: 'never',
-  };
-
-  const parts = rrule.split(';');
-
-  for (const part of parts) {
-    const [key, value] = part.split('=');
-
-    switch (key) {
-      case 'FREQ':
-        config.frequency = value.toLowerCase() as RecurrenceConfig['frequency'];
-        break;
-      case 'INTERVAL':
-        config.interval = parseInt(value);
-        break;
-      case 'BYDAY':
-        const dayMap: { [key: string]: number } = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
-        // Check if this is an ordinal weekday pattern (e.g., "1MO", "-1SA")
-        const ordinalMatch = value.match(/^(-?\d+)(SU|MO|TU|WE|TH|FR|SA)$/);
-        if (ordinalMatch) {
-          // Monthly weekday pattern
-          config.monthlyType = 'weekday';
-          config.weekOfMonth = parseInt(ordinalMatch[1]);
-          config.dayOfWeekForMonth = dayMap[ordinalMatch[2]];
-        } else {
-          // Weekly days of week (comma-separated)
-          config.daysOfWeek = value.split(',').map(d => dayMap[d]).filter(d => d !== undefined);
-        }
-        break;
-      case 'BYMONTHDAY':
-        config.dayOfMonth = parseInt(value);
-        config.monthlyType = 'dayOfMonth';
-        break;
-      case 'BYMONTH':
-        config.monthOfYear = parseInt(value);
-        break;
-      case 'UNTIL':
-        config.endType = 'on';
-        config.endDate = value.slice(0, 8).replace(/(\d{4})(\d{2})(\d{2})/, '$1-$2-$3');
-        break;
-      case 'COUNT':
-        config.endType = 'after';
-        config.occurrences = parseInt(value);
-        break;
-    }
-  }
-
-  return config;
+  return { ...ruleToConfig(rule, timeZone), sourceRule: rule };
 }
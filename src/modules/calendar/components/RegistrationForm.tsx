@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { z } from "zod";
+import { CheckCircle2, Hourglass, UserPlus } from "lucide-react";
+import { Alert, AlertDescription } from "@/shared/components/ui/alert";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import { useRegisterForEvent, useRegistrationCounts } from "../hooks";
+import type { RegistrationStatus } from "../types";
+import {
+  getRegistrationTarget,
+  getSpotsLeft,
+  MAX_REGISTRATION_HEADCOUNT,
+  willBeWaitlisted,
+} from "../utils";
+
+const registrationSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200, "Name too long"),
+  email: z.string().trim().email("Enter a valid email address"),
+  headcount: z
+    .number()
+    .int()
+    .min(1, "At least 1 person")
+    .max(MAX_REGISTRATION_HEADCOUNT, `At most ${MAX_REGISTRATION_HEADCOUNT} people per registration`),
+});
+
+interface RegistrationFormProps {
+  event: {
+    id: string;
+    series_id?: string;
+    occurrence_start?: string;
+  };
+}
+
+/**
+ * RSVP form of a published event on the public calendar. Shows the places
+ * left and tells the visitor whether they are confirmed or waitlisted.
+ */
+const RegistrationForm = ({ event }: RegistrationFormProps) => {
+  const target = getRegistrationTarget(event);
+  const { data: counts } = useRegistrationCounts(target);
+  const registerForEvent = useRegisterForEvent();
+
+  const [form, setForm] = useState({ name: "", email: "", headcount: 1 });
+  const [error, setError] = useState("");
+  const [result, setResult] = useState<RegistrationStatus | null>(null);
+
+  // The event takes no registrations (anymore)
+  if (!counts) return null;
+
+  if (result) {
+    return (
+      <Alert>
+        {result === "confirmed" ? <CheckCircle2 className="h-4 w-4" /> : <Hourglass className="h-4 w-4" />}
+        <AlertDescription>
+          {result === "confirmed"
+            ? "You're registered! A confirmation has been sent to your email."
+            : "This event is full, so you've been added to the waitlist. We'll email you if a place opens up."}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const spotsLeft = getSpotsLeft(counts);
+  const waitlisted = willBeWaitlisted(counts, form.headcount);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const parsed = registrationSchema.safeParse(form);
+    if (!parsed.success) {
+      setError(parsed.error.errors[0].message);
+      return;
+    }
+
+    try {
+      const registration = await registerForEvent.mutateAsync({
+        target,
+        input: { name: parsed.data.name, email: parsed.data.email, headcount: parsed.data.headcount },
+      });
+      setResult(registration.status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Registration failed");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-1.5 text-sm font-medium">
+          <UserPlus className="h-4 w-4" />
+          Register
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {spotsLeft === null
+            ? "Open registration"
+            : spotsLeft === 0
+              ? "Full · waitlist open"
+              : `${spotsLeft} ${spotsLeft === 1 ? "place" : "places"} left`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_80px] gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="registration-name" className="text-xs">Name</Label>
+          <Input
+            id="registration-name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            autoComplete="name"
+            maxLength={200}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="registration-email" className="text-xs">Email</Label>
+          <Input
+            id="registration-email"
+            type="email"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+            autoComplete="email"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="registration-headcount" className="text-xs">People</Label>
+          <Input
+            id="registration-headcount"
+            type="number"
+            min={1}
+            max={MAX_REGISTRATION_HEADCOUNT}
+            value={form.headcount}
+            onChange={(e) => setForm({ ...form, headcount: Math.max(1, Number(e.target.value) || 1) })}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      <Button type="submit" className="w-full" disabled={registerForEvent.isPending}>
+        {registerForEvent.isPending ? "Registering..." : waitlisted ? "Join Waitlist" : "Register"}
+      </Button>
+    </form>
+  );
+};
+
+export default RegistrationForm;
@@ -0,0 +1,22 @@
+import { QRCodeSVG } from "qrcode.react";
+import { cn } from "@/shared/lib/utils";
+import type { EventRegistration } from "../types";
+import { getCheckInUrl } from "../utils";
+
+interface RegistrationQRCodeProps {
+  registration: Pick<EventRegistration, "event_id" | "occurrence_start" | "check_in_token">;
+  size?: number;
+  className?: string;
+}
+
+/**
+ * QR code of a registration's ticket. Scanned with a phone camera, it opens
+ * the event's check-in page and checks the registrant in.
+ */
+const RegistrationQRCode = ({ registration, size = 192, className }: RegistrationQRCodeProps) => (
+  <div className={cn("inline-flex rounded-lg bg-white p-3", className)}>
+    <QRCodeSVG value={getCheckInUrl(window.location.origin, registration)} size={size} level="M" />
+  </div>
+);
+
+export default RegistrationQRCode;
@@ -0,0 +1,152 @@
+import { Loader2, Package, X } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/components/ui/select";
+import type { ResourceRequestInput } from "../services";
+import type { Resource, ResourceShortage } from "../types";
+import { getResourceKindLabel } from "../utils";
+import ResourceShortageAlerts from "./ResourceShortageAlerts";
+
+interface ResourceRequestsEditorProps {
+  resources: Resource[];
+  value: ResourceRequestInput[];
+  onChange: (requests: ResourceRequestInput[]) => void;
+  // Requested resources overlapping bookings leave too few of
+  shortages?: ResourceShortage[];
+  isCheckingShortages?: boolean;
+  // Whether the requests apply to every date of a series
+  isRecurring?: boolean;
+  timezone?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Equipment, staff and services an event asks for, with quantities and who
+ * is responsible, and the ones already booked by overlapping events
+ */
+const ResourceRequestsEditor = ({
+  resources,
+  value,
+  onChange,
+  shortages = [],
+  isCheckingShortages,
+  isRecurring,
+  timezone,
+  disabled,
+}: ResourceRequestsEditorProps) => {
+  const available = resources.filter(
+    (resource) => resource.is_active && !value.some((request) => request.resource_id === resource.id)
+  );
+
+  const update = (index: number, changes: Partial<ResourceRequestInput>) =>
+    onChange(value.map((request, i) => (i === index ? { ...request, ...changes } : request)));
+
+  const add = (resourceId: string) => {
+    const resource = resources.find((r) => r.id === resourceId);
+    onChange([
+      ...value,
+      { resource_id: resourceId, quantity: 1, responsible: resource?.default_responsible || null, notes: null },
+    ]);
+  };
+
+  if (resources.length === 0 && value.length === 0) return null;
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-200 p-4">
+      <div>
+        <Label className="flex items-center gap-1.5 text-sm font-medium text-slate-700">
+          <Package className="h-4 w-4" />
+          Resources
+        </Label>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          Equipment, staff and services the event needs{isRecurring ? ", on every date of the series" : ""}
+        </p>
+      </div>
+
+      {value.map((request, index) => {
+        const resource = resources.find((r) => r.id === request.resource_id);
+        return (
+          <div key={request.resource_id} className="space-y-2 rounded-lg bg-slate-50 p-3">
+            <div className="flex items-center gap-2">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-slate-700">{resource?.name || "Removed resource"}</p>
+                {resource && (
+                  <p className="text-xs text-muted-foreground">
+                    {getResourceKindLabel(resource.kind)}
+                    {resource.quantity && ` · ${resource.quantity} available`}
+                  </p>
+                )}
+              </div>
+              <Input
+                type="number"
+                min={1}
+                max={resource?.quantity || undefined}
+                value={request.quantity}
+                onChange={(e) => update(index, { quantity: Math.max(1, Number(e.target.value) || 1) })}
+                disabled={disabled}
+                className="h-9 w-20 bg-white"
+                aria-label={`Quantity of ${resource?.name || "resource"}`}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-9 w-9 p-0 text-destructive"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                disabled={disabled}
+                aria-label={`Remove ${resource?.name || "resource"}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              <Input
+                value={request.responsible || ""}
+                onChange={(e) => update(index, { responsible: e.target.value || null })}
+                placeholder="Responsible person or team"
+                maxLength={200}
+                disabled={disabled}
+                className="h-9 bg-white text-sm"
+              />
+              <Input
+                value={request.notes || ""}
+                onChange={(e) => update(index, { notes: e.target.value || null })}
+                placeholder="Notes"
+                maxLength={500}
+                disabled={disabled}
+                className="h-9 bg-white text-sm"
+              />
+            </div>
+          </div>
+        );
+      })}
+
+      {available.length > 0 && !disabled && (
+        <Select value="" onValueChange={add}>
+          <SelectTrigger className="h-9 bg-white text-sm">
+            <SelectValue placeholder="Add a resource..." />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((resource) => (
+              <SelectItem key={resource.id} value={resource.id}>
+                {resource.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {isCheckingShortages && (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Checking other bookings...
+        </p>
+      )}
+
+      <ResourceShortageAlerts shortages={shortages} timezone={timezone} />
+    </div>
+  );
+};
+
+export default ResourceRequestsEditor;
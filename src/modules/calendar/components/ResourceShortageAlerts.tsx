@@ -0,0 +1,69 @@
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/shared/lib/utils";
+import type { ResourceShortage } from "../types";
+import { describeResourceShortage, formatInTimeZone } from "../utils";
+
+interface ResourceShortageAlertsProps {
+  shortages: ResourceShortage[];
+  // Zone the dates of a series are shown in
+  timezone?: string;
+  className?: string;
+}
+
+/**
+ * Double-booked resources of an event, one alert per resource. Shortages on
+ * several dates of a series are listed together.
+ */
+const ResourceShortageAlerts = ({ shortages, timezone, className }: ResourceShortageAlertsProps) => {
+  const groups = Array.from(
+    shortages
+      .reduce((byResource, shortage) => {
+        byResource.set(shortage.resource_id, [...(byResource.get(shortage.resource_id) || []), shortage]);
+        return byResource;
+      }, new Map<string, ResourceShortage[]>())
+      .values()
+  );
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {groups.map((group) => {
+        const [first] = group;
+        const titles = Array.from(new Set(group.flatMap((shortage) => shortage.bookings.map((b) => `"${b.title}"`))));
+        return (
+          <div
+            key={first.resource_id}
+            className="flex gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900"
+          >
+            <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+            <div className="space-y-0.5">
+              <p className="font-medium">
+                {group.length > 1
+                  ? `${first.resource_name} is double-booked on ${group.length} dates`
+                  : describeResourceShortage(first)}
+              </p>
+              {group.length > 1 && (
+                <p>
+                  {group
+                    .slice(0, 3)
+                    .map((shortage) => formatInTimeZone(shortage.occurrence_start, "MMM d", timezone))
+                    .join(", ")}
+                  {group.length > 3 && ` and ${group.length - 3} more`}
+                </p>
+              )}
+              {titles.length > 0 && (
+                <p>
+                  Also booked for {titles.slice(0, 2).join(", ")}
+                  {titles.length > 2 && ` and ${titles.length - 2} more`}
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ResourceShortageAlerts;
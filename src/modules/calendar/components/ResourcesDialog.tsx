@@ -0,0 +1,288 @@
+/**
+ * ResourcesDialog - manage the equipment, staff and services events can
+ * request alongside their rooms
+ */
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/shared/components/ui/dialog";
+import { Badge } from "@/shared/components/ui/badge";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/components/ui/select";
+import { Switch } from "@/shared/components/ui/switch";
+import { Textarea } from "@/shared/components/ui/textarea";
+import { Package, Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/shared/hooks/use-toast";
+import { useCreateResource, useDeleteResource, useResources, useUpdateResource } from "../hooks";
+import type { ResourceInput } from "../services";
+import type { Resource, ResourceKind } from "../types";
+import { getResourceKindLabel, RESOURCE_KIND_LABELS, RESOURCE_KINDS } from "../utils";
+
+// Form state; an empty quantity means the resource is not limited
+interface ResourceForm {
+  name: string;
+  kind: ResourceKind;
+  quantity: string;
+  default_responsible: string;
+  description: string;
+}
+
+const EMPTY_FORM: ResourceForm = {
+  name: "",
+  kind: "equipment",
+  quantity: "",
+  default_responsible: "",
+  description: "",
+};
+
+const toForm = (resource: Resource): ResourceForm => ({
+  name: resource.name,
+  kind: resource.kind as ResourceKind,
+  quantity: resource.quantity ? String(resource.quantity) : "",
+  default_responsible: resource.default_responsible || "",
+  description: resource.description || "",
+});
+
+interface ResourcesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId: string | undefined;
+}
+
+const ResourcesDialog = ({ open, onOpenChange, organizationId }: ResourcesDialogProps) => {
+  const { toast } = useToast();
+  const { data: resources } = useResources(organizationId);
+  const createResource = useCreateResource();
+  const updateResource = useUpdateResource();
+  const deleteResource = useDeleteResource();
+
+  // Resource being edited: its id, "new", or null while listing
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<ResourceForm>(EMPTY_FORM);
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "An error occurred",
+      variant: "destructive",
+    });
+
+  const startEditing = (resource?: Resource) => {
+    setForm(resource ? toForm(resource) : EMPTY_FORM);
+    setEditing(resource?.id || "new");
+  };
+
+  const handleSave = async () => {
+    if (!organizationId) return;
+
+    const quantity = form.quantity ? Number(form.quantity) : null;
+    if (!form.name.trim()) {
+      toast({ title: "Validation error", description: "Give the resource a name", variant: "destructive" });
+      return;
+    }
+    if (quantity !== null && (!Number.isInteger(quantity) || quantity <= 0)) {
+      toast({ title: "Validation error", description: "Quantity must be a whole number above 0", variant: "destructive" });
+      return;
+    }
+
+    const resource: Omit<ResourceInput, "is_active"> = {
+      name: form.name.trim(),
+      kind: form.kind,
+      quantity,
+      default_responsible: form.default_responsible.trim() || null,
+      description: form.description.trim() || null,
+    };
+
+    try {
+      if (editing === "new") {
+        await createResource.mutateAsync({ organizationId, resource: { ...resource, is_active: true } });
+        toast({ title: "Resource added" });
+      } else if (editing) {
+        await updateResource.mutateAsync({ resourceId: editing, resource });
+        toast({ title: "Resource updated" });
+      }
+      setEditing(null);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleToggle = async (resource: Resource, isActive: boolean) => {
+    try {
+      await updateResource.mutateAsync({ resourceId: resource.id, resource: { is_active: isActive } });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (resource: Resource) => {
+    try {
+      await deleteResource.mutateAsync({ resourceId: resource.id });
+      toast({ title: "Resource removed" });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) setEditing(null);
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            Resources
+          </DialogTitle>
+          <DialogDescription>
+            Equipment, staff and services requesters can ask for with their bookings. Resources with a quantity
+            are checked for double-booking across overlapping events.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="resource-name">Name</Label>
+              <Input
+                id="resource-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., Projector"
+                maxLength={100}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Kind</Label>
+                <Select value={form.kind} onValueChange={(kind) => setForm({ ...form, kind: kind as ResourceKind })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RESOURCE_KINDS.map((kind) => (
+                      <SelectItem key={kind} value={kind}>
+                        {RESOURCE_KIND_LABELS[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="resource-quantity">Quantity</Label>
+                <Input
+                  id="resource-quantity"
+                  type="number"
+                  min="1"
+                  value={form.quantity}
+                  onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                  placeholder="Not limited"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="resource-responsible">Responsible</Label>
+              <Input
+                id="resource-responsible"
+                value={form.default_responsible}
+                onChange={(e) => setForm({ ...form, default_responsible: e.target.value })}
+                placeholder="e.g., AV team"
+                maxLength={200}
+              />
+              <p className="text-xs text-muted-foreground">Suggested on new requests; requesters can name someone else.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="resource-description">Description</Label>
+              <Textarea
+                id="resource-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={2}
+                maxLength={500}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={handleSave}
+                disabled={createResource.isPending || updateResource.isPending}
+              >
+                {editing === "new" ? "Add Resource" : "Save Resource"}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {resources?.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No resources yet. Add the equipment and services your organization provides for events.
+              </p>
+            )}
+
+            {resources?.map((resource) => (
+              <div key={resource.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+                <div className="min-w-0 space-y-1">
+                  <p className="flex items-center gap-2 text-sm font-medium">
+                    <span className="truncate">{resource.name}</span>
+                    <Badge variant="outline" className="text-[10px]">
+                      {getResourceKindLabel(resource.kind)}
+                    </Badge>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {resource.quantity ? `${resource.quantity} available` : "Not limited"}
+                    {resource.default_responsible && ` · ${resource.default_responsible}`}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Switch
+                    checked={resource.is_active}
+                    onCheckedChange={(checked) => handleToggle(resource, checked)}
+                    aria-label="Active"
+                  />
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => startEditing(resource)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-destructive"
+                    onClick={() => handleDelete(resource)}
+                    disabled={deleteResource.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <Button variant="outline" size="sm" className="w-full gap-2" onClick={() => startEditing()}>
+              <Plus className="h-4 w-4" />
+              Add Resource
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResourcesDialog;
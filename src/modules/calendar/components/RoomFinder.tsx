@@ -0,0 +1,180 @@
+import { useMemo, useState } from "react";
+import { Check, Loader2, Search, Users } from "lucide-react";
+import { Badge } from "@/shared/components/ui/badge";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import { cn } from "@/shared/lib/utils";
+import { useRoomFinder } from "../hooks";
+import type { Room } from "../types";
+
+interface RoomFinderProps {
+  organizationId?: string;
+  // Event time as ISO instants; the finder waits until both are set
+  startsAt: string;
+  endsAt: string;
+  setupMinutes?: number;
+  teardownMinutes?: number;
+  // Organization's timezone, for room availability windows and blackout dates
+  timeZone?: string;
+  // Event being edited, so its own booking does not hide its room
+  excludeEventId?: string;
+  // All rooms of the organization, to offer their features as filters
+  rooms: Room[];
+  selectedRoomId?: string;
+  onSelect: (room: Room) => void;
+}
+
+/**
+ * Lists rooms free for the chosen time, best fit for the number of attendees
+ * and wanted features first
+ */
+const RoomFinder = ({
+  organizationId,
+  startsAt,
+  endsAt,
+  setupMinutes,
+  teardownMinutes,
+  timeZone,
+  excludeEventId,
+  rooms,
+  selectedRoomId,
+  onSelect,
+}: RoomFinderProps) => {
+  const [attendees, setAttendees] = useState("");
+  const [features, setFeatures] = useState<string[]>([]);
+
+  const availableFeatures = useMemo(
+    () => Array.from(new Set(rooms.flatMap((room) => room.features || []))).sort((a, b) => a.localeCompare(b)),
+    [rooms]
+  );
+
+  const { data: matches, isLoading } = useRoomFinder(organizationId, {
+    startsAt,
+    endsAt,
+    setup_minutes: setupMinutes,
+    teardown_minutes: teardownMinutes,
+    timeZone,
+    excludeEventId,
+    attendees: Number(attendees) || null,
+    features,
+  });
+
+  const toggleFeature = (feature: string) => {
+    setFeatures((current) =>
+      current.includes(feature) ? current.filter((f) => f !== feature) : [...current, feature]
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-200 bg-slate-50/60 p-4">
+      <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+        <Search className="h-4 w-4" />
+        Find an available room
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="room-finder-attendees" className="text-xs text-muted-foreground">Attendees</Label>
+        <Input
+          id="room-finder-attendees"
+          type="number"
+          min={1}
+          value={attendees}
+          onChange={(e) => setAttendees(e.target.value)}
+          placeholder="e.g. 60"
+          className="h-9 bg-white"
+        />
+      </div>
+
+      {availableFeatures.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Needs</Label>
+          <div className="flex flex-wrap gap-1.5">
+            {availableFeatures.map((feature) => (
+              <button
+                key={feature}
+                type="button"
+                onClick={() => toggleFeature(feature)}
+                className={cn(
+                  "rounded-full border px-2.5 py-0.5 text-xs transition-colors",
+                  features.includes(feature)
+                    ? "border-blue-500 bg-blue-50 text-blue-700"
+                    : "border-slate-200 bg-white text-slate-600 hover:border-slate-300"
+                )}
+              >
+                {feature}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!startsAt || !endsAt ? (
+        <p className="text-xs text-muted-foreground">Choose a start and end time to see free rooms.</p>
+      ) : isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Checking availability...
+        </div>
+      ) : !matches || matches.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No rooms are free at this time.</p>
+      ) : (
+        <div className="space-y-1.5">
+          {matches.map((room) => {
+            const isSelected = room.id === selectedRoomId;
+            const isGoodFit = room.fit.fitsCapacity && room.fit.missingFeatures.length === 0;
+
+            return (
+              <div
+                key={room.id}
+                className={cn(
+                  "flex items-center justify-between gap-2 rounded-lg border bg-white px-3 py-2",
+                  isSelected && "border-blue-400"
+                )}
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: room.color || "#888" }} />
+                    <span className="text-sm font-medium truncate">{room.name}</span>
+                    {room.capacity && (
+                      <span className="flex items-center gap-0.5 text-xs text-muted-foreground">
+                        <Users className="h-3 w-3" />
+                        {room.capacity}
+                      </span>
+                    )}
+                  </div>
+                  {!isGoodFit && (
+                    <div className="flex flex-wrap gap-1">
+                      {!room.fit.fitsCapacity && (
+                        <Badge variant="outline" className="text-[10px] text-amber-700 border-amber-300">
+                          Seats {room.capacity}
+                        </Badge>
+                      )}
+                      {room.fit.missingFeatures.map((feature) => (
+                        <Badge key={feature} variant="outline" className="text-[10px] text-amber-700 border-amber-300">
+                          No {feature.toLowerCase()}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={isSelected ? "secondary" : "outline"}
+                  className="h-7 shrink-0"
+                  onClick={() => onSelect(room)}
+                  disabled={isSelected}
+                >
+                  {isSelected ? <Check className="h-3.5 w-3.5" /> : "Use"}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoomFinder;
@@ -0,0 +1,480 @@
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState, type PointerEvent } from "react";
+import { addMinutes, format, isSameDay, startOfDay } from "date-fns";
+import { cn } from "@/shared/lib/utils";
+import OccurrenceIndicator from "./OccurrenceIndicator";
+import type { EventCategory, EventColorBy, EventFormData, Room } from "../types";
+import {
+  canRescheduleBooking,
+  findTimelineClashes,
+  fromZonedTime,
+  getEventColor,
+  getTimelineRows,
+  MIN_TIMELINE_MINUTES,
+  moveReservation,
+  snapMinutes,
+  TIMELINE_SNAP_MINUTES,
+  toZonedTime,
+  zonedNow,
+} from "../utils";
+
+interface TimelineViewEvent {
+  id: string;
+  title: string;
+  starts_at: string;
+  ends_at: string;
+  status: string;
+  created_by: string;
+  room_id: string;
+  room: { id: string; name: string; color: string } | null;
+  additional_room_ids?: string[] | null;
+  is_whole_building?: boolean | null;
+  setup_minutes?: number;
+  teardown_minutes?: number;
+  category?: EventCategory | null;
+  ministry_id?: string | null;
+  is_recurring?: boolean | null;
+  series_id?: string;
+  parent_event_id?: string | null;
+  recurrence_id?: string | null;
+}
+
+// New rooms and times of a booking dragged on the timeline
+export type TimelineChanges = Pick<EventFormData, "room_id" | "additional_room_ids" | "starts_at" | "ends_at">;
+
+interface RoomTimelineViewProps<T extends TimelineViewEvent> {
+  events: T[];
+  rooms: Room[];
+  // Day shown, as wall-clock time in the calendar's zone
+  date: Date;
+  onEventClick: (eventId: string) => void;
+  // Wall-clock start and end of a slot dragged out on a room's row
+  onCreate?: (roomId: string, start: Date, end: Date) => void;
+  // Saves a moved or resized booking; the preview stays until it settles
+  onReschedule?: (event: T, changes: TimelineChanges) => Promise<void> | void;
+  currentUserId?: string;
+  // Whether the viewer may move everyone's bookings, not just their own
+  canEditAll?: boolean;
+  timezone?: string;
+  colorBy?: EventColorBy;
+}
+
+type DragMode = "create" | "move" | "resize-start" | "resize-end";
+
+interface DragState<T> {
+  mode: DragMode;
+  event: T | null;
+  fromRoomId: string;
+  roomId: string;
+  // Pointer position when the drag started, in minutes from midnight
+  anchor: number;
+  // Booking times when the drag started and in the preview
+  originalStart: number;
+  originalEnd: number;
+  start: number;
+  end: number;
+  moved: boolean;
+}
+
+const HOUR_WIDTH = 96;
+const MINUTE_WIDTH = HOUR_WIDTH / 60;
+const ROW_HEIGHT = 56;
+const DAY_MINUTES = 24 * 60;
+const SCROLL_TO_HOUR = 7;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Lane of each event in a row, so overlapping bookings sit one above another
+ */
+const assignLanes = <T extends { id: string; starts_at: string; ends_at: string }>(events: T[]) => {
+  const laneEnds: number[] = [];
+  const lanes = new Map<string, number>();
+  events.forEach((event) => {
+    const start = new Date(event.starts_at).getTime();
+    let lane = laneEnds.findIndex((end) => end <= start);
+    if (lane === -1) lane = laneEnds.push(0) - 1;
+    laneEnds[lane] = new Date(event.ends_at).getTime();
+    lanes.set(event.id, lane);
+  });
+  return { lanes, count: Math.max(1, laneEnds.length) };
+};
+
+/**
+ * Rooms as rows and one day across, with bookings as bars. Dragging across a
+ * row starts a booking; dragging a bar moves it in time or to another room and
+ * dragging its edges changes its times.
+ */
+const RoomTimelineView = <T extends TimelineViewEvent>({
+  events,
+  rooms,
+  date,
+  onEventClick,
+  onCreate,
+  onReschedule,
+  currentUserId,
+  canEditAll = false,
+  timezone,
+  colorBy = "room",
+}: RoomTimelineViewProps<T>) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState<T> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const dayStart = useMemo(() => startOfDay(date), [date]);
+  const dayKey = format(dayStart, "yyyy-MM-dd");
+  const rows = useMemo(() => getTimelineRows(rooms, events), [rooms, events]);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollLeft = SCROLL_TO_HOUR * HOUR_WIDTH;
+  }, [dayKey]);
+
+  // Minutes from the start of the day shown, in the calendar's zone
+  const minutesOf = (iso: string) => (toZonedTime(iso, timezone).getTime() - dayStart.getTime()) / 60000;
+  const toISO = useCallback(
+    (minutes: number) => fromZonedTime(addMinutes(dayStart, minutes), timezone).toISOString(),
+    [dayStart, timezone]
+  );
+  const formatMinutes = (minutes: number) => format(addMinutes(dayStart, minutes), "h:mm a");
+
+  const pointerMinutes = (e: PointerEvent) => {
+    const rect = gridRef.current!.getBoundingClientRect();
+    return clamp((e.clientX - rect.left) / MINUTE_WIDTH, 0, DAY_MINUTES);
+  };
+
+  const pointerRoomId = (e: PointerEvent) => {
+    const rect = gridRef.current!.getBoundingClientRect();
+    return rows[clamp(Math.floor((e.clientY - rect.top) / ROW_HEIGHT), 0, rows.length - 1)].room.id;
+  };
+
+  const canEdit = (event: T) => !!onReschedule && canRescheduleBooking(event, currentUserId, canEditAll);
+
+  const startDrag = (e: PointerEvent, mode: DragMode, event: T | null, roomId: string) => {
+    if (e.button !== 0 || isSaving) return;
+    e.stopPropagation();
+    gridRef.current?.setPointerCapture(e.pointerId);
+
+    const anchor = pointerMinutes(e);
+    const start = event ? minutesOf(event.starts_at) : snapMinutes(anchor);
+    const end = event ? minutesOf(event.ends_at) : start;
+    setDrag({
+      mode,
+      event,
+      fromRoomId: roomId,
+      roomId,
+      anchor,
+      originalStart: start,
+      originalEnd: end,
+      start,
+      end,
+      moved: false,
+    });
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (!drag || isSaving) return;
+    const at = pointerMinutes(e);
+    const delta = snapMinutes(at - drag.anchor);
+    const { originalStart, originalEnd } = drag;
+
+    let { start, end, roomId } = drag;
+    switch (drag.mode) {
+      case "create":
+        start = Math.min(originalStart, snapMinutes(at));
+        end = Math.max(originalStart, snapMinutes(at));
+        roomId = drag.fromRoomId;
+        break;
+      case "move":
+        start = originalStart + delta;
+        end = originalEnd + delta;
+        // Whole-building bookings hold every room, so they only move in time
+        roomId = drag.event?.is_whole_building ? drag.fromRoomId : pointerRoomId(e);
+        break;
+      case "resize-start":
+        start = Math.min(originalStart + delta, originalEnd - MIN_TIMELINE_MINUTES);
+        break;
+      case "resize-end":
+        end = Math.max(originalEnd + delta, originalStart + MIN_TIMELINE_MINUTES);
+        break;
+    }
+
+    const moved =
+      drag.moved ||
+      (drag.mode === "create" ? Math.abs(at - drag.anchor) >= TIMELINE_SNAP_MINUTES / 2 : delta !== 0) ||
+      roomId !== drag.fromRoomId;
+    setDrag({ ...drag, start, end, roomId, moved });
+  };
+
+  const handlePointerUp = async () => {
+    if (!drag || isSaving) return;
+    const current = drag;
+
+    if (current.mode === "create") {
+      setDrag(null);
+      // A click books an hour from where it landed
+      const end = current.moved ? current.end : current.start + 60;
+      if (end > current.start) {
+        onCreate?.(current.roomId, addMinutes(dayStart, current.start), addMinutes(dayStart, end));
+      }
+      return;
+    }
+
+    const event = current.event!;
+    const reservation = moveReservation(event, current.fromRoomId, current.roomId);
+    if (!current.moved || !reservation) {
+      setDrag(null);
+      if (!current.moved) onEventClick(event.id);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onReschedule?.(event, {
+        room_id: reservation.room_id,
+        additional_room_ids: reservation.additional_room_ids || [],
+        starts_at: toISO(current.start),
+        ends_at: toISO(current.end),
+      });
+    } finally {
+      setIsSaving(false);
+      setDrag(null);
+    }
+  };
+
+  // Preview of the dragged booking, checked against the bookings already loaded
+  const preview = useMemo(() => {
+    if (!drag || !drag.moved) return null;
+
+    const room = rooms.find((r) => r.id === drag.roomId);
+    const reservation = drag.event
+      ? moveReservation(drag.event, drag.fromRoomId, drag.roomId)
+      : { room_id: drag.roomId, additional_room_ids: [] };
+    const clashes = reservation
+      ? findTimelineClashes(
+          {
+            id: drag.event?.id || "new",
+            status: "pending_review",
+            series_id: drag.event?.series_id,
+            is_whole_building: drag.event?.is_whole_building,
+            setup_minutes: drag.event ? drag.event.setup_minutes : room?.default_setup_minutes,
+            teardown_minutes: drag.event ? drag.event.teardown_minutes : room?.default_teardown_minutes,
+            ...reservation,
+            starts_at: toISO(drag.start),
+            ends_at: toISO(drag.end),
+          },
+          events,
+          rooms
+        )
+      : [];
+
+    return {
+      row: Math.max(0, rows.findIndex((row) => row.room.id === drag.roomId)),
+      start: drag.start,
+      end: drag.end,
+      invalid: !reservation || clashes.length > 0,
+      message: !reservation
+        ? "Already in this room"
+        : clashes.length > 0
+        ? `Conflicts with "${clashes[0].title}"`
+        : null,
+    };
+  }, [drag, events, rooms, rows, toISO]);
+
+  const now = zonedNow(timezone);
+  const nowMinutes = isSameDay(now, dayStart) ? (now.getTime() - dayStart.getTime()) / 60000 : null;
+
+  if (rooms.length === 0) {
+    return (
+      <div className="rounded-lg border py-12 text-center text-muted-foreground">
+        No rooms yet. Add rooms to see them on the timeline.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div ref={scrollRef} className="overflow-x-auto rounded-lg border bg-background">
+        <div className="relative" style={{ width: `calc(11rem + ${24 * HOUR_WIDTH}px)` }}>
+          {/* Hours */}
+          <div className="sticky top-0 z-30 flex border-b bg-background">
+            <div className="sticky left-0 z-30 w-44 shrink-0 border-r bg-background px-3 py-2 text-xs font-medium text-muted-foreground">
+              Room
+            </div>
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div
+                key={hour}
+                className="shrink-0 border-l px-1.5 py-2 text-[10px] text-muted-foreground"
+                style={{ width: HOUR_WIDTH }}
+              >
+                {format(addMinutes(dayStart, hour * 60), "h a")}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex">
+            {/* Room names */}
+            <div className="sticky left-0 z-20 w-44 shrink-0 border-r bg-background">
+              {rows.map(({ room }) => (
+                <div
+                  key={room.id}
+                  className="flex items-center gap-2 border-b px-3 text-sm font-medium"
+                  style={{ height: ROW_HEIGHT }}
+                >
+                  <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: room.color || "#64748b" }} />
+                  <span className="truncate">{room.name}</span>
+                </div>
+              ))}
+            </div>
+
+            {/* Bookings */}
+            <div
+              ref={gridRef}
+              className={cn("relative shrink-0", onCreate && "cursor-crosshair")}
+              style={{ width: 24 * HOUR_WIDTH, height: rows.length * ROW_HEIGHT }}
+              onPointerDown={onCreate ? (e) => startDrag(e, "create", null, pointerRoomId(e)) : undefined}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => !isSaving && setDrag(null)}
+            >
+              {Array.from({ length: 24 }, (_, hour) => (
+                <div
+                  key={hour}
+                  className="pointer-events-none absolute inset-y-0 border-l border-border/60"
+                  style={{ left: hour * HOUR_WIDTH }}
+                />
+              ))}
+              {rows.map(({ room }, index) => (
+                <div
+                  key={room.id}
+                  className="pointer-events-none absolute inset-x-0 border-b"
+                  style={{ top: (index + 1) * ROW_HEIGHT - 1 }}
+                />
+              ))}
+              {nowMinutes !== null && (
+                <div
+                  className="pointer-events-none absolute inset-y-0 z-20 w-0.5 bg-red-500"
+                  style={{ left: nowMinutes * MINUTE_WIDTH }}
+                />
+              )}
+
+              {rows.map(({ room, events: roomEvents }, index) => {
+                const { lanes, count } = assignLanes(roomEvents);
+                const laneHeight = (ROW_HEIGHT - 8) / count;
+
+                return roomEvents.map((event) => {
+                  const start = minutesOf(event.starts_at);
+                  const end = minutesOf(event.ends_at);
+                  if (end <= 0 || start >= DAY_MINUTES) return null;
+
+                  const left = clamp(start, 0, DAY_MINUTES) * MINUTE_WIDTH;
+                  const width = Math.max((clamp(end, 0, DAY_MINUTES) - clamp(start, 0, DAY_MINUTES)) * MINUTE_WIDTH, 4);
+                  const top = index * ROW_HEIGHT + 4 + (lanes.get(event.id) || 0) * laneHeight;
+                  const color = getEventColor(event, colorBy);
+                  const editable = canEdit(event);
+                  const isDragged = drag?.event?.id === event.id && drag.moved;
+                  const setupWidth = (event.setup_minutes || 0) * MINUTE_WIDTH;
+                  const teardownWidth = (event.teardown_minutes || 0) * MINUTE_WIDTH;
+
+                  return (
+                    <Fragment key={`${room.id}-${event.id}`}>
+                      {/* Setup and teardown render as hatched blocks around the booking */}
+                      {(setupWidth > 0 || teardownWidth > 0) && (
+                        <div
+                          className="pointer-events-none absolute rounded-md"
+                          style={{
+                            top,
+                            height: laneHeight - 2,
+                            left: left - setupWidth,
+                            width: width + setupWidth + teardownWidth,
+                            backgroundImage: `repeating-linear-gradient(135deg, ${color}33 0 4px, transparent 4px 8px)`,
+                          }}
+                        />
+                      )}
+                      <div
+                        className={cn(
+                          "absolute z-10 select-none overflow-hidden rounded-md border-l-4 text-xs shadow-sm transition-opacity",
+                          editable ? "cursor-grab touch-none active:cursor-grabbing" : "cursor-pointer",
+                          event.status === "pending_review" && "border-dashed",
+                          (event.status === "draft" || event.status === "rejected" || event.status === "hold") &&
+                            "opacity-60",
+                          isDragged && "opacity-30"
+                        )}
+                        style={{
+                          top,
+                          height: laneHeight - 2,
+                          left,
+                          width,
+                          borderLeftColor: color,
+                          backgroundColor: `${color}26`,
+                        }}
+                        title={`${event.title}\n${format(toZonedTime(event.starts_at, timezone), "h:mm a")} – ${format(
+                          toZonedTime(event.ends_at, timezone),
+                          "h:mm a"
+                        )}`}
+                        onPointerDown={(e) => (editable ? startDrag(e, "move", event, room.id) : e.stopPropagation())}
+                        onClick={editable ? undefined : () => onEventClick(event.id)}
+                      >
+                        <div className="flex items-center gap-1 truncate px-1.5 pt-0.5 font-semibold">
+                          <span className="truncate">{event.title}</span>
+                          <OccurrenceIndicator event={event} className="h-2.5 w-2.5" timezone={timezone} />
+                        </div>
+                        {laneHeight > 30 && (
+                          <div className="truncate px-1.5 text-[10px] text-muted-foreground">
+                            {format(toZonedTime(event.starts_at, timezone), "h:mm a")} –{" "}
+                            {format(toZonedTime(event.ends_at, timezone), "h:mm a")}
+                          </div>
+                        )}
+                        {editable && (
+                          <>
+                            <div
+                              className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize"
+                              onPointerDown={(e) => startDrag(e, "resize-start", event, room.id)}
+                            />
+                            <div
+                              className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize"
+                              onPointerDown={(e) => startDrag(e, "resize-end", event, room.id)}
+                            />
+                          </>
+                        )}
+                      </div>
+                    </Fragment>
+                  );
+                });
+              })}
+
+              {preview && (
+                <div
+                  className={cn(
+                    "pointer-events-none absolute z-20 overflow-hidden rounded-md border-2 border-dashed px-1.5 text-[10px] font-medium",
+                    preview.invalid
+                      ? "border-destructive bg-destructive/15 text-destructive"
+                      : "border-primary bg-primary/15 text-primary"
+                  )}
+                  style={{
+                    top: preview.row * ROW_HEIGHT + 4,
+                    height: ROW_HEIGHT - 10,
+                    left: clamp(preview.start, 0, DAY_MINUTES) * MINUTE_WIDTH,
+                    width: Math.max((clamp(preview.end, 0, DAY_MINUTES) - clamp(preview.start, 0, DAY_MINUTES)) * MINUTE_WIDTH, 4),
+                  }}
+                >
+                  <div className="truncate pt-0.5">
+                    {formatMinutes(preview.start)} – {formatMinutes(preview.end)}
+                  </div>
+                  {preview.message && <div className="truncate">{preview.message}</div>}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+      {(onCreate || onReschedule) && (
+        <p className="text-xs text-muted-foreground">
+          Drag across a room to book it. Drag a booking to move it, or its edges to change its times; moving an
+          approved booking sends it back for review.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RoomTimelineView;
@@ -0,0 +1,125 @@
+import { AlertTriangle, CheckCircle2, Loader2 } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { Checkbox } from "@/shared/components/ui/checkbox";
+import { cn } from "@/shared/lib/utils";
+import type { OccurrenceConflict } from "../services";
+import { formatInTimeZone, isSameInstant } from "../utils";
+
+interface SeriesConflictReportProps {
+  conflicts: OccurrenceConflict[] | undefined;
+  isLoading: boolean;
+  timeZone?: string;
+  // Occurrence starts the series will be created without (EXDATE)
+  skippedDates: string[];
+  onSkippedDatesChange: (dates: string[]) => void;
+}
+
+/**
+ * Per-date report of a new recurring series: which occurrences collide with
+ * other bookings or closures, with the option to create the series without them
+ */
+const SeriesConflictReport = ({
+  conflicts,
+  isLoading,
+  timeZone,
+  skippedDates,
+  onSkippedDatesChange,
+}: SeriesConflictReportProps) => {
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 rounded-xl border border-slate-200 p-3 text-xs text-muted-foreground">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Checking every date in the series...
+      </div>
+    );
+  }
+
+  if (!conflicts || conflicts.length === 0) {
+    return (
+      <div className="flex items-center gap-2 rounded-xl border border-green-200 bg-green-50 p-3 text-xs text-green-800">
+        <CheckCircle2 className="h-3.5 w-3.5" />
+        Every date in the series is free
+      </div>
+    );
+  }
+
+  const isSkipped = (date: string) => skippedDates.some((skipped) => isSameInstant(skipped, date));
+  const unresolved = conflicts.filter((occurrence) => !isSkipped(occurrence.occurrence_start));
+
+  const toggle = (date: string, skip: boolean) => {
+    onSkippedDatesChange(
+      skip
+        ? [...skippedDates, date]
+        : skippedDates.filter((skipped) => !isSameInstant(skipped, date))
+    );
+  };
+
+  const describe = (occurrence: OccurrenceConflict) => {
+    if (occurrence.issue) return occurrence.issue;
+    const titles = occurrence.conflicts.map((event) => `"${event.title}"`);
+    return `Booked for ${titles.slice(0, 2).join(", ")}${titles.length > 2 ? ` and ${titles.length - 2} more` : ""}`;
+  };
+
+  return (
+    <div
+      className={cn(
+        "space-y-3 rounded-xl border p-4",
+        unresolved.length > 0 ? "border-amber-300 bg-amber-50/70" : "border-slate-200 bg-slate-50/60"
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-start gap-2 text-sm">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+          <span className="font-medium text-slate-800">
+            {conflicts.length} {conflicts.length === 1 ? "date" : "dates"} in this series can't be booked
+          </span>
+        </div>
+        {unresolved.length > 0 && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="h-7 shrink-0 bg-white text-xs"
+            onClick={() =>
+              onSkippedDatesChange([...skippedDates, ...unresolved.map((occurrence) => occurrence.occurrence_start)])
+            }
+          >
+            Skip all
+          </Button>
+        )}
+      </div>
+
+      <div className="max-h-48 space-y-1.5 overflow-y-auto">
+        {conflicts.map((occurrence) => {
+          const skipped = isSkipped(occurrence.occurrence_start);
+          return (
+            <label
+              key={occurrence.occurrence_start}
+              className="flex cursor-pointer items-start gap-2 rounded-lg bg-white px-3 py-2 text-xs"
+            >
+              <Checkbox
+                checked={skipped}
+                onCheckedChange={(checked) => toggle(occurrence.occurrence_start, checked === true)}
+                className="mt-0.5"
+              />
+              <div className={cn("min-w-0", skipped && "text-muted-foreground line-through")}>
+                <div className="font-medium">
+                  {formatInTimeZone(occurrence.occurrence_start, "EEE, MMM d, yyyy · h:mm a", timeZone)}
+                </div>
+                <div className="text-muted-foreground">{describe(occurrence)}</div>
+              </div>
+            </label>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {unresolved.length > 0
+          ? "Skip the dates that collide to create the series without them, or change the time or room."
+          : `The series will be created without ${conflicts.length === 1 ? "this date" : "these dates"}.`}
+      </p>
+    </div>
+  );
+};
+
+export default SeriesConflictReport;
@@ -0,0 +1,252 @@
+/**
+ * SignageSettingsDialog - set up the organization's lobby display and get
+ * its address
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/shared/components/ui/dialog";
+import { Button } from "@/shared/components/ui/button";
+import { Checkbox } from "@/shared/components/ui/checkbox";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/components/ui/select";
+import { Switch } from "@/shared/components/ui/switch";
+import { Copy, ExternalLink, Tv } from "lucide-react";
+import { useToast } from "@/shared/hooks/use-toast";
+import { useSignageSettings, useUpdateSignageSettings } from "../hooks";
+import { signageService } from "../services";
+import type { SignageRange, SignageSettings } from "../types";
+import {
+  DEFAULT_SIGNAGE_SETTINGS,
+  SIGNAGE_RANGE_LABELS,
+  SIGNAGE_REFRESH_OPTIONS,
+  SIGNAGE_SCROLL_SPEEDS,
+} from "../utils";
+
+interface SignageSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId: string | undefined;
+  organizationSlug: string | undefined;
+  rooms: { id: string; name: string }[];
+}
+
+const SignageSettingsDialog = ({
+  open,
+  onOpenChange,
+  organizationId,
+  organizationSlug,
+  rooms,
+}: SignageSettingsDialogProps) => {
+  const { toast } = useToast();
+  const { data: settings } = useSignageSettings(open ? organizationId : undefined);
+  const updateSettings = useUpdateSignageSettings();
+  const [form, setForm] = useState<SignageSettings>(DEFAULT_SIGNAGE_SETTINGS);
+
+  useEffect(() => {
+    if (open && settings) setForm(settings);
+  }, [open, settings]);
+
+  const displayUrl = organizationSlug ? signageService.getDisplayUrl(organizationSlug) : "";
+
+  const toggleRoom = (roomId: string, checked: boolean) =>
+    setForm({
+      ...form,
+      room_ids: checked ? [...form.room_ids, roomId] : form.room_ids.filter((id) => id !== roomId),
+    });
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(displayUrl);
+      toast({ title: "Link copied", description: "Open it in the lobby screen's browser." });
+    } catch {
+      toast({ title: "Copy failed", description: "Select the link and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!organizationId) return;
+    try {
+      await updateSettings.mutateAsync({ organizationId, settings: form });
+      toast({ title: "Lobby display saved", description: "Open displays pick up the changes on their next refresh." });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tv className="h-5 w-5" />
+            Lobby Display
+          </DialogTitle>
+          <DialogDescription>
+            A full-screen page for a lobby TV showing published events by room. It needs no login and refreshes
+            itself.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+            <div>
+              <Label htmlFor="signage-enabled">Enabled</Label>
+              <p className="text-xs text-muted-foreground">When off, the display page shows no events.</p>
+            </div>
+            <Switch
+              id="signage-enabled"
+              checked={form.enabled}
+              onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Display link</Label>
+            <div className="flex gap-2">
+              <Input value={displayUrl} readOnly onFocus={(e) => e.target.select()} className="text-xs" />
+              <Button type="button" variant="outline" size="sm" className="h-10 shrink-0" onClick={handleCopy}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="outline" size="sm" className="h-10 shrink-0" asChild>
+                <a href={displayUrl} target="_blank" rel="noopener noreferrer" aria-label="Open display">
+                  <ExternalLink className="h-4 w-4" />
+                </a>
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="signage-title">Heading</Label>
+            <Input
+              id="signage-title"
+              value={form.title || ""}
+              onChange={(e) => setForm({ ...form, title: e.target.value || null })}
+              placeholder="Organization name"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Events shown</Label>
+              <Select value={form.range} onValueChange={(range) => setForm({ ...form, range: range as SignageRange })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SIGNAGE_RANGE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Theme</Label>
+              <Select
+                value={form.theme}
+                onValueChange={(theme) => setForm({ ...form, theme: theme as SignageSettings["theme"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="dark">Dark</SelectItem>
+                  <SelectItem value="light">Light</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Refresh every</Label>
+              <Select
+                value={String(form.refresh_seconds)}
+                onValueChange={(value) => setForm({ ...form, refresh_seconds: Number(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SIGNAGE_REFRESH_OPTIONS.map((seconds) => (
+                    <SelectItem key={seconds} value={String(seconds)}>
+                      {seconds / 60} {seconds === 60 ? "minute" : "minutes"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Scrolling</Label>
+              <Select
+                value={String(form.scroll_speed)}
+                onValueChange={(value) => setForm({ ...form, scroll_speed: Number(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SIGNAGE_SCROLL_SPEEDS.map(({ value, label }) => (
+                    <SelectItem key={value} value={String(value)}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="signage-clock">Show clock</Label>
+            <Switch
+              id="signage-clock"
+              checked={form.show_clock}
+              onCheckedChange={(show_clock) => setForm({ ...form, show_clock })}
+            />
+          </div>
+
+          {rooms.length > 0 && (
+            <div className="space-y-2">
+              <Label>Rooms</Label>
+              <p className="text-xs text-muted-foreground">Leave all unchecked to show every room.</p>
+              <div className="grid grid-cols-2 gap-2 rounded-lg border p-3">
+                {rooms.map((room) => (
+                  <label key={room.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.room_ids.includes(room.id)}
+                      onCheckedChange={(checked) => toggleRoom(room.id, checked === true)}
+                    />
+                    <span className="truncate">{room.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={updateSettings.isPending || !settings}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SignageSettingsDialog;
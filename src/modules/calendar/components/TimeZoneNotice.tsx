@@ -0,0 +1,29 @@
+import { Globe } from "lucide-react";
+import { cn } from "@/shared/lib/utils";
+import { differsFromViewerTimeZone, getTimeZoneAbbreviation, getTimeZoneLabel, getViewerTimeZone } from "../utils";
+
+interface TimeZoneNoticeProps {
+  // Organization time zone the calendar is shown in
+  timezone?: string | null;
+  className?: string;
+}
+
+/**
+ * Hint shown when the viewer's device is in a different time zone than the
+ * organization, since all event times are shown in the organization's zone
+ */
+const TimeZoneNotice = ({ timezone, className }: TimeZoneNoticeProps) => {
+  if (!timezone || !differsFromViewerTimeZone(timezone)) return null;
+
+  return (
+    <div className={cn("flex items-start gap-2 text-xs text-muted-foreground", className)}>
+      <Globe className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+      <span>
+        Times are shown in {getTimeZoneLabel(timezone)} ({getTimeZoneAbbreviation(timezone)}).
+        Your device is set to {getTimeZoneLabel(getViewerTimeZone())}.
+      </span>
+    </div>
+  );
+};
+
+export default TimeZoneNotice;
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { z } from "zod";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import type { WalkInInput } from "../services";
+import { MAX_REGISTRATION_HEADCOUNT } from "../utils";
+
+const walkInSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200, "Name too long"),
+  email: z.string().trim().email("Enter a valid email address").or(z.literal("")),
+  headcount: z
+    .number()
+    .int()
+    .min(1, "At least 1 person")
+    .max(MAX_REGISTRATION_HEADCOUNT, `At most ${MAX_REGISTRATION_HEADCOUNT} people at a time`),
+});
+
+const EMPTY_FORM = { name: "", email: "", headcount: 1 };
+
+interface WalkInFormProps {
+  // Resolves whether the walk-in was added; the form is cleared when it was
+  onSubmit: (input: WalkInInput) => Promise<boolean>;
+  isPending?: boolean;
+}
+
+/**
+ * Form to add someone who came without registering
+ */
+const WalkInForm = ({ onSubmit, isPending }: WalkInFormProps) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const parsed = walkInSchema.safeParse(form);
+    if (!parsed.success) {
+      setError(parsed.error.errors[0].message);
+      return;
+    }
+
+    const added = await onSubmit({
+      name: parsed.data.name,
+      email: parsed.data.email || undefined,
+      headcount: parsed.data.headcount,
+    });
+    if (added) setForm(EMPTY_FORM);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor="walk-in-name">Name</Label>
+        <Input
+          id="walk-in-name"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          maxLength={200}
+          className="h-11"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="walk-in-email">Email (optional)</Label>
+        <Input
+          id="walk-in-email"
+          type="email"
+          value={form.email}
+          onChange={(e) => setForm({ ...form, email: e.target.value })}
+          className="h-11"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="walk-in-headcount">People</Label>
+        <Input
+          id="walk-in-headcount"
+          type="number"
+          min={1}
+          max={MAX_REGISTRATION_HEADCOUNT}
+          value={form.headcount}
+          onChange={(e) => setForm({ ...form, headcount: Math.max(1, Number(e.target.value) || 1) })}
+          className="h-11"
+        />
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      <Button type="submit" className="h-11 w-full" disabled={isPending}>
+        {isPending ? "Adding..." : "Add and Check In"}
+      </Button>
+    </form>
+  );
+};
+
+export default WalkInForm;
@@ -0,0 +1,116 @@
+import { useMemo } from "react";
+import {
+  addDays,
+  eachMonthOfInterval,
+  endOfMonth,
+  endOfYear,
+  format,
+  getDay,
+  startOfMonth,
+  startOfYear,
+} from "date-fns";
+import { cn } from "@/shared/lib/utils";
+import { DENSITY_LEVELS, formatInTimeZone, getDailyDensity, getDensityLevel, zonedNow } from "../utils";
+
+interface YearViewProps {
+  events: { starts_at: string; ends_at: string }[];
+  // Any day of the year shown, as wall-clock time in the calendar's zone
+  date: Date;
+  onDateClick?: (date: Date) => void;
+  timezone?: string;
+}
+
+// Shade of each density level, from empty to busiest
+const LEVEL_CLASSES = ["bg-muted", "bg-primary/20", "bg-primary/45", "bg-primary/70", "bg-primary"];
+
+const WEEKDAY_INITIALS = ["S", "M", "T", "W", "T", "F", "S"];
+
+const formatHours = (minutes: number) => {
+  const hours = Math.round((minutes / 60) * 10) / 10;
+  return `${hours} ${hours === 1 ? "hour" : "hours"}`;
+};
+
+/**
+ * Twelve small months with each day shaded by how many bookings start on it
+ */
+const YearView = ({ events, date, onDateClick, timezone }: YearViewProps) => {
+  const density = useMemo(() => getDailyDensity(events, timezone), [events, timezone]);
+  const maxCount = Math.max(0, ...Array.from(density.values(), (day) => day.count));
+  const today = formatInTimeZone(zonedNow(), "yyyy-MM-dd", timezone);
+  const months = eachMonthOfInterval({ start: startOfYear(date), end: endOfYear(date) });
+
+  const busiest = Array.from(density).reduce<[string, number] | null>(
+    (best, [day, { count }]) => (!best || count > best[1] ? [day, count] : best),
+    null
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-muted-foreground">
+        <p>
+          {events.length} {events.length === 1 ? "booking" : "bookings"} in {format(date, "yyyy")}
+          {busiest && ` · busiest day ${format(new Date(`${busiest[0]}T00:00:00`), "MMM d")} (${busiest[1]})`}
+        </p>
+        <div className="flex items-center gap-1.5">
+          <span>Less</span>
+          {LEVEL_CLASSES.slice(0, DENSITY_LEVELS + 1).map((levelClass) => (
+            <span key={levelClass} className={cn("h-3 w-3 rounded-sm", levelClass)} />
+          ))}
+          <span>More</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+        {months.map((month) => {
+          const leading = getDay(startOfMonth(month));
+          const dayCount = endOfMonth(month).getDate();
+
+          return (
+            <div key={month.toISOString()}>
+              <h3 className="mb-2 text-sm font-semibold">{format(month, "MMMM")}</h3>
+              <div className="grid grid-cols-7 gap-1 text-center">
+                {WEEKDAY_INITIALS.map((initial, i) => (
+                  <span key={i} className="text-[10px] text-muted-foreground">
+                    {initial}
+                  </span>
+                ))}
+                {Array.from({ length: leading }, (_, i) => (
+                  <span key={`blank-${i}`} />
+                ))}
+                {Array.from({ length: dayCount }, (_, i) => {
+                  const day = addDays(startOfMonth(month), i);
+                  const key = format(day, "yyyy-MM-dd");
+                  const stats = density.get(key);
+                  const level = getDensityLevel(stats?.count || 0, maxCount);
+
+                  return (
+                    <button
+                      key={key}
+                      type="button"
+                      onClick={() => onDateClick?.(day)}
+                      title={
+                        stats
+                          ? `${format(day, "MMM d")}: ${stats.count} ${stats.count === 1 ? "event" : "events"}, ${formatHours(stats.minutes)}`
+                          : `${format(day, "MMM d")}: no events`
+                      }
+                      className={cn(
+                        "aspect-square rounded-sm text-[10px] transition-shadow hover:ring-2 hover:ring-ring",
+                        LEVEL_CLASSES[level],
+                        level >= 3 ? "text-primary-foreground" : "text-foreground/70",
+                        key === today && "ring-2 ring-primary ring-offset-1"
+                      )}
+                    >
+                      {i + 1}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default YearView;
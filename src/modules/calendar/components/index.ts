@@ -9,4 +9,28 @@ export { default as GoogleCalendarView } from "./GoogleCalendarView";
 export { default as DateBasedCalendar } from "./DateBasedCalendar";
 export { RecurrenceSelector, recurrenceConfigToRRule, rruleToRecurrenceConfig, type RecurrenceConfig } from "./RecurrenceSelector";
 export { default as CalendarViewSwitcher, type CalendarView } from "./CalendarViewSwitcher";
+export { default as AgendaView } from "./AgendaView";
+export { default as YearView } from "./YearView";
+export { default as RoomTimelineView, type TimelineChanges } from "./RoomTimelineView";
 export { default as ExportDialog } from "./ExportDialog";
+export { default as ImportDialog } from "./ImportDialog";
+export { default as OccurrenceIndicator } from "./OccurrenceIndicator";
+export { default as RecurrenceExceptions } from "./RecurrenceExceptions";
+export { default as TimeZoneNotice } from "./TimeZoneNotice";
+export { default as RoomFinder } from "./RoomFinder";
+export { default as ConflictAssistant } from "./ConflictAssistant";
+export { default as SeriesConflictReport } from "./SeriesConflictReport";
+export { default as ApprovalChainProgress } from "./ApprovalChainProgress";
+export { default as EventHistoryTimeline } from "./EventHistoryTimeline";
+export { default as ApprovalPoliciesDialog } from "./ApprovalPoliciesDialog";
+export { default as EventCategoryFilters, type CategoryFilters } from "./EventCategoryFilters";
+export { default as EventRegistrations } from "./EventRegistrations";
+export { default as RegistrationForm } from "./RegistrationForm";
+export { default as RegistrationQRCode } from "./RegistrationQRCode";
+export { default as WalkInForm } from "./WalkInForm";
+export { default as AttendanceTrends } from "./AttendanceTrends";
+export { default as ResourcesDialog } from "./ResourcesDialog";
+export { default as ResourceRequestsEditor } from "./ResourceRequestsEditor";
+export { default as ResourceShortageAlerts } from "./ResourceShortageAlerts";
+export { default as EventResourceSummary } from "./EventResourceSummary";
+export { default as SignageSettingsDialog } from "./SignageSettingsDialog";
@@ -7,12 +7,72 @@ export {
   useEvents,
   useEvent,
   usePublicEvents,
+  useEventMinistries,
   useCreateEvent,
   useUpdateEvent,
+  useRescheduleEvent,
   useDeleteEvent,
   useUpdateEventStatus,
   useSubmitForReview,
   useApproveEvent,
   useRejectEvent,
   useCheckConflicts,
+  useFreeSlots,
+  useAlternativeRooms,
+  useSeriesConflicts,
+  useSeriesExceptions,
+  useHoldQueue,
+  useEventHistory,
+  useRestoreOccurrence,
+  useImportEvents,
 } from "./useEvents";
+
+export { feedKeys, useCalendarFeed, useResetCalendarFeed } from "./useCalendarFeeds";
+
+export {
+  roomKeys,
+  useActiveRooms,
+  useRoomFinder,
+  useRoomAvailability,
+  useSetRoomAvailability,
+  useCreateBlackout,
+  useDeleteBlackout,
+} from "./useRooms";
+
+export {
+  approvalKeys,
+  useApprovalSteps,
+  useApprovers,
+  useApprovalChain,
+  useDecideApproval,
+  useApprovalPolicies,
+  useCreateApprovalPolicy,
+  useUpdateApprovalPolicy,
+  useDeleteApprovalPolicy,
+} from "./useApprovals";
+
+export {
+  registrationKeys,
+  useRegistrationCounts,
+  useEventRegistrations,
+  useRegisterForEvent,
+  useCancelRegistration,
+  useSetCheckedIn,
+  useCheckInByToken,
+  useAddWalkIn,
+  useRegistrationTicket,
+  useAttendanceTrends,
+} from "./useRegistrations";
+
+export {
+  resourceKeys,
+  useResources,
+  useCreateResource,
+  useUpdateResource,
+  useDeleteResource,
+  useResourceRequests,
+  useSetResourceRequests,
+  useResourceShortages,
+} from "./useResources";
+
+export { signageKeys, useSignageSettings, useUpdateSignageSettings } from "./useSignage";
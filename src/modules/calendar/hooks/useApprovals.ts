@@ -0,0 +1,131 @@
+/**
+ * Hooks for room approval chains, approvers' decisions on events and
+ * auto-approval policies
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { approvalService, type ApprovalPolicyInput } from "../services";
+import type { ApprovalDecision } from "../types";
+import type { ApprovalSubject } from "../utils/approvals";
+import { eventKeys } from "./useEvents";
+
+// Query keys
+export const approvalKeys = {
+  all: ["approvals"] as const,
+  steps: (orgId: string) => [...approvalKeys.all, "steps", orgId] as const,
+  approvers: (orgId: string) => [...approvalKeys.all, "approvers", orgId] as const,
+  chain: (orgId: string, eventId: string) => [...approvalKeys.all, "chain", orgId, eventId] as const,
+  policies: (orgId: string) => [...approvalKeys.all, "policies", orgId] as const,
+};
+
+/**
+ * Hook to fetch the approval steps of every room of an organization
+ */
+export function useApprovalSteps(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: approvalKeys.steps(organizationId || ""),
+    queryFn: () => approvalService.listSteps(organizationId!),
+    enabled: !!organizationId,
+  });
+}
+
+/**
+ * Hook to fetch the members who can be named as approvers
+ */
+export function useApprovers(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: approvalKeys.approvers(organizationId || ""),
+    queryFn: () => approvalService.listApprovers(organizationId!),
+    enabled: !!organizationId,
+  });
+}
+
+/**
+ * Hook to fetch the approval chain of an event
+ */
+export function useApprovalChain(organizationId: string | undefined, event: ApprovalSubject | null | undefined) {
+  return useQuery({
+    queryKey: approvalKeys.chain(organizationId || "", event?.id || ""),
+    queryFn: async () => (await approvalService.getChains(organizationId!, [event!]))[event!.id],
+    enabled: !!organizationId && !!event,
+  });
+}
+
+/**
+ * Hook to sign off or reject the steps waiting on the current user
+ */
+export function useDecideApproval() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ eventId, decision, notes }: { eventId: string; decision: ApprovalDecision; notes?: string }) =>
+      approvalService.decide(eventId, decision, notes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: approvalKeys.all });
+      queryClient.invalidateQueries({ queryKey: eventKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to fetch the auto-approval policies of an organization
+ */
+export function useApprovalPolicies(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: approvalKeys.policies(organizationId || ""),
+    queryFn: () => approvalService.listPolicies(organizationId!),
+    enabled: !!organizationId,
+  });
+}
+
+/**
+ * Hook to add an auto-approval policy
+ */
+export function useCreateApprovalPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      organizationId,
+      userId,
+      policy,
+    }: {
+      organizationId: string;
+      userId: string;
+      policy: ApprovalPolicyInput;
+    }) => approvalService.createPolicy(organizationId, userId, policy),
+    onSuccess: (_, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: approvalKeys.policies(organizationId) });
+    },
+  });
+}
+
+/**
+ * Hook to change an auto-approval policy
+ */
+export function useUpdateApprovalPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ policyId, policy }: { policyId: string; policy: Partial<ApprovalPolicyInput> }) =>
+      approvalService.updatePolicy(policyId, policy),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: approvalKeys.policies(data.organization_id) });
+    },
+  });
+}
+
+/**
+ * Hook to remove an auto-approval policy
+ */
+export function useDeleteApprovalPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ policyId }: { policyId: string; organizationId: string }) =>
+      approvalService.deletePolicy(policyId),
+    onSuccess: (_, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: approvalKeys.policies(organizationId) });
+    },
+  });
+}
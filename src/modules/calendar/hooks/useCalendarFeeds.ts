@@ -0,0 +1,47 @@
+/**
+ * Hooks for subscribable calendar feed links
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { feedService } from "../services";
+import type { CalendarFeed, CalendarFeedScope } from "../types";
+
+// Query keys
+export const feedKeys = {
+  all: ["calendar-feeds"] as const,
+  scope: (orgId: string, scope: CalendarFeedScope) =>
+    [...feedKeys.all, orgId, scope.room_id || null, scope.ministry_id || null] as const,
+};
+
+/**
+ * Hook to fetch (or create on first use) the feed for an organization and scope
+ */
+export function useCalendarFeed(
+  organizationId: string | undefined,
+  userId: string | undefined,
+  scope: CalendarFeedScope,
+  enabled = true
+) {
+  return useQuery({
+    queryKey: feedKeys.scope(organizationId || "", scope),
+    queryFn: () => feedService.getOrCreate(organizationId!, userId!, scope),
+    enabled: !!organizationId && !!userId && enabled,
+  });
+}
+
+/**
+ * Hook to reset a feed link
+ */
+export function useResetCalendarFeed(userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (feed: CalendarFeed) => feedService.reset(feed, userId),
+    onSuccess: (feed) => {
+      queryClient.setQueryData(
+        feedKeys.scope(feed.organization_id, { room_id: feed.room_id, ministry_id: feed.ministry_id }),
+        feed
+      );
+    },
+  });
+}
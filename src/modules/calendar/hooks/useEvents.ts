@@ -3,8 +3,15 @@
  */
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { eventService } from "../services";
-import type { EventFilters, EventFormData, EventStatus } from "../types";
+import {
+  conflictService,
+  eventService,
+  importService,
+  type BookingRequest,
+  type ImportItem,
+  type ImportStatus,
+} from "../services";
+import type { EventFilters, EventFormData, EventStatus, EventWithRelations } from "../types";
 
 // Query keys
 export const eventKeys = {
@@ -16,6 +23,17 @@ export const eventKeys = {
   detail: (id: string) => [...eventKeys.details(), id] as const,
   public: (orgId: string, start: string, end: string) =>
     [...eventKeys.all, "public", orgId, start, end] as const,
+  exceptions: (seriesId: string) => [...eventKeys.all, "exceptions", seriesId] as const,
+  holdQueue: (eventId: string) => [...eventKeys.all, "holdQueue", eventId] as const,
+  history: (seriesId: string) => [...eventKeys.all, "history", seriesId] as const,
+  ministries: (orgId: string) => [...eventKeys.all, "ministries", orgId] as const,
+  conflicts: () => [...eventKeys.all, "conflicts"] as const,
+  freeSlots: (orgId: string, request: BookingRequest) =>
+    [...eventKeys.conflicts(), "slots", orgId, request] as const,
+  alternativeRooms: (orgId: string, request: BookingRequest) =>
+    [...eventKeys.conflicts(), "rooms", orgId, request] as const,
+  seriesConflicts: (orgId: string, request: BookingRequest, rrule: string) =>
+    [...eventKeys.conflicts(), "series", orgId, request, rrule] as const,
 };
 
 /**
@@ -55,6 +73,18 @@ export function usePublicEvents(
   });
 }
 
+/**
+ * Hook to fetch the ministries that can own events
+ */
+export function useEventMinistries(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: eventKeys.ministries(organizationId || ""),
+    queryFn: () => eventService.listMinistries(organizationId!),
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
 /**
  * Hook to create an event
  */
@@ -86,6 +116,26 @@ export function useUpdateEvent() {
   });
 }
 
+/**
+ * Hook to move or resize a booking on the timeline
+ */
+export function useRescheduleEvent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      event,
+      changes,
+    }: {
+      event: Pick<EventWithRelations, "id" | "status" | "is_whole_building" | "setup_minutes" | "teardown_minutes">;
+      changes: Pick<EventFormData, "room_id" | "additional_room_ids" | "starts_at" | "ends_at">;
+    }) => eventService.reschedule(event, changes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: eventKeys.all });
+    },
+  });
+}
+
 /**
  * Hook to delete an event
  */
@@ -204,3 +254,125 @@ export function useCheckConflicts() {
     }) => eventService.checkConflicts(roomId, startsAt, endsAt, excludeEventId),
   });
 }
+
+/**
+ * Hook to find the nearest free times for a conflicting booking
+ */
+export function useFreeSlots(
+  organizationId: string | undefined,
+  request: BookingRequest | null,
+  timeZone?: string
+) {
+  return useQuery({
+    queryKey: eventKeys.freeSlots(organizationId || "", request!),
+    queryFn: () => conflictService.findFreeSlots(organizationId!, request!, { timeZone }),
+    enabled: !!organizationId && !!request,
+  });
+}
+
+/**
+ * Hook to find other rooms free at the time of a conflicting booking
+ */
+export function useAlternativeRooms(
+  organizationId: string | undefined,
+  request: BookingRequest | null,
+  timeZone?: string
+) {
+  return useQuery({
+    queryKey: eventKeys.alternativeRooms(organizationId || "", request!),
+    queryFn: () => conflictService.findAlternativeRooms(organizationId!, request!, timeZone),
+    enabled: !!organizationId && !!request,
+  });
+}
+
+/**
+ * Hook to list the occurrences of a new series that cannot be booked
+ */
+export function useSeriesConflicts(
+  organizationId: string | undefined,
+  request: BookingRequest | null,
+  rrule: string | null,
+  timeZone?: string
+) {
+  return useQuery({
+    queryKey: eventKeys.seriesConflicts(organizationId || "", request!, rrule || ""),
+    queryFn: () =>
+      conflictService.checkSeries(organizationId!, { ...request!, recurrence_rule: rrule! }, timeZone),
+    enabled: !!organizationId && !!request && !!rrule,
+  });
+}
+
+/**
+ * Hook to fetch the place of a hold in the line for its slot
+ */
+export function useHoldQueue(event: EventWithRelations | null | undefined) {
+  return useQuery({
+    queryKey: eventKeys.holdQueue(event?.id || ""),
+    queryFn: () => eventService.getHoldQueue(event!),
+    enabled: !!event && event.status === "hold",
+  });
+}
+
+/**
+ * Hook to fetch the audit trail of an event or series
+ */
+export function useEventHistory(seriesId: string | undefined) {
+  return useQuery({
+    queryKey: eventKeys.history(seriesId || ""),
+    queryFn: () => eventService.getHistory(seriesId!),
+    enabled: !!seriesId,
+  });
+}
+
+/**
+ * Hook to fetch the skipped and changed occurrences of a recurring series
+ */
+export function useSeriesExceptions(seriesId: string | undefined) {
+  return useQuery({
+    queryKey: eventKeys.exceptions(seriesId || ""),
+    queryFn: () => eventService.listExceptions(seriesId!),
+    enabled: !!seriesId,
+  });
+}
+
+/**
+ * Hook to restore a skipped or changed occurrence to its series
+ */
+export function useRestoreOccurrence() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ seriesId, occurrenceStart }: { seriesId: string; occurrenceStart: string }) =>
+      eventService.restoreOccurrence(seriesId, occurrenceStart),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: eventKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: eventKeys.exceptions(variables.seriesId) });
+    },
+  });
+}
+
+/**
+ * Hook to create events imported from an .ics file
+ */
+export function useImportEvents() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      organizationId,
+      userId,
+      items,
+      status,
+      timezone,
+    }: {
+      organizationId: string;
+      userId: string;
+      items: ImportItem[];
+      status: ImportStatus;
+      timezone?: string;
+    }) => importService.importEvents(organizationId, userId, items, status, timezone),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: eventKeys.lists() });
+    },
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * Hooks for public event registrations, attendee lists, check-in and
+ * attendance
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { registrationService, type RegistrationInput, type WalkInInput } from "../services";
+import type { EventRegistration } from "../types";
+import type { RegistrationTarget } from "../utils/registrations";
+
+// Query keys
+export const registrationKeys = {
+  all: ["registrations"] as const,
+  counts: (target: RegistrationTarget) =>
+    [...registrationKeys.all, "counts", target.eventId, target.occurrenceStart] as const,
+  list: (target: RegistrationTarget) =>
+    [...registrationKeys.all, "list", target.eventId, target.occurrenceStart] as const,
+  ticket: (token: string) => [...registrationKeys.all, "ticket", token] as const,
+  attendance: (orgId: string) => [...registrationKeys.all, "attendance", orgId] as const,
+};
+
+/**
+ * Hook to fetch the places taken and waiting for an event or occurrence
+ */
+export function useRegistrationCounts(target: RegistrationTarget | null) {
+  return useQuery({
+    queryKey: registrationKeys.counts(target || { eventId: "", occurrenceStart: null }),
+    queryFn: () => registrationService.getCounts(target!),
+    enabled: !!target,
+  });
+}
+
+/**
+ * Hook to fetch the attendee list of an event or occurrence
+ */
+export function useEventRegistrations(target: RegistrationTarget | null) {
+  return useQuery({
+    queryKey: registrationKeys.list(target || { eventId: "", occurrenceStart: null }),
+    queryFn: () => registrationService.list(target!),
+    enabled: !!target,
+  });
+}
+
+/**
+ * Hook to register for an event; the confirmation email is sent afterwards
+ */
+export function useRegisterForEvent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ target, input }: { target: RegistrationTarget; input: RegistrationInput }) => {
+      const result = await registrationService.register(target, input);
+      await registrationService.notify([result.id]);
+      return result;
+    },
+    onSuccess: (_, { target }) => {
+      queryClient.invalidateQueries({ queryKey: registrationKeys.counts(target) });
+    },
+  });
+}
+
+/**
+ * Hook to cancel a registration and email the people it makes room for
+ */
+export function useCancelRegistration() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (registration: EventRegistration) => {
+      const promoted = await registrationService.cancel(registration);
+      await registrationService.notify(promoted.map((r) => r.id));
+      return promoted;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: registrationKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to check a registrant in, or undo it
+ */
+export function useSetCheckedIn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ registrationId, checkedIn, userId }: { registrationId: string; checkedIn: boolean; userId: string }) =>
+      registrationService.setCheckedIn(registrationId, checkedIn, userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: registrationKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to check in the registration of a scanned ticket
+ */
+export function useCheckInByToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ token, userId }: { token: string; userId: string }) =>
+      registrationService.checkInByToken(token, userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: registrationKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to add a walk-in to an event or occurrence
+ */
+export function useAddWalkIn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      organizationId,
+      target,
+      input,
+      userId,
+    }: {
+      organizationId: string;
+      target: RegistrationTarget;
+      input: WalkInInput;
+      userId: string;
+    }) => registrationService.addWalkIn(organizationId, target, input, userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: registrationKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to fetch a registration's ticket by its token
+ */
+export function useRegistrationTicket(token: string | undefined) {
+  return useQuery({
+    queryKey: registrationKeys.ticket(token || ""),
+    queryFn: () => registrationService.getTicket(token!),
+    enabled: !!token,
+  });
+}
+
+/**
+ * Hook to fetch the attendance trends of an organization's recurring series
+ */
+export function useAttendanceTrends(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: registrationKeys.attendance(organizationId || ""),
+    queryFn: () => registrationService.listAttendanceTrends(organizationId!),
+    enabled: !!organizationId,
+  });
+}
@@ -0,0 +1,123 @@
+/**
+ * Hooks for the resources an organization provides, the requests events
+ * make for them and double-booking checks
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  resourceService,
+  type ResourceCheck,
+  type ResourceInput,
+  type ResourceRequestInput,
+} from "../services";
+
+// Query keys
+export const resourceKeys = {
+  all: ["resources"] as const,
+  list: (orgId: string) => [...resourceKeys.all, "list", orgId] as const,
+  requests: (eventIds: string[]) => [...resourceKeys.all, "requests", eventIds] as const,
+  shortages: (orgId: string, check: ResourceCheck | null) => [...resourceKeys.all, "shortages", orgId, check] as const,
+};
+
+/**
+ * Hook to fetch the resources of an organization
+ */
+export function useResources(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: resourceKeys.list(organizationId || ""),
+    queryFn: () => resourceService.list(organizationId!),
+    enabled: !!organizationId,
+  });
+}
+
+/**
+ * Hook to add a resource
+ */
+export function useCreateResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ organizationId, resource }: { organizationId: string; resource: ResourceInput }) =>
+      resourceService.create(organizationId, resource),
+    onSuccess: (_, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: resourceKeys.list(organizationId) });
+    },
+  });
+}
+
+/**
+ * Hook to change a resource
+ */
+export function useUpdateResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ resourceId, resource }: { resourceId: string; resource: Partial<ResourceInput> }) =>
+      resourceService.update(resourceId, resource),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: resourceKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to remove a resource and the requests for it
+ */
+export function useDeleteResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ resourceId }: { resourceId: string }) => resourceService.delete(resourceId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: resourceKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to fetch the resource requests of standalone events or series
+ */
+export function useResourceRequests(eventIds: string[]) {
+  return useQuery({
+    queryKey: resourceKeys.requests(eventIds),
+    queryFn: () => resourceService.listRequests(eventIds),
+    enabled: eventIds.length > 0,
+  });
+}
+
+/**
+ * Hook to replace the resource requests of a standalone event or series
+ */
+export function useSetResourceRequests() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      organizationId,
+      eventId,
+      requests,
+    }: {
+      organizationId: string;
+      eventId: string;
+      requests: ResourceRequestInput[];
+    }) => resourceService.setRequests(organizationId, eventId, requests),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: resourceKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to check a booking's requested resources against overlapping bookings
+ */
+export function useResourceShortages(
+  organizationId: string | undefined,
+  check: ResourceCheck | null,
+  timeZone?: string | null
+) {
+  return useQuery({
+    queryKey: resourceKeys.shortages(organizationId || "", check),
+    queryFn: () => resourceService.findShortages(organizationId!, check!, timeZone),
+    enabled: !!organizationId && !!check && check.requests.length > 0,
+  });
+}
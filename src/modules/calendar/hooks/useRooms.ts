@@ -0,0 +1,92 @@
+/**
+ * Hooks for the rooms of an organization, room lookups while booking, and the rules for when rooms can be booked
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { roomService, type AvailabilityWindowInput, type RoomSearch } from "../services";
+import type { BlackoutPeriod } from "../types";
+
+// Query keys (under "rooms", so room edits refresh them too)
+export const roomKeys = {
+  all: ["rooms"] as const,
+  finder: (orgId: string, search: RoomSearch) => [...roomKeys.all, "finder", orgId, search] as const,
+  active: (orgId: string) => [...roomKeys.all, "active", orgId] as const,
+  availability: (orgId: string) => [...roomKeys.all, "availability", orgId] as const,
+};
+
+/**
+ * Hook to fetch an organization's active rooms, by name
+ */
+export function useActiveRooms(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: roomKeys.active(organizationId || ""),
+    queryFn: () => roomService.listActive(organizationId!),
+    enabled: !!organizationId,
+  });
+}
+
+/**
+ * Hook to find rooms free for a time slot, best fit first
+ */
+export function useRoomFinder(organizationId: string | undefined, search: RoomSearch, enabled = true) {
+  return useQuery({
+    queryKey: roomKeys.finder(organizationId || "", search),
+    queryFn: () => roomService.findAvailable(organizationId!, search),
+    enabled: !!organizationId && !!search.startsAt && !!search.endsAt && enabled,
+  });
+}
+
+/**
+ * Hook to fetch an organization's room availability windows and blackout periods
+ */
+export function useRoomAvailability(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: roomKeys.availability(organizationId || ""),
+    queryFn: () => roomService.getAvailabilityRules(organizationId!),
+    enabled: !!organizationId,
+  });
+}
+
+/**
+ * Hook to replace a room's availability windows
+ */
+export function useSetRoomAvailability(organizationId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ roomId, windows }: { roomId: string; windows: AvailabilityWindowInput[] }) =>
+      roomService.setAvailabilityWindows(organizationId, roomId, windows),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: roomKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to add a blackout period
+ */
+export function useCreateBlackout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (blackout: Pick<BlackoutPeriod, "organization_id" | "title" | "starts_on" | "ends_on" | "created_by">) =>
+      roomService.createBlackout(blackout),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: roomKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to remove a blackout period
+ */
+export function useDeleteBlackout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => roomService.deleteBlackout(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: roomKeys.all });
+    },
+  });
+}
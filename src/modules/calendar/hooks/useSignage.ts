@@ -0,0 +1,39 @@
+/**
+ * Hooks for an organization's lobby display settings
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { signageService } from "../services";
+import type { SignageSettings } from "../types";
+
+// Query keys
+export const signageKeys = {
+  all: ["signage"] as const,
+  settings: (orgId: string) => [...signageKeys.all, "settings", orgId] as const,
+};
+
+/**
+ * Hook to fetch the lobby display settings of an organization
+ */
+export function useSignageSettings(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: signageKeys.settings(organizationId || ""),
+    queryFn: () => signageService.getSettings(organizationId!),
+    enabled: !!organizationId,
+  });
+}
+
+/**
+ * Hook to save lobby display settings
+ */
+export function useUpdateSignageSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ organizationId, settings }: { organizationId: string; settings: SignageSettings }) =>
+      signageService.updateSettings(organizationId, settings),
+    onSuccess: (settings, { organizationId }) => {
+      queryClient.setQueryData(signageKeys.settings(organizationId), settings);
+    },
+  });
+}
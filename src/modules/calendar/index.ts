@@ -7,6 +7,7 @@
  * - Calendar views (day, week, month)
  * - Public calendar display
  * - Room scheduling
+ * - Recurring series expansion
  */
 
 // Components
@@ -23,3 +24,6 @@ export * from "./services";
 
 // Types
 export * from "./types";
+
+// Utilities
+export * from "./utils";
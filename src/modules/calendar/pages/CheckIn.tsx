@@ -0,0 +1,304 @@
+import { useEffect, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Check, QrCode, Search, UserPlus, Users } from "lucide-react";
+import DashboardLayout from "@/shared/components/layout/DashboardLayout";
+import { Badge } from "@/shared/components/ui/badge";
+import { Button } from "@/shared/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/shared/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/shared/components/ui/dialog";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/shared/components/ui/drawer";
+import { Input } from "@/shared/components/ui/input";
+import { PageLoader } from "@/shared/components/ui/loading";
+import { useIsMobile } from "@/shared/hooks/use-mobile";
+import { useToast } from "@/shared/hooks/use-toast";
+import { cn } from "@/shared/lib/utils";
+import { useAuth, useOrganization } from "@/shared/contexts";
+import { RegistrationQRCode, WalkInForm } from "../components";
+import { useAddWalkIn, useCheckInByToken, useEvent, useEventRegistrations, useSetCheckedIn } from "../hooks";
+import type { WalkInInput } from "../services";
+import type { EventRegistration } from "../types";
+import {
+  formatInTimeZone,
+  getRegistrationStatusLabel,
+  getRegistrationTarget,
+  searchRegistrations,
+  summarizeCheckIns,
+} from "../utils";
+
+/**
+ * Check-in mode of an event or occurrence, made for a phone at the door:
+ * search registrants, check them in, add walk-ins, and check in scanned
+ * tickets (opened here with `?token=`)
+ */
+const CheckIn = () => {
+  const { eventId } = useParams<{ eventId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const { user, isAdmin } = useAuth();
+  const { currentOrganization, isOrgAdmin } = useOrganization();
+  const timezone = currentOrganization?.timezone;
+  const isMobile = useIsMobile();
+  const { toast } = useToast();
+
+  const { data: event, isLoading } = useEvent(eventId);
+  // A series has registrations per date; check-in happens on one of them
+  const needsDate = !!event?.is_recurring && !event.series_id;
+  const target = event && !needsDate ? getRegistrationTarget(event) : null;
+  const { data: registrations = [] } = useEventRegistrations(target);
+  const setCheckedIn = useSetCheckedIn();
+  const addWalkIn = useAddWalkIn();
+  const { mutateAsync: checkInTicket } = useCheckInByToken();
+
+  const [search, setSearch] = useState("");
+  const [walkInOpen, setWalkInOpen] = useState(false);
+  const [qrRegistration, setQrRegistration] = useState<EventRegistration | null>(null);
+
+  const canCheckIn = !!event && (event.created_by === user?.id || isAdmin || isOrgAdmin);
+
+  // A scanned ticket opens this page with its token
+  useEffect(() => {
+    if (!token || !user) return;
+
+    checkInTicket({ token, userId: user.id })
+      .then((registration) =>
+        toast(
+          registration
+            ? { title: `${registration.name} checked in`, description: `Party of ${registration.headcount}` }
+            : {
+                title: "Ticket not found",
+                description: "The ticket was cancelled or is for an event you don't organize",
+                variant: "destructive",
+              }
+        )
+      )
+      .catch((error) =>
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "An error occurred",
+          variant: "destructive",
+        })
+      )
+      .finally(() => setSearchParams({}, { replace: true }));
+  }, [token, user, checkInTicket, toast, setSearchParams]);
+
+  if (isLoading) {
+    return <PageLoader message="Loading event..." />;
+  }
+
+  const active = registrations.filter((registration) => registration.status !== "cancelled");
+  const visible = searchRegistrations(active, search);
+  const summary = summarizeCheckIns(registrations);
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "An error occurred",
+      variant: "destructive",
+    });
+
+  const handleToggle = async (registration: EventRegistration) => {
+    if (!user) return;
+    try {
+      await setCheckedIn.mutateAsync({
+        registrationId: registration.id,
+        checkedIn: !registration.checked_in_at,
+        userId: user.id,
+      });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleWalkIn = async (input: WalkInInput): Promise<boolean> => {
+    if (!user || !target || !event) return false;
+    try {
+      await addWalkIn.mutateAsync({ organizationId: event.organization_id, target, input, userId: user.id });
+      toast({ title: `${input.name} added and checked in` });
+      setWalkInOpen(false);
+      return true;
+    } catch (error) {
+      showError(error);
+      return false;
+    }
+  };
+
+  const walkInForm = <WalkInForm onSubmit={handleWalkIn} isPending={addWalkIn.isPending} />;
+
+  return (
+    <DashboardLayout>
+      <div className={cn("space-y-4", isMobile && "pb-20")}>
+        <div className="flex items-start gap-2">
+          <Button asChild variant="ghost" size="icon" className="h-9 w-9 shrink-0">
+            <Link to="/dashboard" aria-label="Back to calendar">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div className="min-w-0">
+            <h1 className="text-xl sm:text-2xl font-bold truncate">{event?.title || "Event not found"}</h1>
+            {event && (
+              <p className="text-sm text-muted-foreground">
+                {formatInTimeZone(event.starts_at, "EEE, MMM d 'at' h:mm a", timezone)}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {!event || !canCheckIn ? (
+          <Card>
+            <CardContent className="py-8 text-center text-sm text-muted-foreground">
+              {event ? "Only the organizer of this event can check people in." : "This event could not be found."}
+            </CardContent>
+          </Card>
+        ) : needsDate ? (
+          <Card>
+            <CardContent className="py-8 text-center text-sm text-muted-foreground">
+              Open a date of this series from the calendar to check people in.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Counts */}
+            <div className="grid grid-cols-3 gap-2">
+              {[
+                { label: "Checked in", value: summary.checkedIn },
+                { label: "Expected", value: summary.expected },
+                { label: "Walk-ins", value: summary.walkIns },
+              ].map(({ label, value }) => (
+                <Card key={label}>
+                  <CardContent className="p-3 text-center">
+                    <p className="text-2xl font-bold">{value}</p>
+                    <p className="text-xs text-muted-foreground">{label}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-[1fr_320px]">
+              <div className="space-y-3">
+                <div className={cn("relative", isMobile && "sticky top-0 z-10 bg-background py-1")}>
+                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by name or email"
+                    className="h-11 pl-9"
+                    aria-label="Search registrants"
+                  />
+                </div>
+
+                {visible.length === 0 ? (
+                  <Card>
+                    <CardContent className="py-8 text-center text-sm text-muted-foreground">
+                      {active.length === 0 ? "No one has registered yet." : "No one matches your search."}
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <ul className="space-y-2">
+                    {visible.map((registration) => (
+                      <li
+                        key={registration.id}
+                        className={cn(
+                          "flex items-center gap-3 rounded-lg border bg-card p-3",
+                          registration.checked_in_at && "border-green-200 bg-green-50"
+                        )}
+                      >
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate font-medium">
+                            {registration.name}
+                            {registration.headcount > 1 && (
+                              <span className="font-normal text-muted-foreground"> +{registration.headcount - 1}</span>
+                            )}
+                          </p>
+                          <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                            <span className="truncate">{registration.is_walk_in ? "Walk-in" : registration.email}</span>
+                            {registration.status === "waitlisted" && (
+                              <Badge variant="secondary" className="text-[10px]">
+                                {getRegistrationStatusLabel(registration.status)}
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                        {!registration.is_walk_in && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-11 w-11 shrink-0"
+                            onClick={() => setQrRegistration(registration)}
+                            aria-label={`Show ticket QR code of ${registration.name}`}
+                          >
+                            <QrCode className="h-5 w-5" />
+                          </Button>
+                        )}
+                        <Button
+                          variant={registration.checked_in_at ? "outline" : "default"}
+                          className={cn("h-11 shrink-0 gap-1.5", isMobile ? "w-28" : "w-32")}
+                          onClick={() => handleToggle(registration)}
+                          disabled={setCheckedIn.isPending}
+                        >
+                          {registration.checked_in_at ? (
+                            <>
+                              <Check className="h-4 w-4" />
+                              Undo
+                            </>
+                          ) : (
+                            "Check In"
+                          )}
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Walk-ins: a side panel on larger screens, a drawer on phones */}
+              {isMobile ? (
+                <>
+                  <div className="fixed inset-x-0 bottom-0 z-20 border-t bg-background p-3">
+                    <Button className="h-12 w-full gap-2" onClick={() => setWalkInOpen(true)}>
+                      <UserPlus className="h-5 w-5" />
+                      Add Walk-in
+                    </Button>
+                  </div>
+                  <Drawer open={walkInOpen} onOpenChange={setWalkInOpen}>
+                    <DrawerContent>
+                      <DrawerHeader>
+                        <DrawerTitle>Add Walk-in</DrawerTitle>
+                      </DrawerHeader>
+                      <div className="px-4 pb-6">{walkInForm}</div>
+                    </DrawerContent>
+                  </Drawer>
+                </>
+              ) : (
+                <Card className="h-fit">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <Users className="h-4 w-4" />
+                      Add Walk-in
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>{walkInForm}</CardContent>
+                </Card>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      <Dialog open={!!qrRegistration} onOpenChange={(open) => !open && setQrRegistration(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{qrRegistration?.name}</DialogTitle>
+            <DialogDescription>Scan with a phone camera to check this registration in.</DialogDescription>
+          </DialogHeader>
+          {qrRegistration && (
+            <div className="flex justify-center">
+              <RegistrationQRCode registration={qrRegistration} size={isMobile ? 220 : 256} />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+};
+
+export default CheckIn;
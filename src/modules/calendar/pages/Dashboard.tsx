@@ -1,42 +1,112 @@
 import { useState } from "react";
 import DashboardLayout from "@/shared/components/layout/DashboardLayout";
 import { Button } from "@/shared/components/ui/button";
-import { Plus, ChevronLeft, ChevronRight, Download } from "lucide-react";
-import { GoogleCalendarView, CalendarViewSwitcher, EventDialog, ExportDialog } from "../components";
-import type { CalendarView } from "../components";
-import { useEvents } from "../hooks";
+import { Plus, ChevronLeft, ChevronRight, Download, Upload } from "lucide-react";
+import { AgendaView, AttendanceTrends, GoogleCalendarView, CalendarViewSwitcher, EventCategoryFilters, EventDialog, ExportDialog, ImportDialog, RoomTimelineView, TimeZoneNotice, YearView } from "../components";
+import type { CalendarView, CategoryFilters, TimelineChanges } from "../components";
+import { useActiveRooms, useEventMinistries, useEvents, useRescheduleEvent } from "../hooks";
+import { DEFAULT_AGENDA_DAYS, filterEventsByCategory, fromZonedTime, zonedNow } from "../utils";
+import type { EventColorBy, EventWithRelations } from "../types";
 import { useAuth } from "@/shared/contexts";
+import { useToast } from "@/shared/hooks/use-toast";
 import { useOrganization } from "@/shared/contexts";
-import { addWeeks, subWeeks, addDays, addMonths, subMonths, format, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from "date-fns";
+import { addWeeks, subWeeks, addDays, addMonths, subMonths, addYears, subYears, format, startOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear } from "date-fns";
 
 const Dashboard = () => {
   const { user, isAdmin } = useAuth();
   const { currentOrganization, isOrgAdmin } = useOrganization();
+  const { toast } = useToast();
+  const timezone = currentOrganization?.timezone;
   const [isEventDialogOpen, setIsEventDialogOpen] = useState(false);
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
-  const [currentWeek, setCurrentWeek] = useState(new Date());
+  // Navigation dates are wall-clock dates in the organization's zone
+  const [currentWeek, setCurrentWeek] = useState(() => zonedNow(timezone));
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  // Slot dragged out on the room timeline
+  const [selectedSlot, setSelectedSlot] = useState<{ roomId: string; end: Date } | null>(null);
   const [calendarView, setCalendarView] = useState<CalendarView>("week");
-  const [dayViewDate, setDayViewDate] = useState(new Date());
+  const [dayViewDate, setDayViewDate] = useState(() => zonedNow(timezone));
+  const [agendaDays, setAgendaDays] = useState(DEFAULT_AGENDA_DAYS);
+  const [categoryFilters, setCategoryFilters] = useState<CategoryFilters>({});
+  const [colorBy, setColorBy] = useState<EventColorBy>("room");
+  const { data: ministries } = useEventMinistries(currentOrganization?.id);
+  const { data: rooms } = useActiveRooms(currentOrganization?.id);
+  const rescheduleEvent = useRescheduleEvent();
+  const isDayView = calendarView === "day" || calendarView === "timeline";
 
-  const { data: events, refetch } = useEvents(currentOrganization?.id);
+  // Load the padded month around the visible period, or the agenda's days or the whole
+  // year; recurring series are expanded for this range
+  const rangeAnchor = isDayView ? dayViewDate : currentWeek;
+  const [rangeStart, rangeEnd] =
+    calendarView === "agenda"
+      ? [startOfDay(currentWeek), startOfDay(addDays(currentWeek, agendaDays))]
+      : calendarView === "year"
+      ? [startOfYear(currentWeek), endOfYear(currentWeek)]
+      : [startOfWeek(startOfMonth(rangeAnchor), { weekStartsOn: 0 }), endOfWeek(endOfMonth(rangeAnchor), { weekStartsOn: 0 })];
+  const { data: events, refetch } = useEvents(currentOrganization?.id, {
+    start_date: fromZonedTime(rangeStart, timezone).toISOString(),
+    end_date: fromZonedTime(rangeEnd, timezone).toISOString(),
+  });
+  const visibleEvents = filterEventsByCategory(events || [], categoryFilters);
 
   const handleEventClick = (eventId: string) => {
     setSelectedEventId(eventId);
     setSelectedDate(null);
+    setSelectedSlot(null);
     setIsEventDialogOpen(true);
   };
 
   const handleCreateEvent = () => {
     setSelectedEventId(null);
     setSelectedDate(null);
+    setSelectedSlot(null);
     setIsEventDialogOpen(true);
   };
 
+  const handleCreateInRoom = (roomId: string, start: Date, end: Date) => {
+    setSelectedEventId(null);
+    setSelectedDate(start);
+    setSelectedSlot({ roomId, end });
+    setIsEventDialogOpen(true);
+  };
+
+  // Bookings moved on the timeline are saved only when the rooms are free
+  const handleReschedule = async (event: EventWithRelations, changes: TimelineChanges) => {
+    try {
+      const { conflicts, status, policyName } = await rescheduleEvent.mutateAsync({ event, changes });
+      if (conflicts.length > 0) {
+        toast({
+          title: "Room not available",
+          description: `Conflicts with "${conflicts[0].title}"`,
+          variant: "destructive",
+        });
+      } else if (policyName) {
+        toast({
+          title: "Event moved and approved",
+          description: `Approved automatically by the "${policyName}" policy`,
+        });
+      } else if (status !== event.status) {
+        toast({
+          title: "Event moved and sent back for review",
+          description: "The new time needs to be approved again",
+        });
+      } else {
+        toast({ title: "Event moved" });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDateClick = (date: Date) => {
-    // If in month view, switch to day view for the clicked date
-    if (calendarView === "month") {
+    // If in month or year view, switch to day view for the clicked date
+    if (calendarView === "month" || calendarView === "year") {
       setDayViewDate(date);
       setCurrentWeek(date);
       setCalendarView("day");
@@ -44,6 +114,7 @@ const Dashboard = () => {
       // For week and day views, open event dialog
       setSelectedEventId(null);
       setSelectedDate(date);
+      setSelectedSlot(null);
       setIsEventDialogOpen(true);
     }
   };
@@ -58,8 +129,18 @@ const Dashboard = () => {
             <p className="text-sm sm:text-base text-muted-foreground mt-1">
               Manage and schedule events
             </p>
+            <TimeZoneNotice timezone={timezone} className="mt-1" />
           </div>
           <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsImportDialogOpen(true)}
+              className="gap-1.5 sm:gap-2"
+            >
+              <Upload className="h-4 w-4" />
+              <span className="hidden xs:inline">Import</span>
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -80,9 +161,10 @@ const Dashboard = () => {
         <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 sm:gap-4">
           <CalendarViewSwitcher
             currentView={calendarView}
+            showTimeline
             onViewChange={(view) => {
               setCalendarView(view);
-              if (view === "day") {
+              if ((view === "day" || view === "timeline") && !isDayView) {
                 setDayViewDate(currentWeek);
               }
             }}
@@ -93,10 +175,14 @@ const Dashboard = () => {
               size="icon"
               className="h-8 w-8 sm:h-9 sm:w-9"
               onClick={() => {
-                if (calendarView === "day") {
+                if (isDayView) {
                   setDayViewDate(addDays(dayViewDate, -1));
                 } else if (calendarView === "month") {
                   setCurrentWeek(subMonths(currentWeek, 1));
+                } else if (calendarView === "agenda") {
+                  setCurrentWeek(addDays(currentWeek, -agendaDays));
+                } else if (calendarView === "year") {
+                  setCurrentWeek(subYears(currentWeek, 1));
                 } else {
                   setCurrentWeek(subWeeks(currentWeek, 1));
                 }
@@ -106,17 +192,23 @@ const Dashboard = () => {
             </Button>
             <div className="px-2 sm:px-4 py-1.5 sm:py-2 bg-muted rounded-lg min-w-[120px] sm:min-w-[200px] text-center flex-1 sm:flex-none">
               <span className="font-medium text-xs sm:text-sm">
-                {calendarView === "day"
+                {isDayView
                   ? format(dayViewDate, "EEE, MMM d")
                   : calendarView === "month"
                   ? format(currentWeek, "MMM yyyy")
+                  : calendarView === "year"
+                  ? format(currentWeek, "yyyy")
+                  : calendarView === "agenda"
+                  ? `${format(rangeStart, "MMM d")} – ${format(addDays(rangeEnd, -1), "MMM d")}`
                   : format(currentWeek, "MMM d")}
               </span>
               <span className="font-medium text-xs sm:text-sm hidden sm:inline">
-                {calendarView === "day"
+                {isDayView
                   ? format(dayViewDate, ", yyyy")
-                  : calendarView === "month"
+                  : calendarView === "month" || calendarView === "year"
                   ? ""
+                  : calendarView === "agenda"
+                  ? format(addDays(rangeEnd, -1), ", yyyy")
                   : format(currentWeek, ", yyyy")}
               </span>
             </div>
@@ -125,10 +217,14 @@ const Dashboard = () => {
               size="icon"
               className="h-8 w-8 sm:h-9 sm:w-9"
               onClick={() => {
-                if (calendarView === "day") {
+                if (isDayView) {
                   setDayViewDate(addDays(dayViewDate, 1));
                 } else if (calendarView === "month") {
                   setCurrentWeek(addMonths(currentWeek, 1));
+                } else if (calendarView === "agenda") {
+                  setCurrentWeek(addDays(currentWeek, agendaDays));
+                } else if (calendarView === "year") {
+                  setCurrentWeek(addYears(currentWeek, 1));
                 } else {
                   setCurrentWeek(addWeeks(currentWeek, 1));
                 }
@@ -141,7 +237,7 @@ const Dashboard = () => {
               size="sm"
               className="text-xs sm:text-sm px-2 sm:px-3"
               onClick={() => {
-                const today = new Date();
+                const today = zonedNow(timezone);
                 setCurrentWeek(today);
                 setDayViewDate(today);
               }}
@@ -151,27 +247,69 @@ const Dashboard = () => {
           </div>
         </div>
 
+        <EventCategoryFilters
+          value={categoryFilters}
+          onChange={setCategoryFilters}
+          ministries={ministries}
+          colorBy={colorBy}
+          onColorByChange={setColorBy}
+        />
+
         <div>
-          <GoogleCalendarView
-            events={events || []}
-            currentWeek={currentWeek}
-            onEventClick={handleEventClick}
-            onDateClick={handleDateClick}
-            currentUserId={user?.id}
-            view={calendarView}
-            selectedDate={dayViewDate}
-            startHour={0}
-            endHour={23}
-            scrollToHour={9}
-            visibleHours={10}
-          />
+          {calendarView === "agenda" ? (
+            <AgendaView
+              events={visibleEvents}
+              onEventClick={handleEventClick}
+              rangeDays={agendaDays}
+              onRangeDaysChange={setAgendaDays}
+              timezone={timezone}
+              colorBy={colorBy}
+            />
+          ) : calendarView === "year" ? (
+            <YearView events={visibleEvents} date={currentWeek} onDateClick={handleDateClick} timezone={timezone} />
+          ) : calendarView === "timeline" ? (
+            <RoomTimelineView
+              events={visibleEvents}
+              rooms={rooms || []}
+              date={dayViewDate}
+              onEventClick={handleEventClick}
+              onCreate={handleCreateInRoom}
+              onReschedule={handleReschedule}
+              currentUserId={user?.id}
+              canEditAll={isAdmin}
+              timezone={timezone}
+              colorBy={colorBy}
+            />
+          ) : (
+            <GoogleCalendarView
+              events={visibleEvents}
+              currentWeek={currentWeek}
+              onEventClick={handleEventClick}
+              onDateClick={handleDateClick}
+              currentUserId={user?.id}
+              view={calendarView}
+              selectedDate={dayViewDate}
+              startHour={0}
+              endHour={23}
+              scrollToHour={9}
+              visibleHours={10}
+              timezone={timezone}
+              showBuffers
+              colorBy={colorBy}
+              ministries={ministries}
+            />
+          )}
         </div>
 
+        <AttendanceTrends organizationId={currentOrganization?.id} timezone={timezone} />
+
         <EventDialog
           open={isEventDialogOpen}
           onOpenChange={setIsEventDialogOpen}
           eventId={selectedEventId}
           initialDate={selectedDate}
+          initialEndDate={selectedSlot?.end}
+          initialRoomId={selectedSlot?.roomId}
           onSuccess={() => {
             refetch();
             setIsEventDialogOpen(false);
@@ -190,6 +328,7 @@ const Dashboard = () => {
           organizationName={currentOrganization?.name || "Calendar"}
           organizationSlug={currentOrganization?.slug}
           timezone={currentOrganization?.timezone}
+          organizationId={currentOrganization?.id}
           userId={user?.id}
           isAdmin={isAdmin || isOrgAdmin}
           dateRange={
@@ -203,9 +342,22 @@ const Dashboard = () => {
                   start: startOfWeek(currentWeek, { weekStartsOn: 0 }),
                   end: endOfWeek(currentWeek, { weekStartsOn: 0 }),
                 }
+              : calendarView === "agenda"
+              ? { start: rangeStart, end: addDays(rangeEnd, -1) }
+              : calendarView === "year"
+              ? { start: rangeStart, end: rangeEnd }
               : undefined
           }
         />
+
+        <ImportDialog
+          open={isImportDialogOpen}
+          onOpenChange={setIsImportDialogOpen}
+          organizationId={currentOrganization?.id}
+          timezone={timezone}
+          userId={user?.id}
+          onSuccess={() => refetch()}
+        />
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,311 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams, useSearchParams } from "react-router-dom";
+import {
+  addDays,
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { CalendarDays, ChevronLeft, ChevronRight, Clock, Loader2, MapPin } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/shared/lib/utils";
+import { usePublicEvents } from "../hooks";
+import type { EventWithRelations } from "../types";
+import {
+  EMBED_RESIZE_MESSAGE,
+  filterEmbedEvents,
+  formatInTimeZone,
+  formatReservedRooms,
+  fromZonedTime,
+  getEventColor,
+  groupEventsByDay,
+  parseEmbedOptions,
+  zonedNow,
+} from "../utils";
+
+// Events shown on one day of the month view before "+N more"
+const MONTH_DAY_LIMIT = 3;
+
+/**
+ * Published events of an organization without the app chrome, for embedding
+ * in an iframe on the church website (see public/embed.js). Everything is set
+ * through URL parameters; the height is posted to the parent page so the
+ * iframe can fit its content.
+ */
+const EmbedCalendar = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [searchParams] = useSearchParams();
+  const options = useMemo(() => parseEmbedOptions(searchParams), [searchParams]);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  const { data: organization, isLoading: orgLoading } = useQuery({
+    queryKey: ["embed-organization", slug],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("organizations")
+        .select("id, name, slug, timezone")
+        .eq("is_active", true)
+        .eq("slug", slug!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!slug,
+  });
+  const timezone = organization?.timezone;
+
+  // Month shown by the month view, as a wall-clock date in the organization's zone
+  const [month, setMonth] = useState(() => startOfMonth(zonedNow(timezone)));
+  const [now] = useState(() => new Date());
+
+  const range = useMemo(() => {
+    if (options.view === "month") {
+      return {
+        start: fromZonedTime(startOfWeek(month), timezone).toISOString(),
+        end: fromZonedTime(endOfWeek(endOfMonth(month)), timezone).toISOString(),
+      };
+    }
+    return { start: now.toISOString(), end: addDays(now, options.days).toISOString() };
+  }, [options.view, options.days, month, now, timezone]);
+
+  const { data: allEvents, isLoading: eventsLoading } = usePublicEvents(organization?.id, range.start, range.end);
+  const events = useMemo(
+    () =>
+      filterEmbedEvents(allEvents || [], options).filter(
+        (event) => options.view === "month" || new Date(event.ends_at) > now
+      ),
+    [allEvents, options, now]
+  );
+  const listed = events.slice(0, options.maxItems);
+
+  // Keep the host page's iframe as tall as the widget
+  useEffect(() => {
+    if (!rootRef.current || window.parent === window) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      window.parent.postMessage(
+        { type: EMBED_RESIZE_MESSAGE, slug, height: Math.ceil(entry.target.getBoundingClientRect().height) },
+        "*"
+      );
+    });
+    observer.observe(rootRef.current);
+    return () => observer.disconnect();
+  }, [slug]);
+
+  // Let the host page show through instead of the app's background
+  useEffect(() => {
+    if (!options.transparent) return;
+    document.documentElement.style.background = "transparent";
+    document.body.style.background = "transparent";
+  }, [options.transparent]);
+
+  const calendarUrl = `${window.location.origin}/public/${slug}`;
+  const accentStyle = options.accent ? { color: options.accent } : undefined;
+
+  const eventLink = (
+    event: EventWithRelations,
+    children: React.ReactNode,
+    className?: string,
+    style?: React.CSSProperties
+  ) => (
+    <a
+      key={event.id}
+      href={calendarUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={event.title}
+      className={className}
+      style={style}
+    >
+      {children}
+    </a>
+  );
+
+  const renderList = () => (
+    <ul className="divide-y divide-border">
+      {listed.map((event) => (
+        <li key={event.id}>
+          {eventLink(
+            event,
+            <>
+              <div
+                className="flex w-12 shrink-0 flex-col items-center rounded-md border py-1 leading-tight"
+                style={accentStyle}
+              >
+                <span className="text-[10px] font-semibold uppercase">
+                  {formatInTimeZone(event.starts_at, "MMM", timezone)}
+                </span>
+                <span className="text-lg font-bold">{formatInTimeZone(event.starts_at, "d", timezone)}</span>
+              </div>
+              <div className="min-w-0">
+                <p className="truncate font-medium">{event.title}</p>
+                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Clock className="h-3 w-3" />
+                  {formatInTimeZone(event.starts_at, "EEE h:mm a", timezone)}
+                </p>
+                <p className="flex items-center gap-1 truncate text-xs text-muted-foreground">
+                  <MapPin className="h-3 w-3 shrink-0" />
+                  {formatReservedRooms(event, event.reserved_rooms || []) || event.room?.name}
+                </p>
+              </div>
+            </>,
+            "flex gap-3 py-3 hover:bg-accent/50"
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
+  const renderAgenda = () => (
+    <div className="space-y-4">
+      {groupEventsByDay(listed, timezone).map(({ day, events: dayEvents }) => (
+        <section key={day}>
+          <h3 className="mb-1 border-b pb-1 text-sm font-semibold" style={accentStyle}>
+            {formatInTimeZone(dayEvents[0].starts_at, "EEEE, MMMM d", timezone)}
+          </h3>
+          <ul className="space-y-1">
+            {dayEvents.map((event) => (
+              <li key={event.id}>
+                {eventLink(
+                  event,
+                  <>
+                    <span className="w-16 shrink-0 text-xs text-muted-foreground">
+                      {formatInTimeZone(event.starts_at, "h:mm a", timezone)}
+                    </span>
+                    <span
+                      className="mt-1.5 h-2 w-2 shrink-0 rounded-full"
+                      style={{ backgroundColor: getEventColor(event) }}
+                    />
+                    <span className="min-w-0">
+                      <span className="block truncate text-sm font-medium">{event.title}</span>
+                      <span className="block truncate text-xs text-muted-foreground">
+                        {formatReservedRooms(event, event.reserved_rooms || []) || event.room?.name}
+                      </span>
+                    </span>
+                  </>,
+                  "flex items-start gap-2 rounded px-1 py-1 hover:bg-accent/50"
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+
+  const renderMonth = () => {
+    const days = eachDayOfInterval({ start: startOfWeek(month), end: endOfWeek(endOfMonth(month)) });
+    const byDay = new Map(groupEventsByDay(events, timezone).map((group) => [group.day, group.events]));
+
+    return (
+      <div>
+        <div className="mb-2 flex items-center justify-between">
+          <button
+            type="button"
+            className="rounded p-1 hover:bg-accent"
+            onClick={() => setMonth(addMonths(month, -1))}
+            aria-label="Previous month"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="text-sm font-semibold" style={accentStyle}>
+            {format(month, "MMMM yyyy")}
+          </span>
+          <button
+            type="button"
+            className="rounded p-1 hover:bg-accent"
+            onClick={() => setMonth(addMonths(month, 1))}
+            aria-label="Next month"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+        <div className="grid grid-cols-7 border-l border-t text-xs">
+          {days.slice(0, 7).map((day) => (
+            <div key={day.toISOString()} className="border-b border-r px-1 py-1 text-center font-medium text-muted-foreground">
+              {format(day, "EEE")}
+            </div>
+          ))}
+          {days.map((day) => {
+            const dayEvents = byDay.get(format(day, "yyyy-MM-dd")) || [];
+            return (
+              <div
+                key={day.toISOString()}
+                className={cn("min-h-16 border-b border-r p-1", !isSameMonth(day, month) && "bg-muted/40 text-muted-foreground")}
+              >
+                <span className="text-[11px]">{format(day, "d")}</span>
+                {dayEvents.slice(0, MONTH_DAY_LIMIT).map((event) =>
+                  eventLink(
+                    event,
+                    event.title,
+                    "mt-0.5 block truncate rounded px-1 text-[10px] leading-4 text-white",
+                    { backgroundColor: getEventColor(event) }
+                  )
+                )}
+                {dayEvents.length > MONTH_DAY_LIMIT && (
+                  <a href={calendarUrl} target="_blank" rel="noopener noreferrer" className="block text-[10px] text-muted-foreground">
+                    +{dayEvents.length - MONTH_DAY_LIMIT} more
+                  </a>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const isLoading = orgLoading || (!!organization && eventsLoading);
+  const isEmpty = options.view === "month" ? false : listed.length === 0;
+
+  return (
+    <div ref={rootRef} className={cn(options.theme === "dark" && "dark", "font-sans")}>
+      <div className={cn("p-3 text-foreground", !options.transparent && "bg-background")}>
+        {options.showHeader && organization && (
+          <h2 className="mb-2 flex items-center gap-2 text-base font-semibold" style={accentStyle}>
+            <CalendarDays className="h-4 w-4" />
+            {options.view === "month" ? organization.name : `Upcoming at ${organization.name}`}
+          </h2>
+        )}
+
+        {isLoading ? (
+          <p className="flex items-center gap-2 py-6 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading events...
+          </p>
+        ) : !organization ? (
+          <p className="py-6 text-sm text-muted-foreground">This calendar could not be found.</p>
+        ) : isEmpty ? (
+          <p className="py-6 text-sm text-muted-foreground">No upcoming events.</p>
+        ) : options.view === "month" ? (
+          renderMonth()
+        ) : options.view === "agenda" ? (
+          renderAgenda()
+        ) : (
+          renderList()
+        )}
+
+        {organization && (
+          <a
+            href={calendarUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="mt-3 block text-right text-xs hover:underline"
+            style={accentStyle}
+          >
+            View full calendar →
+          </a>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmbedCalendar;
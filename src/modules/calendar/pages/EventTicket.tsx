@@ -0,0 +1,89 @@
+import { useParams } from "react-router-dom";
+import { CalendarDays, CheckCircle2, Clock, Users } from "lucide-react";
+import { Badge } from "@/shared/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/shared/components/ui/card";
+import { PageLoader } from "@/shared/components/ui/loading";
+import { RegistrationQRCode } from "../components";
+import { useRegistrationTicket } from "../hooks";
+import { formatInTimeZone, getRegistrationStatusLabel } from "../utils";
+
+/**
+ * Ticket of a registration, linked from the confirmation email. Its QR code
+ * is scanned at the door to check the registrant in.
+ */
+const EventTicket = () => {
+  const { token } = useParams<{ token: string }>();
+  const { data: ticket, isLoading } = useRegistrationTicket(token);
+
+  if (isLoading) {
+    return <PageLoader message="Loading ticket..." />;
+  }
+
+  const timezone = ticket?.timezone || undefined;
+
+  return (
+    <div className="min-h-screen bg-slate-50 px-4 py-10">
+      <Card className="mx-auto max-w-sm">
+        {!ticket || !token ? (
+          <CardContent className="py-10 text-center text-sm text-muted-foreground">
+            This ticket could not be found.
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader className="text-center">
+              <CardDescription>{ticket.organization_name}</CardDescription>
+              <CardTitle className="text-xl">{ticket.event_title}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1 text-sm">
+                <p className="flex items-center gap-2">
+                  <CalendarDays className="h-4 w-4 text-muted-foreground" />
+                  {formatInTimeZone(ticket.starts_at, "EEEE, MMMM d, yyyy", timezone)}
+                </p>
+                <p className="flex items-center gap-2">
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                  {formatInTimeZone(ticket.starts_at, "h:mm a", timezone)} -{" "}
+                  {formatInTimeZone(ticket.ends_at, "h:mm a", timezone)}
+                </p>
+                <p className="flex items-center gap-2">
+                  <Users className="h-4 w-4 text-muted-foreground" />
+                  {ticket.name}
+                  {ticket.headcount > 1 && ` + ${ticket.headcount - 1}`}
+                </p>
+              </div>
+
+              <div className="flex justify-center">
+                <Badge variant={ticket.status === "confirmed" ? "default" : "secondary"}>
+                  {getRegistrationStatusLabel(ticket.status)}
+                </Badge>
+              </div>
+
+              {ticket.checked_in_at ? (
+                <p className="flex items-center justify-center gap-2 text-sm font-medium text-green-700">
+                  <CheckCircle2 className="h-4 w-4" />
+                  Checked in {formatInTimeZone(ticket.checked_in_at, "h:mm a", timezone)}
+                </p>
+              ) : (
+                ticket.status !== "cancelled" && (
+                  <div className="space-y-2 text-center">
+                    <RegistrationQRCode
+                      registration={{
+                        event_id: ticket.event_id,
+                        occurrence_start: ticket.occurrence_start,
+                        check_in_token: token,
+                      }}
+                      size={220}
+                    />
+                    <p className="text-xs text-muted-foreground">Show this code at the door to check in.</p>
+                  </div>
+                )
+              )}
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default EventTicket;
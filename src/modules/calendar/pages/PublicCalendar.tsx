@@ -3,10 +3,31 @@ import { useQuery } from "@tanstack/react-query";
 import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import GoogleCalendarView from "@/modules/calendar/components/GoogleCalendarView";
+import AgendaView from "@/modules/calendar/components/AgendaView";
+import YearView from "@/modules/calendar/components/YearView";
 import CalendarViewSwitcher, {
   CalendarView,
 } from "@/modules/calendar/components/CalendarViewSwitcher";
 import ExportDialog from "@/modules/calendar/components/ExportDialog";
+import EventCategoryFilters, {
+  type CategoryFilters,
+} from "@/modules/calendar/components/EventCategoryFilters";
+import TimeZoneNotice from "@/modules/calendar/components/TimeZoneNotice";
+import RegistrationForm from "@/modules/calendar/components/RegistrationForm";
+import { eventService } from "@/modules/calendar/services";
+import { useEventMinistries } from "@/modules/calendar/hooks";
+import {
+  DEFAULT_AGENDA_DAYS,
+  filterEventsByCategory,
+  formatInTimeZone,
+  formatReservedRooms,
+  fromZonedTime,
+  getCategoryLabel,
+  getEventColor,
+  getMinistryName,
+  zonedNow,
+} from "@/modules/calendar/utils";
+import type { EventColorBy } from "@/modules/calendar/types";
 import {
   Calendar,
   Church,
@@ -45,7 +66,6 @@ import {
 } from "@/shared/components/ui/select";
 import {
   format,
-  parseISO,
   addWeeks,
   subWeeks,
   startOfWeek,
@@ -53,8 +73,12 @@ import {
   addDays,
   addMonths,
   subMonths,
+  addYears,
+  subYears,
   startOfMonth,
   endOfMonth,
+  startOfYear,
+  endOfYear,
   startOfDay,
   endOfDay,
 } from "date-fns";
@@ -65,14 +89,18 @@ const PublicCalendar = () => {
   const { slug } = useParams<{ slug?: string }>();
   const [currentWeek, setCurrentWeek] = useState(new Date());
   const [selectedEvent, setSelectedEvent] = useState<any>(null);
-  const [calendarView, setCalendarView] = useState<CalendarView>("week");
+  // The room timeline is for staff only
+  const [calendarView, setCalendarView] = useState<Exclude<CalendarView, "timeline">>("week");
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [selectedOrgId, setSelectedOrgId] = useState<string | null>(null);
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [categoryFilters, setCategoryFilters] = useState<CategoryFilters>({});
+  const [colorBy, setColorBy] = useState<EventColorBy>("room");
+  const [agendaDays, setAgendaDays] = useState(DEFAULT_AGENDA_DAYS);
   const weekStart = startOfWeek(currentWeek, { weekStartsOn: 0 });
   const weekEnd = endOfWeek(currentWeek, { weekStartsOn: 0 });
 
-  // Calculate date range based on current view
+  // Calendar dates of the visible period, in the organization's zone
   const getDateRange = () => {
     if (calendarView === "day") {
       return {
@@ -87,6 +115,16 @@ const PublicCalendar = () => {
         start: startOfWeek(monthStart, { weekStartsOn: 0 }),
         end: endOfWeek(monthEnd, { weekStartsOn: 0 }),
       };
+    } else if (calendarView === "agenda") {
+      return {
+        start: startOfDay(currentWeek),
+        end: endOfDay(addDays(currentWeek, agendaDays - 1)),
+      };
+    } else if (calendarView === "year") {
+      return {
+        start: startOfYear(currentWeek),
+        end: endOfYear(currentWeek),
+      };
     } else {
       // week view
       return {
@@ -146,42 +184,29 @@ const PublicCalendar = () => {
     }
   }, [organization?.id, selectedOrgId]);
 
-  const { data: events } = useQuery({
+  // Events are shown in the organization's zone, so the visible period is converted from it
+  const timezone = organization?.timezone;
+  const rangeStart = fromZonedTime(dateRange.start, timezone).toISOString();
+  const rangeEnd = fromZonedTime(dateRange.end, timezone).toISOString();
+
+  const { data: allEvents } = useQuery({
     queryKey: [
       "public-events",
       organization?.id,
       calendarView,
-      dateRange.start.toISOString(),
-      dateRange.end.toISOString(),
+      rangeStart,
+      rangeEnd,
     ],
     queryFn: async () => {
       if (!organization?.id) return [];
 
-      const { data, error } = await supabase
-        .from("events")
-        .select(
-          `
-          *,
-          rooms(id, name, color)
-        `
-        )
-        .eq("organization_id", organization.id)
-        .eq("status", "published")
-        .gte("starts_at", dateRange.start.toISOString())
-        .lte("starts_at", dateRange.end.toISOString())
-        .order("starts_at", { ascending: true });
-
-      if (error) throw error;
-      return (
-        data?.map((event) => ({
-          ...event,
-          room: event.rooms,
-          creator: { full_name: "User" },
-        })) || []
-      );
+      // Published standalone events plus expanded occurrences of published series
+      return eventService.listPublic(organization.id, rangeStart, rangeEnd);
     },
     enabled: !!organization?.id,
   });
+  const { data: ministries } = useEventMinistries(organization?.id);
+  const events = allEvents && filterEventsByCategory(allEvents, categoryFilters);
 
   const handleEventClick = (eventId: string) => {
     const event = events?.find((e) => e.id === eventId);
@@ -189,8 +214,8 @@ const PublicCalendar = () => {
   };
 
   const handleDateClick = (date: Date) => {
-    // If in month view, switch to day view for the clicked date
-    if (calendarView === "month") {
+    // If in month or year view, switch to day view for the clicked date
+    if (calendarView === "month" || calendarView === "year") {
       setSelectedDate(date);
       setCurrentWeek(date);
       setCalendarView("day");
@@ -412,11 +437,13 @@ const PublicCalendar = () => {
                 <CardDescription className="mt-2">
                   View all published events and activities
                 </CardDescription>
+                <TimeZoneNotice timezone={timezone} className="mt-2" />
               </div>
               <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
                 <CalendarViewSwitcher
                   currentView={calendarView}
                   onViewChange={(view) => {
+                    if (view === "timeline") return;
                     setCalendarView(view);
                     if (view === "day") {
                       setSelectedDate(currentWeek);
@@ -432,6 +459,10 @@ const PublicCalendar = () => {
                         setSelectedDate(addDays(selectedDate, -1));
                       } else if (calendarView === "month") {
                         setCurrentWeek(subMonths(currentWeek, 1));
+                      } else if (calendarView === "agenda") {
+                        setCurrentWeek(addDays(currentWeek, -agendaDays));
+                      } else if (calendarView === "year") {
+                        setCurrentWeek(subYears(currentWeek, 1));
                       } else {
                         setCurrentWeek(subWeeks(currentWeek, 1));
                       }
@@ -445,6 +476,13 @@ const PublicCalendar = () => {
                         ? format(selectedDate, "EEEE, MMM d, yyyy")
                         : calendarView === "month"
                         ? format(currentWeek, "MMMM yyyy")
+                        : calendarView === "year"
+                        ? format(currentWeek, "yyyy")
+                        : calendarView === "agenda"
+                        ? `${format(dateRange.start, "MMM d")} - ${format(
+                            dateRange.end,
+                            "MMM d, yyyy"
+                          )}`
                         : `${format(weekStart, "MMM d")} - ${format(
                             weekEnd,
                             "MMM d, yyyy"
@@ -459,6 +497,10 @@ const PublicCalendar = () => {
                         setSelectedDate(addDays(selectedDate, 1));
                       } else if (calendarView === "month") {
                         setCurrentWeek(addMonths(currentWeek, 1));
+                      } else if (calendarView === "agenda") {
+                        setCurrentWeek(addDays(currentWeek, agendaDays));
+                      } else if (calendarView === "year") {
+                        setCurrentWeek(addYears(currentWeek, 1));
                       } else {
                         setCurrentWeek(addWeeks(currentWeek, 1));
                       }
@@ -469,7 +511,7 @@ const PublicCalendar = () => {
                   <Button
                     variant="outline"
                     onClick={() => {
-                      const today = new Date();
+                      const today = zonedNow(timezone);
                       setCurrentWeek(today);
                       setSelectedDate(today);
                     }}
@@ -479,9 +521,34 @@ const PublicCalendar = () => {
                 </div>
               </div>
             </div>
+            <EventCategoryFilters
+              value={categoryFilters}
+              onChange={setCategoryFilters}
+              ministries={ministries}
+              colorBy={colorBy}
+              onColorByChange={setColorBy}
+              className="pt-4"
+            />
           </CardHeader>
           <CardContent className="pt-6">
-            {events && events.length === 0 ? (
+            {calendarView === "agenda" ? (
+              <AgendaView
+                events={events || []}
+                onEventClick={handleEventClick}
+                rangeDays={agendaDays}
+                onRangeDaysChange={setAgendaDays}
+                hideStatus={true}
+                timezone={timezone}
+                colorBy={colorBy}
+              />
+            ) : calendarView === "year" ? (
+              <YearView
+                events={events || []}
+                date={currentWeek}
+                onDateClick={handleDateClick}
+                timezone={timezone}
+              />
+            ) : events && events.length === 0 ? (
               <div className="text-center py-12">
                 <Calendar className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <p className="text-muted-foreground">
@@ -502,6 +569,9 @@ const PublicCalendar = () => {
                 scrollToHour={9}
                 visibleHours={5}
                 readOnly={true}
+                timezone={timezone}
+                colorBy={colorBy}
+                ministries={ministries}
               />
             )}
           </CardContent>
@@ -525,19 +595,22 @@ const PublicCalendar = () => {
                     <div className="flex items-center gap-3">
                       <div
                         className="w-3 h-3 rounded-full"
-                        style={{ backgroundColor: event.room?.color }}
+                        style={{ backgroundColor: getEventColor(event, colorBy) }}
                       />
                       <div>
                         <p className="font-medium">{event.title}</p>
                         <p className="text-sm text-muted-foreground">
-                          {format(
-                            parseISO(event.starts_at),
-                            "EEEE, MMMM d 'at' h:mm a"
+                          {formatInTimeZone(
+                            event.starts_at,
+                            "EEEE, MMMM d 'at' h:mm a",
+                            timezone
                           )}
                         </p>
                       </div>
                     </div>
-                    <Badge variant="secondary">{event.room?.name}</Badge>
+                    <Badge variant="secondary">
+                      {formatReservedRooms(event, event.reserved_rooms || []) || event.room?.name}
+                    </Badge>
                   </div>
                 ))
               ) : (
@@ -566,19 +639,30 @@ const PublicCalendar = () => {
               </p>
               <p className="text-base">
                 {selectedEvent &&
-                  format(
-                    parseISO(selectedEvent.starts_at),
-                    "EEEE, MMMM d, yyyy"
+                  formatInTimeZone(
+                    selectedEvent.starts_at,
+                    "EEEE, MMMM d, yyyy",
+                    timezone
                   )}
               </p>
               <p className="text-sm text-muted-foreground">
                 {selectedEvent &&
-                  format(parseISO(selectedEvent.starts_at), "h:mm a")}{" "}
+                  formatInTimeZone(selectedEvent.starts_at, "h:mm a", timezone)}{" "}
                 -{" "}
                 {selectedEvent &&
-                  format(parseISO(selectedEvent.ends_at), "h:mm a")}
+                  formatInTimeZone(selectedEvent.ends_at, "h:mm a", timezone)}
               </p>
             </div>
+            {(selectedEvent?.category || selectedEvent?.ministry_id) && (
+              <div className="flex flex-wrap gap-1">
+                {selectedEvent.category && (
+                  <Badge variant="outline">{getCategoryLabel(selectedEvent.category)}</Badge>
+                )}
+                {getMinistryName(selectedEvent.ministry_id, ministries) && (
+                  <Badge variant="outline">{getMinistryName(selectedEvent.ministry_id, ministries)}</Badge>
+                )}
+              </div>
+            )}
             {selectedEvent?.description && (
               <div>
                 <p className="text-sm font-medium text-muted-foreground">
@@ -588,9 +672,25 @@ const PublicCalendar = () => {
               </div>
             )}
             <div>
-              <p className="text-sm font-medium text-muted-foreground">Room</p>
-              <Badge variant="secondary">{selectedEvent?.room?.name}</Badge>
+              <p className="text-sm font-medium text-muted-foreground">
+                {selectedEvent?.reserved_rooms?.length > 1 ? "Rooms" : "Room"}
+              </p>
+              {selectedEvent?.is_whole_building ? (
+                <Badge variant="secondary">Whole building</Badge>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {(selectedEvent?.reserved_rooms?.length ? selectedEvent.reserved_rooms : [selectedEvent?.room]).map(
+                    (room: { id: string; name: string }) => (
+                      <Badge key={room?.id} variant="secondary">{room?.name}</Badge>
+                    )
+                  )}
+                </div>
+              )}
             </div>
+            {selectedEvent?.registration_enabled &&
+              new Date(selectedEvent.ends_at) > new Date() && (
+                <RegistrationForm key={selectedEvent.id} event={selectedEvent} />
+              )}
           </div>
         </DialogContent>
       </Dialog>
@@ -645,10 +745,11 @@ const PublicCalendar = () => {
       <ExportDialog
         open={isExportDialogOpen}
         onOpenChange={setIsExportDialogOpen}
-        events={events || []}
+        events={allEvents || []}
         organizationName={organization.name}
         organizationSlug={organization.slug}
         timezone={organization.timezone}
+        organizationId={organization.id}
         isAdmin={false}
         dateRange={{
           start: dateRange.start,
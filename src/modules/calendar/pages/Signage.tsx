@@ -0,0 +1,251 @@
+import { useEffect, useMemo, useRef, useState, type RefObject } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "react-router-dom";
+import { Building2, Maximize } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/shared/components/ui/badge";
+import { PageLoader } from "@/shared/components/ui/loading";
+import { cn } from "@/shared/lib/utils";
+import { usePublicEvents } from "../hooks";
+import {
+  formatInTimeZone,
+  getSignageEventStates,
+  getSignageWindow,
+  groupEventsByRoom,
+  parseSignageSettings,
+} from "../utils";
+
+// How often the clock and the current/next highlights move on
+const TICK_MS = 15 * 1000;
+
+// Pause at the top and bottom of a scrolling list
+const SCROLL_PAUSE_MS = 5 * 1000;
+
+/**
+ * Scroll an overflowing element down at a steady speed, pausing at the
+ * bottom before jumping back to the top
+ */
+const useAutoScroll = (ref: RefObject<HTMLElement>, speed: number) => {
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || speed <= 0) return;
+
+    let frame: number;
+    let last = performance.now();
+    let pausedUntil = last + SCROLL_PAUSE_MS;
+    let offset = 0;
+
+    const step = (time: number) => {
+      const elapsed = time - last;
+      last = time;
+
+      const max = element.scrollHeight - element.clientHeight;
+      if (max <= 0) {
+        offset = 0;
+      } else if (time >= pausedUntil) {
+        if (offset >= max) {
+          offset = 0;
+          pausedUntil = time + SCROLL_PAUSE_MS;
+        } else {
+          offset = Math.min(max, offset + (speed * elapsed) / 1000);
+          if (offset >= max) pausedUntil = time + SCROLL_PAUSE_MS;
+        }
+      }
+
+      element.scrollTop = offset;
+      frame = requestAnimationFrame(step);
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [ref, speed]);
+};
+
+/**
+ * Full-screen lobby display of an organization's published events for today
+ * or this week, grouped by room with what is on now and next highlighted.
+ * Needs no login; refreshes itself and scrolls when the rooms do not fit.
+ */
+const Signage = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const { data: organization, isLoading: orgLoading, refetch: refetchOrganization } = useQuery({
+    queryKey: ["signage-organization", slug],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("organizations")
+        .select("id, name, slug, timezone, logo_url, settings")
+        .eq("is_active", true)
+        .eq("slug", slug!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!slug,
+  });
+
+  const timezone = organization?.timezone;
+  const settings = useMemo(() => parseSignageSettings(organization?.settings), [organization?.settings]);
+
+  // Only changes at midnight, so the query key stays put between ticks
+  const today = formatInTimeZone(now, "yyyy-MM-dd", timezone);
+  const shown = useMemo(
+    () => getSignageWindow(settings.range, today, timezone),
+    [settings.range, today, timezone]
+  );
+
+  const { data: events, refetch: refetchEvents } = usePublicEvents(
+    settings.enabled ? organization?.id : undefined,
+    shown.start.toISOString(),
+    shown.end.toISOString()
+  );
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Pick up new events and changed settings
+  useEffect(() => {
+    const timer = setInterval(() => {
+      refetchOrganization();
+      refetchEvents();
+    }, settings.refresh_seconds * 1000);
+    return () => clearInterval(timer);
+  }, [settings.refresh_seconds, refetchOrganization, refetchEvents]);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, []);
+
+  // Starts once the list is rendered, after loading
+  useAutoScroll(scrollRef, orgLoading ? 0 : settings.scroll_speed);
+
+  const groups = useMemo(
+    () =>
+      groupEventsByRoom(
+        (events || []).filter((event) => new Date(event.ends_at) > now),
+        settings.room_ids
+      ),
+    [events, now, settings.room_ids]
+  );
+
+  if (orgLoading) {
+    return <PageLoader message="Loading display..." />;
+  }
+
+  const timeLabel = (startsAt: string, endsAt: string) => {
+    const time = `${formatInTimeZone(startsAt, "h:mm a", timezone)} – ${formatInTimeZone(endsAt, "h:mm a", timezone)}`;
+    return settings.range === "week" && formatInTimeZone(startsAt, "yyyy-MM-dd", timezone) !== today
+      ? `${formatInTimeZone(startsAt, "EEE", timezone)} ${time}`
+      : time;
+  };
+
+  return (
+    <div className={cn(settings.theme === "dark" && "dark", isFullscreen && "cursor-none")}>
+      <div className="flex h-screen flex-col bg-background text-foreground">
+        <header className="flex items-center justify-between gap-6 border-b px-10 py-6">
+          <div className="flex min-w-0 items-center gap-4">
+            {organization?.logo_url && (
+              <img src={organization.logo_url} alt="" className="h-14 w-14 rounded-lg object-contain" />
+            )}
+            <div className="min-w-0">
+              <h1 className="truncate text-4xl font-bold">{settings.title || organization?.name || "Events"}</h1>
+              <p className="text-xl text-muted-foreground">
+                {settings.range === "today" ? "Today" : "This week"} ·{" "}
+                {formatInTimeZone(now, "EEEE, MMMM d", timezone)}
+              </p>
+            </div>
+          </div>
+          {settings.show_clock && (
+            <p className="shrink-0 text-5xl font-semibold tabular-nums">{formatInTimeZone(now, "h:mm a", timezone)}</p>
+          )}
+        </header>
+
+        <div ref={scrollRef} className="flex-1 overflow-hidden px-10 py-8">
+          {!organization ? (
+            <p className="py-20 text-center text-2xl text-muted-foreground">This display could not be found.</p>
+          ) : !settings.enabled ? (
+            <p className="py-20 text-center text-2xl text-muted-foreground">This display is turned off.</p>
+          ) : groups.length === 0 ? (
+            <p className="py-20 text-center text-2xl text-muted-foreground">
+              No more events {settings.range === "today" ? "today" : "this week"}.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 gap-6 lg:grid-cols-2 2xl:grid-cols-3">
+              {groups.map(({ room, events: roomEvents }) => {
+                const states = getSignageEventStates(roomEvents, now);
+                return (
+                  <section key={room?.id || "whole-building"} className="rounded-2xl border bg-card p-6">
+                    <h2 className="mb-4 flex items-center gap-3 text-2xl font-semibold">
+                      {room ? (
+                        <span className="h-4 w-4 rounded-full" style={{ backgroundColor: room.color || "#64748b" }} />
+                      ) : (
+                        <Building2 className="h-6 w-6" />
+                      )}
+                      {room?.name || "Whole building"}
+                    </h2>
+                    <ul className="space-y-3">
+                      {roomEvents.map((event) => {
+                        const state = states.get(event.id);
+                        return (
+                          <li
+                            key={event.id}
+                            className={cn(
+                              "rounded-xl px-4 py-3",
+                              state === "current" && "bg-primary text-primary-foreground",
+                              state === "next" && "ring-2 ring-primary"
+                            )}
+                          >
+                            <div className="flex items-center justify-between gap-3">
+                              <p className="truncate text-xl font-medium">{event.title}</p>
+                              {state && (
+                                <Badge
+                                  variant={state === "current" ? "secondary" : "outline"}
+                                  className="shrink-0 text-sm"
+                                >
+                                  {state === "current" ? "Now" : "Next"}
+                                </Badge>
+                              )}
+                            </div>
+                            <p
+                              className={cn(
+                                "text-lg",
+                                state === "current" ? "text-primary-foreground/80" : "text-muted-foreground"
+                              )}
+                            >
+                              {timeLabel(event.starts_at, event.ends_at)}
+                            </p>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </section>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {!isFullscreen && (
+        <button
+          type="button"
+          onClick={() => document.documentElement.requestFullscreen?.()}
+          className="fixed bottom-4 right-4 flex items-center gap-2 rounded-lg border bg-background/90 px-3 py-2 text-sm text-foreground shadow"
+        >
+          <Maximize className="h-4 w-4" />
+          Full screen
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default Signage;
@@ -4,3 +4,7 @@
 
 export { default as Dashboard } from "./Dashboard";
 export { default as PublicCalendar } from "./PublicCalendar";
+export { default as CheckIn } from "./CheckIn";
+export { default as EventTicket } from "./EventTicket";
+export { default as EmbedCalendar } from "./EmbedCalendar";
+export { default as Signage } from "./Signage";
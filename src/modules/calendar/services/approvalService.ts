@@ -0,0 +1,196 @@
+/**
+ * Approval service - approval chains of rooms, the decisions approvers make
+ * on the events booking them, and policies that approve events automatically
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type {
+  ApprovalChain,
+  ApprovalDecision,
+  ApprovalPolicy,
+  EventStatus,
+  RoomApprovalStep,
+} from "../types";
+import { buildApprovalChain, type ApprovalSubject } from "../utils/approvals";
+
+// A step as edited for one room; order comes from its position in the list.
+// Saved steps keep their id so the sign-offs made on them still count.
+export type ApprovalStepInput = Pick<RoomApprovalStep, "name" | "approver_id"> & { id?: string };
+
+// A member who can be named as the approver of a step
+export interface Approver {
+  id: string;
+  full_name: string | null;
+  email: string;
+  role: string | null;
+}
+
+// Conditions of an auto-approval policy as edited by an admin
+export type ApprovalPolicyInput = Pick<
+  ApprovalPolicy,
+  "name" | "is_active" | "requester_roles" | "room_ids" | "max_duration_minutes" | "require_approved_series"
+>;
+
+export const approvalService = {
+  /**
+   * Approval steps of every room of an organization, in chain order
+   */
+  async listSteps(organizationId: string): Promise<RoomApprovalStep[]> {
+    const { data, error } = await supabase
+      .from("room_approval_steps")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .order("room_id")
+      .order("step_order");
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Replace a room's approval chain. No steps keeps the single admin review.
+   */
+  async setRoomSteps(roomId: string, steps: ApprovalStepInput[]): Promise<void> {
+    const { error } = await supabase.rpc("set_room_approval_steps", {
+      _room_id: roomId,
+      _steps: steps.map(({ id, name, approver_id }) => ({ id: id ?? null, name, approver_id })),
+    });
+    if (error) throw error;
+  },
+
+  /**
+   * Members of an organization who can sign off steps, by name
+   */
+  async listApprovers(organizationId: string): Promise<Approver[]> {
+    const { data: members, error } = await supabase
+      .from("user_organizations")
+      .select("user_id, role")
+      .eq("organization_id", organizationId);
+
+    if (error) throw error;
+    if (!members || members.length === 0) return [];
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select("id, full_name, email")
+      .in("id", members.map((member) => member.user_id));
+
+    if (profilesError) throw profilesError;
+
+    return (profiles || [])
+      .map((profile) => ({
+        ...profile,
+        role: members.find((member) => member.user_id === profile.id)?.role || null,
+      }))
+      .sort((a, b) => (a.full_name || a.email).localeCompare(b.full_name || b.email));
+  },
+
+  /**
+   * Approval chains of events, by event id. Events whose rooms have no steps
+   * get an empty, complete chain.
+   */
+  async getChains(
+    organizationId: string,
+    events: ApprovalSubject[]
+  ): Promise<Record<string, ApprovalChain>> {
+    if (events.length === 0) return {};
+
+    const [steps, approvalsResult, roomsResult] = await Promise.all([
+      this.listSteps(organizationId),
+      supabase
+        .from("event_approvals")
+        .select("*")
+        .in("event_id", events.map((event) => event.id)),
+      supabase.from("rooms").select("id, name").eq("organization_id", organizationId),
+    ]);
+
+    if (approvalsResult.error) throw approvalsResult.error;
+    if (roomsResult.error) throw roomsResult.error;
+
+    const approverIds = Array.from(
+      new Set<string>(steps.map((step) => step.approver_id).filter((id): id is string => !!id))
+    );
+    const { data: approvers } = approverIds.length > 0
+      ? await supabase.from("profiles").select("id, full_name, email").in("id", approverIds)
+      : { data: [] };
+    const approverNames = Object.fromEntries(
+      (approvers || []).map((approver) => [approver.id, approver.full_name || approver.email])
+    );
+
+    return Object.fromEntries(
+      events.map((event) => [
+        event.id,
+        buildApprovalChain(event, steps, approvalsResult.data || [], roomsResult.data || [], approverNames),
+      ])
+    );
+  },
+
+  /**
+   * Sign off, or reject, the waiting steps assigned to the current user.
+   * Returns the event's status afterwards: approved once every step has signed off.
+   */
+  async decide(eventId: string, decision: ApprovalDecision, notes?: string): Promise<EventStatus> {
+    const { data, error } = await supabase.rpc("decide_event_approval", {
+      _event_id: eventId,
+      _decision: decision,
+      _notes: notes,
+    });
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Auto-approval policies of an organization, oldest first (the order they are tried in)
+   */
+  async listPolicies(organizationId: string): Promise<ApprovalPolicy[]> {
+    const { data, error } = await supabase
+      .from("approval_policies")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .order("created_at");
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async createPolicy(organizationId: string, userId: string, policy: ApprovalPolicyInput): Promise<ApprovalPolicy> {
+    const { data, error } = await supabase
+      .from("approval_policies")
+      .insert({ ...policy, organization_id: organizationId, created_by: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async updatePolicy(policyId: string, policy: Partial<ApprovalPolicyInput>): Promise<ApprovalPolicy> {
+    const { data, error } = await supabase
+      .from("approval_policies")
+      .update(policy)
+      .eq("id", policyId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async deletePolicy(policyId: string): Promise<void> {
+    const { error } = await supabase.from("approval_policies").delete().eq("id", policyId);
+    if (error) throw error;
+  },
+
+  /**
+   * Approve an event just submitted for review if a policy matches it.
+   * Returns the name of the policy that approved it, or null when it still
+   * needs a reviewer.
+   */
+  async applyPolicies(eventId: string): Promise<string | null> {
+    const { data, error } = await supabase.rpc("apply_approval_policies", { _event_id: eventId });
+
+    if (error) throw error;
+    return data || null;
+  },
+};
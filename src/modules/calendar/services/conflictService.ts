@@ -0,0 +1,161 @@
+/**
+ * Conflict service - suggestions for resolving room conflicts: nearby free
+ * times, other free rooms and the colliding dates of a recurring series
+ */
+
+import { addMonths } from "date-fns";
+import { eventService } from "./eventService";
+import { roomService, type RoomMatch } from "./roomService";
+import type { EventWithRelations } from "../types";
+import { DEFAULT_EXPANSION_MONTHS, expandRRule } from "../utils/recurrence";
+import { blockedRangesOverlap, getReservedRoomIds, type RoomReservation } from "../utils/rooms";
+import { getAvailabilityIssue } from "../utils/availability";
+
+// A booking being checked: what it reserves and when
+export interface BookingRequest extends RoomReservation {
+  starts_at: string;
+  ends_at: string;
+  setup_minutes?: number;
+  teardown_minutes?: number;
+  // Event being edited, whose own booking does not count against it
+  excludeEventId?: string;
+}
+
+// A free time for the same rooms
+export interface SlotSuggestion {
+  starts_at: string;
+  ends_at: string;
+}
+
+// An occurrence of a new series that cannot be booked as planned
+export interface OccurrenceConflict {
+  occurrence_start: string;
+  occurrence_end: string;
+  conflicts: EventWithRelations[];
+  // Blackout or availability window refusing the date, if any
+  issue: string | null;
+}
+
+export interface FreeSlotOptions {
+  count?: number;
+  stepMinutes?: number;
+  // How far before and after the requested time to look
+  searchDays?: number;
+  timeZone?: string | null;
+}
+
+const MINUTE = 60 * 1000;
+
+export const conflictService = {
+  /**
+   * Nearest times, before or after the requested one, at which the same rooms
+   * are free for the same duration. Past times and times refused by a blackout
+   * or availability window are skipped.
+   */
+  async findFreeSlots(
+    organizationId: string,
+    request: BookingRequest,
+    { count = 3, stepMinutes = 30, searchDays = 3, timeZone }: FreeSlotOptions = {}
+  ): Promise<SlotSuggestion[]> {
+    const start = new Date(request.starts_at).getTime();
+    const duration = new Date(request.ends_at).getTime() - start;
+    const searchSpan = searchDays * 24 * 60 * MINUTE;
+
+    const [busy, rooms, rules] = await Promise.all([
+      eventService.checkConflicts(
+        request,
+        new Date(start - searchSpan).toISOString(),
+        new Date(start + duration + searchSpan).toISOString(),
+        request.excludeEventId
+      ),
+      roomService.listActive(organizationId),
+      roomService.getAvailabilityRules(organizationId),
+    ]);
+
+    const now = Date.now();
+    const steps = Math.floor(searchSpan / (stepMinutes * MINUTE));
+    const slots: SlotSuggestion[] = [];
+
+    // Offsets nearest first: +1, -1, +2, -2, ... steps
+    for (let i = 1; i <= steps * 2 && slots.length < count; i++) {
+      const offset = (i % 2 === 1 ? 1 : -1) * Math.ceil(i / 2) * stepMinutes * MINUTE;
+      const candidate = {
+        ...request,
+        starts_at: new Date(start + offset).toISOString(),
+        ends_at: new Date(start + offset + duration).toISOString(),
+      };
+
+      if (start + offset < now) continue;
+      if (busy.some((event) => blockedRangesOverlap(event, candidate))) continue;
+      if (getAvailabilityIssue(candidate, rooms, rules.windows, rules.blackouts, timeZone)) continue;
+
+      slots.push({ starts_at: candidate.starts_at, ends_at: candidate.ends_at });
+    }
+
+    return slots.sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+  },
+
+  /**
+   * Other rooms free at the requested time, best fit first
+   */
+  async findAlternativeRooms(
+    organizationId: string,
+    request: BookingRequest,
+    timeZone?: string
+  ): Promise<RoomMatch[]> {
+    const reserved = getReservedRoomIds(request);
+    const matches = await roomService.findAvailable(organizationId, {
+      startsAt: request.starts_at,
+      endsAt: request.ends_at,
+      setup_minutes: request.setup_minutes,
+      teardown_minutes: request.teardown_minutes,
+      excludeEventId: request.excludeEventId,
+      timeZone,
+    });
+    return matches.filter((room) => !reserved.includes(room.id));
+  },
+
+  /**
+   * Occurrences of a new series (within the usual expansion horizon) that
+   * collide with other bookings or fall outside when the rooms can be booked
+   */
+  async checkSeries(
+    organizationId: string,
+    request: BookingRequest & { recurrence_rule: string },
+    timeZone?: string | null
+  ): Promise<OccurrenceConflict[]> {
+    const dtstart = new Date(request.starts_at);
+    const duration = new Date(request.ends_at).getTime() - dtstart.getTime();
+    const starts = expandRRule(
+      request.recurrence_rule,
+      dtstart,
+      dtstart,
+      addMonths(dtstart, DEFAULT_EXPANSION_MONTHS),
+      timeZone
+    );
+    if (starts.length === 0) return [];
+
+    const lastEnd = new Date(starts[starts.length - 1].getTime() + duration);
+    const [busy, rooms, rules] = await Promise.all([
+      eventService.checkConflicts(request, request.starts_at, lastEnd.toISOString(), request.excludeEventId),
+      roomService.listActive(organizationId),
+      roomService.getAvailabilityRules(organizationId),
+    ]);
+
+    return starts
+      .map((start) => {
+        const occurrence = {
+          ...request,
+          starts_at: start.toISOString(),
+          ends_at: new Date(start.getTime() + duration).toISOString(),
+        };
+        return {
+          occurrence_start: occurrence.starts_at,
+          occurrence_end: occurrence.ends_at,
+          conflicts: busy.filter((event) => blockedRangesOverlap(event, occurrence)),
+          issue: getAvailabilityIssue(occurrence, rooms, rules.windows, rules.blackouts, timeZone),
+        };
+      })
+      .filter((occurrence) => occurrence.conflicts.length > 0 || occurrence.issue);
+  },
+};
@@ -3,66 +3,260 @@
  */
 
 import { supabase } from "@/integrations/supabase/client";
-import type { EventFormData, EventWithRelations, EventFilters, EventStatus } from "../types";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import { approvalService } from "./approvalService";
+import type {
+  Event,
+  EventFormData,
+  EventWithRelations,
+  EventFilters,
+  EventHistory,
+  EventMinistry,
+  EventStatus,
+  HoldQueue,
+  Room,
+  SeriesExceptions,
+} from "../types";
+import {
+  buildOccurrenceId,
+  countOccurrencesBefore,
+  expandRecurringEvents,
+  getDefaultExpansionWindow,
+  getSeriesEndDate,
+  isSameFieldValue,
+  isSameInstant,
+  parseOccurrenceId,
+  type DateWindow,
+  type OccurrenceFields,
+} from "../utils/recurrence";
+import { parseRRule, setRRuleEnd } from "../utils/rrule";
+import { getRescheduledStatus } from "../utils/timeline";
+import {
+  blockedRangesOverlap,
+  formatReservedRooms,
+  getBlockedRange,
+  getReservedRoomIds,
+  getReservedRooms,
+  MAX_BUFFER_MINUTES,
+  reservationsConflict,
+  type RoomReservation,
+} from "../utils/rooms";
+
+// Statuses that hold a room and therefore count as conflicts
+const BLOCKING_STATUSES: EventStatus[] = ["pending_review", "approved", "published"];
+
+// Fields an override row inherits from its series
+const OCCURRENCE_FIELDS = [
+  "title",
+  "description",
+  "room_id",
+  "additional_room_ids",
+  "is_whole_building",
+  "setup_minutes",
+  "teardown_minutes",
+  "category",
+  "ministry_id",
+  "status",
+] as const;
+
+// Organization time zones rarely change, so each is looked up once per session
+const timeZoneCache = new Map<string, Promise<string | null>>();
+
+/**
+ * Time zone an organization's recurring series are expanded in.
+ * Null (the viewer's zone) when it cannot be read.
+ */
+const getOrganizationTimeZone = (organizationId: string): Promise<string | null> => {
+  let timeZone = timeZoneCache.get(organizationId);
+  if (!timeZone) {
+    timeZone = Promise.resolve(
+      supabase.from("organizations").select("timezone").eq("id", organizationId).maybeSingle()
+    ).then(({ data }) => data?.timezone ?? null);
+    timeZoneCache.set(organizationId, timeZone);
+  }
+  return timeZone;
+};
+
+/**
+ * Base events query for an organization with the shared filters applied
+ */
+const filteredQuery = (organizationId: string, filters?: EventFilters) => {
+  let query = supabase
+    .from("events")
+    .select(`
+      *,
+      rooms(id, name, color)
+    `)
+    .eq("organization_id", organizationId);
+
+  if (filters?.status && filters.status.length > 0) {
+    query = query.in("status", filters.status);
+  }
+  if (filters?.room_id) {
+    query = query.or(
+      `room_id.eq.${filters.room_id},additional_room_ids.cs.{${filters.room_id}},is_whole_building.eq.true`
+    );
+  }
+  if (filters?.created_by) {
+    query = query.eq("created_by", filters.created_by);
+  }
+  if (filters?.category) {
+    query = query.eq("category", filters.category);
+  }
+  if (filters?.ministry_id) {
+    query = query.eq("ministry_id", filters.ministry_id);
+  }
+
+  return query;
+};
+
+/**
+ * Fetch standalone events, series and overrides overlapping a window and
+ * expand the series into occurrences. Standalone rows are only bounded by the
+ * window when `boundStandalone` is set.
+ */
+const fetchExpanded = async (
+  organizationId: string,
+  window: DateWindow,
+  filters?: EventFilters,
+  boundStandalone = true
+) => {
+  const start = window.start.toISOString();
+  const end = window.end.toISOString();
+
+  let standaloneQuery = filteredQuery(organizationId, filters)
+    .is("recurrence_rule", null)
+    .is("parent_event_id", null);
+  if (boundStandalone) {
+    standaloneQuery = standaloneQuery.lt("starts_at", end).gt("ends_at", start);
+  }
+
+  const [standalone, series, overrides, timeZone] = await Promise.all([
+    standaloneQuery,
+    filteredQuery(organizationId, filters)
+      .not("recurrence_rule", "is", null)
+      .is("parent_event_id", null)
+      .lt("starts_at", end)
+      .or(`recurrence_end_date.is.null,recurrence_end_date.gt.${start}`),
+    filteredQuery(organizationId, filters)
+      .not("parent_event_id", "is", null)
+      .lt("starts_at", end)
+      .gt("ends_at", start),
+    getOrganizationTimeZone(organizationId),
+  ]);
+
+  if (standalone.error) throw standalone.error;
+  if (series.error) throw series.error;
+  if (overrides.error) throw overrides.error;
+
+  return [
+    ...(standalone.data || []),
+    ...expandRecurringEvents(await withReplacedOccurrences(series.data || []), overrides.data || [], window, timeZone),
+  ].sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime());
+};
+
+/**
+ * Add the occurrences replaced by overrides to each series' exdates. Overrides
+ * hide their occurrence even when they moved out of the window, do not match
+ * the filters, or are not readable by the viewer.
+ */
+const withReplacedOccurrences = async <T extends { id: string; recurrence_exdates: string[] }>(
+  series: T[]
+): Promise<T[]> => {
+  if (series.length === 0) return series;
+
+  const { data, error } = await supabase.rpc("list_replaced_occurrences", {
+    _series_ids: series.map((event) => event.id),
+  });
+
+  if (error) throw error;
+
+  return series.map((event) => {
+    const replaced = (data || [])
+      .filter((row) => row.series_id === event.id)
+      .map((row) => row.occurrence_start);
+    return replaced.length > 0
+      ? { ...event, recurrence_exdates: [...(event.recurrence_exdates || []), ...replaced] }
+      : event;
+  });
+};
+
+/**
+ * Attach every room each event holds. Whole-building events get the
+ * organization's active rooms.
+ */
+const withReservedRooms = async <T extends RoomReservation>(
+  organizationId: string,
+  events: T[]
+): Promise<(T & { reserved_rooms: Room[] })[]> => {
+  if (events.length === 0) return [];
+
+  const { data: rooms, error } = await supabase
+    .from("rooms")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("name");
+
+  if (error) throw error;
+
+  return events.map((event) => {
+    const named = getReservedRoomIds(event);
+    const available = (rooms || []).filter((room) => room.is_active || named.includes(room.id));
+    return { ...event, reserved_rooms: getReservedRooms(event, available) };
+  });
+};
+
+/**
+ * Resolve the expansion window from list filters
+ */
+const resolveWindow = (filters?: EventFilters): DateWindow => {
+  const fallback = getDefaultExpansionWindow();
+  return {
+    start: filters?.start_date ? new Date(filters.start_date) : fallback.start,
+    end: filters?.end_date ? new Date(filters.end_date) : fallback.end,
+  };
+};
 
 export const eventService = {
   /**
-   * List events for an organization with optional filters
+   * List events for an organization with optional filters.
+   * Recurring series are expanded into occurrences for the filtered date range
+   * (or DEFAULT_EXPANSION_MONTHS around today when no range is given).
    */
   async list(organizationId: string, filters?: EventFilters): Promise<EventWithRelations[]> {
-    let query = supabase
-      .from("events")
-      .select(`
-        *,
-        rooms(id, name, color)
-      `)
-      .eq("organization_id", organizationId)
-      .order("starts_at", { ascending: true });
-
-    // Apply filters
-    if (filters?.status && filters.status.length > 0) {
-      query = query.in("status", filters.status);
-    }
-    if (filters?.room_id) {
-      query = query.eq("room_id", filters.room_id);
-    }
-    if (filters?.created_by) {
-      query = query.eq("created_by", filters.created_by);
-    }
-    if (filters?.start_date) {
-      query = query.gte("starts_at", filters.start_date);
-    }
-    if (filters?.end_date) {
-      query = query.lte("ends_at", filters.end_date);
-    }
-
-    const { data, error } = await query;
-    if (error) throw error;
-
-    // Fetch creator profiles
-    const eventsWithCreators = await Promise.all(
-      (data || []).map(async (event) => {
-        const { data: profile } = await supabase
-          .from("profiles")
-          .select("full_name, email, ministry_name")
-          .eq("id", event.created_by)
-          .single();
-
-        return {
-          ...event,
-          room: event.rooms,
-          creator: profile || null,
-        } as EventWithRelations;
-      })
+    const data = await withReservedRooms(
+      organizationId,
+      await fetchExpanded(
+        organizationId,
+        resolveWindow(filters),
+        filters,
+        !!(filters?.start_date || filters?.end_date)
+      )
     );
 
-    return eventsWithCreators;
+    // Fetch creator profiles once for all events
+    const creatorIds = Array.from(new Set(data.map((event) => event.created_by)));
+    const { data: profiles } = creatorIds.length > 0
+      ? await supabase.from("profiles").select("id, full_name, email, ministry_name").in("id", creatorIds)
+      : { data: [] };
+    const creators = new Map((profiles || []).map(({ id, ...profile }) => [id, profile]));
+
+    return data.map((event) => ({
+      ...event,
+      room: event.rooms,
+      creator: creators.get(event.created_by) || null,
+    }) as EventWithRelations);
   },
 
   /**
    * Get a single event by ID
    */
   async get(eventId: string): Promise<EventWithRelations | null> {
+    const occurrence = parseOccurrenceId(eventId);
+    if (occurrence) {
+      return this.getOccurrence(occurrence.seriesId, occurrence.occurrenceStart);
+    }
+
     const { data, error } = await supabase
       .from("events")
       .select(`
@@ -75,6 +269,8 @@ export const eventService = {
     if (error) throw error;
     if (!data) return null;
 
+    const [withRooms] = await withReservedRooms(data.organization_id, [data]);
+
     // Fetch creator profile
     const { data: profile } = await supabase
       .from("profiles")
@@ -83,12 +279,43 @@ export const eventService = {
       .single();
 
     return {
-      ...data,
+      ...withRooms,
       room: data.rooms,
       creator: profile || null,
+      series_id: data.parent_event_id || undefined,
+      occurrence_start: data.recurrence_id || undefined,
     } as EventWithRelations;
   },
 
+  /**
+   * Get a single occurrence of a recurring series, returning its override row
+   * when one exists
+   */
+  async getOccurrence(seriesId: string, occurrenceStart: string): Promise<EventWithRelations | null> {
+    const { data: override, error: overrideError } = await supabase
+      .from("events")
+      .select("id")
+      .eq("parent_event_id", seriesId)
+      .eq("recurrence_id", occurrenceStart)
+      .maybeSingle();
+
+    if (overrideError) throw overrideError;
+    if (override) return this.get(override.id);
+
+    const series = await this.get(seriesId);
+    if (!series) return null;
+
+    const duration = new Date(series.ends_at).getTime() - new Date(series.starts_at).getTime();
+    return {
+      ...series,
+      id: buildOccurrenceId(seriesId, occurrenceStart),
+      starts_at: occurrenceStart,
+      ends_at: new Date(new Date(occurrenceStart).getTime() + duration).toISOString(),
+      series_id: seriesId,
+      occurrence_start: occurrenceStart,
+    };
+  },
+
   /**
    * Create a new event
    */
@@ -146,6 +373,56 @@ export const eventService = {
     } as EventWithRelations;
   },
 
+  /**
+   * Move or resize a booking from the timeline. Nothing is saved when the new
+   * time or rooms conflict (see checkConflicts); the conflicts are returned
+   * instead. Occurrences of a series are moved on their own. Approved,
+   * published and held bookings go back to review, where an approval policy
+   * may sign them off again.
+   */
+  async reschedule(
+    event: Pick<EventWithRelations, "id" | "status" | "is_whole_building" | "setup_minutes" | "teardown_minutes">,
+    changes: Pick<EventFormData, "room_id" | "additional_room_ids" | "starts_at" | "ends_at">
+  ): Promise<{ conflicts: EventWithRelations[]; status: EventStatus; policyName: string | null }> {
+    const conflicts = await this.checkConflicts(
+      {
+        room_id: changes.room_id,
+        additional_room_ids: changes.additional_room_ids,
+        is_whole_building: event.is_whole_building,
+        setup_minutes: event.setup_minutes,
+        teardown_minutes: event.teardown_minutes,
+      },
+      changes.starts_at,
+      changes.ends_at,
+      event.id
+    );
+    if (conflicts.length > 0) return { conflicts, status: event.status, policyName: null };
+
+    const status = getRescheduledStatus(event.status);
+    const payload = { ...changes, ...(status !== event.status && { status }) };
+
+    const occurrence = parseOccurrenceId(event.id);
+    let bookingId = event.id;
+    if (occurrence) {
+      bookingId = (await this.saveOccurrence(occurrence.seriesId, occurrence.occurrenceStart, payload)).id;
+    } else {
+      // Row security skips bookings the user may no longer change without an error
+      const { data: moved, error } = await supabase
+        .from("events")
+        .update({ ...payload, updated_at: new Date().toISOString() })
+        .eq("id", event.id)
+        .select("id")
+        .maybeSingle();
+      if (error) throw error;
+      if (!moved) throw new Error("You can no longer move this event");
+    }
+
+    if (status === event.status) return { conflicts, status, policyName: null };
+
+    const policyName = await approvalService.applyPolicies(bookingId);
+    return { conflicts, status: policyName ? "approved" : status, policyName };
+  },
+
   /**
    * Delete an event
    */
@@ -191,7 +468,11 @@ export const eventService = {
    * Submit event for review
    */
   async submitForReview(eventId: string): Promise<EventWithRelations> {
-    return this.updateStatus(eventId, "pending_review");
+    const event = await this.updateStatus(eventId, "pending_review");
+
+    // Routine bookings may be approved straight away by a policy
+    const policyName = await approvalService.applyPolicies(eventId);
+    return policyName ? (await this.get(eventId)) || event : event;
   },
 
   /**
@@ -223,21 +504,16 @@ export const eventService = {
     startDate: string,
     endDate: string
   ): Promise<EventWithRelations[]> {
-    const { data, error } = await supabase
-      .from("events")
-      .select(`
-        *,
-        rooms(id, name, color)
-      `)
-      .eq("organization_id", organizationId)
-      .eq("status", "published")
-      .gte("starts_at", startDate)
-      .lte("starts_at", endDate)
-      .order("starts_at", { ascending: true });
-
-    if (error) throw error;
+    const data = await withReservedRooms(
+      organizationId,
+      await fetchExpanded(
+        organizationId,
+        { start: new Date(startDate), end: new Date(endDate) },
+        { status: ["published"] }
+      )
+    );
 
-    return (data || []).map((event) => ({
+    return data.map((event) => ({
       ...event,
       room: event.rooms,
       creator: { full_name: "User", email: "", ministry_name: null },
@@ -245,34 +521,739 @@ export const eventService = {
   },
 
   /**
-   * Check for room conflicts
+   * Active ministries that can own events, for filters and color legends.
+   * Read through an RPC so the public calendar can name them too.
+   */
+  async listMinistries(organizationId: string): Promise<EventMinistry[]> {
+    const { data, error } = await supabase.rpc("list_public_ministries", {
+      _organization_id: organizationId,
+    });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Where a hold stands in the line for its slot: the other holds sharing a
+   * room and time with it in promotion order, and the bookings in the way
+   */
+  async getHoldQueue(
+    event: Pick<Event, "id" | "organization_id" | "starts_at" | "ends_at" | "hold_queued_at"> &
+      RoomReservation & { setup_minutes?: number; teardown_minutes?: number }
+  ): Promise<HoldQueue> {
+    const blocked = getBlockedRange(event);
+    const roomIds = getReservedRoomIds(event);
+
+    const [holdsResult, blockers] = await Promise.all([
+      supabase
+        .from("events")
+        .select(`
+          *,
+          rooms(id, name, color)
+        `)
+        .eq("organization_id", event.organization_id)
+        .eq("status", "hold")
+        .lt("blocked_starts_at", blocked.end.toISOString())
+        .gt("blocked_ends_at", blocked.start.toISOString())
+        .order("hold_queued_at", { ascending: true })
+        .order("created_at", { ascending: true }),
+      this.checkConflicts(event, event.starts_at, event.ends_at, event.id),
+    ]);
+
+    if (holdsResult.error) throw holdsResult.error;
+
+    const holds = (holdsResult.data || [])
+      .filter(
+        (hold) =>
+          hold.id === event.id ||
+          hold.is_whole_building ||
+          event.is_whole_building ||
+          getReservedRoomIds(hold).some((roomId) => roomIds.includes(roomId))
+      )
+      .map((hold) => ({ ...hold, room: hold.rooms, creator: null })) as unknown as EventWithRelations[];
+
+    return {
+      position: holds.findIndex((hold) => hold.id === event.id) + 1,
+      holds,
+      blockers,
+    };
+  },
+
+  /**
+   * Email the requesters of holds the database promoted since the last call.
+   * Each promotion is claimed once, so it does not matter who frees the slot;
+   * failures are logged and never block the action that freed it.
+   */
+  async notifyPromotedHolds(organizationId: string, timeZone?: string): Promise<void> {
+    try {
+      const { data: promoted, error } = await supabase.rpc("claim_promoted_holds", {
+        _organization_id: organizationId,
+      });
+      if (error) throw error;
+      if (!promoted || promoted.length === 0) return;
+
+      const { data: rooms } = await supabase
+        .from("rooms")
+        .select("id, name")
+        .eq("organization_id", organizationId);
+
+      await Promise.all(
+        promoted
+          .filter((hold) => hold.requester_email)
+          .map(async (hold) => {
+            const response = await supabase.functions.invoke("send-event-notification", {
+              body: {
+                to: hold.requester_email,
+                eventTitle: hold.title,
+                eventStartTime: new Date(hold.starts_at).toLocaleString("en-US", {
+                  timeZone: timeZone,
+                  dateStyle: "full",
+                  timeStyle: "short",
+                }),
+                eventEndTime: new Date(hold.ends_at).toLocaleString("en-US", {
+                  timeZone: timeZone,
+                  timeStyle: "short",
+                }),
+                roomName: formatReservedRooms(hold, rooms || [], { full: true }) || "Unknown Room",
+                status: "hold_promoted",
+                requesterName: hold.requester_name || "User",
+              },
+            });
+            if (response.error) {
+              console.error("Hold promotion email error:", response.error);
+            }
+          })
+      );
+    } catch (error) {
+      console.error("Failed to notify promoted holds:", error);
+    }
+  },
+
+  /**
+   * Audit trail of an event or series, including its occurrences, newest first
+   */
+  async getHistory(seriesId: string): Promise<EventHistory[]> {
+    const { data, error } = await supabase
+      .from("event_history")
+      .select("*")
+      .eq("series_id", seriesId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Audit trail of every event of an organization, including deleted ones,
+   * newest first. Optionally limited to changes made in a date range.
+   */
+  async listHistory(
+    organizationId: string,
+    range?: { from?: Date; to?: Date }
+  ): Promise<EventHistory[]> {
+    let query = supabase
+      .from("event_history")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .order("created_at", { ascending: false });
+
+    if (range?.from) query = query.gte("created_at", range.from.toISOString());
+    if (range?.to) query = query.lte("created_at", range.to.toISOString());
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Check for room conflicts, including occurrences of recurring series.
+   * Takes a room id or a full reservation (additional rooms, whole building,
+   * setup and teardown minutes); events sharing a room that does not allow
+   * overlap, and whole-building events, conflict when the times they hold the
+   * rooms (buffers included) overlap. When excludeEventId is given, the event
+   * and the rest of its series are ignored.
    */
   async checkConflicts(
-    roomId: string,
+    reservation: string | (RoomReservation & { setup_minutes?: number; teardown_minutes?: number }),
     startsAt: string,
     endsAt: string,
     excludeEventId?: string
   ): Promise<EventWithRelations[]> {
-    let query = supabase
+    const requested = typeof reservation === "string" ? { room_id: reservation } : reservation;
+    const roomIds = getReservedRoomIds(requested);
+    const requestedTimes = { ...requested, starts_at: startsAt, ends_at: endsAt };
+    const blocked = getBlockedRange(requestedTimes);
+
+    const { data: requestedRooms, error: roomsError } = await supabase
+      .from("rooms")
+      .select("id, name, organization_id, allow_overlap")
+      .in("id", roomIds);
+
+    if (roomsError) throw roomsError;
+    const organizationId = requestedRooms?.[0]?.organization_id;
+    if (!organizationId) return [];
+
+    let excludeSeriesId = parseOccurrenceId(excludeEventId)?.seriesId || excludeEventId;
+    if (excludeEventId && excludeSeriesId === excludeEventId) {
+      const { data: excluded } = await supabase
+        .from("events")
+        .select("parent_event_id")
+        .eq("id", excludeEventId)
+        .maybeSingle();
+      excludeSeriesId = excluded?.parent_event_id || excludeEventId;
+    }
+
+    const [bookings, organizationRooms] = await Promise.all([
+      this.listBookings(organizationId, blocked.start, blocked.end),
+      supabase
+        .from("rooms")
+        .select("id, name, color, allow_overlap")
+        .eq("organization_id", organizationId),
+    ]);
+
+    if (organizationRooms.error) throw organizationRooms.error;
+    const roomsById = new Map((organizationRooms.data || []).map((room) => [room.id, room]));
+
+    return bookings
+      .filter((event) => reservationsConflict(requested, event, requestedRooms || []))
+      .filter((event) => {
+        if (!excludeEventId) return true;
+        return event.id !== excludeSeriesId && event.series_id !== excludeSeriesId;
+      })
+      .sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime())
+      .map((event) => ({
+        ...event,
+        room: roomsById.get(event.room_id) || null,
+        creator: null,
+      })) as EventWithRelations[];
+  },
+
+  /**
+   * Bookings under review, approved or published whose blocked times
+   * (buffers included) overlap a range, with series expanded into their
+   * occurrences. Row security hides other people's approved bookings, so they
+   * come from a lookup that runs as definer and only returns what conflict
+   * checks need.
+   */
+  async listBookings(
+    organizationId: string,
+    start: Date,
+    end: Date
+  ): Promise<(Event & OccurrenceFields)[]> {
+    const range = { starts_at: start.toISOString(), ends_at: end.toISOString() };
+
+    // Buffers of recurring occurrences reach at most this far past their event times
+    const searchWindow = {
+      start: new Date(start.getTime() - MAX_BUFFER_MINUTES * 60 * 1000),
+      end: new Date(end.getTime() + MAX_BUFFER_MINUTES * 60 * 1000),
+    };
+
+    const [{ data, error }, timeZone] = await Promise.all([
+      supabase.rpc("list_room_bookings", {
+        _organization_id: organizationId,
+        _from: searchWindow.start.toISOString(),
+        _to: searchWindow.end.toISOString(),
+      }),
+      getOrganizationTimeZone(organizationId),
+    ]);
+
+    if (error) throw error;
+    const bookings = (data || []) as Event[];
+
+    const standalone = bookings.filter((event) => !event.recurrence_rule && !event.parent_event_id);
+    const series = bookings.filter((event) => event.recurrence_rule && !event.parent_event_id);
+    // Overrides hide their occurrence even after moving to another room or time
+    const overrides = bookings.filter((event) => event.parent_event_id);
+
+    return [...standalone, ...expandRecurringEvents(series, overrides, searchWindow, timeZone)].filter(
+      (event) => BLOCKING_STATUSES.includes(event.status) && blockedRangesOverlap(event, range)
+    );
+  },
+
+  /**
+   * Remove a single occurrence from a recurring series (EXDATE)
+   */
+  async excludeOccurrence(seriesId: string, occurrenceStart: string): Promise<void> {
+    const { data: series, error } = await supabase
       .from("events")
-      .select(`
-        *,
-        rooms(id, name, color, allow_overlap)
-      `)
-      .eq("room_id", roomId)
-      .or(`starts_at.lt.${endsAt},ends_at.gt.${startsAt}`);
+      .select("recurrence_exdates")
+      .eq("id", seriesId)
+      .single();
+
+    if (error) throw error;
+
+    const { error: updateError } = await supabase
+      .from("events")
+      .update({
+        recurrence_exdates: [...(series.recurrence_exdates || []), occurrenceStart],
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", seriesId);
+
+    if (updateError) throw updateError;
+
+    // An override of the removed occurrence has nothing left to override
+    const { error: deleteError } = await supabase
+      .from("events")
+      .delete()
+      .eq("parent_event_id", seriesId)
+      .eq("recurrence_id", occurrenceStart);
+
+    if (deleteError) throw deleteError;
+  },
+
+  /**
+   * List the exceptions of a recurring series: skipped dates and changed occurrences
+   */
+  async listExceptions(seriesId: string): Promise<SeriesExceptions> {
+    const [series, overrides] = await Promise.all([
+      supabase.from("events").select("recurrence_exdates").eq("id", seriesId).single(),
+      supabase
+        .from("events")
+        .select(`
+          *,
+          rooms(*)
+        `)
+        .eq("parent_event_id", seriesId)
+        .order("recurrence_id", { ascending: true }),
+    ]);
+
+    if (series.error) throw series.error;
+    if (overrides.error) throw overrides.error;
+
+    return {
+      skipped: [...(series.data.recurrence_exdates || [])].sort(
+        (a, b) => new Date(a).getTime() - new Date(b).getTime()
+      ),
+      overrides: (overrides.data || []).map((event) => ({
+        ...event,
+        room: event.rooms,
+        creator: null,
+        series_id: seriesId,
+        occurrence_start: event.recurrence_id || undefined,
+      })) as EventWithRelations[],
+    };
+  },
+
+  /**
+   * Put an occurrence back to the series: un-skip it and drop any override row
+   */
+  async restoreOccurrence(seriesId: string, occurrenceStart: string): Promise<void> {
+    const { data: series, error } = await supabase
+      .from("events")
+      .select("recurrence_exdates")
+      .eq("id", seriesId)
+      .single();
+
+    if (error) throw error;
 
-    if (excludeEventId) {
-      query = query.neq("id", excludeEventId);
+    const exdates = (series.recurrence_exdates || []).filter(
+      (date) => !isSameInstant(date, occurrenceStart)
+    );
+    if (exdates.length !== (series.recurrence_exdates || []).length) {
+      const { error: updateError } = await supabase
+        .from("events")
+        .update({ recurrence_exdates: exdates, updated_at: new Date().toISOString() })
+        .eq("id", seriesId);
+      if (updateError) throw updateError;
     }
 
-    const { data, error } = await query;
+    const { error: deleteError } = await supabase
+      .from("events")
+      .delete()
+      .eq("parent_event_id", seriesId)
+      .eq("recurrence_id", occurrenceStart);
+
+    if (deleteError) throw deleteError;
+  },
+
+  /**
+   * Change a single occurrence of a series by creating or updating its override row
+   */
+  async saveOccurrence(
+    seriesId: string,
+    occurrenceStart: string,
+    changes: TablesUpdate<"events">
+  ): Promise<Event> {
+    const { data: existing, error: existingError } = await supabase
+      .from("events")
+      .select("id")
+      .eq("parent_event_id", seriesId)
+      .eq("recurrence_id", occurrenceStart)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+
+    if (existing) {
+      const { data, error } = await supabase
+        .from("events")
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq("id", existing.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+
+    const { data: series, error: seriesError } = await supabase
+      .from("events")
+      .select("*")
+      .eq("id", seriesId)
+      .single();
+
+    if (seriesError) throw seriesError;
+
+    const duration = new Date(series.ends_at).getTime() - new Date(series.starts_at).getTime();
+    const { data, error } = await supabase
+      .from("events")
+      .insert({
+        title: series.title,
+        description: series.description,
+        room_id: series.room_id,
+        additional_room_ids: series.additional_room_ids,
+        is_whole_building: series.is_whole_building,
+        setup_minutes: series.setup_minutes,
+        teardown_minutes: series.teardown_minutes,
+        category: series.category,
+        ministry_id: series.ministry_id,
+        registration_enabled: series.registration_enabled,
+        registration_capacity: series.registration_capacity,
+        status: series.status,
+        created_by: series.created_by,
+        organization_id: series.organization_id,
+        reviewer_id: series.reviewer_id,
+        reviewer_notes: series.reviewer_notes,
+        starts_at: occurrenceStart,
+        ends_at: new Date(new Date(occurrenceStart).getTime() + duration).toISOString(),
+        ...changes,
+        is_recurring: true,
+        parent_event_id: seriesId,
+        recurrence_id: occurrenceStart,
+      })
+      .select()
+      .single();
+
     if (error) throw error;
+    return data;
+  },
 
-    return (data || []).map((event) => ({
-      ...event,
-      room: event.rooms,
-      creator: null,
-    })) as EventWithRelations[];
+  /**
+   * Update a whole recurring series. When the edited occurrence moved in time,
+   * the series start, its skipped dates and its overrides' original starts move
+   * by the same offset. Overrides pick up the non-time changes; clearing the
+   * recurrence rule turns the series into a single event.
+   */
+  async updateSeries(
+    seriesId: string,
+    changes: TablesUpdate<"events">,
+    occurrenceStart?: string
+  ): Promise<void> {
+    const { data: series, error: seriesError } = await supabase
+      .from("events")
+      .select("*")
+      .eq("id", seriesId)
+      .single();
+
+    if (seriesError) throw seriesError;
+
+    const timeZone = await getOrganizationTimeZone(series.organization_id);
+    const seriesChanges: TablesUpdate<"events"> = { ...changes, updated_at: new Date().toISOString() };
+    let offset = 0;
+
+    if (changes.starts_at && changes.ends_at) {
+      // Measured from where the edited occurrence is now, which an override may have moved
+      let editedStart = occurrenceStart || series.starts_at;
+      if (occurrenceStart) {
+        const { data: edited, error: editedError } = await supabase
+          .from("events")
+          .select("starts_at")
+          .eq("parent_event_id", seriesId)
+          .eq("recurrence_id", occurrenceStart)
+          .maybeSingle();
+        if (editedError) throw editedError;
+        if (edited) editedStart = edited.starts_at;
+      }
+
+      offset = new Date(changes.starts_at).getTime() - new Date(editedStart).getTime();
+      const duration = new Date(changes.ends_at).getTime() - new Date(changes.starts_at).getTime();
+      const startsAt = new Date(new Date(series.starts_at).getTime() + offset);
+      seriesChanges.starts_at = startsAt.toISOString();
+      seriesChanges.ends_at = new Date(startsAt.getTime() + duration).toISOString();
+    }
+
+    // Skipped dates and overrides name occurrences by their start, so they follow the move
+    const shift = (date: string) => new Date(new Date(date).getTime() + offset).toISOString();
+    if (offset !== 0) {
+      seriesChanges.recurrence_exdates = (changes.recurrence_exdates || series.recurrence_exdates || []).map(shift);
+    }
+
+    if (changes.recurrence_rule) {
+      seriesChanges.is_recurring = true;
+      seriesChanges.recurrence_end_date = getSeriesEndDate(
+        changes.recurrence_rule,
+        seriesChanges.starts_at || series.starts_at,
+        seriesChanges.ends_at || series.ends_at,
+        timeZone
+      );
+    } else if (changes.recurrence_rule === null) {
+      seriesChanges.is_recurring = false;
+      seriesChanges.recurrence_end_date = null;
+      seriesChanges.recurrence_exdates = [];
+    }
+
+    const { error } = await supabase.from("events").update(seriesChanges).eq("id", seriesId);
+    if (error) throw error;
+
+    if (changes.recurrence_rule === null) {
+      const { error: deleteError } = await supabase
+        .from("events")
+        .delete()
+        .eq("parent_event_id", seriesId);
+      if (deleteError) throw deleteError;
+      return;
+    }
+
+    if (offset !== 0) {
+      // Latest first when moving later (earliest first when moving earlier), so
+      // no override takes an original start another one still holds
+      const { data: overrides, error: overridesError } = await supabase
+        .from("events")
+        .select("id, recurrence_id")
+        .eq("parent_event_id", seriesId)
+        .order("recurrence_id", { ascending: offset < 0 });
+      if (overridesError) throw overridesError;
+
+      for (const override of overrides || []) {
+        const { error: shiftError } = await supabase
+          .from("events")
+          .update({ recurrence_id: shift(override.recurrence_id!), updated_at: new Date().toISOString() })
+          .eq("id", override.id);
+        if (shiftError) throw shiftError;
+      }
+    }
+
+    // Only fields the edit actually changed, so occurrences changed on their
+    // own keep everything else
+    const overrideChanges: TablesUpdate<"events"> = {};
+    for (const field of OCCURRENCE_FIELDS) {
+      if (changes[field] !== undefined && !isSameFieldValue(changes[field], series[field])) {
+        Object.assign(overrideChanges, { [field]: changes[field] });
+      }
+    }
+    if (Object.keys(overrideChanges).length > 0) {
+      const { error: overrideError } = await supabase
+        .from("events")
+        .update({ ...overrideChanges, updated_at: new Date().toISOString() })
+        .eq("parent_event_id", seriesId);
+      if (overrideError) throw overrideError;
+    }
+  },
+
+  /**
+   * End a series just before the given occurrence: the rule gets an UNTIL and
+   * exceptions from that occurrence on are dropped. Ending at the first
+   * occurrence deletes the series.
+   */
+  async truncateSeries(seriesId: string, occurrenceStart: string): Promise<void> {
+    const { data: series, error: seriesError } = await supabase
+      .from("events")
+      .select("*")
+      .eq("id", seriesId)
+      .single();
+
+    if (seriesError) throw seriesError;
+
+    const { error: overridesError } = await supabase
+      .from("events")
+      .delete()
+      .eq("parent_event_id", seriesId)
+      .gte("recurrence_id", occurrenceStart);
+    if (overridesError) throw overridesError;
+
+    if (new Date(occurrenceStart) <= new Date(series.starts_at)) {
+      await this.delete(seriesId);
+      return;
+    }
+
+    const rule = setRRuleEnd(series.recurrence_rule || "", {
+      until: new Date(new Date(occurrenceStart).getTime() - 1000),
+    });
+
+    const { error } = await supabase
+      .from("events")
+      .update({
+        recurrence_rule: rule,
+        recurrence_end_date: getSeriesEndDate(
+          rule,
+          series.starts_at,
+          series.ends_at,
+          await getOrganizationTimeZone(series.organization_id)
+        ),
+        recurrence_exdates: (series.recurrence_exdates || []).filter(
+          (date) => new Date(date) < new Date(occurrenceStart)
+        ),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", seriesId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Split a series at the given occurrence ("this and following"). The original
+   * series ends before that occurrence and a new series carrying the changes
+   * starts there. Status and reviewer notes carry over unless the changes set
+   * them, and later exceptions move to the new series.
+   */
+  async splitSeries(
+    seriesId: string,
+    occurrenceStart: string,
+    changes: TablesUpdate<"events">
+  ): Promise<Event | null> {
+    const { data: series, error: seriesError } = await supabase
+      .from("events")
+      .select("*")
+      .eq("id", seriesId)
+      .single();
+
+    if (seriesError) throw seriesError;
+
+    // Splitting at the first occurrence is an edit of the whole series
+    if (new Date(occurrenceStart) <= new Date(series.starts_at)) {
+      await this.updateSeries(seriesId, changes, occurrenceStart);
+      return null;
+    }
+
+    const timeZone = await getOrganizationTimeZone(series.organization_id);
+    const splitAt = new Date(occurrenceStart);
+    const startsAt = changes.starts_at ? new Date(changes.starts_at) : splitAt;
+    const offset = startsAt.getTime() - splitAt.getTime();
+    const duration = changes.starts_at && changes.ends_at
+      ? new Date(changes.ends_at).getTime() - startsAt.getTime()
+      : new Date(series.ends_at).getTime() - new Date(series.starts_at).getTime();
+    const shift = (date: string) => new Date(new Date(date).getTime() + offset).toISOString();
+
+    // Keep a COUNT limit meaning "occurrences of the original series"
+    let rule = changes.recurrence_rule === undefined ? series.recurrence_rule : changes.recurrence_rule;
+    const originalCount = parseRRule(series.recurrence_rule)?.count;
+    if (rule && originalCount && parseRRule(rule)?.count === originalCount) {
+      const before = countOccurrencesBefore(series.recurrence_rule!, new Date(series.starts_at), splitAt, timeZone);
+      rule = setRRuleEnd(rule, { count: Math.max(1, originalCount - before) });
+    }
+
+    const endsAt = new Date(startsAt.getTime() + duration).toISOString();
+    const { data: created, error: createError } = await supabase
+      .from("events")
+      .insert({
+        title: series.title,
+        description: series.description,
+        room_id: series.room_id,
+        additional_room_ids: series.additional_room_ids,
+        is_whole_building: series.is_whole_building,
+        setup_minutes: series.setup_minutes,
+        teardown_minutes: series.teardown_minutes,
+        category: series.category,
+        ministry_id: series.ministry_id,
+        registration_enabled: series.registration_enabled,
+        registration_capacity: series.registration_capacity,
+        status: series.status,
+        reviewer_id: series.reviewer_id,
+        reviewer_notes: series.reviewer_notes,
+        created_by: series.created_by,
+        organization_id: series.organization_id,
+        ...changes,
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt,
+        is_recurring: !!rule,
+        recurrence_rule: rule,
+        recurrence_end_date: getSeriesEndDate(rule, startsAt.toISOString(), endsAt, timeZone),
+        recurrence_exdates: rule
+          ? (series.recurrence_exdates || []).filter((date) => new Date(date) >= splitAt).map(shift)
+          : [],
+        parent_event_id: null,
+        recurrence_id: null,
+      })
+      .select()
+      .single();
+
+    if (createError) throw createError;
+
+    // Move later overrides to the new series, following the time shift
+    const { data: overrides, error: overridesError } = await supabase
+      .from("events")
+      .select("id, recurrence_id, starts_at, ends_at")
+      .eq("parent_event_id", seriesId)
+      .gte("recurrence_id", occurrenceStart);
+    if (overridesError) throw overridesError;
+
+    const overrideChanges: TablesUpdate<"events"> = {};
+    for (const field of OCCURRENCE_FIELDS) {
+      if (changes[field] !== undefined) {
+        Object.assign(overrideChanges, { [field]: changes[field] });
+      }
+    }
+
+    for (const override of overrides || []) {
+      // The edited occurrence itself is now the first occurrence of the new series
+      const keep = rule && !isSameInstant(override.recurrence_id!, occurrenceStart);
+      const { error } = keep
+        ? await supabase
+            .from("events")
+            .update({
+              ...overrideChanges,
+              parent_event_id: created.id,
+              recurrence_id: shift(override.recurrence_id!),
+              updated_at: new Date().toISOString(),
+            })
+            .eq("id", override.id)
+        : await supabase.from("events").delete().eq("id", override.id);
+      if (error) throw error;
+    }
+
+    // End the original series before the split point
+    const originalRule = setRRuleEnd(series.recurrence_rule || "", {
+      until: new Date(splitAt.getTime() - 1000),
+    });
+    const { error } = await supabase
+      .from("events")
+      .update({
+        recurrence_rule: originalRule,
+        recurrence_end_date: getSeriesEndDate(originalRule, series.starts_at, series.ends_at, timeZone),
+        recurrence_exdates: (series.recurrence_exdates || []).filter((date) => new Date(date) < splitAt),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", seriesId);
+
+    if (error) throw error;
+    return created;
+  },
+
+  /**
+   * Update the status of a recurring series and its overrides.
+   * Occurrences rejected on their own stay rejected unless the whole series is rejected.
+   */
+  async updateSeriesStatus(
+    seriesId: string,
+    status: EventStatus,
+    reviewerId?: string,
+    reviewerNotes?: string
+  ): Promise<void> {
+    const changes = {
+      status,
+      reviewer_id: reviewerId,
+      reviewer_notes: reviewerNotes,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error } = await supabase.from("events").update(changes).eq("id", seriesId);
+    if (error) throw error;
+
+    let overrides = supabase.from("events").update(changes).eq("parent_event_id", seriesId);
+    if (status !== "rejected") {
+      overrides = overrides.neq("status", "rejected");
+    }
+    const { error: overrideError } = await overrides;
+    if (overrideError) throw overrideError;
   },
 };
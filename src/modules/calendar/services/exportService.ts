@@ -4,8 +4,14 @@
 
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
-import { format, parseISO } from "date-fns";
-import type { EventStatus } from "../types";
+import { format } from "date-fns";
+import type { EventCategory, EventHistory, EventRegistration, EventStatus } from "../types";
+import { formatHistoryChange, getHistoryActionLabel, getHistoryChanges } from "../utils/history";
+import { getRegistrationStatusLabel } from "../utils/registrations";
+import { formatReservedRooms } from "../utils/rooms";
+import { normalizeRRule } from "../utils/rrule";
+import { formatInTimeZone, getTimeZoneAbbreviation, isValidTimeZone } from "../utils/timezone";
+import { buildCalendar, type IcsEvent } from "../../../../supabase/functions/_shared/ics";
 
 // Flexible event type for export that works with both full and partial room data
 export interface ExportableEvent {
@@ -18,11 +24,26 @@ export interface ExportableEvent {
   created_by: string;
   is_recurring?: boolean | null;
   recurrence_rule?: string | null;
+  recurrence_exdates?: string[] | null;
+  // Set on override rows: series and original occurrence start they replace
+  parent_event_id?: string | null;
+  recurrence_id?: string | null;
+  // Set on occurrences expanded from a series
+  series_id?: string;
+  series_starts_at?: string;
+  series_ends_at?: string;
   room?: {
     id?: string;
     name?: string;
     color?: string;
   } | null;
+  // Multi-room and whole-building events
+  room_id?: string;
+  additional_room_ids?: string[] | null;
+  is_whole_building?: boolean | null;
+  reserved_rooms?: { id: string; name: string }[];
+  category?: EventCategory | null;
+  ministry_id?: string | null;
   creator?: {
     full_name?: string;
     email?: string;
@@ -38,12 +59,14 @@ export type ExportScope = "approved" | "published" | "both" | "all";
 export interface ExportOptions {
   format: ExportFormat;
   scope: ExportScope;
+  // Calendar dates of the exported period, shown in the PDF header
   dateRange?: {
     start: Date;
     end: Date;
   };
   organizationName: string;
   organizationSlug?: string;
+  // Organization time zone event times are written in
   timezone?: string;
   includeDescription?: boolean;
   includeLocation?: boolean;
@@ -61,34 +84,27 @@ export interface ExportResult {
 }
 
 /**
- * Helper function to escape special characters in iCalendar format
+ * Where an event takes place: every reserved room, or the main room
  */
-const escapeICalText = (text: string): string => {
-  if (!text) return "";
-  return text
-    .replace(/\\/g, "\\\\")
-    .replace(/;/g, "\\;")
-    .replace(/,/g, "\\,")
-    .replace(/\n/g, "\\n")
-    .replace(/\r/g, "");
+const getLocation = (event: ExportableEvent): string | undefined => {
+  if (event.is_whole_building) return "Whole building";
+  if (event.reserved_rooms?.length && event.room_id) {
+    return formatReservedRooms({ ...event, room_id: event.room_id }, event.reserved_rooms, { full: true });
+  }
+  return event.room?.name;
 };
 
 /**
- * Helper function to fold long lines in iCalendar format (RFC 5545 requires lines <= 75 octets)
+ * Prepare events for the shared iCalendar writer: stored rules are re-serialized
+ * through the RRULE module, and unreadable rules are left out so the event
+ * exports as a single instance
  */
-const foldLine = (line: string): string => {
-  const maxLength = 75;
-  if (line.length <= maxLength) return line;
-
-  let result = "";
-  let remaining = line;
-  while (remaining.length > maxLength) {
-    result += remaining.substring(0, maxLength) + "\r\n ";
-    remaining = remaining.substring(maxLength);
-  }
-  result += remaining;
-  return result;
-};
+const toIcsEvents = (events: ExportableEvent[]): IcsEvent[] =>
+  events.map((event) => ({
+    ...event,
+    room: { ...event.room, name: getLocation(event) },
+    recurrence_rule: event.is_recurring ? normalizeRRule(event.recurrence_rule) : null,
+  }));
 
 /**
  * Filter events based on export scope and user permissions
@@ -128,6 +144,7 @@ const getStatusLabel = (status: EventStatus): string => {
   const labels: Record<EventStatus, string> = {
     draft: "Draft",
     pending_review: "Pending Review",
+    hold: "On Hold",
     approved: "Approved",
     rejected: "Rejected",
     published: "Published",
@@ -142,6 +159,7 @@ const getStatusColor = (status: EventStatus): [number, number, number] => {
   const colors: Record<EventStatus, [number, number, number]> = {
     draft: [156, 163, 175], // gray
     pending_review: [251, 191, 36], // amber
+    hold: [139, 92, 246], // violet
     approved: [34, 197, 94], // green
     rejected: [239, 68, 68], // red
     published: [59, 130, 246], // blue
@@ -149,6 +167,35 @@ const getStatusColor = (status: EventStatus): [number, number, number] => {
   return colors[status] || [156, 163, 175];
 };
 
+/**
+ * Escape a value for a CSV cell
+ */
+const escapeCSVValue = (value: string | null | undefined): string => {
+  if (value === null || value === undefined) return "";
+  if (/[",\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+// Options for exporting an event history
+export interface HistoryExportOptions {
+  organizationSlug?: string;
+  // Title of the event the history is for; an organization-wide export when omitted
+  eventTitle?: string;
+  // Organization time zone the times are written in
+  timezone?: string;
+  // Room names by id, to describe room changes
+  roomNames?: Record<string, string>;
+}
+
+// Options for exporting the attendee list of an event
+export interface RegistrationExportOptions {
+  eventTitle: string;
+  // Organization time zone the times are written in
+  timezone?: string;
+}
+
 export const exportService = {
   /**
    * Export events to iCalendar (.ics) format
@@ -172,78 +219,20 @@ export const exportService = {
 
       const timezone = options.timezone || "America/New_York";
       const orgName = options.organizationName;
-
-      const icsContent: string[] = [
-        "BEGIN:VCALENDAR",
-        "VERSION:2.0",
-        `PRODID:-//${orgName}//Events Calendar//EN`,
-        "CALSCALE:GREGORIAN",
-        "METHOD:PUBLISH",
-        foldLine(`X-WR-CALNAME:${orgName} Events`),
-        `X-WR-TIMEZONE:${timezone}`,
-        // VTIMEZONE component for proper timezone handling
-        "BEGIN:VTIMEZONE",
-        `TZID:${timezone}`,
-        "BEGIN:DAYLIGHT",
-        "TZOFFSETFROM:-0500",
-        "TZOFFSETTO:-0400",
-        "TZNAME:EDT",
-        "DTSTART:19700308T020000",
-        "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
-        "END:DAYLIGHT",
-        "BEGIN:STANDARD",
-        "TZOFFSETFROM:-0400",
-        "TZOFFSETTO:-0500",
-        "TZNAME:EST",
-        "DTSTART:19701101T020000",
-        "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
-        "END:STANDARD",
-        "END:VTIMEZONE",
-      ];
-
-      filteredEvents.forEach((event) => {
-        const start = parseISO(event.starts_at);
-        const end = parseISO(event.ends_at);
-        const uid = `${event.id}@${options.organizationSlug || "calendar"}.events`;
-
-        const eventLines: string[] = [
-          "BEGIN:VEVENT",
-          foldLine(`UID:${uid}`),
-          `DTSTAMP:${format(new Date(), "yyyyMMdd'T'HHmmss'Z'")}`,
-          `DTSTART;TZID=${timezone}:${format(start, "yyyyMMdd'T'HHmmss")}`,
-          `DTEND;TZID=${timezone}:${format(end, "yyyyMMdd'T'HHmmss")}`,
-          foldLine(`SUMMARY:${escapeICalText(event.title)}`),
-        ];
-
-        if (options.includeDescription !== false && event.description) {
-          eventLines.push(foldLine(`DESCRIPTION:${escapeICalText(event.description)}`));
-        }
-
-        if (options.includeLocation !== false && event.room?.name) {
-          eventLines.push(foldLine(`LOCATION:${escapeICalText(event.room.name)}`));
-        }
-
-        if (options.includeOrganizer && event.creator?.full_name) {
-          eventLines.push(foldLine(`ORGANIZER;CN=${escapeICalText(event.creator.full_name)}:mailto:${event.creator.email || "noreply@example.com"}`));
-        }
-
-        // Add recurrence rule if present
-        if (event.is_recurring && event.recurrence_rule) {
-          eventLines.push(foldLine(`RRULE:${event.recurrence_rule}`));
-        }
-
-        eventLines.push(
-          `STATUS:${event.status === "published" ? "CONFIRMED" : "TENTATIVE"}`,
-          "END:VEVENT"
-        );
-
-        icsContent.push(...eventLines);
+      const excludedEvents = events.filter((event) => !filteredEvents.includes(event));
+
+      const icsContent = buildCalendar(toIcsEvents(filteredEvents), toIcsEvents(excludedEvents), {
+        calendarName: `${orgName} Events`,
+        productName: orgName,
+        timezone,
+        uidDomain: `${options.organizationSlug || "calendar"}.events`,
+        includeDescription: options.includeDescription,
+        includeLocation: options.includeLocation,
+        includeOrganizer: options.includeOrganizer,
       });
 
-      icsContent.push("END:VCALENDAR");
-
       // Create and download file
-      const blob = new Blob([icsContent.join("\r\n")], {
+      const blob = new Blob([icsContent], {
         type: "text/calendar;charset=utf-8",
       });
       const url = URL.createObjectURL(blob);
@@ -274,27 +263,34 @@ export const exportService = {
   /**
    * Generate Google Calendar URL for adding a single event
    */
-  toGoogleCalendarUrl(event: ExportableEvent, _options?: Partial<ExportOptions>): string {
-    const start = parseISO(event.starts_at);
-    const end = parseISO(event.ends_at);
+  toGoogleCalendarUrl(event: ExportableEvent, options?: Partial<ExportOptions>): string {
+    // Times are sent as wall-clock times with the zone they are in (ctz)
+    const timezone = isValidTimeZone(options?.timezone) ? options!.timezone : undefined;
+    const pattern = "yyyyMMdd'T'HHmmss";
 
     const params = new URLSearchParams({
       action: "TEMPLATE",
       text: event.title,
-      dates: `${format(start, "yyyyMMdd'T'HHmmss")}/${format(end, "yyyyMMdd'T'HHmmss")}`,
+      dates: `${formatInTimeZone(event.starts_at, pattern, timezone)}/${formatInTimeZone(event.ends_at, pattern, timezone)}`,
     });
 
+    if (timezone) {
+      params.set("ctz", timezone);
+    }
+
     if (event.description) {
       params.set("details", event.description);
     }
 
-    if (event.room?.name) {
-      params.set("location", event.room.name);
+    const location = getLocation(event);
+    if (location) {
+      params.set("location", location);
     }
 
-    // Add recurrence if present
-    if (event.is_recurring && event.recurrence_rule) {
-      params.set("recur", `RRULE:${event.recurrence_rule}`);
+    // Add recurrence if present (expanded occurrences are exported individually)
+    const rule = event.is_recurring && !event.series_id ? normalizeRRule(event.recurrence_rule) : null;
+    if (rule) {
+      params.set("recur", `RRULE:${rule}`);
     }
 
     return `https://calendar.google.com/calendar/render?${params.toString()}`;
@@ -334,6 +330,10 @@ export const exportService = {
         format: "a4",
       });
 
+      // Event times are listed in the organization's zone
+      const timezone = isValidTimeZone(options.timezone) ? options.timezone : undefined;
+      const formatTime = (date: Date | string, pattern: string) => formatInTimeZone(date, pattern, timezone);
+
       const pageWidth = doc.internal.pageSize.getWidth();
       const pageHeight = doc.internal.pageSize.getHeight();
       const margin = 15;
@@ -368,7 +368,12 @@ export const exportService = {
             { align: "center" }
           );
         } else {
-          doc.text(`Generated on ${format(new Date(), "MMMM d, yyyy 'at' h:mm a")}`, pageWidth / 2, currentY, { align: "center" });
+          doc.text(`Generated on ${formatTime(new Date(), "MMMM d, yyyy 'at' h:mm a")}`, pageWidth / 2, currentY, { align: "center" });
+        }
+        if (timezone) {
+          currentY += 5;
+          doc.setFontSize(8);
+          doc.text(`All times in ${timezone} (${getTimeZoneAbbreviation(timezone)})`, pageWidth / 2, currentY, { align: "center" });
         }
         currentY += 10;
 
@@ -411,10 +416,10 @@ export const exportService = {
           currentY += 6;
 
           const approvedTableData = approvedEvents.map((event) => [
-            format(parseISO(event.starts_at), "MMM d, yyyy"),
-            `${format(parseISO(event.starts_at), "h:mm a")} - ${format(parseISO(event.ends_at), "h:mm a")}`,
+            formatTime(event.starts_at, "MMM d, yyyy"),
+            `${formatTime(event.starts_at, "h:mm a")} - ${formatTime(event.ends_at, "h:mm a")}`,
             event.title,
-            event.room?.name || "-",
+            getLocation(event) || "-",
             event.creator?.full_name || event.creator?.ministry_name || "-",
           ]);
 
@@ -466,10 +471,10 @@ export const exportService = {
           currentY += 6;
 
           const publishedTableData = publishedEvents.map((event) => [
-            format(parseISO(event.starts_at), "MMM d, yyyy"),
-            `${format(parseISO(event.starts_at), "h:mm a")} - ${format(parseISO(event.ends_at), "h:mm a")}`,
+            formatTime(event.starts_at, "MMM d, yyyy"),
+            `${formatTime(event.starts_at, "h:mm a")} - ${formatTime(event.ends_at, "h:mm a")}`,
             event.title,
-            event.room?.name || "-",
+            getLocation(event) || "-",
             event.creator?.full_name || event.creator?.ministry_name || "-",
           ]);
 
@@ -503,10 +508,10 @@ export const exportService = {
       } else {
         // Combined view with status indicator
         const tableData = sortedEvents.map((event) => [
-          format(parseISO(event.starts_at), "MMM d, yyyy"),
-          `${format(parseISO(event.starts_at), "h:mm a")} - ${format(parseISO(event.ends_at), "h:mm a")}`,
+          formatTime(event.starts_at, "MMM d, yyyy"),
+          `${formatTime(event.starts_at, "h:mm a")} - ${formatTime(event.ends_at, "h:mm a")}`,
           event.title,
-          event.room?.name || "-",
+          getLocation(event) || "-",
           getStatusLabel(event.status),
           event.creator?.full_name || event.creator?.ministry_name || "-",
         ]);
@@ -598,6 +603,136 @@ export const exportService = {
     }
   },
 
+  /**
+   * Export event history entries to CSV: who did what to which event, and when
+   */
+  historyToCSV(entries: EventHistory[], options: HistoryExportOptions = {}): ExportResult {
+    try {
+      if (entries.length === 0) {
+        return {
+          success: false,
+          error: "No history to export.",
+          eventCount: 0,
+        };
+      }
+
+      const timezone = isValidTimeZone(options.timezone) ? options.timezone : undefined;
+      const headers = ["Date", "Event", "Occurrence", "Action", "From Status", "To Status", "By", "Notes", "Changes"];
+      const rows = entries.map((entry) => [
+        formatInTimeZone(entry.created_at, "yyyy-MM-dd HH:mm:ss", timezone),
+        entry.event_title,
+        entry.occurrence_start && entry.event_id !== entry.series_id
+          ? formatInTimeZone(entry.occurrence_start, "yyyy-MM-dd HH:mm", timezone)
+          : "",
+        getHistoryActionLabel(entry.action),
+        entry.previous_status ? getStatusLabel(entry.previous_status) : "",
+        entry.new_status ? getStatusLabel(entry.new_status) : "",
+        entry.actor_name,
+        entry.notes,
+        getHistoryChanges(entry.changes)
+          .map((change) => formatHistoryChange(change, options.roomNames, timezone))
+          .join("; "),
+      ]);
+
+      const csvContent = [headers, ...rows]
+        .map((row) => row.map((value) => escapeCSVValue(value)).join(","))
+        .join("\n");
+
+      const blob = new Blob([csvContent], {
+        type: "text/csv;charset=utf-8",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      const subject = options.eventTitle
+        ? options.eventTitle.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "event"
+        : options.organizationSlug || "events";
+      const filename = `${subject}-history-${format(new Date(), "yyyy-MM-dd")}.csv`;
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      return {
+        success: true,
+        filename,
+        eventCount: new Set(entries.map((entry) => entry.event_id)).size,
+      };
+    } catch (error) {
+      console.error("Error exporting history:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to export history",
+        eventCount: 0,
+      };
+    }
+  },
+
+  /**
+   * Export the registrations of an event to CSV, as an attendee list
+   */
+  registrationsToCSV(registrations: EventRegistration[], options: RegistrationExportOptions): ExportResult {
+    try {
+      if (registrations.length === 0) {
+        return {
+          success: false,
+          error: "No registrations to export.",
+          eventCount: 0,
+        };
+      }
+
+      const timezone = isValidTimeZone(options.timezone) ? options.timezone : undefined;
+      const headers = ["Name", "Email", "Headcount", "Status", "Occurrence", "Registered", "Walk-in", "Checked In"];
+      const rows = registrations.map((registration) => [
+        registration.name,
+        registration.email,
+        String(registration.headcount),
+        getRegistrationStatusLabel(registration.status),
+        registration.occurrence_start
+          ? formatInTimeZone(registration.occurrence_start, "yyyy-MM-dd HH:mm", timezone)
+          : "",
+        formatInTimeZone(registration.created_at, "yyyy-MM-dd HH:mm:ss", timezone),
+        registration.is_walk_in ? "Yes" : "No",
+        registration.checked_in_at
+          ? formatInTimeZone(registration.checked_in_at, "yyyy-MM-dd HH:mm:ss", timezone)
+          : "",
+      ]);
+
+      const csvContent = [headers, ...rows]
+        .map((row) => row.map((value) => escapeCSVValue(value)).join(","))
+        .join("\n");
+
+      const blob = new Blob([csvContent], {
+        type: "text/csv;charset=utf-8",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      const subject =
+        options.eventTitle.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "event";
+      const filename = `${subject}-attendees-${format(new Date(), "yyyy-MM-dd")}.csv`;
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      return {
+        success: true,
+        filename,
+        eventCount: 1,
+      };
+    } catch (error) {
+      console.error("Error exporting registrations:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to export registrations",
+        eventCount: 0,
+      };
+    }
+  },
+
   /**
    * Export events based on format selection
    */
@@ -0,0 +1,78 @@
+/**
+ * Feed service - manages subscribable calendar feed links (served by the calendar-feed edge function)
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { CalendarFeed, CalendarFeedScope } from "../types";
+
+const FEED_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed`;
+
+export const feedService = {
+  /**
+   * Get the active feed for an organization and scope, creating it on first use
+   */
+  async getOrCreate(
+    organizationId: string,
+    userId: string,
+    scope: CalendarFeedScope = {}
+  ): Promise<CalendarFeed> {
+    let query = supabase
+      .from("calendar_feeds")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .is("revoked_at", null);
+
+    query = scope.room_id ? query.eq("room_id", scope.room_id) : query.is("room_id", null);
+    query = scope.ministry_id ? query.eq("ministry_id", scope.ministry_id) : query.is("ministry_id", null);
+
+    const { data: existing, error } = await query.maybeSingle();
+    if (error) throw error;
+    if (existing) return existing;
+
+    const { data, error: insertError } = await supabase
+      .from("calendar_feeds")
+      .insert({
+        organization_id: organizationId,
+        created_by: userId,
+        room_id: scope.room_id || null,
+        ministry_id: scope.ministry_id || null,
+      })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+    return data;
+  },
+
+  /**
+   * Revoke a feed's link and issue a new one for the same scope.
+   * Existing subscribers stop receiving updates until they subscribe again.
+   */
+  async reset(feed: CalendarFeed, userId: string): Promise<CalendarFeed> {
+    const { error } = await supabase
+      .from("calendar_feeds")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", feed.id);
+
+    if (error) throw error;
+
+    return this.getOrCreate(feed.organization_id, userId, {
+      room_id: feed.room_id,
+      ministry_id: feed.ministry_id,
+    });
+  },
+
+  /**
+   * HTTPS URL of a feed (for Google Calendar "From URL" and browsers)
+   */
+  getFeedUrl(token: string): string {
+    return `${FEED_FUNCTION_URL}/${token}.ics`;
+  },
+
+  /**
+   * webcal:// URL of a feed, which opens the subscribe prompt in calendar apps
+   */
+  getWebcalUrl(token: string): string {
+    return this.getFeedUrl(token).replace(/^https?:\/\//, "webcal://");
+  },
+};
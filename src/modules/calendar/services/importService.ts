@@ -0,0 +1,247 @@
+/**
+ * Import service - brings events from iCalendar (.ics) files into a room calendar
+ */
+
+import { addMonths } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { eventService } from "./eventService";
+import type { EventStatus, EventWithRelations } from "../types";
+import {
+  DEFAULT_EXPANSION_MONTHS,
+  expandRRule,
+  getSeriesEndDate,
+  isSameInstant,
+} from "../utils/recurrence";
+import { parseICS, type ICSEvent } from "../utils/ical";
+import { blockedRangesOverlap } from "../utils/rooms";
+
+// Statuses an import may create events in
+export type ImportStatus = Extract<EventStatus, "draft" | "pending_review">;
+
+// One importable item: a single event, or a series with its changed occurrences
+export interface ImportCandidate {
+  key: string;
+  event: ICSEvent;
+  overrides: ICSEvent[];
+  warnings: string[];
+}
+
+export interface ImportPreview {
+  calendarName: string | null;
+  candidates: ImportCandidate[];
+  warnings: string[];
+}
+
+export interface ImportItem {
+  candidate: ImportCandidate;
+  roomId: string;
+}
+
+export interface ImportResult {
+  created: number;
+  failed: { title: string; message: string }[];
+}
+
+/**
+ * Setup and teardown buffers imported events get: the room's defaults
+ */
+const getRoomBuffers = async (roomId: string) => {
+  const { data: room, error } = await supabase
+    .from("rooms")
+    .select("default_setup_minutes, default_teardown_minutes")
+    .eq("id", roomId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return {
+    setup_minutes: room?.default_setup_minutes || 0,
+    teardown_minutes: room?.default_teardown_minutes || 0,
+  };
+};
+
+/**
+ * Occurrence time ranges of a candidate that fall within the conflict window,
+ * with exdates removed and changed occurrences at their new times. Series are
+ * expanded in the organization's zone, as they will be once imported.
+ */
+const getOccurrenceRanges = (
+  candidate: ImportCandidate,
+  timeZone?: string | null
+): { start: Date; end: Date }[] => {
+  const { event, overrides } = candidate;
+  const start = new Date(event.starts_at);
+  const duration = new Date(event.ends_at).getTime() - start.getTime();
+
+  if (!event.recurrence_rule) {
+    return [{ start, end: new Date(event.ends_at) }];
+  }
+
+  // Unbounded series are checked as far ahead as the calendar expands them
+  const horizon = addMonths(new Date(Math.max(Date.now(), start.getTime())), DEFAULT_EXPANSION_MONTHS);
+  const skipped = [...event.recurrence_exdates, ...overrides.map((o) => o.recurrence_id!)];
+
+  return [
+    ...expandRRule(event.recurrence_rule, start, start, horizon, timeZone)
+      .filter((occurrence) => !skipped.some((date) => isSameInstant(date, occurrence)))
+      .map((occurrence) => ({ start: occurrence, end: new Date(occurrence.getTime() + duration) })),
+    ...overrides
+      .filter((override) => override.status !== "CANCELLED")
+      .map((override) => ({ start: new Date(override.starts_at), end: new Date(override.ends_at) })),
+  ];
+};
+
+export const importService = {
+  /**
+   * Parse .ics content into import candidates. Changed occurrences
+   * (RECURRENCE-ID) are grouped under their series; cancelled events are left out.
+   * All-day and floating times are read in the organization's zone.
+   */
+  parse(content: string, timeZone?: string | null): ImportPreview {
+    const calendar = parseICS(content, timeZone);
+    const warnings = [...calendar.warnings];
+    const candidates = new Map<string, ImportCandidate>();
+
+    for (const event of calendar.events.filter((e) => !e.recurrence_id)) {
+      if (event.status === "CANCELLED") continue;
+      if (candidates.has(event.uid)) {
+        warnings.push(`Duplicate event "${event.title}" was skipped`);
+        continue;
+      }
+      candidates.set(event.uid, { key: event.uid, event, overrides: [], warnings: [...event.warnings] });
+    }
+
+    for (const occurrence of calendar.events.filter((e) => e.recurrence_id)) {
+      const series = candidates.get(occurrence.uid);
+      if (series?.event.recurrence_rule) {
+        if (occurrence.status === "CANCELLED") {
+          series.event.recurrence_exdates.push(occurrence.recurrence_id!);
+        } else {
+          series.overrides.push(occurrence);
+        }
+      } else if (occurrence.status !== "CANCELLED") {
+        // The series is not in the file, so the changed occurrence stands alone
+        const key = `${occurrence.uid}_${occurrence.recurrence_id}`;
+        candidates.set(key, {
+          key,
+          event: { ...occurrence, recurrence_id: null },
+          overrides: [],
+          warnings: [...occurrence.warnings],
+        });
+      }
+    }
+
+    return {
+      calendarName: calendar.name,
+      candidates: Array.from(candidates.values()).sort(
+        (a, b) => new Date(a.event.starts_at).getTime() - new Date(b.event.starts_at).getTime()
+      ),
+      warnings,
+    };
+  },
+
+  /**
+   * Existing events in a room that conflict with any occurrence of a candidate,
+   * counting the room's default buffers on both sides
+   */
+  async findConflicts(
+    roomId: string,
+    candidate: ImportCandidate,
+    timeZone?: string | null
+  ): Promise<EventWithRelations[]> {
+    const ranges = getOccurrenceRanges(candidate, timeZone);
+    if (ranges.length === 0) return [];
+
+    const buffers = await getRoomBuffers(roomId);
+    const windowStart = new Date(Math.min(...ranges.map((r) => r.start.getTime()))).toISOString();
+    const windowEnd = new Date(Math.max(...ranges.map((r) => r.end.getTime()))).toISOString();
+    const existing = await eventService.checkConflicts({ room_id: roomId, ...buffers }, windowStart, windowEnd);
+
+    return existing.filter((event) =>
+      ranges.some((range) =>
+        blockedRangesOverlap(event, {
+          starts_at: range.start.toISOString(),
+          ends_at: range.end.toISOString(),
+          ...buffers,
+        })
+      )
+    );
+  },
+
+  /**
+   * Create imported events under the importing user. Each candidate is created
+   * independently so one failure does not stop the rest.
+   */
+  async importEvents(
+    organizationId: string,
+    userId: string,
+    items: ImportItem[],
+    status: ImportStatus,
+    timeZone?: string | null
+  ): Promise<ImportResult> {
+    const result: ImportResult = { created: 0, failed: [] };
+
+    for (const { candidate, roomId } of items) {
+      const { event, overrides } = candidate;
+
+      try {
+        const buffers = await getRoomBuffers(roomId);
+        const { data: created, error } = await supabase
+          .from("events")
+          .insert({
+            title: event.title,
+            description: event.description,
+            room_id: roomId,
+            ...buffers,
+            starts_at: event.starts_at,
+            ends_at: event.ends_at,
+            status,
+            organization_id: organizationId,
+            created_by: userId,
+            is_recurring: !!event.recurrence_rule,
+            recurrence_rule: event.recurrence_rule,
+            recurrence_end_date: getSeriesEndDate(event.recurrence_rule, event.starts_at, event.ends_at, timeZone),
+            recurrence_exdates: event.recurrence_rule ? event.recurrence_exdates : [],
+          })
+          .select("id")
+          .single();
+
+        if (error) throw error;
+
+        if (event.recurrence_rule && overrides.length > 0) {
+          const { error: overridesError } = await supabase.from("events").insert(
+            overrides.map((override) => ({
+              title: override.title,
+              description: override.description,
+              room_id: roomId,
+              ...buffers,
+              starts_at: override.starts_at,
+              ends_at: override.ends_at,
+              status,
+              organization_id: organizationId,
+              created_by: userId,
+              is_recurring: true,
+              parent_event_id: created.id,
+              recurrence_id: override.recurrence_id,
+            }))
+          );
+
+          if (overridesError) {
+            // A series without its changed dates would book them as the rule
+            // has them, so the import of the event is taken back as a whole
+            await supabase.from("events").delete().eq("id", created.id);
+            throw overridesError;
+          }
+        }
+
+        result.created++;
+      } catch (error) {
+        result.failed.push({
+          title: event.title,
+          message: error instanceof Error ? error.message : (error as { message?: string })?.message || "Unknown error",
+        });
+      }
+    }
+
+    return result;
+  },
+};
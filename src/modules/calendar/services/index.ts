@@ -3,4 +3,46 @@
  */
 
 export { eventService } from "./eventService";
-export { exportService, type ExportFormat, type ExportScope, type ExportOptions, type ExportResult, type ExportableEvent } from "./exportService";
+export { exportService, type ExportFormat, type ExportScope, type ExportOptions, type ExportResult, type ExportableEvent, type HistoryExportOptions, type RegistrationExportOptions } from "./exportService";
+export {
+  importService,
+  type ImportCandidate,
+  type ImportPreview,
+  type ImportItem,
+  type ImportResult,
+  type ImportStatus,
+} from "./importService";
+export { feedService } from "./feedService";
+export {
+  roomService,
+  type RoomSearch,
+  type RoomMatch,
+  type RoomAvailabilityRules,
+  type AvailabilityWindowInput,
+} from "./roomService";
+export {
+  conflictService,
+  type BookingRequest,
+  type SlotSuggestion,
+  type OccurrenceConflict,
+  type FreeSlotOptions,
+} from "./conflictService";
+export {
+  approvalService,
+  type ApprovalStepInput,
+  type Approver,
+  type ApprovalPolicyInput,
+} from "./approvalService";
+export {
+  registrationService,
+  type RegistrationInput,
+  type RegistrationResult,
+  type WalkInInput,
+} from "./registrationService";
+export {
+  resourceService,
+  type ResourceInput,
+  type ResourceRequestInput,
+  type ResourceCheck,
+} from "./resourceService";
+export { signageService } from "./signageService";
@@ -0,0 +1,227 @@
+/**
+ * Registration service - public sign-ups for events, their capacity and
+ * waitlist, the attendee lists organizers manage, check-in at the door and
+ * attendance
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type {
+  AttendanceTrend,
+  EventRegistration,
+  RegistrationCounts,
+  RegistrationStatus,
+  RegistrationTicket,
+} from "../types";
+import { buildAttendanceTrends, type RegistrationTarget } from "../utils/registrations";
+
+// Details a visitor registers with
+export interface RegistrationInput {
+  name: string;
+  email: string;
+  headcount: number;
+}
+
+// Someone added at the door; the email is optional
+export interface WalkInInput {
+  name: string;
+  email?: string;
+  headcount: number;
+}
+
+// Outcome of registering
+export interface RegistrationResult {
+  id: string;
+  status: RegistrationStatus;
+}
+
+export const registrationService = {
+  /**
+   * Register for an event or occurrence. Confirmed while places are left,
+   * waitlisted otherwise.
+   */
+  async register(target: RegistrationTarget, input: RegistrationInput): Promise<RegistrationResult> {
+    const { data, error } = await supabase.rpc("register_for_event", {
+      _event_id: target.eventId,
+      _occurrence_start: target.occurrenceStart,
+      _name: input.name,
+      _email: input.email,
+      _headcount: input.headcount,
+    });
+
+    if (error) throw error;
+    const [registration] = data || [];
+    if (!registration) throw new Error("Registration failed");
+
+    return { id: registration.registration_id, status: registration.status as RegistrationStatus };
+  },
+
+  /**
+   * Places taken and waiting; null when the event takes no registrations
+   */
+  async getCounts(target: RegistrationTarget): Promise<RegistrationCounts | null> {
+    const { data, error } = await supabase.rpc("event_registration_counts", {
+      _event_id: target.eventId,
+      _occurrence_start: target.occurrenceStart ?? undefined,
+    });
+
+    if (error) throw error;
+    return data?.[0] || null;
+  },
+
+  /**
+   * Registrations for an event or occurrence, in the order they were made.
+   * Without an occurrence start, every occurrence of a series is included.
+   */
+  async list(target: RegistrationTarget): Promise<EventRegistration[]> {
+    let query = supabase
+      .from("event_registrations")
+      .select("*")
+      .eq("event_id", target.eventId)
+      .order("occurrence_start")
+      .order("created_at");
+
+    if (target.occurrenceStart) {
+      query = query.eq("occurrence_start", target.occurrenceStart);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Cancel a registration. Waitlisted registrations that now fit are
+   * confirmed by the database and returned, so they can be emailed.
+   */
+  async cancel(registration: EventRegistration): Promise<EventRegistration[]> {
+    const { error } = await supabase
+      .from("event_registrations")
+      .update({ status: "cancelled" })
+      .eq("id", registration.id);
+
+    if (error) throw error;
+
+    const { data: promoted, error: promotedError } = await supabase
+      .from("event_registrations")
+      .select("*")
+      .eq("event_id", registration.event_id)
+      .eq("status", "confirmed")
+      .or("notified_status.is.null,notified_status.neq.confirmed");
+
+    if (promotedError) throw promotedError;
+    return (promoted || []).filter(
+      (candidate) => candidate.occurrence_start === registration.occurrence_start
+    );
+  },
+
+  /**
+   * Check a registrant in, or undo it
+   */
+  async setCheckedIn(registrationId: string, checkedIn: boolean, userId: string): Promise<EventRegistration> {
+    const { data, error } = await supabase
+      .from("event_registrations")
+      .update({
+        checked_in_at: checkedIn ? new Date().toISOString() : null,
+        checked_in_by: checkedIn ? userId : null,
+      })
+      .eq("id", registrationId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Check in the registration a ticket's QR code was scanned for. Null when
+   * the ticket is unknown or belongs to an event the user does not organize.
+   */
+  async checkInByToken(token: string, userId: string): Promise<EventRegistration | null> {
+    const { data: registration, error } = await supabase
+      .from("event_registrations")
+      .select("*")
+      .eq("check_in_token", token)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!registration || registration.status === "cancelled") return null;
+    if (registration.checked_in_at) return registration;
+
+    return this.setCheckedIn(registration.id, true, userId);
+  },
+
+  /**
+   * Add someone who came without registering; they are checked in straight away
+   */
+  async addWalkIn(
+    organizationId: string,
+    target: RegistrationTarget,
+    input: WalkInInput,
+    userId: string
+  ): Promise<EventRegistration> {
+    const { data, error } = await supabase
+      .from("event_registrations")
+      .insert({
+        organization_id: organizationId,
+        event_id: target.eventId,
+        occurrence_start: target.occurrenceStart,
+        name: input.name,
+        email: input.email ? input.email.toLowerCase() : null,
+        headcount: input.headcount,
+        status: "confirmed",
+        is_walk_in: true,
+        checked_in_at: new Date().toISOString(),
+        checked_in_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Ticket of a registration, by the secret token in its link
+   */
+  async getTicket(token: string): Promise<RegistrationTicket | null> {
+    const { data, error } = await supabase.rpc("get_registration_ticket", { _token: token });
+
+    if (error) throw error;
+    return data?.[0] || null;
+  },
+
+  /**
+   * Attendance of the recurring series of an organization, per occurrence
+   */
+  async listAttendanceTrends(organizationId: string): Promise<AttendanceTrend[]> {
+    const { data, error } = await supabase
+      .from("event_attendance")
+      .select("event_id, occurrence_start, registered_count, checked_in_count, walk_in_count, events(title)")
+      .eq("organization_id", organizationId)
+      .not("occurrence_start", "is", null)
+      .order("occurrence_start");
+
+    if (error) throw error;
+    return buildAttendanceTrends(
+      (data || []).map(({ events, ...row }) => ({ ...row, title: events?.title || "Untitled" }))
+    );
+  },
+
+  /**
+   * Email registrants about their current status. Failures are logged, not
+   * thrown, so they never undo a registration.
+   */
+  async notify(registrationIds: string[]): Promise<void> {
+    await Promise.all(
+      registrationIds.map(async (registrationId) => {
+        const response = await supabase.functions.invoke("send-registration-email", {
+          body: { registrationId },
+        });
+        if (response.error) {
+          console.error("Registration email error:", response.error);
+        }
+      })
+    );
+  },
+};
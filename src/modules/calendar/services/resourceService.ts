@@ -0,0 +1,178 @@
+/**
+ * Resource service - the equipment, staff and services an organization
+ * provides, the requests events make for them and whether overlapping
+ * bookings double-book them
+ */
+
+import { addMonths } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { eventService } from "./eventService";
+import type { EventResourceRequest, Resource, ResourceShortage } from "../types";
+import { DEFAULT_EXPANSION_MONTHS, expandRRule } from "../utils/recurrence";
+import { getBlockedRange, type BufferedTimes } from "../utils/rooms";
+import {
+  findResourceShortages,
+  getResourceRequestEventId,
+  type RequestedResource,
+  type ResourceUsage,
+} from "../utils/resources";
+
+// A resource as edited by an admin
+export type ResourceInput = Pick<
+  Resource,
+  "name" | "kind" | "quantity" | "default_responsible" | "description" | "is_active"
+>;
+
+// A request as edited on an event
+export type ResourceRequestInput = Pick<EventResourceRequest, "resource_id" | "quantity" | "responsible" | "notes">;
+
+// A booking checked for double-booked resources
+export interface ResourceCheck extends BufferedTimes {
+  // Rule of a series, whose upcoming occurrences are each checked
+  recurrence_rule?: string | null;
+  requests: RequestedResource[];
+  // Standalone event or series being edited, whose own requests do not count against it
+  excludeEventId?: string | null;
+}
+
+export const resourceService = {
+  /**
+   * Resources of an organization, by name
+   */
+  async list(organizationId: string): Promise<Resource[]> {
+    const { data, error } = await supabase
+      .from("resources")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .order("name");
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async create(organizationId: string, resource: ResourceInput): Promise<Resource> {
+    const { data, error } = await supabase
+      .from("resources")
+      .insert({ ...resource, organization_id: organizationId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async update(resourceId: string, resource: Partial<ResourceInput>): Promise<Resource> {
+    const { data, error } = await supabase
+      .from("resources")
+      .update(resource)
+      .eq("id", resourceId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Remove a resource along with every request for it
+   */
+  async delete(resourceId: string): Promise<void> {
+    const { error } = await supabase.from("resources").delete().eq("id", resourceId);
+    if (error) throw error;
+  },
+
+  /**
+   * Requests of standalone events or series, oldest first
+   */
+  async listRequests(eventIds: string[]): Promise<EventResourceRequest[]> {
+    if (eventIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from("event_resource_requests")
+      .select("*")
+      .in("event_id", eventIds)
+      .order("created_at");
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Replace the requests of a standalone event or series
+   */
+  async setRequests(organizationId: string, eventId: string, requests: ResourceRequestInput[]): Promise<void> {
+    const { error } = await supabase.from("event_resource_requests").delete().eq("event_id", eventId);
+    if (error) throw error;
+    if (requests.length === 0) return;
+
+    const { error: insertError } = await supabase.from("event_resource_requests").insert(
+      requests.map((request) => ({
+        ...request,
+        organization_id: organizationId,
+        event_id: eventId,
+      }))
+    );
+    if (insertError) throw insertError;
+  },
+
+  /**
+   * Requested resources that overlapping bookings under review, approved or
+   * published leave too few of. Series are checked on each upcoming
+   * occurrence within the usual expansion horizon.
+   */
+  async findShortages(organizationId: string, check: ResourceCheck, timeZone?: string | null): Promise<ResourceShortage[]> {
+    const resources = await this.list(organizationId);
+    const limited = check.requests.filter(
+      (request) => resources.find((resource) => resource.id === request.resource_id)?.quantity != null
+    );
+    if (limited.length === 0) return [];
+
+    const dtstart = new Date(check.starts_at);
+    const duration = new Date(check.ends_at).getTime() - dtstart.getTime();
+    const now = new Date();
+    const starts = check.recurrence_rule
+      ? expandRRule(check.recurrence_rule, dtstart, dtstart, addMonths(now, DEFAULT_EXPANSION_MONTHS), timeZone).filter(
+          (start) => start.getTime() + duration > now.getTime()
+        )
+      : [dtstart];
+    if (starts.length === 0) return [];
+
+    const occurrences = starts.map((start) => ({
+      ...check,
+      starts_at: start.toISOString(),
+      ends_at: new Date(start.getTime() + duration).toISOString(),
+    }));
+
+    // Bookings the requester cannot see hold resources too, so they come from
+    // the same lookup as room conflicts
+    const events = await eventService.listBookings(
+      organizationId,
+      getBlockedRange(occurrences[0]).start,
+      getBlockedRange(occurrences[occurrences.length - 1]).end
+    );
+
+    const others = events.filter((event) => getResourceRequestEventId(event) !== check.excludeEventId);
+    const { data: requests, error } = others.length > 0
+      ? await supabase
+          .from("event_resource_requests")
+          .select("event_id, resource_id, quantity")
+          .in("event_id", Array.from(new Set(others.map(getResourceRequestEventId))))
+          .in("resource_id", limited.map((request) => request.resource_id))
+      : { data: [], error: null };
+    if (error) throw error;
+
+    const usages: ResourceUsage[] = others
+      .map((event) => ({
+        event_id: event.id,
+        title: event.title,
+        starts_at: event.starts_at,
+        ends_at: event.ends_at,
+        setup_minutes: event.setup_minutes,
+        teardown_minutes: event.teardown_minutes,
+        requests: (requests || []).filter((request) => request.event_id === getResourceRequestEventId(event)),
+      }))
+      .filter((usage) => usage.requests.length > 0);
+
+    return occurrences.flatMap((occurrence) => findResourceShortages(occurrence, limited, resources, usages));
+  },
+};
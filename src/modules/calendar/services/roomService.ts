@@ -0,0 +1,155 @@
+/**
+ * Room service - room lookups for booking, including the room finder, and the
+ * availability windows and blackout periods that limit when rooms can be booked
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { eventService } from "./eventService";
+import type { BlackoutPeriod, Room, RoomAvailabilityWindow } from "../types";
+import { rankRoomsByFit, type RoomFit, type RoomRequirements } from "../utils/rooms";
+import { getAvailabilityIssue } from "../utils/availability";
+
+// A time slot to find a room for, with what the booking needs from the room
+export interface RoomSearch extends RoomRequirements {
+  startsAt: string;
+  endsAt: string;
+  setup_minutes?: number;
+  teardown_minutes?: number;
+  // Event being edited, whose own booking does not count against its rooms
+  excludeEventId?: string;
+  // Organization's timezone, in which availability windows and blackouts apply
+  timeZone?: string;
+}
+
+export type RoomMatch = Room & { fit: RoomFit };
+
+// When an organization's rooms can be booked
+export interface RoomAvailabilityRules {
+  windows: RoomAvailabilityWindow[];
+  blackouts: BlackoutPeriod[];
+}
+
+// A weekly window as edited for one room
+export type AvailabilityWindowInput = Pick<RoomAvailabilityWindow, "day_of_week" | "start_time" | "end_time">;
+
+export const roomService = {
+  /**
+   * Active rooms of an organization, by name
+   */
+  async listActive(organizationId: string): Promise<Room[]> {
+    const { data, error } = await supabase
+      .from("rooms")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .eq("is_active", true)
+      .order("name");
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Availability windows of every room and the blackout periods of an organization
+   */
+  async getAvailabilityRules(organizationId: string): Promise<RoomAvailabilityRules> {
+    const [windowsResult, blackoutsResult] = await Promise.all([
+      supabase
+        .from("room_availability_windows")
+        .select("*")
+        .eq("organization_id", organizationId)
+        .order("day_of_week")
+        .order("start_time"),
+      supabase
+        .from("blackout_periods")
+        .select("*")
+        .eq("organization_id", organizationId)
+        .order("starts_on"),
+    ]);
+
+    if (windowsResult.error) throw windowsResult.error;
+    if (blackoutsResult.error) throw blackoutsResult.error;
+    return { windows: windowsResult.data || [], blackouts: blackoutsResult.data || [] };
+  },
+
+  /**
+   * Replace a room's availability windows. No windows makes the room bookable at any time.
+   */
+  async setAvailabilityWindows(
+    organizationId: string,
+    roomId: string,
+    windows: AvailabilityWindowInput[]
+  ): Promise<void> {
+    const { error } = await supabase.from("room_availability_windows").delete().eq("room_id", roomId);
+    if (error) throw error;
+    if (windows.length === 0) return;
+
+    const { error: insertError } = await supabase.from("room_availability_windows").insert(
+      windows.map((window) => ({ ...window, organization_id: organizationId, room_id: roomId }))
+    );
+    if (insertError) throw insertError;
+  },
+
+  /**
+   * Close the building for a range of dates
+   */
+  async createBlackout(
+    blackout: Pick<BlackoutPeriod, "organization_id" | "title" | "starts_on" | "ends_on" | "created_by">
+  ): Promise<BlackoutPeriod> {
+    const { data, error } = await supabase.from("blackout_periods").insert(blackout).select().single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Remove a blackout period
+   */
+  async deleteBlackout(id: string): Promise<void> {
+    const { error } = await supabase.from("blackout_periods").delete().eq("id", id);
+    if (error) throw error;
+  },
+
+  /**
+   * Active rooms free for a time slot, ranked by how well they fit the
+   * booking's size and features. Availability follows the same overlap rules
+   * (buffers and rooms that allow overlap included) as checkConflicts, and
+   * leaves out rooms closed at that time.
+   */
+  async findAvailable(organizationId: string, search: RoomSearch): Promise<RoomMatch[]> {
+    const [rooms, rules] = await Promise.all([
+      this.listActive(organizationId),
+      this.getAvailabilityRules(organizationId),
+    ]);
+    const times = {
+      starts_at: search.startsAt,
+      ends_at: search.endsAt,
+      setup_minutes: search.setup_minutes,
+      teardown_minutes: search.teardown_minutes,
+    };
+
+    const availability = await Promise.all(
+      rooms.map(async (room) => {
+        if (getAvailabilityIssue({ ...times, room_id: room.id }, rooms, rules.windows, rules.blackouts, search.timeZone)) {
+          return false;
+        }
+
+        const conflicts = await eventService.checkConflicts(
+          {
+            room_id: room.id,
+            setup_minutes: search.setup_minutes,
+            teardown_minutes: search.teardown_minutes,
+          },
+          search.startsAt,
+          search.endsAt,
+          search.excludeEventId
+        );
+        return conflicts.length === 0;
+      })
+    );
+
+    return rankRoomsByFit(
+      rooms.filter((_, index) => availability[index]),
+      { attendees: search.attendees, features: search.features }
+    );
+  },
+};
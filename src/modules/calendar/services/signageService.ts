@@ -0,0 +1,54 @@
+/**
+ * Signage service - lobby display settings of an organization, kept in its
+ * settings under "signage"
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { SignageSettings } from "../types";
+import { parseSignageSettings } from "../utils/signage";
+
+export const signageService = {
+  /**
+   * Lobby display settings of an organization, with defaults filled in
+   */
+  async getSettings(organizationId: string): Promise<SignageSettings> {
+    const { data, error } = await supabase
+      .from("organizations")
+      .select("settings")
+      .eq("id", organizationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return parseSignageSettings(data?.settings);
+  },
+
+  /**
+   * Save lobby display settings, keeping the organization's other settings
+   */
+  async updateSettings(organizationId: string, signage: SignageSettings): Promise<SignageSettings> {
+    const { data: organization, error: readError } = await supabase
+      .from("organizations")
+      .select("settings")
+      .eq("id", organizationId)
+      .single();
+
+    if (readError) throw readError;
+
+    const { data, error } = await supabase
+      .from("organizations")
+      .update({ settings: { ...(organization.settings || {}), signage } })
+      .eq("id", organizationId)
+      .select("settings")
+      .single();
+
+    if (error) throw error;
+    return parseSignageSettings(data.settings);
+  },
+
+  /**
+   * Address of an organization's lobby display
+   */
+  getDisplayUrl(slug: string): string {
+    return `${window.location.origin}/signage/${slug}`;
+  },
+};
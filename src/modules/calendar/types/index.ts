@@ -2,11 +2,22 @@
  * Calendar module types
  */
 
-import type { Tables } from "@/shared/types";
+import type { Enums, Tables } from "@/shared/types";
 
 // Base event type from database
 export type Event = Tables<"events">;
 export type Room = Tables<"rooms">;
+export type CalendarFeed = Tables<"calendar_feeds">;
+export type RoomAvailabilityWindow = Tables<"room_availability_windows">;
+export type BlackoutPeriod = Tables<"blackout_periods">;
+export type RoomApprovalStep = Tables<"room_approval_steps">;
+export type EventApproval = Tables<"event_approvals">;
+export type EventHistory = Tables<"event_history">;
+export type ApprovalPolicy = Tables<"approval_policies">;
+export type EventRegistration = Tables<"event_registrations">;
+export type EventAttendance = Tables<"event_attendance">;
+export type Resource = Tables<"resources">;
+export type EventResourceRequest = Tables<"event_resource_requests">;
 
 // Extended event with relations
 export interface EventWithRelations extends Event {
@@ -16,35 +27,226 @@ export interface EventWithRelations extends Event {
     email: string;
     ministry_name?: string | null;
   } | null;
+  // Set on occurrences expanded from a recurring series (and on override rows)
+  series_id?: string;
+  // Original start of the occurrence within its series (RFC 5545 RECURRENCE-ID)
+  occurrence_start?: string;
+  // Original series times, kept on occurrences generated from the rule
+  series_starts_at?: string;
+  series_ends_at?: string;
+  // Every room the event holds: main room, additional rooms or the whole building
+  reserved_rooms?: Room[];
+}
+
+// Exceptions of a recurring series
+export interface SeriesExceptions {
+  // Original starts of skipped occurrences (EXDATE)
+  skipped: string[];
+  // Occurrences with their own time, room or details (RECURRENCE-ID overrides)
+  overrides: EventWithRelations[];
+}
+
+// Place of a hold in the line for its slot
+export interface HoldQueue {
+  // 1 for the hold promoted first when the slot frees up
+  position: number;
+  // Holds on the same rooms and time, in the order they will be promoted
+  holds: EventWithRelations[];
+  // Bookings that keep the slot taken
+  blockers: EventWithRelations[];
+}
+
+// Decision of an approver on a step of an approval chain
+export type ApprovalDecision = "approved" | "rejected";
+
+// A step of an event's approval chain with its decision in the current review round
+export interface ApprovalChainStep extends RoomApprovalStep {
+  room_name: string;
+  approver_name: string | null;
+  approval: EventApproval | null;
+}
+
+// Sign-offs an event needs from the approval steps of the rooms it names
+export interface ApprovalChain {
+  steps: ApprovalChainStep[];
+  // Steps of the current stage still waiting for a decision
+  waiting: ApprovalChainStep[];
+  isComplete: boolean;
+}
+
+// What an event history entry records
+export type EventHistoryAction =
+  | "created"
+  | "edited"
+  | "submitted"
+  | "held"
+  | "hold_promoted"
+  | "signed_off"
+  | "approved"
+  | "auto_approved"
+  | "unapproved"
+  | "rejected"
+  | "published"
+  | "unpublished"
+  | "status_changed"
+  | "occurrence_edited"
+  | "occurrence_restored"
+  | "deleted";
+
+// A field edited in a history entry
+export interface EventHistoryChange {
+  field: string;
+  from: unknown;
+  to: unknown;
 }
 
 // Event status type
-export type EventStatus = "draft" | "pending_review" | "approved" | "rejected" | "published";
+// "hold" is a tentative booking waiting for a taken slot; it is promoted to
+// pending_review when the slot frees up
+export type EventStatus = "draft" | "pending_review" | "hold" | "approved" | "rejected" | "published";
+
+// Kind of event
+export type EventCategory = Enums<"event_category">;
+
+// Ministry that can own events; readable by visitors of the public calendar
+export interface EventMinistry {
+  id: string;
+  name: string;
+}
+
+// What the calendar colors events by
+export type EventColorBy = "room" | "category" | "ministry";
 
-// Calendar view types
-export type CalendarView = "day" | "week" | "month";
+// Status of a registration; waitlisted ones are confirmed in order as places free up
+export type RegistrationStatus = "confirmed" | "waitlisted" | "cancelled";
+
+// Places taken and waiting for an event or occurrence, counted in headcount
+export interface RegistrationCounts {
+  // Null when the event has no limit
+  capacity: number | null;
+  confirmed_count: number;
+  waitlisted_count: number;
+}
+
+// Ticket of a registration, shown to the registrant with its check-in QR code
+export interface RegistrationTicket {
+  event_id: string;
+  occurrence_start: string | null;
+  name: string;
+  headcount: number;
+  status: string;
+  checked_in_at: string | null;
+  // Title and times of the event or occurrence registered for
+  event_title: string;
+  starts_at: string;
+  ends_at: string;
+  organization_name: string;
+  timezone: string | null;
+}
+
+// Attendance of one event or occurrence
+export interface AttendancePoint {
+  occurrence_start: string;
+  registered: number;
+  // Registrants checked in plus walk-ins
+  attended: number;
+  walk_ins: number;
+}
+
+// Attendance over the occurrences of a recurring series
+export interface AttendanceTrend {
+  series_id: string;
+  title: string;
+  points: AttendancePoint[];
+}
+
+// Kind of resource an event can request
+export type ResourceKind = "equipment" | "staff" | "service";
+
+// Overlapping booking using a resource an event needs
+export interface ResourceBooking {
+  event_id: string;
+  title: string;
+  starts_at: string;
+  ends_at: string;
+  quantity: number;
+}
+
+// Resource an event (or one of its occurrences) needs more of than is free
+export interface ResourceShortage {
+  resource_id: string;
+  resource_name: string;
+  // How many the organization has and the event asks for
+  available: number;
+  requested: number;
+  // Most in use by other bookings at the same time
+  in_use: number;
+  occurrence_start: string;
+  bookings: ResourceBooking[];
+}
+
+// Days a lobby display covers: the rest of today, or today and the next six days
+export type SignageRange = "today" | "week";
+
+// Lobby display options of an organization, kept in organizations.settings.signage
+export interface SignageSettings {
+  enabled: boolean;
+  // Heading shown instead of the organization's name
+  title: string | null;
+  range: SignageRange;
+  // Rooms shown; empty for every room
+  room_ids: string[];
+  refresh_seconds: number;
+  // Scroll speed of long lists, in pixels per second; 0 to stay still
+  scroll_speed: number;
+  theme: "light" | "dark";
+  show_clock: boolean;
+}
+
+// Calendar view types; "agenda" lists events by day, "year" shows how busy each day is
+// and "timeline" lays out a day's bookings room by room
+export type CalendarView = "day" | "week" | "month" | "agenda" | "year" | "timeline";
 
 // Event form data
 export interface EventFormData {
   title: string;
   description?: string;
   room_id: string;
+  additional_room_ids?: string[];
+  is_whole_building?: boolean;
+  // Minutes the rooms are held before and after the event
+  setup_minutes?: number;
+  teardown_minutes?: number;
   starts_at: string;
   ends_at: string;
   is_recurring?: boolean;
   recurrence_rule?: string;
   recurrence_end_date?: string;
+  category?: EventCategory | null;
+  ministry_id?: string | null;
+  registration_enabled?: boolean;
+  registration_capacity?: number | null;
 }
 
 // Event filter options
 export interface EventFilters {
   status?: EventStatus[];
+  // Matches events holding the room, including multi-room and whole-building events
   room_id?: string;
   created_by?: string;
+  category?: EventCategory;
+  // Ministry that owns the event
+  ministry_id?: string;
   start_date?: string;
   end_date?: string;
 }
 
+// What a subscribable calendar feed includes; at most one of room or ministry
+export interface CalendarFeedScope {
+  room_id?: string | null;
+  ministry_id?: string | null;
+}
+
 // Time slot for calendar display
 export interface TimeSlot {
   hour: number;
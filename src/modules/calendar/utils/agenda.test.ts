@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { getDailyDensity, getDensityLevel, groupEventsByDay, searchEvents } from "./agenda";
+
+const TIME_ZONE = "America/New_York";
+
+describe("groupEventsByDay", () => {
+  it("groups events by the day they start on in the time zone, in order", () => {
+    const events = [
+      { id: "breakfast", starts_at: "2026-03-02T13:00:00Z", ends_at: "2026-03-02T14:00:00Z" },
+      // 21:00 on Mar 1 in New York
+      { id: "late", starts_at: "2026-03-02T02:00:00Z", ends_at: "2026-03-02T04:00:00Z" },
+      { id: "service", starts_at: "2026-03-01T15:00:00Z", ends_at: "2026-03-01T16:30:00Z" },
+    ];
+
+    expect(
+      groupEventsByDay(events, TIME_ZONE).map(({ day, events }) => [day, events.map((event) => event.id)])
+    ).toEqual([
+      ["2026-03-01", ["service", "late"]],
+      ["2026-03-02", ["breakfast"]],
+    ]);
+  });
+});
+
+describe("searchEvents", () => {
+  const events = [
+    {
+      title: "Youth night",
+      description: "Games and pizza",
+      reserved_rooms: [{ name: "Gym" }],
+      creator: { full_name: "Sam Lee", ministry_name: "Youth" },
+    },
+    { title: "Choir practice", room: { name: "Sanctuary" }, creator: null },
+  ];
+
+  it("needs every word somewhere in the event, ignoring case", () => {
+    expect(searchEvents(events, "PIZZA gym").map((event) => event.title)).toEqual(["Youth night"]);
+    expect(searchEvents(events, "sanctuary choir").map((event) => event.title)).toEqual(["Choir practice"]);
+    expect(searchEvents(events, "pizza sanctuary")).toEqual([]);
+  });
+
+  it("returns every event for a blank search", () => {
+    expect(searchEvents(events, "   ")).toBe(events);
+  });
+});
+
+describe("getDailyDensity", () => {
+  it("counts bookings and minutes on the day they start, at most a day each", () => {
+    const density = getDailyDensity(
+      [
+        { starts_at: "2026-03-01T15:00:00Z", ends_at: "2026-03-01T16:30:00Z" },
+        { starts_at: "2026-03-02T02:00:00Z", ends_at: "2026-03-02T03:00:00Z" },
+        { starts_at: "2026-03-03T12:00:00Z", ends_at: "2026-03-06T12:00:00Z" },
+      ],
+      TIME_ZONE
+    );
+
+    expect(Object.fromEntries(density)).toEqual({
+      "2026-03-01": { count: 2, minutes: 150 },
+      "2026-03-03": { count: 1, minutes: 1440 },
+    });
+  });
+});
+
+describe("getDensityLevel", () => {
+  it("shades days relative to the busiest one", () => {
+    expect(getDensityLevel(0, 8)).toBe(0);
+    expect(getDensityLevel(1, 8)).toBe(1);
+    expect(getDensityLevel(5, 8)).toBe(3);
+    expect(getDensityLevel(8, 8)).toBe(4);
+  });
+});
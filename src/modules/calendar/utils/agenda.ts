@@ -0,0 +1,121 @@
+/**
+ * Agenda Utility
+ * Events grouped by day for list views, agenda search, and how busy each day
+ * is for the year overview
+ */
+
+import { formatInTimeZone } from "./timezone";
+
+// Lengths the agenda can cover, in days
+export const AGENDA_RANGE_OPTIONS = [
+  { days: 7, label: "1 week" },
+  { days: 14, label: "2 weeks" },
+  { days: 30, label: "1 month" },
+  { days: 90, label: "3 months" },
+  { days: 180, label: "6 months" },
+  { days: 365, label: "1 year" },
+];
+
+export const DEFAULT_AGENDA_DAYS = 30;
+
+// Shades of the year heatmap, not counting empty days
+export const DENSITY_LEVELS = 4;
+
+// Longest stretch one event counts toward a day's booked time
+const MAX_DAY_MINUTES = 24 * 60;
+
+// Minimal event shape for grouping by day
+export interface DatedEvent {
+  starts_at: string;
+  ends_at: string;
+}
+
+// Minimal event shape agenda search looks through
+export interface SearchableEvent {
+  title: string;
+  description?: string | null;
+  room?: { name?: string } | null;
+  reserved_rooms?: { name: string }[];
+  creator?: { full_name?: string; ministry_name?: string | null } | null;
+}
+
+// Bookings starting on one day
+export interface DayDensity {
+  count: number;
+  minutes: number;
+}
+
+// =====================================================
+// Grouping and search
+// =====================================================
+
+/**
+ * Events grouped by the day they start on in a time zone, in order
+ */
+export const groupEventsByDay = <T extends DatedEvent>(
+  events: T[],
+  timeZone?: string | null
+): { day: string; events: T[] }[] => {
+  const groups = new Map<string, T[]>();
+  [...events]
+    .sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime())
+    .forEach((event) => {
+      const day = formatInTimeZone(event.starts_at, "yyyy-MM-dd", timeZone);
+      groups.set(day, [...(groups.get(day) || []), event]);
+    });
+
+  return Array.from(groups, ([day, dayEvents]) => ({ day, events: dayEvents }));
+};
+
+/**
+ * Events whose title, description, rooms or organizer contain every word of
+ * a search, ignoring case
+ */
+export const searchEvents = <T extends SearchableEvent>(events: T[], query: string): T[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return events;
+
+  return events.filter((event) => {
+    const text = [
+      event.title,
+      event.description,
+      event.room?.name,
+      ...(event.reserved_rooms || []).map((room) => room.name),
+      event.creator?.full_name,
+      event.creator?.ministry_name,
+    ]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+    return terms.every((term) => text.includes(term));
+  });
+};
+
+// =====================================================
+// Density
+// =====================================================
+
+/**
+ * Number of bookings and minutes booked per day ("yyyy-MM-dd" in a time
+ * zone), counted on the day each booking starts
+ */
+export const getDailyDensity = (events: DatedEvent[], timeZone?: string | null): Map<string, DayDensity> => {
+  const density = new Map<string, DayDensity>();
+  events.forEach((event) => {
+    const day = formatInTimeZone(event.starts_at, "yyyy-MM-dd", timeZone);
+    const minutes = (new Date(event.ends_at).getTime() - new Date(event.starts_at).getTime()) / 60000;
+    const current = density.get(day) || { count: 0, minutes: 0 };
+    density.set(day, {
+      count: current.count + 1,
+      minutes: current.minutes + Math.min(Math.max(minutes, 0), MAX_DAY_MINUTES),
+    });
+  });
+  return density;
+};
+
+/**
+ * Heatmap shade of a day, from 0 (nothing booked) to DENSITY_LEVELS for the
+ * busiest days
+ */
+export const getDensityLevel = (count: number, maxCount: number): number =>
+  count <= 0 || maxCount <= 0 ? 0 : Math.max(1, Math.ceil((count / maxCount) * DENSITY_LEVELS));
@@ -0,0 +1,118 @@
+/**
+ * Approval Chain Utility
+ * Works out which approval steps an event needs and which are waiting, the
+ * same way as the decide_event_approval database function, and describes
+ * auto-approval policies
+ */
+
+import type { ApprovalChain, ApprovalChainStep, ApprovalPolicy, EventApproval, RoomApprovalStep } from "../types";
+import { getReservedRoomIds, type RoomReservation } from "./rooms";
+
+// Minimal event shape an approval chain is built for
+export interface ApprovalSubject extends RoomReservation {
+  id: string;
+  parent_event_id?: string | null;
+  review_started_at?: string | null;
+}
+
+/**
+ * Steps of the rooms an event names, in order, with the decision made on each
+ * in the current review round. Whole-building events are checked against the
+ * rooms they name; occurrence overrides follow their series and have none.
+ */
+export const buildApprovalChain = (
+  event: ApprovalSubject,
+  steps: RoomApprovalStep[],
+  approvals: EventApproval[],
+  rooms: { id: string; name: string }[] = [],
+  approverNames: Record<string, string> = {}
+): ApprovalChain => {
+  if (event.parent_event_id) return { steps: [], waiting: [], isComplete: true };
+
+  const roomIds = getReservedRoomIds({ ...event, is_whole_building: false });
+  const roundStart = event.review_started_at ? new Date(event.review_started_at).getTime() : -Infinity;
+
+  const chain: ApprovalChainStep[] = steps
+    .filter((step) => roomIds.includes(step.room_id))
+    .sort((a, b) => a.step_order - b.step_order || a.name.localeCompare(b.name))
+    .map((step) => ({
+      ...step,
+      room_name: rooms.find((room) => room.id === step.room_id)?.name || "Unknown room",
+      approver_name: step.approver_id ? approverNames[step.approver_id] || null : null,
+      approval:
+        approvals
+          .filter(
+            (approval) =>
+              approval.event_id === event.id &&
+              approval.step_id === step.id &&
+              new Date(approval.decided_at).getTime() >= roundStart
+          )
+          .sort((a, b) => b.decided_at.localeCompare(a.decided_at))[0] || null,
+    }));
+
+  const outstanding = chain.filter((step) => step.approval?.decision !== "approved");
+  const currentStage = outstanding[0]?.step_order;
+
+  return {
+    steps: chain,
+    waiting: outstanding.filter((step) => step.step_order === currentStage && !step.approval),
+    isComplete: outstanding.length === 0,
+  };
+};
+
+/**
+ * Whether a user can decide a waiting step: the step's approver, or any admin
+ * for steps without one
+ */
+export const isWaitingOn = (chain: ApprovalChain, userId: string | undefined, isAdmin: boolean): boolean =>
+  chain.waiting.some((step) => (step.approver_id ? step.approver_id === userId : isAdmin));
+
+/**
+ * Short description of a step, e.g. "Facilities (Sanctuary)"
+ */
+export const formatApprovalStep = (step: ApprovalChainStep): string => `${step.name} (${step.room_name})`;
+
+// Members of each role, as named in policy descriptions
+export const REQUESTER_ROLE_LABELS: Record<string, string> = {
+  admin: "Admins",
+  contributor: "Contributors",
+  treasury: "Treasury",
+  finance: "Finance",
+};
+
+/**
+ * Length of time in minutes as text, e.g. "90 minutes" or "2 hours"
+ */
+const formatMinutes = (minutes: number): string => {
+  if (minutes < 60 || minutes % 30 !== 0) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = minutes / 60;
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+};
+
+/**
+ * Conditions of an auto-approval policy as short phrases, e.g.
+ * ["Requested by contributors", "In Chapel", "Up to 2 hours"]
+ */
+export const describeApprovalPolicy = (
+  policy: Pick<ApprovalPolicy, "requester_roles" | "room_ids" | "max_duration_minutes" | "require_approved_series">,
+  rooms: { id: string; name: string }[] = []
+): string[] => {
+  const conditions: string[] = [];
+
+  if (policy.requester_roles?.length) {
+    const roles = policy.requester_roles.map((role) => (REQUESTER_ROLE_LABELS[role] || role).toLowerCase());
+    conditions.push(`Requested by ${roles.join(" or ")}`);
+  }
+  if (policy.room_ids?.length) {
+    const names = policy.room_ids.map((id) => rooms.find((room) => room.id === id)?.name || "Unknown room");
+    conditions.push(`In ${names.join(", ")}`);
+  }
+  if (policy.max_duration_minutes) {
+    conditions.push(`Up to ${formatMinutes(policy.max_duration_minutes)}`);
+  }
+  if (policy.require_approved_series) {
+    conditions.push("Recurring series approved before");
+  }
+
+  return conditions;
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  findBlackout,
+  formatAvailabilityWindow,
+  formatBlackoutDates,
+  getAvailabilityIssue,
+  isWithinAvailability,
+} from "./availability";
+
+const TIME_ZONE = "America/New_York";
+
+const rooms = [
+  { id: "hall", name: "Fellowship Hall" },
+  { id: "chapel", name: "Chapel" },
+];
+
+// Sundays 12:00–17:00 and Wednesdays from 18:00 until midnight
+const windows = [
+  { room_id: "hall", day_of_week: 0, start_time: "12:00:00", end_time: "17:00:00" },
+  { room_id: "hall", day_of_week: 3, start_time: "18:00", end_time: "24:00" },
+];
+
+const blackouts = [
+  { title: "Building repairs", starts_on: "2026-07-06", ends_on: "2026-07-10" },
+  { title: "Independence Day", starts_on: "2026-07-04", ends_on: "2026-07-04" },
+];
+
+describe("findBlackout", () => {
+  it("finds the period an event falls in on the organization's calendar", () => {
+    // 21:00 on Jul 3 in New York is already Jul 4 in UTC
+    const evening = { starts_at: "2026-07-04T01:00:00Z", ends_at: "2026-07-04T03:00:00Z" };
+    expect(findBlackout(evening, blackouts, TIME_ZONE)).toBeUndefined();
+    expect(findBlackout(evening, blackouts, "UTC")?.title).toBe("Independence Day");
+  });
+
+  it("counts setup and teardown and ignores an end at midnight", () => {
+    expect(
+      findBlackout(
+        { starts_at: "2026-07-05T22:00:00Z", ends_at: "2026-07-06T04:00:00Z" },
+        blackouts,
+        TIME_ZONE
+      )
+    ).toBeUndefined();
+    expect(
+      findBlackout(
+        { starts_at: "2026-07-05T22:00:00Z", ends_at: "2026-07-06T04:00:00Z", teardown_minutes: 30 },
+        blackouts,
+        TIME_ZONE
+      )?.title
+    ).toBe("Building repairs");
+  });
+});
+
+describe("formatBlackoutDates", () => {
+  it("shows one date for a single day and a range otherwise", () => {
+    expect(formatBlackoutDates(blackouts[1])).toBe("Jul 4, 2026");
+    expect(formatBlackoutDates(blackouts[0])).toBe("Jul 6, 2026 – Jul 10, 2026");
+  });
+});
+
+describe("isWithinAvailability", () => {
+  it("treats rooms without windows as always available", () => {
+    expect(isWithinAvailability({ starts_at: "2026-03-02T03:00:00Z", ends_at: "2026-03-02T04:00:00Z" }, [], TIME_ZONE))
+      .toBe(true);
+  });
+
+  it("needs the held time to fit inside a window of the same weekday", () => {
+    // Sunday Mar 1, 2026, 13:00–15:00 in New York
+    const afternoon = { starts_at: "2026-03-01T18:00:00Z", ends_at: "2026-03-01T20:00:00Z" };
+    expect(isWithinAvailability(afternoon, windows, TIME_ZONE)).toBe(true);
+    expect(isWithinAvailability({ ...afternoon, setup_minutes: 90 }, windows, TIME_ZONE)).toBe(false);
+    expect(isWithinAvailability(afternoon, windows, "Asia/Tokyo")).toBe(false);
+  });
+
+  it("lets a window run until midnight but not past it", () => {
+    // Wednesday Mar 4, 2026, 19:00 in New York
+    const meeting = { starts_at: "2026-03-05T00:00:00Z", ends_at: "2026-03-05T05:00:00Z" };
+    expect(isWithinAvailability(meeting, windows, TIME_ZONE)).toBe(true);
+    expect(isWithinAvailability({ ...meeting, ends_at: "2026-03-05T05:30:00Z" }, windows, TIME_ZONE)).toBe(false);
+  });
+});
+
+describe("formatAvailabilityWindow", () => {
+  it("shortens the weekday and drops seconds", () => {
+    expect(formatAvailabilityWindow(windows[0])).toBe("Sun 12:00–17:00");
+  });
+});
+
+describe("getAvailabilityIssue", () => {
+  const monday = { starts_at: "2026-03-02T15:00:00Z", ends_at: "2026-03-02T16:00:00Z" };
+
+  it("reports a blackout before room windows", () => {
+    expect(
+      getAvailabilityIssue(
+        { room_id: "hall", starts_at: "2026-07-07T15:00:00Z", ends_at: "2026-07-07T16:00:00Z" },
+        rooms,
+        windows,
+        blackouts,
+        TIME_ZONE
+      )
+    ).toBe('The building is closed for "Building repairs" (Jul 6, 2026 – Jul 10, 2026).');
+  });
+
+  it("names the room and its windows when a named room is closed", () => {
+    expect(
+      getAvailabilityIssue({ room_id: "chapel", additional_room_ids: ["hall"], ...monday }, rooms, windows, [], TIME_ZONE)
+    ).toBe("Fellowship Hall is only available Sun 12:00–17:00, Wed 18:00–24:00.");
+  });
+
+  it("checks whole-building events only against the rooms they name", () => {
+    expect(
+      getAvailabilityIssue({ room_id: "chapel", is_whole_building: true, ...monday }, rooms, windows, [], TIME_ZONE)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Room Availability Utility
+ * Weekly availability windows of rooms and building blackout periods, checked
+ * in the organization's timezone the same way as the events table trigger
+ */
+
+import { getWallClockTime, isValidTimeZone, type WallClockTime } from "./timezone";
+import { getBlockedRange, getReservedRooms, type BufferedTimes, type ReservableRoom, type RoomReservation } from "./rooms";
+
+// Minimal availability window shape (times are "HH:mm" or "HH:mm:ss", end may be 24:00)
+export interface AvailabilityWindow {
+  room_id: string;
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+}
+
+// Minimal blackout shape (dates are "yyyy-MM-dd", both inclusive)
+export interface Blackout {
+  title: string;
+  starts_on: string;
+  ends_on: string;
+}
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Wall-clock time in the zone, or in the viewer's zone when it is unknown
+const getLocalTime = (date: Date, timeZone?: string | null): WallClockTime =>
+  isValidTimeZone(timeZone)
+    ? getWallClockTime(date, timeZone!)
+    : {
+        year: date.getFullYear(),
+        month: date.getMonth() + 1,
+        day: date.getDate(),
+        hour: date.getHours(),
+        minute: date.getMinutes(),
+        second: date.getSeconds(),
+      };
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const toDateString = (time: WallClockTime) => `${time.year}-${pad(time.month)}-${pad(time.day)}`;
+
+const toDayNumber = (time: WallClockTime) => Date.UTC(time.year, time.month - 1, time.day) / 86400000;
+
+// Minutes since midnight of a "HH:mm[:ss]" time
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+// =====================================================
+// Blackout periods
+// =====================================================
+
+/**
+ * First blackout period overlapping the time an event holds its rooms
+ */
+export const findBlackout = <T extends Blackout>(
+  event: BufferedTimes,
+  blackouts: T[],
+  timeZone?: string | null
+): T | undefined => {
+  const { start, end } = getBlockedRange(event);
+  const firstDay = toDateString(getLocalTime(start, timeZone));
+  // An event ending at midnight does not touch the next day
+  const lastDay = toDateString(getLocalTime(new Date(end.getTime() - 1), timeZone));
+
+  return [...blackouts]
+    .sort((a, b) => a.starts_on.localeCompare(b.starts_on))
+    .find((blackout) => blackout.starts_on <= lastDay && blackout.ends_on >= firstDay);
+};
+
+/**
+ * Dates of a blackout period, e.g. "Jul 1, 2026" or "Jul 1, 2026 – Jul 7, 2026"
+ */
+export const formatBlackoutDates = (blackout: Blackout): string =>
+  blackout.starts_on === blackout.ends_on
+    ? formatDate(blackout.starts_on)
+    : `${formatDate(blackout.starts_on)} – ${formatDate(blackout.ends_on)}`;
+
+// =====================================================
+// Availability windows
+// =====================================================
+
+/**
+ * Whether an event's held time fits inside one of a room's windows. Rooms
+ * without windows are always available; a booking must start and end within
+ * the same window on the same day.
+ */
+export const isWithinAvailability = (
+  event: BufferedTimes,
+  windows: AvailabilityWindow[],
+  timeZone?: string | null
+): boolean => {
+  if (windows.length === 0) return true;
+
+  const { start, end } = getBlockedRange(event);
+  const localStart = getLocalTime(start, timeZone);
+  const localEnd = getLocalTime(end, timeZone);
+  const dayOfWeek = new Date(Date.UTC(localStart.year, localStart.month - 1, localStart.day)).getUTCDay();
+  const startMinutes = localStart.hour * 60 + localStart.minute;
+  const endMinutes =
+    (toDayNumber(localEnd) - toDayNumber(localStart)) * 1440 + localEnd.hour * 60 + localEnd.minute;
+
+  return windows.some(
+    (window) =>
+      window.day_of_week === dayOfWeek &&
+      startMinutes >= toMinutes(window.start_time) &&
+      endMinutes <= toMinutes(window.end_time)
+  );
+};
+
+/**
+ * Short description of a window, e.g. "Sun 12:00–17:00"
+ */
+export const formatAvailabilityWindow = (window: AvailabilityWindow): string =>
+  `${WEEKDAY_NAMES[window.day_of_week].slice(0, 3)} ${window.start_time.slice(0, 5)}–${window.end_time.slice(0, 5)}`;
+
+// =====================================================
+// Booking check
+// =====================================================
+
+/**
+ * Why an event cannot be booked at its time, or null when it can: a blackout
+ * period, or a named room outside its availability windows. Whole-building
+ * events are only checked against the rooms they name, like the database.
+ */
+export const getAvailabilityIssue = (
+  event: RoomReservation & BufferedTimes,
+  rooms: ReservableRoom[],
+  windows: AvailabilityWindow[],
+  blackouts: Blackout[],
+  timeZone?: string | null
+): string | null => {
+  const blackout = findBlackout(event, blackouts, timeZone);
+  if (blackout) {
+    return `The building is closed for "${blackout.title}" (${formatBlackoutDates(blackout)}).`;
+  }
+
+  const namedRooms = getReservedRooms({ ...event, is_whole_building: false }, rooms);
+  for (const room of namedRooms) {
+    const roomWindows = windows
+      .filter((window) => window.room_id === room.id)
+      .sort((a, b) => a.day_of_week - b.day_of_week || a.start_time.localeCompare(b.start_time));
+
+    if (!isWithinAvailability(event, roomWindows, timeZone)) {
+      return `${room.name} is only available ${roomWindows.map(formatAvailabilityWindow).join(", ")}.`;
+    }
+  }
+
+  return null;
+};
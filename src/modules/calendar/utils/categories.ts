@@ -0,0 +1,113 @@
+/**
+ * Event Category Utility
+ * Labels and colors of event categories and owning ministries, the color an
+ * event is drawn in, and filtering loaded events by category and ministry
+ */
+
+import type { EventCategory, EventColorBy, EventFilters } from "../types";
+
+// Minimal event shape for coloring and filtering
+export interface CategorizedEvent {
+  category?: EventCategory | null;
+  ministry_id?: string | null;
+  room?: { color?: string | null } | null;
+}
+
+// Color of events without a category or ministry
+export const UNASSIGNED_COLOR = "#94a3b8";
+
+// =====================================================
+// Categories
+// =====================================================
+
+export const EVENT_CATEGORY_LABELS: Record<EventCategory, string> = {
+  service: "Service",
+  rehearsal: "Rehearsal",
+  meeting: "Meeting",
+  outreach: "Outreach",
+  wedding: "Wedding",
+  funeral: "Funeral",
+};
+
+export const EVENT_CATEGORY_COLORS: Record<EventCategory, string> = {
+  service: "#2563eb",
+  rehearsal: "#9333ea",
+  meeting: "#0d9488",
+  outreach: "#ea580c",
+  wedding: "#db2777",
+  funeral: "#475569",
+};
+
+export const EVENT_CATEGORIES = Object.keys(EVENT_CATEGORY_LABELS) as EventCategory[];
+
+export const getCategoryLabel = (category: EventCategory | null | undefined): string =>
+  category ? EVENT_CATEGORY_LABELS[category] || category : "Uncategorized";
+
+// =====================================================
+// Ministries
+// =====================================================
+
+// Ministries have no color of their own; each id maps to one of these
+const MINISTRY_PALETTE = [
+  "#2563eb",
+  "#16a34a",
+  "#dc2626",
+  "#9333ea",
+  "#ea580c",
+  "#0891b2",
+  "#ca8a04",
+  "#db2777",
+  "#4f46e5",
+  "#65a30d",
+];
+
+/**
+ * Stable color of a ministry, the same wherever its events are shown
+ */
+export const getMinistryColor = (ministryId: string | null | undefined): string => {
+  if (!ministryId) return UNASSIGNED_COLOR;
+
+  let hash = 0;
+  for (let i = 0; i < ministryId.length; i++) {
+    hash = (hash * 31 + ministryId.charCodeAt(i)) | 0;
+  }
+  return MINISTRY_PALETTE[Math.abs(hash) % MINISTRY_PALETTE.length];
+};
+
+export const getMinistryName = (
+  ministryId: string | null | undefined,
+  ministries: { id: string; name: string }[] = []
+): string | null => (ministryId ? ministries.find((m) => m.id === ministryId)?.name || null : null);
+
+// =====================================================
+// Color and filters
+// =====================================================
+
+/**
+ * Color an event is drawn in: its main room's, its category's or its
+ * ministry's
+ */
+export const getEventColor = (event: CategorizedEvent, colorBy: EventColorBy = "room"): string => {
+  switch (colorBy) {
+    case "category":
+      return event.category ? EVENT_CATEGORY_COLORS[event.category] : UNASSIGNED_COLOR;
+    case "ministry":
+      return getMinistryColor(event.ministry_id);
+    default:
+      return event.room?.color || "#888";
+  }
+};
+
+/**
+ * Loaded events matching a category and owning ministry filter, like the
+ * category and ministry_id filters of the event queries
+ */
+export const filterEventsByCategory = <T extends CategorizedEvent>(
+  events: T[],
+  filters: Pick<EventFilters, "category" | "ministry_id">
+): T[] =>
+  events.filter(
+    (event) =>
+      (!filters.category || event.category === filters.category) &&
+      (!filters.ministry_id || event.ministry_id === filters.ministry_id)
+  );
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EMBED_OPTIONS, filterEmbedEvents, parseEmbedOptions } from "./embed";
+
+const parse = (query: string) => parseEmbedOptions(new URLSearchParams(query));
+
+describe("parseEmbedOptions", () => {
+  it("uses the defaults without parameters", () => {
+    expect(parse("")).toEqual(DEFAULT_EMBED_OPTIONS);
+  });
+
+  it("reads every option from the URL", () => {
+    expect(
+      parse("view=month&theme=dark&accent=1D4ED8&bg=transparent&room=Sanctuary, hall-2&category=service,meeting&max=25&days=30&header=0")
+    ).toEqual({
+      view: "month",
+      theme: "dark",
+      accent: "#1D4ED8",
+      transparent: true,
+      rooms: ["sanctuary", "hall-2"],
+      categories: ["service", "meeting"],
+      maxItems: 25,
+      days: 30,
+      showHeader: false,
+    });
+  });
+
+  it("falls back on invalid values and caps the limits", () => {
+    expect(parse("view=grid&theme=blue&accent=%23ggg&category=picnic&max=-3&days=5000&header=yes")).toEqual({
+      ...DEFAULT_EMBED_OPTIONS,
+      days: 365,
+    });
+    expect(parse("accent=%23abc&max=1000").accent).toBe("#abc");
+    expect(parse("max=1000").maxItems).toBe(100);
+  });
+});
+
+describe("filterEmbedEvents", () => {
+  const sanctuary = { id: "room-1", name: "Sanctuary" };
+  const hall = { id: "room-2", name: "Fellowship Hall" };
+  const event = (title: string, fields: Record<string, unknown>) => ({
+    title,
+    starts_at: "2026-03-01T15:00:00Z",
+    ends_at: "2026-03-01T16:00:00Z",
+    ...fields,
+  });
+  const events = [
+    event("Worship", { category: "service", reserved_rooms: [sanctuary] }),
+    event("Board", { category: "meeting", reserved_rooms: [hall] }),
+    event("Open house", { category: "outreach", is_whole_building: true }),
+    event("Untagged", { category: null, reserved_rooms: [hall] }),
+  ];
+  const titles = (query: string) => filterEmbedEvents(events, parse(query)).map((e) => e.title);
+
+  it("matches rooms by id or name, and whole-building events any room", () => {
+    expect(titles("room=sanctuary")).toEqual(["Worship", "Open house"]);
+    expect(titles("room=ROOM-2")).toEqual(["Board", "Open house", "Untagged"]);
+  });
+
+  it("needs one of the categories when some are given", () => {
+    expect(titles("category=meeting,outreach")).toEqual(["Board", "Open house"]);
+    expect(titles("category=meeting&room=sanctuary")).toEqual([]);
+    expect(titles("")).toHaveLength(4);
+  });
+});
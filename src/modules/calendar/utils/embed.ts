@@ -0,0 +1,124 @@
+/**
+ * Embed Utility
+ * Options of the embeddable public calendar widget, read from its URL, and
+ * which published events it shows
+ */
+
+import type { EventCategory } from "../types";
+import { EVENT_CATEGORIES } from "./categories";
+
+export type EmbedView = "list" | "month" | "agenda";
+
+export type EmbedTheme = "light" | "dark";
+
+// Widget options, all set through URL parameters
+export interface EmbedOptions {
+  view: EmbedView;
+  theme: EmbedTheme;
+  // Hex color of headings and highlights, e.g. "#1d4ed8"
+  accent: string | null;
+  // Let the host page's background show through
+  transparent: boolean;
+  // Room ids or names (lower-case) events must hold one of; empty for any room
+  rooms: string[];
+  // Categories events must have one of; empty for any category
+  categories: EventCategory[];
+  // Most events listed (list and agenda views)
+  maxItems: number;
+  // How many days ahead the list and agenda views look
+  days: number;
+  // Whether the organization's name is shown above the events
+  showHeader: boolean;
+}
+
+// Message the widget posts to its parent page when its height changes
+export const EMBED_RESIZE_MESSAGE = "alic-calendar:resize";
+
+export const EMBED_VIEWS: EmbedView[] = ["list", "month", "agenda"];
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = {
+  view: "list",
+  theme: "light",
+  accent: null,
+  transparent: false,
+  rooms: [],
+  categories: [],
+  maxItems: 10,
+  days: 90,
+  showHeader: true,
+};
+
+const MAX_EMBED_ITEMS = 100;
+const MAX_EMBED_DAYS = 365;
+
+// Minimal event shape the widget filters on
+export interface EmbeddableEvent {
+  starts_at: string;
+  ends_at: string;
+  category?: EventCategory | null;
+  is_whole_building?: boolean | null;
+  reserved_rooms?: { id: string; name: string }[];
+}
+
+// =====================================================
+// Options
+// =====================================================
+
+const parseList = (value: string | null): string[] =>
+  (value || "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+
+const parseBoundedInt = (value: string | null, fallback: number, max: number): number => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? Math.min(parsed, max) : fallback;
+};
+
+const parseFlag = (value: string | null, fallback: boolean): boolean => {
+  if (value === null) return fallback;
+  return ["1", "true", "yes"].includes(value.toLowerCase());
+};
+
+/**
+ * Widget options from URL parameters: view, theme, accent (hex, with or
+ * without "#"), bg=transparent, room and category (comma-separated), max,
+ * days and header=0. Unknown or invalid values fall back to the defaults.
+ */
+export const parseEmbedOptions = (params: URLSearchParams): EmbedOptions => {
+  const view = params.get("view") as EmbedView;
+  const accent = (params.get("accent") || "").replace(/^#/, "");
+
+  return {
+    view: EMBED_VIEWS.includes(view) ? view : DEFAULT_EMBED_OPTIONS.view,
+    theme: params.get("theme") === "dark" ? "dark" : "light",
+    accent: /^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(accent) ? `#${accent}` : null,
+    transparent: params.get("bg") === "transparent",
+    rooms: parseList(params.get("room")),
+    categories: parseList(params.get("category")).filter((category): category is EventCategory =>
+      EVENT_CATEGORIES.includes(category as EventCategory)
+    ),
+    maxItems: parseBoundedInt(params.get("max"), DEFAULT_EMBED_OPTIONS.maxItems, MAX_EMBED_ITEMS),
+    days: parseBoundedInt(params.get("days"), DEFAULT_EMBED_OPTIONS.days, MAX_EMBED_DAYS),
+    showHeader: parseFlag(params.get("header"), DEFAULT_EMBED_OPTIONS.showHeader),
+  };
+};
+
+// =====================================================
+// Events
+// =====================================================
+
+/**
+ * Events matching the widget's room and category filters. Whole-building
+ * events hold every room, so they match any room filter.
+ */
+export const filterEmbedEvents = <T extends EmbeddableEvent>(events: T[], options: EmbedOptions): T[] =>
+  events.filter((event) => {
+    if (options.categories.length > 0 && (!event.category || !options.categories.includes(event.category))) {
+      return false;
+    }
+    if (options.rooms.length === 0 || event.is_whole_building) return true;
+    return (event.reserved_rooms || []).some(
+      (room) => options.rooms.includes(room.id.toLowerCase()) || options.rooms.includes(room.name.toLowerCase())
+    );
+  });
@@ -0,0 +1,124 @@
+/**
+ * Event History Utility
+ * Labels and descriptions of the entries the record_event_history trigger
+ * writes to an event's audit trail
+ */
+
+import type { Json } from "@/shared/types";
+import type { EventHistory, EventHistoryAction, EventHistoryChange } from "../types";
+import { formatInTimeZone } from "./timezone";
+
+export const EVENT_HISTORY_ACTION_LABELS: Record<EventHistoryAction, string> = {
+  created: "Created",
+  edited: "Edited",
+  submitted: "Submitted for review",
+  held: "Placed on hold",
+  hold_promoted: "Hold promoted to review",
+  signed_off: "Signed off",
+  approved: "Approved",
+  auto_approved: "Approved automatically",
+  unapproved: "Sent back to review",
+  rejected: "Rejected",
+  published: "Published",
+  unpublished: "Unpublished",
+  status_changed: "Status changed",
+  occurrence_edited: "Occurrence changed",
+  occurrence_restored: "Occurrence restored",
+  deleted: "Deleted",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  starts_at: "Start",
+  ends_at: "End",
+  room_id: "Room",
+  additional_room_ids: "Additional rooms",
+  is_whole_building: "Whole building",
+  setup_minutes: "Setup",
+  teardown_minutes: "Teardown",
+  recurrence_rule: "Repeats",
+  recurrence_exdates: "Skipped dates",
+};
+
+/**
+ * Label of a history action, falling back to the raw action for entries
+ * written by newer versions of the trigger
+ */
+export const getHistoryActionLabel = (action: string): string =>
+  EVENT_HISTORY_ACTION_LABELS[action as EventHistoryAction] || action.replace(/_/g, " ");
+
+/**
+ * Fields an "edited" entry changed, in the order the trigger tracks them
+ */
+export const getHistoryChanges = (changes: Json | null): EventHistoryChange[] => {
+  if (!changes || typeof changes !== "object" || Array.isArray(changes)) return [];
+
+  const order = Object.keys(FIELD_LABELS);
+  return Object.entries(changes)
+    .map(([field, value]) => {
+      const change = (value || {}) as { from?: unknown; to?: unknown };
+      return { field, from: change.from ?? null, to: change.to ?? null };
+    })
+    .sort((a, b) => order.indexOf(a.field) - order.indexOf(b.field));
+};
+
+const formatValue = (
+  field: string,
+  value: unknown,
+  roomNames: Record<string, string>,
+  timeZone?: string | null
+): string => {
+  if (value === null || value === undefined || value === "") return "none";
+
+  switch (field) {
+    case "starts_at":
+    case "ends_at":
+      return formatInTimeZone(String(value), "MMM d, yyyy h:mm a", timeZone);
+    case "room_id":
+      return roomNames[String(value)] || "another room";
+    case "additional_room_ids":
+      return Array.isArray(value) && value.length > 0
+        ? value.map((id) => roomNames[String(id)] || "another room").join(", ")
+        : "none";
+    case "is_whole_building":
+      return value ? "yes" : "no";
+    case "setup_minutes":
+    case "teardown_minutes":
+      return `${value} min`;
+    case "recurrence_exdates":
+      return Array.isArray(value) ? `${value.length} date${value.length === 1 ? "" : "s"}` : String(value);
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * One edited field as text, e.g. "Room: Fellowship Hall → Sanctuary".
+ * Long text fields only say that they changed.
+ */
+export const formatHistoryChange = (
+  change: EventHistoryChange,
+  roomNames: Record<string, string> = {},
+  timeZone?: string | null
+): string => {
+  const label = FIELD_LABELS[change.field] || change.field.replace(/_/g, " ");
+  if (change.field === "description" || change.field === "recurrence_rule") {
+    return `${label} changed`;
+  }
+  return `${label}: ${formatValue(change.field, change.from, roomNames, timeZone)} → ${formatValue(
+    change.field,
+    change.to,
+    roomNames,
+    timeZone
+  )}`;
+};
+
+/**
+ * Short summary of an entry: its action and, for occurrences, which one
+ */
+export const describeHistoryEntry = (entry: EventHistory, timeZone?: string | null): string => {
+  const label = getHistoryActionLabel(entry.action);
+  if (!entry.occurrence_start || entry.event_id === entry.series_id) return label;
+  return `${label} (${formatInTimeZone(entry.occurrence_start, "MMM d, yyyy", timeZone)})`;
+};
@@ -0,0 +1,382 @@
+/**
+ * iCalendar Utility
+ * Parses RFC 5545 .ics content (VCALENDAR, VEVENT, VTIMEZONE) into plain event
+ * records with UTC times. Recurrence rules go through the RRULE module so
+ * unsupported parts are reported rather than dropped.
+ */
+
+import { addDays } from "date-fns";
+import { expandRRule } from "./recurrence";
+import { getUnsupportedRRuleParts, parseRRuleDetailed, serializeRRule } from "./rrule";
+import { isValidTimeZone, zonedTimeToUtc, type WallClockTime } from "./timezone";
+
+export interface ICSProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ICSComponent {
+  name: string;
+  properties: ICSProperty[];
+  components: ICSComponent[];
+}
+
+export interface ICSEvent {
+  uid: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  starts_at: string;
+  ends_at: string;
+  all_day: boolean;
+  // ICS STATUS (TENTATIVE, CONFIRMED, CANCELLED)
+  status: string | null;
+  recurrence_rule: string | null;
+  recurrence_exdates: string[];
+  // Original start of the occurrence this VEVENT replaces (RECURRENCE-ID)
+  recurrence_id: string | null;
+  warnings: string[];
+}
+
+export interface ICSCalendar {
+  name: string | null;
+  timezone: string | null;
+  events: ICSEvent[];
+  warnings: string[];
+}
+
+// Timezone observance (STANDARD / DAYLIGHT) from a VTIMEZONE
+interface Observance {
+  start: WallClockTime;
+  offsetFrom: number; // minutes
+  offsetTo: number; // minutes
+  rrule: string | null;
+  rdates: WallClockTime[];
+}
+
+// Resolves a TZID wall-clock time to an instant
+type ZoneResolver = (time: WallClockTime) => Date;
+
+// =====================================================
+// Lexing
+// =====================================================
+
+/**
+ * Split content into logical lines, joining folded continuation lines
+ */
+const unfoldLines = (content: string): string[] =>
+  content
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+
+/**
+ * Parse a content line (`NAME;PARAM=value:VALUE`), honouring quoted parameters
+ */
+const parseLine = (line: string): ICSProperty | null => {
+  let inQuotes = false;
+  let valueStart = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === ":" && !inQuotes) {
+      valueStart = i;
+      break;
+    }
+  }
+  if (valueStart === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, valueStart).match(/(?:[^;"]+|"[^"]*")+/g) || [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const separator = param.indexOf("=");
+    if (separator === -1) continue;
+    params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(valueStart + 1) };
+};
+
+/**
+ * Parse .ics content into its component tree (the returned root holds VCALENDARs)
+ */
+export const parseICSComponents = (content: string): ICSComponent => {
+  const root: ICSComponent = { name: "ROOT", properties: [], components: [] };
+  const stack: ICSComponent[] = [root];
+
+  for (const line of unfoldLines(content)) {
+    const property = parseLine(line);
+    if (!property) continue;
+
+    const current = stack[stack.length - 1];
+    if (property.name === "BEGIN") {
+      const component: ICSComponent = { name: property.value.trim().toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+
+  return root;
+};
+
+const getProperty = (component: ICSComponent, name: string) =>
+  component.properties.find((property) => property.name === name);
+
+const getProperties = (component: ICSComponent, name: string) =>
+  component.properties.filter((property) => property.name === name);
+
+/**
+ * Unescape a TEXT value
+ */
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+// =====================================================
+// Dates and time zones
+// =====================================================
+
+const parseWallClock = (value: string): { time: WallClockTime; isDate: boolean; utc: boolean } | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+  return {
+    time: { year: +y, month: +mo, day: +d, hour: +(h || 0), minute: +(mi || 0), second: +(s || 0) },
+    isDate: h === undefined,
+    utc: !!utc,
+  };
+};
+
+const parseOffset = (value: string | undefined): number => {
+  const match = value?.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) return 0;
+  const minutes = +match[2] * 60 + +match[3];
+  return match[1] === "-" ? -minutes : minutes;
+};
+
+const wallClockToLocalDate = (time: WallClockTime) =>
+  new Date(time.year, time.month - 1, time.day, time.hour, time.minute, time.second);
+
+const compareWallClock = (a: WallClockTime, b: WallClockTime) =>
+  Date.UTC(a.year, a.month - 1, a.day, a.hour, a.minute, a.second) -
+  Date.UTC(b.year, b.month - 1, b.day, b.hour, b.minute, b.second);
+
+/**
+ * Build a resolver from a VTIMEZONE: the offset in effect is the one of the
+ * latest observance onset at or before the wall-clock time
+ */
+const buildVTimezoneResolver = (vtimezone: ICSComponent): ZoneResolver => {
+  const observances: Observance[] = vtimezone.components
+    .filter((component) => component.name === "STANDARD" || component.name === "DAYLIGHT")
+    .map((component) => ({
+      start: parseWallClock(getProperty(component, "DTSTART")?.value || "")?.time || {
+        year: 1970, month: 1, day: 1, hour: 0, minute: 0, second: 0,
+      },
+      offsetFrom: parseOffset(getProperty(component, "TZOFFSETFROM")?.value),
+      offsetTo: parseOffset(getProperty(component, "TZOFFSETTO")?.value),
+      rrule: getProperty(component, "RRULE")?.value || null,
+      rdates: getProperties(component, "RDATE")
+        .flatMap((property) => property.value.split(","))
+        .map((value) => parseWallClock(value)?.time)
+        .filter((time): time is WallClockTime => !!time),
+    }));
+
+  return (time) => {
+    const target = wallClockToLocalDate(time);
+    let latest: { onset: number; offset: number } | null = null;
+
+    for (const observance of observances) {
+      const dtstart = wallClockToLocalDate(observance.start);
+      const onsets = [
+        ...(observance.rrule
+          ? expandRRule(observance.rrule, dtstart, addDays(target, -400), addDays(target, 1))
+          : [dtstart]),
+        ...observance.rdates.map(wallClockToLocalDate),
+      ].filter((onset) => onset <= target);
+
+      for (const onset of onsets) {
+        if (!latest || onset.getTime() > latest.onset) {
+          latest = { onset: onset.getTime(), offset: observance.offsetTo };
+        }
+      }
+    }
+
+    const earliest = [...observances].sort((a, b) => compareWallClock(a.start, b.start))[0];
+    const offset = latest ? latest.offset : earliest?.offsetFrom ?? 0;
+    return new Date(Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second) - offset * 60000);
+  };
+};
+
+/**
+ * Resolve a date or date-time property to an instant. UTC values are used as
+ * is, TZID values go through the file's VTIMEZONE or the runtime zone database,
+ * and floating values use the calendar's default zone (or the viewer's zone).
+ * All-day values start at midnight in `allDayZone` (or the viewer's zone).
+ */
+const resolveDate = (
+  property: ICSProperty,
+  zones: Map<string, ZoneResolver>,
+  defaultZone: string | null,
+  allDayZone: string | null
+): { date: Date; isDate: boolean } | null => {
+  const parsed = parseWallClock(property.value);
+  if (!parsed) return null;
+
+  const { time, isDate, utc } = parsed;
+  if (utc) {
+    return { date: new Date(Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second)), isDate };
+  }
+  // All-day values are kept on the same calendar day for the importing calendar
+  if (isDate || property.params.VALUE === "DATE") {
+    return {
+      date: isValidTimeZone(allDayZone) ? zonedTimeToUtc(time, allDayZone!) : wallClockToLocalDate(time),
+      isDate: true,
+    };
+  }
+
+  const tzid = property.params.TZID?.replace(/^\//, "");
+  if (tzid && zones.has(tzid)) return { date: zones.get(tzid)!(time), isDate };
+  if (tzid && isValidTimeZone(tzid)) return { date: zonedTimeToUtc(time, tzid), isDate };
+  if (!tzid && defaultZone && isValidTimeZone(defaultZone)) return { date: zonedTimeToUtc(time, defaultZone), isDate };
+
+  return { date: wallClockToLocalDate(time), isDate };
+};
+
+/**
+ * Parse an ISO 8601 duration (e.g. PT1H30M, P1D) in milliseconds
+ */
+const parseDuration = (value: string): number | null => {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    ((+(weeks || 0) * 7 + +(days || 0)) * 86400 + +(hours || 0) * 3600 + +(minutes || 0) * 60 + +(seconds || 0)) *
+    1000;
+  return sign === "-" ? -ms : ms;
+};
+
+// =====================================================
+// Events
+// =====================================================
+
+const parseEvent = (
+  vevent: ICSComponent,
+  zones: Map<string, ZoneResolver>,
+  defaultZone: string | null,
+  allDayZone: string | null
+): ICSEvent | null => {
+  const warnings: string[] = [];
+  const dtstartProperty = getProperty(vevent, "DTSTART");
+  const start = dtstartProperty && resolveDate(dtstartProperty, zones, defaultZone, allDayZone);
+  if (!start) return null;
+
+  let end: Date | null = null;
+  const dtend = getProperty(vevent, "DTEND");
+  const duration = getProperty(vevent, "DURATION");
+  if (dtend) {
+    end = resolveDate(dtend, zones, defaultZone, allDayZone)?.date || null;
+  } else if (duration) {
+    const ms = parseDuration(duration.value);
+    if (ms !== null) end = new Date(start.date.getTime() + ms);
+  }
+  if (!end || end <= start.date) {
+    // RFC 5545: a DATE start without an end lasts one day, a DATE-TIME start is instantaneous
+    end = start.isDate ? addDays(start.date, 1) : new Date(start.date.getTime() + 60 * 60 * 1000);
+    if (!start.isDate) warnings.push("No end time; imported as one hour");
+  }
+
+  let recurrenceRule: string | null = null;
+  const rruleProperties = getProperties(vevent, "RRULE");
+  if (rruleProperties.length > 0) {
+    const { rule, errors } = parseRRuleDetailed(rruleProperties[0].value);
+    if (rule) {
+      recurrenceRule = serializeRRule(rule);
+      const unsupported = getUnsupportedRRuleParts(rule);
+      if (unsupported.length > 0) warnings.push(`Recurrence parts not applied: ${unsupported.join("; ")}`);
+    } else {
+      warnings.push(`Recurrence rule could not be read (${errors.join(", ")}); imported as a single event`);
+    }
+    if (rruleProperties.length > 1) warnings.push("Only the first of several RRULEs is used");
+  }
+  if (getProperty(vevent, "RDATE")) warnings.push("Extra dates (RDATE) are not imported");
+
+  const exdates = getProperties(vevent, "EXDATE").flatMap((property) =>
+    property.value
+      .split(",")
+      .map((value) => resolveDate({ ...property, value }, zones, defaultZone, allDayZone)?.date.toISOString())
+      .filter((value): value is string => !!value)
+  );
+
+  const recurrenceIdProperty = getProperty(vevent, "RECURRENCE-ID");
+  const recurrenceId = recurrenceIdProperty
+    ? resolveDate(recurrenceIdProperty, zones, defaultZone, allDayZone)?.date.toISOString() || null
+    : null;
+
+  const text = (name: string) => {
+    const property = getProperty(vevent, name);
+    return property ? unescapeText(property.value).trim() || null : null;
+  };
+
+  return {
+    uid: getProperty(vevent, "UID")?.value.trim() || crypto.randomUUID(),
+    title: text("SUMMARY") || "Untitled event",
+    description: text("DESCRIPTION"),
+    location: text("LOCATION"),
+    starts_at: start.date.toISOString(),
+    ends_at: end.toISOString(),
+    all_day: start.isDate,
+    status: getProperty(vevent, "STATUS")?.value.trim().toUpperCase() || null,
+    recurrence_rule: recurrenceRule,
+    recurrence_exdates: exdates,
+    recurrence_id: recurrenceId,
+    warnings,
+  };
+};
+
+/**
+ * Parse .ics content into events with UTC times. `timeZone` is the importing
+ * calendar's zone: all-day events start at its midnight, and floating times use
+ * it when the file names no zone of its own (X-WR-TIMEZONE).
+ */
+export const parseICS = (content: string, timeZone?: string | null): ICSCalendar => {
+  const root = parseICSComponents(content);
+  const calendars = root.components.filter((component) => component.name === "VCALENDAR");
+  if (calendars.length === 0) {
+    throw new Error("This file is not an iCalendar (.ics) file");
+  }
+
+  const warnings: string[] = [];
+  const events: ICSEvent[] = [];
+  let name: string | null = null;
+  let timezone: string | null = null;
+
+  for (const calendar of calendars) {
+    name = name || (getProperty(calendar, "X-WR-CALNAME") ? unescapeText(getProperty(calendar, "X-WR-CALNAME")!.value) : null);
+    timezone = timezone || getProperty(calendar, "X-WR-TIMEZONE")?.value.trim() || null;
+
+    const zones = new Map<string, ZoneResolver>();
+    for (const vtimezone of calendar.components.filter((component) => component.name === "VTIMEZONE")) {
+      const tzid = getProperty(vtimezone, "TZID")?.value.trim().replace(/^\//, "");
+      // Prefer the runtime zone database for IANA names; it knows historical rules
+      if (tzid && !isValidTimeZone(tzid)) zones.set(tzid, buildVTimezoneResolver(vtimezone));
+    }
+
+    for (const vevent of calendar.components.filter((component) => component.name === "VEVENT")) {
+      const event = parseEvent(vevent, zones, timezone || timeZone || null, timeZone || null);
+      if (event) events.push(event);
+      else warnings.push(`Skipped an event without a valid start (${getProperty(vevent, "SUMMARY")?.value || "untitled"})`);
+    }
+  }
+
+  return { name, timezone, events, warnings };
+};
@@ -0,0 +1,19 @@
+/**
+ * Calendar Module Utilities
+ */
+
+export * from "./rrule";
+export * from "./recurrence";
+export * from "./timezone";
+export * from "./ical";
+export * from "./rooms";
+export * from "./availability";
+export * from "./approvals";
+export * from "./history";
+export * from "./categories";
+export * from "./registrations";
+export * from "./resources";
+export * from "./agenda";
+export * from "./embed";
+export * from "./signage";
+export * from "./timeline";
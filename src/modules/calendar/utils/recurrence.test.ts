@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { getSeriesEditChanges, isSameFieldValue } from "./recurrence";
+
+const occurrence = {
+  title: "Choir practice",
+  description: null,
+  room_id: "room-1",
+  additional_room_ids: ["room-2"],
+  setup_minutes: 15,
+  starts_at: "2026-03-05T23:00:00+00:00",
+  ends_at: "2026-03-06T00:30:00+00:00",
+};
+
+describe("isSameFieldValue", () => {
+  it("compares room lists by content", () => {
+    expect(isSameFieldValue(["room-2"], ["room-2"])).toBe(true);
+    expect(isSameFieldValue(["room-2", "room-3"], ["room-2"])).toBe(false);
+  });
+
+  it("matches an empty text field with a stored null", () => {
+    expect(isSameFieldValue("", null)).toBe(true);
+    expect(isSameFieldValue("Bring music", null)).toBe(false);
+  });
+});
+
+describe("getSeriesEditChanges", () => {
+  it("keeps only the fields the edit changed", () => {
+    expect(
+      getSeriesEditChanges(
+        {
+          ...occurrence,
+          description: "Bring music",
+          additional_room_ids: ["room-2"],
+          starts_at: "2026-03-05T23:00:00.000Z",
+          ends_at: "2026-03-06T00:30:00.000Z",
+        },
+        occurrence
+      )
+    ).toEqual({ description: "Bring music" });
+  });
+
+  it("sends both times when only the end moved", () => {
+    expect(
+      getSeriesEditChanges({ ...occurrence, ends_at: "2026-03-06T01:00:00.000Z" }, occurrence)
+    ).toEqual({ starts_at: occurrence.starts_at, ends_at: "2026-03-06T01:00:00.000Z" });
+  });
+});
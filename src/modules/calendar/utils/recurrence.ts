@@ -0,0 +1,83 @@
+/**
+ * Recurrence Utility
+ * Series expansion is shared with the edge functions (see
+ * supabase/functions/_shared/recurrence.ts); display helpers live here
+ */
+
+import { addMonths } from "date-fns";
+import { isSameInstant, type DateWindow } from "../../../../supabase/functions/_shared/recurrence";
+import { formatInTimeZone } from "./timezone";
+
+export * from "../../../../supabase/functions/_shared/recurrence";
+
+// Number of months on either side of today expanded when no window is given
+export const DEFAULT_EXPANSION_MONTHS = 12;
+
+/**
+ * Describe how a listed event relates to its recurring series, for display.
+ * Returns null for events that are not part of a series.
+ */
+export const describeOccurrence = (
+  event: {
+    starts_at: string;
+    is_recurring?: boolean | null;
+    series_id?: string;
+    parent_event_id?: string | null;
+    recurrence_id?: string | null;
+  },
+  timeZone?: string | null
+): string | null => {
+  if (event.parent_event_id && event.recurrence_id) {
+    return isSameInstant(event.starts_at, event.recurrence_id)
+      ? "Changed occurrence of a recurring series"
+      : `Moved from ${formatInTimeZone(event.recurrence_id, "EEE, MMM d 'at' h:mm a", timeZone)}`;
+  }
+  if (event.series_id || event.is_recurring) {
+    return "Recurring event";
+  }
+  return null;
+};
+
+/**
+ * Default expansion window around today
+ */
+export const getDefaultExpansionWindow = (now: Date = new Date()): DateWindow => ({
+  start: addMonths(now, -DEFAULT_EXPANSION_MONTHS),
+  end: addMonths(now, DEFAULT_EXPANSION_MONTHS),
+});
+
+/**
+ * Whether an edited field holds the value already stored. Room lists compare
+ * by content, and an empty text field matches a stored null.
+ */
+export const isSameFieldValue = (value: unknown, stored: unknown): boolean => {
+  if (Array.isArray(value) && Array.isArray(stored)) {
+    return value.length === stored.length && value.every((item, index) => item === stored[index]);
+  }
+  const blank = (v: unknown) => (v === "" || v === undefined ? null : v);
+  return blank(value) === blank(stored);
+};
+
+/**
+ * The part of an edit that differs from the occurrence it was made on, to
+ * apply to its whole series. A move keeps both the start and the end.
+ */
+export const getSeriesEditChanges = <T extends { starts_at?: string; ends_at?: string }>(
+  changes: T,
+  occurrence: object
+): Partial<T> => {
+  const stored = occurrence as Record<string, unknown>;
+  const result: Partial<T> = {};
+  for (const field of Object.keys(changes) as (keyof T & string)[]) {
+    if (field === "starts_at" || field === "ends_at") continue;
+    if (!isSameFieldValue(changes[field], stored[field])) result[field] = changes[field];
+  }
+
+  const moved = (field: "starts_at" | "ends_at") =>
+    !!changes[field] && !isSameInstant(changes[field]!, stored[field] as string);
+  if (moved("starts_at") || moved("ends_at")) {
+    result.starts_at = changes.starts_at;
+    result.ends_at = changes.ends_at;
+  }
+  return result;
+};
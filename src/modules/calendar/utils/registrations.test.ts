@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import type { EventRegistration } from "../types";
+import {
+  buildAttendanceTrends,
+  describeRegistrationCounts,
+  getCheckInUrl,
+  getRegistrationTarget,
+  getSpotsLeft,
+  searchRegistrations,
+  summarizeCheckIns,
+  willBeWaitlisted,
+} from "./registrations";
+
+describe("getRegistrationTarget", () => {
+  it("stores occurrences against their series and original start", () => {
+    expect(
+      getRegistrationTarget({
+        id: "override-1",
+        series_id: "series-1",
+        occurrence_start: "2026-03-01T15:00:00.000Z",
+      })
+    ).toEqual({ eventId: "series-1", occurrenceStart: "2026-03-01T15:00:00.000Z" });
+    expect(getRegistrationTarget({ id: "event-1" })).toEqual({ eventId: "event-1", occurrenceStart: null });
+  });
+});
+
+describe("places left", () => {
+  const counts = { capacity: 10, confirmed_count: 8, waitlisted_count: 0 };
+
+  it("counts confirmed people against the capacity", () => {
+    expect(getSpotsLeft(counts)).toBe(2);
+    expect(getSpotsLeft({ ...counts, confirmed_count: 12 })).toBe(0);
+    expect(getSpotsLeft({ ...counts, capacity: null })).toBeNull();
+  });
+
+  it("waitlists parties that do not fit and anyone behind a waitlist", () => {
+    expect(willBeWaitlisted(counts, 2)).toBe(false);
+    expect(willBeWaitlisted(counts, 3)).toBe(true);
+    expect(willBeWaitlisted({ ...counts, waitlisted_count: 1 }, 1)).toBe(true);
+    expect(willBeWaitlisted({ ...counts, capacity: null, waitlisted_count: 1 }, 20)).toBe(false);
+  });
+
+  it("describes the places taken", () => {
+    expect(describeRegistrationCounts(counts)).toBe("8 of 10 places taken");
+    expect(describeRegistrationCounts({ capacity: null, confirmed_count: 3, waitlisted_count: 2 })).toBe(
+      "3 registered, 2 on the waitlist"
+    );
+  });
+});
+
+describe("check-in", () => {
+  const registrations = [
+    { name: "Ada Park", email: "ada@example.org", status: "confirmed", headcount: 2, checked_in_at: "2026-03-01T15:05:00Z", is_walk_in: false },
+    { name: "Ben Ortiz", email: "ben@example.org", status: "confirmed", headcount: 3, checked_in_at: null, is_walk_in: false },
+    { name: "Cy Hart", email: "cy@example.org", status: "waitlisted", headcount: 1, checked_in_at: "2026-03-01T15:10:00Z", is_walk_in: false },
+    { name: "Dee Moss", email: null, status: "confirmed", headcount: 4, checked_in_at: "2026-03-01T15:20:00Z", is_walk_in: true },
+    { name: "Eli Fox", email: "eli@example.org", status: "cancelled", headcount: 5, checked_in_at: null, is_walk_in: false },
+  ] as EventRegistration[];
+
+  it("links occurrences to the check-in page by occurrence id", () => {
+    expect(
+      getCheckInUrl("https://app.example.org", {
+        event_id: "series-1",
+        occurrence_start: "2026-03-01T15:00:00Z",
+        check_in_token: "token-1",
+      })
+    ).toBe("https://app.example.org/check-in/series-1_20260301T150000Z?token=token-1");
+  });
+
+  it("searches names and emails", () => {
+    expect(searchRegistrations(registrations, " BEN ").map((r) => r.name)).toEqual(["Ben Ortiz"]);
+    expect(searchRegistrations(registrations, "example.org")).toHaveLength(4);
+    expect(searchRegistrations(registrations, "")).toBe(registrations);
+  });
+
+  it("sums headcounts of expected, arrived and walk-in people", () => {
+    expect(summarizeCheckIns(registrations)).toEqual({ expected: 5, checkedIn: 3, walkIns: 4 });
+  });
+});
+
+describe("buildAttendanceTrends", () => {
+  it("groups occurrences by series in date order, skipping standalone events", () => {
+    const row = (event_id: string, title: string, occurrence_start: string | null, checked_in_count: number) => ({
+      event_id,
+      title,
+      occurrence_start,
+      registered_count: 10,
+      checked_in_count,
+      walk_in_count: 1,
+    });
+
+    expect(
+      buildAttendanceTrends([
+        row("youth", "Youth night", "2026-03-13T23:00:00Z", 7),
+        row("gala", "Gala", null, 90),
+        row("youth", "Youth night", "2026-03-06T23:00:00Z", 5),
+        row("choir", "Choir", "2026-03-05T23:00:00Z", 8),
+      ])
+    ).toEqual([
+      {
+        series_id: "choir",
+        title: "Choir",
+        points: [{ occurrence_start: "2026-03-05T23:00:00Z", registered: 10, attended: 9, walk_ins: 1 }],
+      },
+      {
+        series_id: "youth",
+        title: "Youth night",
+        points: [
+          { occurrence_start: "2026-03-06T23:00:00Z", registered: 10, attended: 6, walk_ins: 1 },
+          { occurrence_start: "2026-03-13T23:00:00Z", registered: 10, attended: 8, walk_ins: 1 },
+        ],
+      },
+    ]);
+  });
+});
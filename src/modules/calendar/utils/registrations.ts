@@ -0,0 +1,164 @@
+/**
+ * Event Registration Utility
+ * Which event or occurrence a registration is for, how the places left are
+ * described, check-in links and attendance trends
+ */
+
+import type {
+  AttendanceTrend,
+  EventAttendance,
+  EventRegistration,
+  RegistrationCounts,
+  RegistrationStatus,
+} from "../types";
+import { buildOccurrenceId } from "./recurrence";
+
+// Most people one registration can be for, as checked by the database
+export const MAX_REGISTRATION_HEADCOUNT = 20;
+
+export const REGISTRATION_STATUS_LABELS: Record<RegistrationStatus, string> = {
+  confirmed: "Confirmed",
+  waitlisted: "Waitlisted",
+  cancelled: "Cancelled",
+};
+
+export const getRegistrationStatusLabel = (status: string): string =>
+  REGISTRATION_STATUS_LABELS[status as RegistrationStatus] || status;
+
+// Event or occurrence registrations are stored against
+export interface RegistrationTarget {
+  // Standalone event or recurring series
+  eventId: string;
+  // Original start of the occurrence, for series
+  occurrenceStart: string | null;
+}
+
+/**
+ * Registrations for an occurrence (expanded or overridden) belong to its
+ * series, keyed by the occurrence's original start
+ */
+export const getRegistrationTarget = (event: {
+  id: string;
+  series_id?: string;
+  occurrence_start?: string;
+}): RegistrationTarget =>
+  event.series_id
+    ? { eventId: event.series_id, occurrenceStart: event.occurrence_start || null }
+    : { eventId: event.id, occurrenceStart: null };
+
+/**
+ * Places left, or null when the event has no limit
+ */
+export const getSpotsLeft = (counts: RegistrationCounts): number | null =>
+  counts.capacity === null ? null : Math.max(counts.capacity - counts.confirmed_count, 0);
+
+/**
+ * Whether a new registration for this headcount would join the waitlist.
+ * Nobody skips people already waiting, even when their party would fit.
+ */
+export const willBeWaitlisted = (counts: RegistrationCounts, headcount: number): boolean => {
+  const spotsLeft = getSpotsLeft(counts);
+  if (spotsLeft === null) return false;
+  return counts.waitlisted_count > 0 || headcount > spotsLeft;
+};
+
+/**
+ * Short description of the places taken, e.g. "12 of 40 places taken"
+ */
+export const describeRegistrationCounts = (counts: RegistrationCounts): string => {
+  const taken =
+    counts.capacity === null
+      ? `${counts.confirmed_count} registered`
+      : `${counts.confirmed_count} of ${counts.capacity} places taken`;
+  return counts.waitlisted_count > 0 ? `${taken}, ${counts.waitlisted_count} on the waitlist` : taken;
+};
+
+// =====================================================
+// Check-in
+// =====================================================
+
+/**
+ * Id the check-in page of an event or occurrence is opened with
+ */
+export const getCheckInEventId = (target: RegistrationTarget): string =>
+  target.occurrenceStart ? buildOccurrenceId(target.eventId, target.occurrenceStart) : target.eventId;
+
+/**
+ * Link in a registration's QR code: opens the check-in page, which checks
+ * the registrant in when an organizer scans it
+ */
+export const getCheckInUrl = (
+  origin: string,
+  registration: Pick<EventRegistration, "event_id" | "occurrence_start" | "check_in_token">
+): string =>
+  `${origin}/check-in/${getCheckInEventId({
+    eventId: registration.event_id,
+    occurrenceStart: registration.occurrence_start,
+  })}?token=${registration.check_in_token}`;
+
+/**
+ * Registrations matching a name or email search, check-in order kept
+ */
+export const searchRegistrations = <T extends Pick<EventRegistration, "name" | "email">>(
+  registrations: T[],
+  query: string
+): T[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return registrations;
+  return registrations.filter(
+    (registration) =>
+      registration.name.toLowerCase().includes(needle) || registration.email?.toLowerCase().includes(needle)
+  );
+};
+
+/**
+ * People expected and arrived so far, counted in headcount
+ */
+export const summarizeCheckIns = (registrations: EventRegistration[]) => {
+  const active = registrations.filter((registration) => registration.status !== "cancelled");
+  const sum = (list: EventRegistration[]) => list.reduce((total, registration) => total + registration.headcount, 0);
+
+  return {
+    expected: sum(active.filter((r) => r.status === "confirmed" && !r.is_walk_in)),
+    checkedIn: sum(active.filter((r) => r.checked_in_at && !r.is_walk_in)),
+    walkIns: sum(active.filter((r) => r.is_walk_in)),
+  };
+};
+
+// =====================================================
+// Attendance
+// =====================================================
+
+/**
+ * Attendance of each recurring series over its occurrences, oldest first
+ */
+export const buildAttendanceTrends = (
+  rows: (Pick<
+    EventAttendance,
+    "event_id" | "occurrence_start" | "registered_count" | "checked_in_count" | "walk_in_count"
+  > & { title: string })[]
+): AttendanceTrend[] => {
+  const trends = new Map<string, AttendanceTrend>();
+
+  for (const row of rows) {
+    if (!row.occurrence_start) continue;
+
+    const trend = trends.get(row.event_id) || { series_id: row.event_id, title: row.title, points: [] };
+    trend.points.push({
+      occurrence_start: row.occurrence_start,
+      registered: row.registered_count,
+      attended: row.checked_in_count + row.walk_in_count,
+      walk_ins: row.walk_in_count,
+    });
+    trends.set(row.event_id, trend);
+  }
+
+  return [...trends.values()]
+    .map((trend) => ({
+      ...trend,
+      points: trend.points.sort(
+        (a, b) => new Date(a.occurrence_start).getTime() - new Date(b.occurrence_start).getTime()
+      ),
+    }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeResourceShortage,
+  findResourceShortages,
+  formatResourceRequest,
+  getResourceRequestEventId,
+} from "./resources";
+
+const resources = [
+  { id: "projector", name: "Projector", quantity: 2 },
+  { id: "chairs", name: "Chairs", quantity: 100 },
+  { id: "coffee", name: "Coffee service", quantity: null },
+];
+
+const usage = (event_id: string, starts_at: string, ends_at: string, quantity: number, resource_id = "projector") => ({
+  event_id,
+  title: event_id,
+  starts_at,
+  ends_at,
+  requests: [{ resource_id, quantity }],
+});
+
+const booking = { starts_at: "2026-03-01T15:00:00Z", ends_at: "2026-03-01T17:00:00Z" };
+
+describe("getResourceRequestEventId", () => {
+  it("stores requests of occurrences against their series", () => {
+    expect(getResourceRequestEventId({ id: "series_20260301T150000Z", series_id: "series" })).toBe("series");
+    expect(getResourceRequestEventId({ id: "override", parent_event_id: "series" })).toBe("series");
+    expect(getResourceRequestEventId({ id: "event" })).toBe("event");
+  });
+});
+
+describe("formatResourceRequest", () => {
+  it("shows the quantity only when more than one is asked for", () => {
+    expect(formatResourceRequest({ resource_id: "chairs", quantity: 40 }, resources[1])).toBe("40 × Chairs");
+    expect(formatResourceRequest({ resource_id: "projector", quantity: 1 }, resources[0])).toBe("Projector");
+    expect(formatResourceRequest({ resource_id: "gone", quantity: 1 })).toBe("Removed resource");
+  });
+});
+
+describe("findResourceShortages", () => {
+  it("counts only bookings in use at the same instant", () => {
+    // One projector in use until 16:00 and another from 16:00, never both
+    const others = [
+      usage("morning", "2026-03-01T14:00:00Z", "2026-03-01T16:00:00Z", 1),
+      usage("afternoon", "2026-03-01T16:00:00Z", "2026-03-01T18:00:00Z", 1),
+    ];
+
+    expect(findResourceShortages(booking, [{ resource_id: "projector", quantity: 1 }], resources, others)).toEqual([]);
+    expect(findResourceShortages(booking, [{ resource_id: "projector", quantity: 2 }], resources, others)).toEqual([
+      {
+        resource_id: "projector",
+        resource_name: "Projector",
+        available: 2,
+        requested: 2,
+        in_use: 1,
+        occurrence_start: booking.starts_at,
+        bookings: [
+          { event_id: "morning", title: "morning", starts_at: others[0].starts_at, ends_at: others[0].ends_at, quantity: 1 },
+          { event_id: "afternoon", title: "afternoon", starts_at: others[1].starts_at, ends_at: others[1].ends_at, quantity: 1 },
+        ],
+      },
+    ]);
+  });
+
+  it("includes setup and teardown of both bookings", () => {
+    const next = [{ ...usage("next", "2026-03-01T17:30:00Z", "2026-03-01T18:30:00Z", 2), setup_minutes: 15 }];
+
+    expect(findResourceShortages(booking, [{ resource_id: "projector", quantity: 1 }], resources, next)).toEqual([]);
+    expect(
+      findResourceShortages({ ...booking, teardown_minutes: 30 }, [{ resource_id: "projector", quantity: 1 }], resources, next)
+    ).toHaveLength(1);
+  });
+
+  it("never reports resources without a quantity", () => {
+    const others = [usage("brunch", booking.starts_at, booking.ends_at, 5, "coffee")];
+    expect(findResourceShortages(booking, [{ resource_id: "coffee", quantity: 5 }], resources, others)).toEqual([]);
+  });
+});
+
+describe("describeResourceShortage", () => {
+  it("shows what is free against what is requested", () => {
+    expect(
+      describeResourceShortage({
+        resource_id: "chairs",
+        resource_name: "Chairs",
+        available: 100,
+        requested: 40,
+        in_use: 80,
+        occurrence_start: booking.starts_at,
+        bookings: [],
+      })
+    ).toBe("Chairs: 20 of 100 free, 40 requested");
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Event Resource Utility
+ * Labels of resource kinds, which event a resource request is stored against
+ * and whether overlapping bookings ask for more of a resource than there is
+ */
+
+import type { Resource, ResourceKind, ResourceShortage } from "../types";
+import { blockedRangesOverlap, getBlockedRange, type BufferedTimes } from "./rooms";
+
+export const RESOURCE_KINDS: ResourceKind[] = ["equipment", "staff", "service"];
+
+export const RESOURCE_KIND_LABELS: Record<ResourceKind, string> = {
+  equipment: "Equipment",
+  staff: "Staff",
+  service: "Service",
+};
+
+export const getResourceKindLabel = (kind: string): string =>
+  RESOURCE_KIND_LABELS[kind as ResourceKind] || kind;
+
+// A resource and how many of it an event asks for
+export interface RequestedResource {
+  resource_id: string;
+  quantity: number;
+}
+
+// Resources another booking holds over its times
+export interface ResourceUsage extends BufferedTimes {
+  event_id: string;
+  title: string;
+  requests: RequestedResource[];
+}
+
+// =====================================================
+// Requests
+// =====================================================
+
+/**
+ * Requests of an occurrence (expanded or overridden) belong to its series
+ */
+export const getResourceRequestEventId = (event: {
+  id: string;
+  series_id?: string;
+  parent_event_id?: string | null;
+}): string => event.series_id || event.parent_event_id || event.id;
+
+/**
+ * Short label of a request, e.g. "Projector" or "40 × Chairs"
+ */
+export const formatResourceRequest = (request: RequestedResource, resource?: Pick<Resource, "name">): string => {
+  const name = resource?.name || "Removed resource";
+  return request.quantity > 1 ? `${request.quantity} × ${name}` : name;
+};
+
+// =====================================================
+// Double-booking
+// =====================================================
+
+/**
+ * Most of a resource other bookings use at any one time during a booking.
+ * Usage only rises when a booking starts, so those instants are enough.
+ */
+const getPeakUsage = (booking: BufferedTimes, usages: { range: { start: Date; end: Date }; quantity: number }[]) => {
+  const range = getBlockedRange(booking);
+  const instants = [
+    range.start,
+    ...usages.map((usage) => usage.range.start).filter((start) => start > range.start && start < range.end),
+  ];
+
+  return Math.max(
+    0,
+    ...instants.map((instant) =>
+      usages
+        .filter((usage) => usage.range.start <= instant && usage.range.end > instant)
+        .reduce((total, usage) => total + usage.quantity, 0)
+    )
+  );
+};
+
+/**
+ * Requested resources a booking would double-book: those whose other
+ * bookings, at their busiest during the booking's held times, leave fewer
+ * free than it asks for. Resources without a quantity are never short.
+ */
+export const findResourceShortages = (
+  booking: BufferedTimes,
+  requested: RequestedResource[],
+  resources: Pick<Resource, "id" | "name" | "quantity">[],
+  others: ResourceUsage[]
+): ResourceShortage[] => {
+  const overlapping = others.filter((other) => blockedRangesOverlap(other, booking));
+
+  return requested.flatMap((request) => {
+    const resource = resources.find((r) => r.id === request.resource_id);
+    if (!resource || resource.quantity === null) return [];
+
+    const usages = overlapping
+      .map((other) => ({
+        other,
+        quantity: other.requests
+          .filter((r) => r.resource_id === request.resource_id)
+          .reduce((total, r) => total + r.quantity, 0),
+      }))
+      .filter((usage) => usage.quantity > 0);
+
+    const inUse = getPeakUsage(
+      booking,
+      usages.map(({ other, quantity }) => ({ range: getBlockedRange(other), quantity }))
+    );
+    if (inUse + request.quantity <= resource.quantity) return [];
+
+    return [
+      {
+        resource_id: resource.id,
+        resource_name: resource.name,
+        available: resource.quantity,
+        requested: request.quantity,
+        in_use: inUse,
+        occurrence_start: booking.starts_at,
+        bookings: usages.map(({ other, quantity }) => ({
+          event_id: other.event_id,
+          title: other.title,
+          starts_at: other.starts_at,
+          ends_at: other.ends_at,
+          quantity,
+        })),
+      },
+    ];
+  });
+};
+
+/**
+ * Description of a shortage, e.g. "Projector: 1 of 2 free, 2 requested"
+ */
+export const describeResourceShortage = (shortage: ResourceShortage): string => {
+  const free = Math.max(shortage.available - shortage.in_use, 0);
+  return `${shortage.resource_name}: ${free} of ${shortage.available} free, ${shortage.requested} requested`;
+};
@@ -0,0 +1,189 @@
+/**
+ * Room Reservation Utility
+ * Rooms held by an event (its main room, additional rooms or the whole building),
+ * the time they are held for, including setup and teardown buffers, and how
+ * well a room fits a booking's size and equipment needs
+ */
+
+// Longest setup or teardown buffer, in minutes (enforced by the events table)
+export const MAX_BUFFER_MINUTES = 1440;
+
+// Minimal event shape describing what it reserves
+export interface RoomReservation {
+  room_id: string;
+  additional_room_ids?: string[] | null;
+  is_whole_building?: boolean | null;
+}
+
+// Event times with the buffers around them
+export interface BufferedTimes {
+  starts_at: string;
+  ends_at: string;
+  setup_minutes?: number | null;
+  teardown_minutes?: number | null;
+}
+
+// Minimal room shape needed to compare and label reservations
+export interface ReservableRoom {
+  id: string;
+  name: string;
+  color?: string;
+  allow_overlap?: boolean;
+}
+
+// =====================================================
+// Reserved rooms
+// =====================================================
+
+/**
+ * Ids of the rooms an event names: main room first, then additional rooms.
+ * Whole-building events reserve every room but only name these.
+ */
+export const getReservedRoomIds = (event: RoomReservation): string[] =>
+  Array.from(new Set([event.room_id, ...(event.additional_room_ids || [])].filter(Boolean)));
+
+/**
+ * Whether an event holds a room
+ */
+export const reservesRoom = (event: RoomReservation, roomId: string): boolean =>
+  !!event.is_whole_building || getReservedRoomIds(event).includes(roomId);
+
+/**
+ * Rooms an event holds, in reservation order. Whole-building events get every
+ * room, with the named ones first.
+ */
+export const getReservedRooms = <T extends ReservableRoom>(event: RoomReservation, rooms: T[]): T[] => {
+  const byId = new Map(rooms.map((room) => [room.id, room]));
+  const named = getReservedRoomIds(event)
+    .map((id) => byId.get(id))
+    .filter((room): room is T => !!room);
+
+  if (!event.is_whole_building) return named;
+  return [...named, ...rooms.filter((room) => !named.includes(room))];
+};
+
+/**
+ * Whether two reservations would double-book a room. Rooms that allow overlap
+ * never conflict; a whole-building reservation conflicts with everything.
+ */
+export const reservationsConflict = (
+  a: RoomReservation,
+  b: RoomReservation,
+  rooms: ReservableRoom[]
+): boolean => {
+  if (a.is_whole_building || b.is_whole_building) return true;
+
+  const overlapAllowed = new Set(rooms.filter((room) => room.allow_overlap).map((room) => room.id));
+  const held = new Set(getReservedRoomIds(b));
+  return getReservedRoomIds(a).some((id) => held.has(id) && !overlapAllowed.has(id));
+};
+
+/**
+ * Short label of an event's rooms, e.g. "Sanctuary + 2 rooms" or "Whole building"
+ */
+export const formatReservedRooms = (
+  event: RoomReservation,
+  rooms: ReservableRoom[],
+  options: { full?: boolean } = {}
+): string => {
+  if (event.is_whole_building) return "Whole building";
+
+  const names = getReservedRooms(event, rooms).map((room) => room.name);
+  if (names.length <= 1 || options.full) return names.join(", ");
+  return `${names[0]} + ${names.length - 1} ${names.length === 2 ? "room" : "rooms"}`;
+};
+
+// =====================================================
+// Setup and teardown buffers
+// =====================================================
+
+/**
+ * Time an event holds its rooms: event time widened by setup and teardown
+ */
+export const getBlockedRange = (event: BufferedTimes): { start: Date; end: Date } => ({
+  start: new Date(new Date(event.starts_at).getTime() - (event.setup_minutes || 0) * 60 * 1000),
+  end: new Date(new Date(event.ends_at).getTime() + (event.teardown_minutes || 0) * 60 * 1000),
+});
+
+/**
+ * Whether the held times of two events overlap
+ */
+export const blockedRangesOverlap = (a: BufferedTimes, b: BufferedTimes): boolean => {
+  const first = getBlockedRange(a);
+  const second = getBlockedRange(b);
+  return first.start < second.end && first.end > second.start;
+};
+
+/**
+ * Short description of buffers, e.g. "30 min setup, 15 min teardown"
+ */
+export const formatBuffers = (event: BufferedTimes): string =>
+  [
+    event.setup_minutes ? `${event.setup_minutes} min setup` : null,
+    event.teardown_minutes ? `${event.teardown_minutes} min teardown` : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+// =====================================================
+// Room finder
+// =====================================================
+
+// What a booking needs from a room
+export interface RoomRequirements {
+  attendees?: number | null;
+  features?: string[];
+}
+
+// How a room measures up against a booking's needs
+export interface RoomFit {
+  // Seats left over; null when the room's capacity is unknown or no size was asked for
+  spareSeats: number | null;
+  fitsCapacity: boolean;
+  missingFeatures: string[];
+}
+
+const normalizeFeature = (feature: string) => feature.trim().toLowerCase();
+
+/**
+ * Compare a room's capacity and features with what a booking needs.
+ * Rooms of unknown capacity are assumed to fit.
+ */
+export const getRoomFit = (
+  room: { capacity?: number | null; features?: string[] | null },
+  requirements: RoomRequirements
+): RoomFit => {
+  const offered = new Set((room.features || []).map(normalizeFeature));
+  const missingFeatures = (requirements.features || []).filter(
+    (feature) => !offered.has(normalizeFeature(feature))
+  );
+  const spareSeats =
+    requirements.attendees && room.capacity != null ? room.capacity - requirements.attendees : null;
+
+  return { spareSeats, fitsCapacity: spareSeats === null || spareSeats >= 0, missingFeatures };
+};
+
+/**
+ * Order rooms from best to worst fit: rooms that seat everyone with every
+ * feature first, then by missing features, then by fewest empty seats (rooms
+ * of unknown size after sized ones), then by name
+ */
+export const rankRoomsByFit = <T extends ReservableRoom & { capacity?: number | null; features?: string[] | null }>(
+  rooms: T[],
+  requirements: RoomRequirements
+): (T & { fit: RoomFit })[] =>
+  rooms
+    .map((room) => ({ ...room, fit: getRoomFit(room, requirements) }))
+    .sort((a, b) => {
+      if (a.fit.fitsCapacity !== b.fit.fitsCapacity) return a.fit.fitsCapacity ? -1 : 1;
+      if (a.fit.missingFeatures.length !== b.fit.missingFeatures.length) {
+        return a.fit.missingFeatures.length - b.fit.missingFeatures.length;
+      }
+      if (a.fit.spareSeats !== b.fit.spareSeats) {
+        if (a.fit.spareSeats === null) return 1;
+        if (b.fit.spareSeats === null) return -1;
+        // Too-small rooms: the closest to fitting first
+        return a.fit.fitsCapacity ? a.fit.spareSeats - b.fit.spareSeats : b.fit.spareSeats - a.fit.spareSeats;
+      }
+      return a.name.localeCompare(b.name);
+    });
@@ -0,0 +1,6 @@
+/**
+ * RRULE Utility
+ * Shared with the edge functions; see supabase/functions/_shared/rrule.ts
+ */
+
+export * from "../../../../supabase/functions/_shared/rrule";
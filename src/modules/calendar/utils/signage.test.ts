@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SIGNAGE_SETTINGS,
+  getSignageEventStates,
+  getSignageWindow,
+  groupEventsByRoom,
+  parseSignageSettings,
+} from "./signage";
+
+describe("parseSignageSettings", () => {
+  it("falls back to the defaults when nothing is stored", () => {
+    expect(parseSignageSettings(null)).toEqual(DEFAULT_SIGNAGE_SETTINGS);
+    expect(parseSignageSettings({ timezone: "UTC" })).toEqual(DEFAULT_SIGNAGE_SETTINGS);
+  });
+
+  it("keeps valid settings and replaces invalid ones", () => {
+    expect(
+      parseSignageSettings({
+        signage: {
+          enabled: false,
+          title: "  Welcome  ",
+          range: "month",
+          room_ids: ["hall", 3],
+          refresh_seconds: 5,
+          scroll_speed: 80,
+          theme: "light",
+          show_clock: "no",
+        },
+      })
+    ).toEqual({
+      enabled: false,
+      title: "Welcome",
+      range: DEFAULT_SIGNAGE_SETTINGS.range,
+      room_ids: ["hall"],
+      refresh_seconds: DEFAULT_SIGNAGE_SETTINGS.refresh_seconds,
+      scroll_speed: 80,
+      theme: "light",
+      show_clock: DEFAULT_SIGNAGE_SETTINGS.show_clock,
+    });
+  });
+});
+
+describe("getSignageWindow", () => {
+  it("covers whole days in the organization's time zone", () => {
+    expect(getSignageWindow("today", "2026-03-07", "America/New_York")).toEqual({
+      start: new Date("2026-03-07T05:00:00Z"),
+      end: new Date("2026-03-08T05:00:00Z"),
+    });
+  });
+
+  it("ends a week later, across a clock change", () => {
+    expect(getSignageWindow("week", "2026-03-07", "America/New_York")).toEqual({
+      start: new Date("2026-03-07T05:00:00Z"),
+      end: new Date("2026-03-14T04:00:00Z"),
+    });
+  });
+});
+
+describe("groupEventsByRoom", () => {
+  const hall = { id: "hall", name: "Fellowship Hall" };
+  const chapel = { id: "chapel", name: "Chapel" };
+  const events = [
+    { id: "lunch", starts_at: "2026-03-07T17:00:00Z", ends_at: "2026-03-07T18:00:00Z", reserved_rooms: [hall] },
+    { id: "prayer", starts_at: "2026-03-07T14:00:00Z", ends_at: "2026-03-07T15:00:00Z", reserved_rooms: [chapel, hall] },
+    { id: "open house", starts_at: "2026-03-07T15:00:00Z", ends_at: "2026-03-07T20:00:00Z", is_whole_building: true },
+  ];
+
+  it("lists whole-building events first, then rooms by name", () => {
+    expect(
+      groupEventsByRoom(events).map(({ room, events }) => [room?.name ?? null, events.map((event) => event.id)])
+    ).toEqual([
+      [null, ["open house"]],
+      ["Chapel", ["prayer"]],
+      ["Fellowship Hall", ["prayer", "lunch"]],
+    ]);
+  });
+
+  it("leaves out rooms the display is not set to show", () => {
+    expect(groupEventsByRoom(events, ["hall"]).map(({ room }) => room?.id ?? null)).toEqual([null, "hall"]);
+  });
+});
+
+describe("getSignageEventStates", () => {
+  it("marks events under way and the first one still to come", () => {
+    const states = getSignageEventStates(
+      [
+        { id: "breakfast", starts_at: "2026-03-07T13:00:00Z", ends_at: "2026-03-07T14:00:00Z" },
+        { id: "class", starts_at: "2026-03-07T14:00:00Z", ends_at: "2026-03-07T16:00:00Z" },
+        { id: "lunch", starts_at: "2026-03-07T17:00:00Z", ends_at: "2026-03-07T18:00:00Z" },
+        { id: "dinner", starts_at: "2026-03-07T16:30:00Z", ends_at: "2026-03-07T17:30:00Z" },
+      ],
+      new Date("2026-03-07T15:00:00Z")
+    );
+
+    expect(Object.fromEntries(states)).toEqual({ class: "current", dinner: "next" });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Signage Utility
+ * Settings of an organization's lobby display, the window of events it
+ * shows, and how those events are grouped by room and highlighted
+ */
+
+import { addDays } from "date-fns";
+import type { SignageRange, SignageSettings } from "../types";
+import { fromZonedTime } from "./timezone";
+
+export const SIGNAGE_RANGE_LABELS: Record<SignageRange, string> = {
+  today: "Today",
+  week: "This week",
+};
+
+export const SIGNAGE_REFRESH_OPTIONS = [60, 300, 900];
+
+export const SIGNAGE_SCROLL_SPEEDS = [
+  { value: 0, label: "Off" },
+  { value: 20, label: "Slow" },
+  { value: 40, label: "Normal" },
+  { value: 80, label: "Fast" },
+];
+
+export const DEFAULT_SIGNAGE_SETTINGS: SignageSettings = {
+  enabled: true,
+  title: null,
+  range: "week",
+  room_ids: [],
+  refresh_seconds: 300,
+  scroll_speed: 40,
+  theme: "dark",
+  show_clock: true,
+};
+
+// Shortest refresh interval accepted from stored settings
+const MIN_REFRESH_SECONDS = 30;
+
+// Minimal event shape the display groups and highlights
+export interface SignageEvent {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  is_whole_building?: boolean | null;
+  reserved_rooms?: { id: string; name: string; color?: string | null }[];
+}
+
+// Events of one room on the display; the room is null for whole-building events
+export interface SignageRoomGroup<T extends SignageEvent> {
+  room: { id: string; name: string; color?: string | null } | null;
+  events: T[];
+}
+
+export type SignageEventState = "current" | "next";
+
+// =====================================================
+// Settings
+// =====================================================
+
+/**
+ * Lobby display settings from an organization's settings, with defaults for
+ * anything missing or invalid
+ */
+export const parseSignageSettings = (settings: Record<string, unknown> | null | undefined): SignageSettings => {
+  const stored = (settings?.signage || {}) as Partial<SignageSettings>;
+  const defaults = DEFAULT_SIGNAGE_SETTINGS;
+
+  return {
+    enabled: typeof stored.enabled === "boolean" ? stored.enabled : defaults.enabled,
+    title: typeof stored.title === "string" && stored.title.trim() ? stored.title.trim() : null,
+    range: stored.range && stored.range in SIGNAGE_RANGE_LABELS ? stored.range : defaults.range,
+    room_ids: Array.isArray(stored.room_ids) ? stored.room_ids.filter((id) => typeof id === "string") : [],
+    refresh_seconds:
+      typeof stored.refresh_seconds === "number" && stored.refresh_seconds >= MIN_REFRESH_SECONDS
+        ? stored.refresh_seconds
+        : defaults.refresh_seconds,
+    scroll_speed:
+      typeof stored.scroll_speed === "number" && stored.scroll_speed >= 0 ? stored.scroll_speed : defaults.scroll_speed,
+    theme: stored.theme === "light" || stored.theme === "dark" ? stored.theme : defaults.theme,
+    show_clock: typeof stored.show_clock === "boolean" ? stored.show_clock : defaults.show_clock,
+  };
+};
+
+// =====================================================
+// Events
+// =====================================================
+
+/**
+ * Instants a display covers: from the start of `today` ("yyyy-MM-dd" in the
+ * organization's zone) to the end of it, or to the end of the sixth day after it
+ */
+export const getSignageWindow = (
+  range: SignageRange,
+  today: string,
+  timeZone?: string | null
+): { start: Date; end: Date } => {
+  const day = new Date(`${today}T00:00:00`);
+  return {
+    start: fromZonedTime(day, timeZone),
+    end: fromZonedTime(addDays(day, range === "today" ? 1 : 7), timeZone),
+  };
+};
+
+/**
+ * Events grouped by the rooms they hold, rooms in name order and events by
+ * start. Whole-building events form their own group, listed first. Rooms not
+ * in `roomIds` are left out unless it is empty.
+ */
+export const groupEventsByRoom = <T extends SignageEvent>(events: T[], roomIds: string[] = []): SignageRoomGroup<T>[] => {
+  const sorted = [...events].sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime());
+  const wholeBuilding = sorted.filter((event) => event.is_whole_building);
+  const byRoom = new Map<string, SignageRoomGroup<T>>();
+
+  sorted
+    .filter((event) => !event.is_whole_building)
+    .forEach((event) => {
+      (event.reserved_rooms || [])
+        .filter((room) => roomIds.length === 0 || roomIds.includes(room.id))
+        .forEach((room) => {
+          const group = byRoom.get(room.id) || { room, events: [] };
+          group.events.push(event);
+          byRoom.set(room.id, group);
+        });
+    });
+
+  const groups = Array.from(byRoom.values()).sort((a, b) => a.room!.name.localeCompare(b.room!.name));
+  return wholeBuilding.length > 0 ? [{ room: null, events: wholeBuilding }, ...groups] : groups;
+};
+
+/**
+ * Which of a room's events are happening now and which comes next
+ */
+export const getSignageEventStates = (events: SignageEvent[], now: Date): Map<string, SignageEventState> => {
+  const states = new Map<string, SignageEventState>();
+  const time = now.getTime();
+
+  events
+    .filter((event) => new Date(event.starts_at).getTime() <= time && new Date(event.ends_at).getTime() > time)
+    .forEach((event) => states.set(event.id, "current"));
+
+  const next = events
+    .filter((event) => new Date(event.starts_at).getTime() > time)
+    .sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime())[0];
+  if (next) states.set(next.id, "next");
+
+  return states;
+};
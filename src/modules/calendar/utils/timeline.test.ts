@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  canRescheduleBooking,
+  findTimelineClashes,
+  getRescheduledStatus,
+  getTimelineRows,
+  moveReservation,
+  snapMinutes,
+} from "./timeline";
+
+const rooms = [
+  { id: "hall", name: "Fellowship Hall" },
+  { id: "chapel", name: "Chapel" },
+  { id: "lobby", name: "Lobby", allow_overlap: true },
+];
+
+const booking = (id: string, fields: Record<string, unknown> = {}) => ({
+  id,
+  status: "approved",
+  room_id: "hall",
+  starts_at: "2026-03-01T15:00:00Z",
+  ends_at: "2026-03-01T16:00:00Z",
+  ...fields,
+});
+
+describe("getTimelineRows", () => {
+  it("puts events on the rows of the rooms they hold, in start order", () => {
+    const rows = getTimelineRows(rooms, [
+      booking("late", { starts_at: "2026-03-01T17:00:00Z", ends_at: "2026-03-01T18:00:00Z" }),
+      booking("early", { additional_room_ids: ["chapel"] }),
+      booking("everywhere", { room_id: "lobby", is_whole_building: true }),
+    ]);
+
+    expect(rows.map(({ room, events }) => [room.id, events.map((event) => event.id)])).toEqual([
+      ["hall", ["early", "everywhere", "late"]],
+      ["chapel", ["early", "everywhere"]],
+      ["lobby", ["everywhere"]],
+    ]);
+  });
+});
+
+describe("snapMinutes", () => {
+  it("rounds to the nearest step", () => {
+    expect(snapMinutes(52)).toBe(45);
+    expect(snapMinutes(53)).toBe(60);
+    expect(snapMinutes(44, 30)).toBe(30);
+  });
+});
+
+describe("moveReservation", () => {
+  it("swaps the dragged room for the target", () => {
+    expect(moveReservation({ room_id: "hall", additional_room_ids: ["chapel"] }, "hall", "lobby")).toEqual({
+      room_id: "lobby",
+      additional_room_ids: ["chapel"],
+    });
+    expect(moveReservation({ room_id: "hall", additional_room_ids: ["chapel"] }, "chapel", "lobby")).toEqual({
+      room_id: "hall",
+      additional_room_ids: ["lobby"],
+    });
+  });
+
+  it("refuses whole-building events and rooms the event already holds", () => {
+    expect(moveReservation({ room_id: "hall", is_whole_building: true }, "hall", "chapel")).toBeNull();
+    expect(moveReservation({ room_id: "hall", additional_room_ids: ["chapel"] }, "hall", "chapel")).toBeNull();
+  });
+});
+
+describe("findTimelineClashes", () => {
+  const moved = booking("moved", { series_id: "series", status: "draft" });
+
+  it("finds blocking bookings sharing a room at the held time", () => {
+    const events = [
+      booking("clash"),
+      booking("buffered", { starts_at: "2026-03-01T16:00:00Z", ends_at: "2026-03-01T17:00:00Z", setup_minutes: 15 }),
+      booking("after", { starts_at: "2026-03-01T16:00:00Z", ends_at: "2026-03-01T17:00:00Z" }),
+      booking("rejected", { status: "rejected" }),
+      booking("other room", { room_id: "chapel" }),
+    ];
+
+    expect(findTimelineClashes(moved, events, rooms).map((event) => event.id)).toEqual(["clash", "buffered"]);
+  });
+
+  it("ignores the booking's own series and rooms that allow overlap", () => {
+    const events = [
+      booking("moved"),
+      booking("sibling", { series_id: "series" }),
+      booking("lobby", { room_id: "lobby" }),
+    ];
+
+    expect(findTimelineClashes({ ...moved, room_id: "lobby" }, events, rooms)).toEqual([]);
+    expect(findTimelineClashes(moved, events, rooms)).toEqual([]);
+  });
+});
+
+describe("getRescheduledStatus", () => {
+  it("sends signed-off and held bookings back to review", () => {
+    expect(getRescheduledStatus("approved")).toBe("pending_review");
+    expect(getRescheduledStatus("published")).toBe("pending_review");
+    expect(getRescheduledStatus("hold")).toBe("pending_review");
+    expect(getRescheduledStatus("draft")).toBe("draft");
+  });
+});
+
+describe("canRescheduleBooking", () => {
+  it("lets admins move any booking", () => {
+    expect(canRescheduleBooking({ status: "published", created_by: "someone" }, "admin", true)).toBe(true);
+  });
+
+  it("lets requesters move their own bookings until they are signed off", () => {
+    expect(canRescheduleBooking({ status: "pending_review", created_by: "me" }, "me", false)).toBe(true);
+    expect(canRescheduleBooking({ status: "hold", created_by: "me" }, "me", false)).toBe(true);
+    expect(canRescheduleBooking({ status: "approved", created_by: "me" }, "me", false)).toBe(false);
+    expect(canRescheduleBooking({ status: "draft", created_by: "someone" }, "me", false)).toBe(false);
+    expect(canRescheduleBooking({ status: "draft", created_by: "me" }, undefined, false)).toBe(false);
+  });
+});
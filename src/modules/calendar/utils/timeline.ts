@@ -0,0 +1,126 @@
+/**
+ * Timeline Utility
+ * Room rows, drag snapping and local clash checks for the room-by-room
+ * timeline, and the status a booking takes when it is moved
+ */
+
+import type { EventStatus } from "../types";
+import {
+  blockedRangesOverlap,
+  reservationsConflict,
+  reservesRoom,
+  type BufferedTimes,
+  type ReservableRoom,
+  type RoomReservation,
+} from "./rooms";
+
+// Steps drags snap to
+export const TIMELINE_SNAP_MINUTES = 15;
+
+// Shortest booking drag-to-create and resizing leave
+export const MIN_TIMELINE_MINUTES = 15;
+
+// Statuses that hold a room and therefore count as conflicts
+const BLOCKING_STATUSES: string[] = ["pending_review", "approved", "published"];
+
+// Statuses a moved booking leaves for review: signed-off bookings need a new
+// sign-off, and a hold moved to a free time is released
+const REVIEWED_STATUSES: string[] = ["approved", "published", "hold"];
+
+// Statuses requesters may still move their own bookings from; signed-off
+// bookings are only moved by admins
+const REQUESTER_MOVABLE_STATUSES: string[] = ["draft", "pending_review", "hold"];
+
+// Minimal event shape for the timeline
+export interface TimelineEvent extends RoomReservation, BufferedTimes {
+  id: string;
+  status: string;
+  series_id?: string;
+}
+
+// =====================================================
+// Rows and positions
+// =====================================================
+
+/**
+ * One row per room with the events holding it; whole-building events show on
+ * every row
+ */
+export const getTimelineRows = <R extends ReservableRoom, T extends TimelineEvent>(
+  rooms: R[],
+  events: T[]
+): { room: R; events: T[] }[] =>
+  rooms.map((room) => ({
+    room,
+    events: events
+      .filter((event) => reservesRoom(event, room.id))
+      .sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime()),
+  }));
+
+/**
+ * Round a number of minutes to the nearest snap step
+ */
+export const snapMinutes = (minutes: number, step: number = TIMELINE_SNAP_MINUTES): number =>
+  Math.round(minutes / step) * step;
+
+// =====================================================
+// Moving bookings
+// =====================================================
+
+/**
+ * Rooms of an event after dragging it from one room's row to another's: the
+ * dragged room is swapped for the target. Returns null when the move is not
+ * possible (whole-building events, or a target the event already holds).
+ */
+export const moveReservation = (
+  event: RoomReservation,
+  fromRoomId: string,
+  toRoomId: string
+): Pick<RoomReservation, "room_id" | "additional_room_ids"> | null => {
+  const additional = event.additional_room_ids || [];
+  if (fromRoomId === toRoomId) return { room_id: event.room_id, additional_room_ids: additional };
+  if (event.is_whole_building || reservesRoom(event, toRoomId)) return null;
+
+  return event.room_id === fromRoomId
+    ? { room_id: toRoomId, additional_room_ids: additional }
+    : { room_id: event.room_id, additional_room_ids: additional.map((id) => (id === fromRoomId ? toRoomId : id)) };
+};
+
+/**
+ * Loaded events a booking would clash with at a new time or in new rooms,
+ * ignoring the booking itself and the rest of its series. A quick check while
+ * dragging; the server check decides when the booking is saved.
+ */
+export const findTimelineClashes = <T extends TimelineEvent>(
+  booking: TimelineEvent,
+  events: T[],
+  rooms: ReservableRoom[]
+): T[] => {
+  const seriesId = booking.series_id || booking.id;
+  return events.filter(
+    (event) =>
+      event.id !== booking.id &&
+      (event.series_id || event.id) !== seriesId &&
+      BLOCKING_STATUSES.includes(event.status) &&
+      blockedRangesOverlap(event, booking) &&
+      reservationsConflict(booking, event, rooms)
+  );
+};
+
+/**
+ * Status of a booking after it is moved or resized: approved, published and
+ * held bookings go back to review, others keep their status
+ */
+export const getRescheduledStatus = (status: EventStatus): EventStatus =>
+  REVIEWED_STATUSES.includes(status) ? "pending_review" : status;
+
+/**
+ * Whether a user may move or resize a booking: admins any, requesters their
+ * own until it is signed off
+ */
+export const canRescheduleBooking = (
+  event: { status: string; created_by?: string | null },
+  userId: string | undefined,
+  isAdmin: boolean
+): boolean =>
+  isAdmin || (!!userId && event.created_by === userId && REQUESTER_MOVABLE_STATUSES.includes(event.status));
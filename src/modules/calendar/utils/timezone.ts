@@ -0,0 +1,88 @@
+/**
+ * Timezone Utility
+ * Conversions between wall-clock times in an IANA time zone and UTC instants
+ * (shared with the edge functions) and display helpers
+ */
+
+import { format } from "date-fns";
+import {
+  getTimeZoneOffset,
+  isValidTimeZone,
+  toZonedTime,
+} from "../../../../supabase/functions/_shared/timezone";
+
+export * from "../../../../supabase/functions/_shared/timezone";
+
+// =====================================================
+// Display helpers
+// =====================================================
+// Calendar views do their date math with date-fns on local Date fields. A
+// "zoned" Date carries the organization's wall-clock time in those fields, so
+// the views lay events out in the organization's zone whatever the viewer's
+// device is set to. Convert back with fromZonedTime before storing.
+
+/**
+ * Time zone of the viewer's device
+ */
+export const getViewerTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Format an instant with a date-fns pattern as seen in a time zone
+ */
+export const formatInTimeZone = (
+  date: Date | string,
+  pattern: string,
+  timeZone?: string | null
+): string => format(toZonedTime(date, timeZone), pattern);
+
+/**
+ * Current wall-clock time in a time zone, as a zoned Date
+ */
+export const zonedNow = (timeZone?: string | null): Date => toZonedTime(new Date(), timeZone);
+
+/**
+ * Whether the viewer's device uses a different UTC offset than a time zone,
+ * now or at some point during the year
+ */
+export const differsFromViewerTimeZone = (timeZone?: string | null): boolean => {
+  if (!isValidTimeZone(timeZone)) return false;
+
+  const viewer = getViewerTimeZone();
+  if (viewer === timeZone) return false;
+
+  const year = new Date().getUTCFullYear();
+  return [0, 6].some((month) => {
+    const sample = new Date(Date.UTC(year, month, 15, 12));
+    return getTimeZoneOffset(sample, viewer) !== getTimeZoneOffset(sample, timeZone!);
+  });
+};
+
+/**
+ * Readable name of a time zone, e.g. "Eastern Time" (falls back to the IANA name)
+ */
+export const getTimeZoneLabel = (timeZone: string, date: Date = new Date()): string => {
+  try {
+    const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longGeneric" })
+      .formatToParts(date)
+      .find((part) => part.type === "timeZoneName")?.value;
+    return name || timeZone;
+  } catch {
+    return timeZone;
+  }
+};
+
+/**
+ * Short abbreviation of a time zone at an instant, e.g. "EST" or "GMT+1"
+ */
+export const getTimeZoneAbbreviation = (timeZone: string, date: Date = new Date()): string => {
+  try {
+    return (
+      new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+        .formatToParts(date)
+        .find((part) => part.type === "timeZoneName")?.value || timeZone
+    );
+  } catch {
+    return timeZone;
+  }
+};
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import DashboardLayout from "@/shared/components/layout/DashboardLayout";
+import { Badge } from "@/shared/components/ui/badge";
 import { Button } from "@/shared/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/shared/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/shared/components/ui/dialog";
@@ -9,10 +10,21 @@ import { Input } from "@/shared/components/ui/input";
 import { Label } from "@/shared/components/ui/label";
 import { Textarea } from "@/shared/components/ui/textarea";
 import { Switch } from "@/shared/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/components/ui/select";
 import { useToast } from "@/shared/hooks/use-toast";
-import { Plus, Edit, Trash2, DoorOpen } from "lucide-react";
+import { Plus, Edit, Trash2, DoorOpen, Timer, Users, X, Clock, CalendarOff, ShieldCheck } from "lucide-react";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/shared/components/ui/alert-dialog";
 import { useOrganization } from "@/shared/contexts/OrganizationContext";
+import { useAuth } from "@/shared/contexts/AuthContext";
+import { approvalService, roomService, type ApprovalStepInput, type AvailabilityWindowInput } from "@/modules/calendar/services";
+import {
+  useApprovalSteps,
+  useApprovers,
+  useCreateBlackout,
+  useDeleteBlackout,
+  useRoomAvailability,
+} from "@/modules/calendar/hooks";
+import { formatAvailabilityWindow, formatBlackoutDates, WEEKDAY_NAMES } from "@/modules/calendar/utils";
 
 interface Room {
   id: string;
@@ -20,15 +32,24 @@ interface Room {
   description: string | null;
   color: string;
   is_active: boolean;
+  default_setup_minutes: number;
+  default_teardown_minutes: number;
+  capacity: number | null;
+  features: string[];
   organization_id: string;
   created_at: string;
   updated_at: string;
 }
 
+// Time inputs cannot hold 24:00, so an end of 00:00 is saved as the end of the day
+const toSavedWindows = (windows: AvailabilityWindowInput[]): AvailabilityWindowInput[] =>
+  windows.map((window) => ({ ...window, end_time: window.end_time === "00:00" ? "24:00" : window.end_time }));
+
 const Rooms = () => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { currentOrganization } = useOrganization();
+  const { user } = useAuth();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingRoom, setEditingRoom] = useState<Room | null>(null);
   const [deleteRoomId, setDeleteRoomId] = useState<string | null>(null);
@@ -37,7 +58,17 @@ const Rooms = () => {
     description: "",
     color: "#6366f1",
     is_active: true,
+    default_setup_minutes: 0,
+    default_teardown_minutes: 0,
+    capacity: null as number | null,
+    features: [] as string[],
   });
+  const [featureInput, setFeatureInput] = useState("");
+  // Weekly times the room can be booked; none means any time
+  const [windows, setWindows] = useState<AvailabilityWindowInput[]>([]);
+  // Ordered sign-offs bookings of the room need; none keeps the single admin review
+  const [approvalSteps, setApprovalSteps] = useState<ApprovalStepInput[]>([]);
+  const [blackoutForm, setBlackoutForm] = useState({ title: "", starts_on: "", ends_on: "" });
 
   const { data: rooms, isLoading } = useQuery({
     queryKey: ["rooms-admin", currentOrganization?.id],
@@ -56,6 +87,12 @@ const Rooms = () => {
     enabled: !!currentOrganization?.id,
   });
 
+  const { data: availability } = useRoomAvailability(currentOrganization?.id);
+  const { data: savedApprovalSteps } = useApprovalSteps(currentOrganization?.id);
+  const { data: approvers } = useApprovers(currentOrganization?.id);
+  const createBlackoutMutation = useCreateBlackout();
+  const deleteBlackoutMutation = useDeleteBlackout();
+
   const createRoomMutation = useMutation({
     mutationFn: async (newRoom: typeof formData) => {
       if (!currentOrganization?.id) throw new Error("No organization selected");
@@ -67,11 +104,14 @@ const Rooms = () => {
         .single();
 
       if (error) throw error;
+      await roomService.setAvailabilityWindows(currentOrganization.id, data.id, toSavedWindows(windows));
+      await approvalService.setRoomSteps(data.id, approvalSteps);
       return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["rooms-admin"] });
       queryClient.invalidateQueries({ queryKey: ["rooms"] });
+      queryClient.invalidateQueries({ queryKey: ["approvals"] });
       toast({ title: "Room created successfully" });
       resetForm();
     },
@@ -94,11 +134,14 @@ const Rooms = () => {
         .single();
 
       if (error) throw error;
+      await roomService.setAvailabilityWindows(data.organization_id, id, toSavedWindows(windows));
+      await approvalService.setRoomSteps(id, approvalSteps);
       return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["rooms-admin"] });
       queryClient.invalidateQueries({ queryKey: ["rooms"] });
+      queryClient.invalidateQueries({ queryKey: ["approvals"] });
       toast({ title: "Room updated successfully" });
       resetForm();
     },
@@ -123,6 +166,7 @@ const Rooms = () => {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["rooms-admin"] });
       queryClient.invalidateQueries({ queryKey: ["rooms"] });
+      queryClient.invalidateQueries({ queryKey: ["approvals"] });
       toast({ title: "Room deleted successfully" });
       setDeleteRoomId(null);
     },
@@ -142,7 +186,14 @@ const Rooms = () => {
       description: "",
       color: "#6366f1",
       is_active: true,
+      default_setup_minutes: 0,
+      default_teardown_minutes: 0,
+      capacity: null,
+      features: [],
     });
+    setFeatureInput("");
+    setWindows([]);
+    setApprovalSteps([]);
     setEditingRoom(null);
     setIsDialogOpen(false);
   };
@@ -154,13 +205,106 @@ const Rooms = () => {
       description: room.description || "",
       color: room.color,
       is_active: room.is_active,
+      default_setup_minutes: room.default_setup_minutes,
+      default_teardown_minutes: room.default_teardown_minutes,
+      capacity: room.capacity,
+      features: room.features || [],
     });
+    setFeatureInput("");
+    setWindows(
+      (availability?.windows || [])
+        .filter((window) => window.room_id === room.id)
+        .map(({ day_of_week, start_time, end_time }) => ({
+          day_of_week,
+          start_time: start_time.slice(0, 5),
+          end_time: end_time.startsWith("24:") ? "00:00" : end_time.slice(0, 5),
+        }))
+    );
+    setApprovalSteps(
+      (savedApprovalSteps || [])
+        .filter((step) => step.room_id === room.id)
+        .map(({ id, name, approver_id }) => ({ id, name, approver_id }))
+    );
     setIsDialogOpen(true);
   };
 
+  const addFeature = (value: string) => {
+    const feature = value.trim();
+    setFeatureInput("");
+    if (!feature || formData.features.some((f) => f.toLowerCase() === feature.toLowerCase())) return;
+    setFormData({ ...formData, features: [...formData.features, feature] });
+  };
+
+  const removeFeature = (feature: string) => {
+    setFormData({ ...formData, features: formData.features.filter((f) => f !== feature) });
+  };
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindowInput>) => {
+    setWindows(windows.map((window, i) => (i === index ? { ...window, ...changes } : window)));
+  };
+
+  const updateApprovalStep = (index: number, changes: Partial<ApprovalStepInput>) => {
+    setApprovalSteps(approvalSteps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const getApproverName = (approverId: string | null) => {
+    if (!approverId) return "Any admin";
+    const approver = approvers?.find((a) => a.id === approverId);
+    return approver ? approver.full_name || approver.email : "Former member";
+  };
+
+  const handleCreateBlackout = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentOrganization?.id) return;
+
+    createBlackoutMutation.mutate(
+      {
+        organization_id: currentOrganization.id,
+        title: blackoutForm.title.trim(),
+        starts_on: blackoutForm.starts_on,
+        ends_on: blackoutForm.ends_on || blackoutForm.starts_on,
+        created_by: user?.id ?? null,
+      },
+      {
+        onSuccess: () => {
+          toast({ title: "Closure added" });
+          setBlackoutForm({ title: "", starts_on: "", ends_on: "" });
+        },
+        onError: (error: Error) => {
+          toast({
+            title: "Error adding closure",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
+    const invalidWindow = windows.find(
+      (window) => window.end_time !== "00:00" && window.end_time <= window.start_time
+    );
+    if (invalidWindow) {
+      toast({
+        title: "Invalid availability",
+        description: `${WEEKDAY_NAMES[invalidWindow.day_of_week]} ends before it starts`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (approvalSteps.some((step) => !step.name.trim())) {
+      toast({
+        title: "Invalid approval chain",
+        description: "Every approval step needs a name",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (editingRoom) {
       updateRoomMutation.mutate({
         id: editingRoom.id,
@@ -184,6 +328,21 @@ const Rooms = () => {
     { name: "Indigo", value: "#4f46e5" },
   ];
 
+  // Common features plus any the organization already uses
+  const suggestedFeatures = Array.from(
+    new Set([
+      "Projector",
+      "Sound system",
+      "Piano",
+      "Kitchen",
+      "Stage",
+      "Whiteboard",
+      "Wheelchair accessible",
+      "Video conferencing",
+      ...(rooms || []).flatMap((room) => room.features || []),
+    ])
+  ).filter((feature) => !formData.features.some((f) => f.toLowerCase() === feature.toLowerCase()));
+
   return (
     <DashboardLayout>
       <div className="space-y-4 sm:space-y-6">
@@ -240,7 +399,7 @@ const Rooms = () => {
                     {room.description || "No description"}
                   </CardDescription>
                 </CardHeader>
-                <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0">
+                <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-2">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-2">
                       <DoorOpen className="h-4 w-4 text-muted-foreground" />
@@ -256,18 +415,160 @@ const Rooms = () => {
                       {room.is_active ? "Active" : "Inactive"}
                     </span>
                   </div>
+                  {room.capacity && (
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Users className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-xs sm:text-sm text-muted-foreground">
+                          Capacity
+                        </span>
+                      </div>
+                      <span className="text-xs sm:text-sm font-medium">
+                        {room.capacity} people
+                      </span>
+                    </div>
+                  )}
+                  {(room.default_setup_minutes > 0 || room.default_teardown_minutes > 0) && (
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Timer className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-xs sm:text-sm text-muted-foreground">
+                          Buffers
+                        </span>
+                      </div>
+                      <span className="text-xs sm:text-sm font-medium">
+                        {room.default_setup_minutes} min setup / {room.default_teardown_minutes} min teardown
+                      </span>
+                    </div>
+                  )}
+                  {availability?.windows.some((window) => window.room_id === room.id) && (
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Clock className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-xs sm:text-sm text-muted-foreground">
+                          Available
+                        </span>
+                      </div>
+                      <span className="text-xs sm:text-sm font-medium text-right">
+                        {availability.windows
+                          .filter((window) => window.room_id === room.id)
+                          .map(formatAvailabilityWindow)
+                          .join(", ")}
+                      </span>
+                    </div>
+                  )}
+                  {savedApprovalSteps?.some((step) => step.room_id === room.id) && (
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-xs sm:text-sm text-muted-foreground">
+                          Approvals
+                        </span>
+                      </div>
+                      <span className="text-xs sm:text-sm font-medium text-right">
+                        {savedApprovalSteps
+                          .filter((step) => step.room_id === room.id)
+                          .map((step) => step.name)
+                          .join(" → ")}
+                      </span>
+                    </div>
+                  )}
+                  {room.features?.length > 0 && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {room.features.map((feature) => (
+                        <Badge key={feature} variant="secondary" className="text-xs font-normal">
+                          {feature}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
           </div>
         )}
 
+        {/* Building closures */}
+        <Card>
+          <CardHeader className="p-4 sm:p-6">
+            <div className="flex items-center gap-2">
+              <CalendarOff className="h-5 w-5 text-muted-foreground" />
+              <CardTitle className="text-base sm:text-lg">Building Closures</CardTitle>
+            </div>
+            <CardDescription className="text-xs sm:text-sm">
+              No room can be booked on these dates
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 space-y-4">
+            {availability?.blackouts.length ? (
+              <div className="divide-y rounded-lg border">
+                {availability.blackouts.map((blackout) => (
+                  <div key={blackout.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{blackout.title}</p>
+                      <p className="text-xs text-muted-foreground">{formatBlackoutDates(blackout)}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 flex-shrink-0"
+                      onClick={() => deleteBlackoutMutation.mutate(blackout.id)}
+                      disabled={deleteBlackoutMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No closures scheduled</p>
+            )}
+
+            <form onSubmit={handleCreateBlackout} className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto_auto] gap-2 sm:items-end">
+              <div className="space-y-1">
+                <Label htmlFor="blackout-title" className="text-xs text-muted-foreground">Reason</Label>
+                <Input
+                  id="blackout-title"
+                  value={blackoutForm.title}
+                  onChange={(e) => setBlackoutForm({ ...blackoutForm, title: e.target.value })}
+                  placeholder="e.g., Maintenance week"
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="blackout-starts" className="text-xs text-muted-foreground">From</Label>
+                <Input
+                  id="blackout-starts"
+                  type="date"
+                  value={blackoutForm.starts_on}
+                  onChange={(e) => setBlackoutForm({ ...blackoutForm, starts_on: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="blackout-ends" className="text-xs text-muted-foreground">To</Label>
+                <Input
+                  id="blackout-ends"
+                  type="date"
+                  min={blackoutForm.starts_on}
+                  value={blackoutForm.ends_on}
+                  onChange={(e) => setBlackoutForm({ ...blackoutForm, ends_on: e.target.value })}
+                />
+              </div>
+              <Button type="submit" className="gap-2" disabled={createBlackoutMutation.isPending}>
+                <Plus className="h-4 w-4" />
+                Add
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
         {/* Create/Edit Dialog */}
         <Dialog open={isDialogOpen} onOpenChange={(open) => {
           if (!open) resetForm();
           setIsDialogOpen(open);
         }}>
-          <DialogContent className="sm:max-w-[500px]">
+          <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {editingRoom ? "Edit Room" : "Create New Room"}
@@ -342,6 +643,237 @@ const Rooms = () => {
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="capacity">Capacity</Label>
+                  <Input
+                    id="capacity"
+                    type="number"
+                    min={1}
+                    value={formData.capacity ?? ""}
+                    onChange={(e) =>
+                      setFormData({ ...formData, capacity: Number(e.target.value) > 0 ? Math.floor(Number(e.target.value)) : null })
+                    }
+                    placeholder="Number of people the room seats"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="feature-input">Features</Label>
+                  {formData.features.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {formData.features.map((feature) => (
+                        <Badge key={feature} variant="secondary" className="gap-1 pr-1 font-normal">
+                          {feature}
+                          <button
+                            type="button"
+                            onClick={() => removeFeature(feature)}
+                            className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+                            aria-label={`Remove ${feature}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  <Input
+                    id="feature-input"
+                    value={featureInput}
+                    onChange={(e) => setFeatureInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" || e.key === ",") {
+                        e.preventDefault();
+                        addFeature(featureInput);
+                      }
+                    }}
+                    onBlur={() => addFeature(featureInput)}
+                    placeholder="Type a feature and press Enter"
+                  />
+                  {suggestedFeatures.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {suggestedFeatures.map((feature) => (
+                        <button
+                          key={feature}
+                          type="button"
+                          onClick={() => addFeature(feature)}
+                          className="rounded-full border border-dashed px-2.5 py-0.5 text-xs text-muted-foreground hover:border-primary hover:text-primary"
+                        >
+                          + {feature}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Default Buffers</Label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="default_setup_minutes" className="text-xs text-muted-foreground">
+                        Setup (minutes)
+                      </Label>
+                      <Input
+                        id="default_setup_minutes"
+                        type="number"
+                        min={0}
+                        max={1440}
+                        step={5}
+                        value={formData.default_setup_minutes}
+                        onChange={(e) =>
+                          setFormData({ ...formData, default_setup_minutes: Math.max(0, Number(e.target.value) || 0) })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="default_teardown_minutes" className="text-xs text-muted-foreground">
+                        Teardown (minutes)
+                      </Label>
+                      <Input
+                        id="default_teardown_minutes"
+                        type="number"
+                        min={0}
+                        max={1440}
+                        step={5}
+                        value={formData.default_teardown_minutes}
+                        onChange={(e) =>
+                          setFormData({ ...formData, default_teardown_minutes: Math.max(0, Number(e.target.value) || 0) })
+                        }
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Prep and cleanup time new events in this room block before and after they run
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Availability</Label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1 text-xs"
+                      onClick={() =>
+                        setWindows([...windows, { day_of_week: 0, start_time: "09:00", end_time: "17:00" }])
+                      }
+                    >
+                      <Plus className="h-3.5 w-3.5" />
+                      Add window
+                    </Button>
+                  </div>
+                  {windows.map((window, index) => (
+                    <div key={index} className="grid grid-cols-[1fr_auto_auto_auto] gap-2 items-center">
+                      <Select
+                        value={String(window.day_of_week)}
+                        onValueChange={(value) => updateWindow(index, { day_of_week: Number(value) })}
+                      >
+                        <SelectTrigger className="h-9">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WEEKDAY_NAMES.map((day, dayIndex) => (
+                            <SelectItem key={day} value={String(dayIndex)}>
+                              {day}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="time"
+                        className="h-9 w-[110px]"
+                        value={window.start_time}
+                        onChange={(e) => updateWindow(index, { start_time: e.target.value })}
+                        aria-label="Available from"
+                        required
+                      />
+                      <Input
+                        type="time"
+                        className="h-9 w-[110px]"
+                        value={window.end_time}
+                        onChange={(e) => updateWindow(index, { end_time: e.target.value })}
+                        aria-label="Available until"
+                        required
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => setWindows(windows.filter((_, i) => i !== index))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    {windows.length === 0
+                      ? "Bookable at any time. Add windows to only allow bookings on certain days and hours."
+                      : "Bookings must fit inside one window. Use 00:00 as the end for midnight."}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Approval Chain</Label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1 text-xs"
+                      onClick={() => setApprovalSteps([...approvalSteps, { name: "", approver_id: null }])}
+                    >
+                      <Plus className="h-3.5 w-3.5" />
+                      Add step
+                    </Button>
+                  </div>
+                  {approvalSteps.map((step, index) => (
+                    <div key={index} className="grid grid-cols-[auto_1fr_1fr_auto] gap-2 items-center">
+                      <span className="w-5 text-center text-xs font-medium text-muted-foreground">{index + 1}</span>
+                      <Input
+                        className="h-9"
+                        value={step.name}
+                        onChange={(e) => updateApprovalStep(index, { name: e.target.value })}
+                        placeholder="e.g., Facilities"
+                        aria-label="Step name"
+                        required
+                      />
+                      <Select
+                        value={step.approver_id || "any-admin"}
+                        onValueChange={(value) =>
+                          updateApprovalStep(index, { approver_id: value === "any-admin" ? null : value })
+                        }
+                      >
+                        <SelectTrigger className="h-9">
+                          <SelectValue>{getApproverName(step.approver_id)}</SelectValue>
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="any-admin">Any admin</SelectItem>
+                          {approvers?.map((approver) => (
+                            <SelectItem key={approver.id} value={approver.id}>
+                              {approver.full_name || approver.email}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => setApprovalSteps(approvalSteps.filter((_, i) => i !== index))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    {approvalSteps.length === 0
+                      ? "Any admin can approve bookings. Add steps when several people need to sign off."
+                      : "Bookings are approved once every step has signed off, in this order."}
+                  </p>
+                </div>
+
                 <div className="flex items-center justify-between">
                   <Label htmlFor="is_active">Active</Label>
                   <Switch
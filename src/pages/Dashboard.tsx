@@ -175,7 +175,7 @@ const Dashboard = () => {
             onEventClick={handleEventClick}
             onDateClick={handleDateClick}
             currentUserId={user?.id}
-            view={calendarView}
+            view={calendarView === "day" || calendarView === "month" ? calendarView : "week"}
             selectedDate={dayViewDate}
             startHour={0}
             endHour={23}
@@ -501,7 +501,7 @@ const PublicCalendar = () => {
                 onEventClick={handleEventClick}
                 onDateClick={handleDateClick}
                 hideStatus={true}
-                view={calendarView}
+                view={calendarView === "day" || calendarView === "month" ? calendarView : "week"}
                 selectedDate={selectedDate}
                 startHour={0}
                 endHour={23}
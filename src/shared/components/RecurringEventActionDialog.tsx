@@ -8,7 +8,7 @@ import {
 } from "@/shared/components/ui/dialog";
 import { Button } from "@/shared/components/ui/button";
 
-export type RecurringActionScope = "single" | "all";
+export type RecurringActionScope = "single" | "following" | "all";
 
 interface RecurringEventActionDialogProps {
   open: boolean;
@@ -17,6 +17,7 @@ interface RecurringEventActionDialogProps {
   actionType: "delete" | "reject" | "update";
   eventTitle: string;
   loading?: boolean;
+  allowFollowing?: boolean; // Offer "this and following" (splits the series)
 }
 
 export function RecurringEventActionDialog({
@@ -26,6 +27,7 @@ export function RecurringEventActionDialog({
   actionType,
   eventTitle,
   loading = false,
+  allowFollowing = false,
 }: RecurringEventActionDialogProps) {
   const actionVerb = actionType === "delete" ? "Delete" : actionType === "reject" ? "Reject" : "Update";
   const actionVerbLower = actionType === "delete" ? "delete" : actionType === "reject" ? "reject" : "update";
@@ -36,7 +38,8 @@ export function RecurringEventActionDialog({
         <DialogHeader>
           <DialogTitle>{actionVerb} Recurring Event</DialogTitle>
           <DialogDescription>
-            "{eventTitle}" is part of a recurring series. Would you like to {actionVerbLower} only this event or the entire series?
+            "{eventTitle}" is part of a recurring series. Would you like to {actionVerbLower} only this event
+            {allowFollowing ? ", this and all following events," : ""} or the entire series?
           </DialogDescription>
         </DialogHeader>
         <DialogFooter className="flex-col sm:flex-col gap-2">
@@ -49,6 +52,17 @@ export function RecurringEventActionDialog({
           >
             {actionVerb} Only This Event
           </Button>
+          {allowFollowing && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onConfirm("following")}
+              disabled={loading}
+              className="w-full"
+            >
+              {actionVerb} This and Following Events
+            </Button>
+          )}
           <Button
             type="button"
             variant={actionType === "update" ? "default" : "destructive"}
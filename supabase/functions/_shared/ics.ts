@@ -0,0 +1,361 @@
+/**
+ * iCalendar writer shared by the client export (exportService) and the
+ * calendar-feed edge function, so one-off exports and subscribed feeds
+ * produce the same output. Dependency-free so it runs in the browser and Deno.
+ */
+
+export interface IcsEvent {
+  id: string;
+  title: string;
+  description?: string | null;
+  starts_at: string;
+  ends_at: string;
+  status: string;
+  is_recurring?: boolean | null;
+  // Written as is; callers pass rules already normalized by the RRULE module
+  recurrence_rule?: string | null;
+  recurrence_exdates?: string[] | null;
+  // Set on override rows: series and original occurrence start they replace
+  parent_event_id?: string | null;
+  recurrence_id?: string | null;
+  // Set on occurrences expanded from a series
+  series_id?: string;
+  series_starts_at?: string;
+  series_ends_at?: string;
+  room?: {
+    name?: string;
+  } | null;
+  creator?: {
+    full_name?: string;
+    email?: string;
+  } | null;
+}
+
+export interface IcsOptions {
+  calendarName: string;
+  productName: string;
+  timezone: string;
+  // Domain part of event UIDs
+  uidDomain: string;
+  includeDescription?: boolean;
+  includeLocation?: boolean;
+  includeOrganizer?: boolean;
+  // Suggested refresh interval for subscribed feeds (ISO 8601 duration, e.g. PT1H)
+  refreshInterval?: string;
+}
+
+/**
+ * Escape special characters in iCalendar TEXT values
+ */
+export const escapeICalText = (text: string): string => {
+  if (!text) return "";
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "");
+};
+
+/**
+ * Fold long lines (RFC 5545 requires lines <= 75 octets)
+ */
+export const foldLine = (line: string): string => {
+  const maxLength = 75;
+  if (line.length <= maxLength) return line;
+
+  let result = "";
+  let remaining = line;
+  while (remaining.length > maxLength) {
+    result += remaining.substring(0, maxLength) + "\r\n ";
+    remaining = remaining.substring(maxLength);
+  }
+  result += remaining;
+  return result;
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Format an instant as an iCalendar UTC date-time
+ */
+export const formatICalUTC = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+/**
+ * Format an instant as an iCalendar local date-time in a time zone (used with TZID)
+ */
+export const formatICalDate = (date: Date, timezone: string): string => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+  return `${parts.year}${parts.month}${parts.day}T${parts.hour}${parts.minute}${parts.second}`;
+};
+
+/**
+ * UTC offset of a time zone at an instant, in minutes
+ */
+const getOffsetMinutes = (date: Date, timezone: string): number => {
+  const local = formatICalDate(date, timezone);
+  const asUTC = Date.UTC(
+    Number(local.slice(0, 4)),
+    Number(local.slice(4, 6)) - 1,
+    Number(local.slice(6, 8)),
+    Number(local.slice(9, 11)),
+    Number(local.slice(11, 13)),
+    Number(local.slice(13, 15))
+  );
+  return Math.round((asUTC - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+};
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const getZoneName = (date: Date, timezone: string): string =>
+  new Intl.DateTimeFormat("en-US", { timeZone: timezone, timeZoneName: "short" })
+    .formatToParts(date)
+    .find((part) => part.type === "timeZoneName")?.value || timezone;
+
+/**
+ * VTIMEZONE component for the calendar's time zone, derived from the runtime's
+ * time zone database. DST transitions of the current year are written as
+ * yearly rules on the nth (or last) weekday of their month.
+ */
+export const buildVTimezone = (timezone: string): string[] => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const year = new Date().getUTCFullYear();
+  const yearStart = Date.UTC(year, 0, 1);
+
+  // Find each offset change by scanning daily, then narrowing to the minute
+  const transitions: { at: Date; from: number; to: number }[] = [];
+  let previous = getOffsetMinutes(new Date(yearStart), timezone);
+  for (let time = yearStart + DAY; time <= Date.UTC(year + 1, 0, 1); time += DAY) {
+    const offset = getOffsetMinutes(new Date(time), timezone);
+    if (offset === previous) continue;
+
+    let low = time - DAY;
+    let high = time;
+    while (high - low > 60 * 1000) {
+      const middle = low + Math.floor((high - low) / 2 / 60000) * 60000;
+      if (getOffsetMinutes(new Date(middle), timezone) === previous) low = middle;
+      else high = middle;
+    }
+    transitions.push({ at: new Date(high), from: previous, to: offset });
+    previous = offset;
+  }
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(previous);
+    return [
+      "BEGIN:VTIMEZONE",
+      `TZID:${timezone}`,
+      "BEGIN:STANDARD",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      `TZNAME:${getZoneName(new Date(yearStart), timezone)}`,
+      "DTSTART:19700101T000000",
+      "END:STANDARD",
+      "END:VTIMEZONE",
+    ];
+  }
+
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timezone}`];
+  for (const { at, from, to } of transitions) {
+    // Transition expressed in the wall-clock time before the change
+    const local = new Date(at.getTime() + from * 60 * 1000);
+    const month = local.getUTCMonth() + 1;
+    const day = local.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), month, 0)).getUTCDate();
+    const ordinal = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    const weekday = local.getUTCDay();
+    const component = to > from ? "DAYLIGHT" : "STANDARD";
+
+    // DTSTART must be an occurrence of the rule, so find the matching day in 1970
+    const firstWeekday = new Date(Date.UTC(1970, month - 1, 1)).getUTCDay();
+    let ruleDay = 1 + ((weekday - firstWeekday + 7) % 7) + (ordinal === -1 ? 0 : (ordinal - 1) * 7);
+    if (ordinal === -1) {
+      const daysIn1970 = new Date(Date.UTC(1970, month, 0)).getUTCDate();
+      while (ruleDay + 7 <= daysIn1970) ruleDay += 7;
+    }
+
+    lines.push(
+      `BEGIN:${component}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `TZNAME:${getZoneName(at, timezone)}`,
+      `DTSTART:1970${pad(month)}${pad(ruleDay)}T${pad(local.getUTCHours())}${pad(local.getUTCMinutes())}00`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${month};BYDAY=${ordinal}${WEEKDAYS[weekday]}`,
+      `END:${component}`
+    );
+  }
+  lines.push("END:VTIMEZONE");
+  return lines;
+};
+
+/**
+ * Build the lines of a single VEVENT
+ */
+const buildVEvent = (
+  event: IcsEvent,
+  options: IcsOptions,
+  component: { uid: string; start: Date; end: Date; extraLines?: string[] }
+): string[] => {
+  const { timezone } = options;
+  const lines: string[] = [
+    "BEGIN:VEVENT",
+    foldLine(`UID:${component.uid}`),
+    `DTSTAMP:${formatICalUTC(new Date())}`,
+    `DTSTART;TZID=${timezone}:${formatICalDate(component.start, timezone)}`,
+    `DTEND;TZID=${timezone}:${formatICalDate(component.end, timezone)}`,
+    foldLine(`SUMMARY:${escapeICalText(event.title)}`),
+  ];
+
+  if (options.includeDescription !== false && event.description) {
+    lines.push(foldLine(`DESCRIPTION:${escapeICalText(event.description)}`));
+  }
+
+  if (options.includeLocation !== false && event.room?.name) {
+    lines.push(foldLine(`LOCATION:${escapeICalText(event.room.name)}`));
+  }
+
+  if (options.includeOrganizer && event.creator?.full_name) {
+    lines.push(foldLine(`ORGANIZER;CN=${escapeICalText(event.creator.full_name)}:mailto:${event.creator.email || "noreply@example.com"}`));
+  }
+
+  lines.push(
+    ...(component.extraLines || []),
+    `STATUS:${event.status === "published" ? "CONFIRMED" : "TENTATIVE"}`,
+    "END:VEVENT"
+  );
+
+  return lines;
+};
+
+/**
+ * RRULE and EXDATE lines for a series; none when it has no rule
+ */
+const recurrenceLines = (rule: string | null | undefined, exdates: string[], timezone: string): string[] => {
+  if (!rule) return [];
+
+  const lines = [foldLine(`RRULE:${rule}`)];
+  if (exdates.length > 0) {
+    lines.push(foldLine(`EXDATE;TZID=${timezone}:${exdates.map((d) => formatICalDate(new Date(d), timezone)).join(",")}`));
+  }
+  return lines;
+};
+
+/**
+ * Build VEVENTs for a set of events. Recurring series (expanded occurrences or
+ * unexpanded series rows) are written once with RRULE and EXDATE, and changed
+ * occurrences as RECURRENCE-ID overrides of the series. `excluded` holds
+ * events left out of the output whose occurrences must not be regenerated
+ * from the series rule.
+ */
+export const buildVEvents = (events: IcsEvent[], excluded: IcsEvent[], options: IcsOptions): string[] => {
+  const { timezone } = options;
+  const lines: string[] = [];
+
+  // One row per series included in the output, with the series' own times
+  const series = new Map<string, { event: IcsEvent; start: string; end: string }>();
+  for (const event of events) {
+    if (event.parent_event_id) continue;
+    if (event.series_id && !series.has(event.series_id)) {
+      series.set(event.series_id, {
+        event,
+        start: event.series_starts_at || event.starts_at,
+        end: event.series_ends_at || event.ends_at,
+      });
+    } else if (!event.series_id && event.is_recurring && event.recurrence_rule) {
+      series.set(event.id, { event, start: event.starts_at, end: event.ends_at });
+    }
+  }
+
+  series.forEach(({ event, start, end }, seriesId) => {
+    const exdates = [
+      ...(event.recurrence_exdates || []),
+      ...excluded
+        .filter((e) => e.parent_event_id === seriesId && e.recurrence_id)
+        .map((e) => e.recurrence_id!),
+    ];
+
+    lines.push(
+      ...buildVEvent(event, options, {
+        uid: `${seriesId}@${options.uidDomain}`,
+        start: new Date(start),
+        end: new Date(end),
+        extraLines: recurrenceLines(event.recurrence_rule, exdates, timezone),
+      })
+    );
+  });
+
+  for (const event of events) {
+    // Series are written above; their plain occurrences come from the RRULE
+    if (!event.parent_event_id && (event.series_id || series.has(event.id))) continue;
+
+    const start = new Date(event.starts_at);
+    const end = new Date(event.ends_at);
+
+    if (event.parent_event_id && event.recurrence_id && series.has(event.parent_event_id)) {
+      lines.push(
+        ...buildVEvent(event, options, {
+          uid: `${event.parent_event_id}@${options.uidDomain}`,
+          start,
+          end,
+          extraLines: [`RECURRENCE-ID;TZID=${timezone}:${formatICalDate(new Date(event.recurrence_id), timezone)}`],
+        })
+      );
+      continue;
+    }
+
+    // Standalone events and overrides whose series is not in the output
+    lines.push(
+      ...buildVEvent(event, options, {
+        uid: `${event.id}@${options.uidDomain}`,
+        start,
+        end,
+      })
+    );
+  }
+
+  return lines;
+};
+
+/**
+ * Build a complete VCALENDAR document
+ */
+export const buildCalendar = (events: IcsEvent[], excluded: IcsEvent[], options: IcsOptions): string => {
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${options.productName}//Events Calendar//EN`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    foldLine(`X-WR-CALNAME:${escapeICalText(options.calendarName)}`),
+    `X-WR-TIMEZONE:${options.timezone}`,
+  ];
+
+  if (options.refreshInterval) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`, `X-PUBLISHED-TTL:${options.refreshInterval}`);
+  }
+
+  lines.push(...buildVTimezone(options.timezone), ...buildVEvents(events, excluded, options), "END:VCALENDAR");
+
+  return lines.join("\r\n");
+};
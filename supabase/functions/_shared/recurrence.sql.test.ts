@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { expandRecurringEvents } from "./recurrence.ts";
+import fixtures from "./recurrence.sql-fixtures.json" with { type: "json" };
+
+// Each fixture holds the occurrences public.expand_recurrence_rule returned
+// for a series between `from` and `to`, leaving out its exdates the way the
+// database functions do:
+//
+//   SELECT s FROM public.expand_recurrence_rule(rule, dtstart, time_zone, from, to) AS s
+//   WHERE NOT s = ANY (exdates)
+//
+// Regenerate them when either expansion changes on purpose.
+describe("expandRecurringEvents matches expand_recurrence_rule", () => {
+  it.each(fixtures)("$name", ({ rule, dtstart, time_zone, exdates, from, to, occurrences }) => {
+    const series = {
+      id: "series",
+      starts_at: dtstart,
+      ends_at: new Date(new Date(dtstart).getTime() + 60 * 60 * 1000).toISOString(),
+      recurrence_rule: rule,
+      recurrence_exdates: exdates,
+      parent_event_id: null,
+      recurrence_id: null,
+    };
+
+    const expanded = expandRecurringEvents([series], [], { start: new Date(from), end: new Date(to) }, time_zone);
+
+    expect(expanded.map((occurrence) => occurrence.occurrence_start)).toEqual(occurrences);
+  });
+});
@@ -0,0 +1,184 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  buildOccurrenceId,
+  countOccurrencesBefore,
+  expandRecurringEvents,
+  expandRRule,
+  getSeriesEndDate,
+  parseOccurrenceId,
+  type RecurringRow,
+} from "./recurrence.ts";
+
+const expand = (rule: string, dtstart: string, timeZone: string, to = "2030-01-01T00:00:00Z", from = dtstart) =>
+  expandRRule(rule, new Date(dtstart), new Date(from), new Date(to), timeZone).map((date) => date.toISOString());
+
+describe("expandRRule", () => {
+  it("picks the last weekday of each month with BYSETPOS", () => {
+    expect(
+      expand("FREQ=MONTHLY;COUNT=4;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1", "2026-01-30T14:00:00Z", "America/Chicago")
+    ).toEqual([
+      "2026-01-30T14:00:00.000Z",
+      "2026-02-27T14:00:00.000Z",
+      "2026-03-31T13:00:00.000Z",
+      "2026-04-30T13:00:00.000Z",
+    ]);
+  });
+
+  it("counts BYYEARDAY from both ends of the year", () => {
+    expect(expand("FREQ=YEARLY;COUNT=4;BYYEARDAY=1,-1", "2026-01-01T12:00:00Z", "UTC")).toEqual([
+      "2026-01-01T12:00:00.000Z",
+      "2026-12-31T12:00:00.000Z",
+      "2027-01-01T12:00:00.000Z",
+      "2027-12-31T12:00:00.000Z",
+    ]);
+  });
+
+  it("resolves BYMONTHDAY=-1 to the last day of each month", () => {
+    expect(expand("FREQ=MONTHLY;COUNT=4;BYMONTHDAY=-1", "2026-01-31T17:00:00Z", "UTC")).toEqual([
+      "2026-01-31T17:00:00.000Z",
+      "2026-02-28T17:00:00.000Z",
+      "2026-03-31T17:00:00.000Z",
+      "2026-04-30T17:00:00.000Z",
+    ]);
+  });
+
+  it("skips months without the start day instead of clamping", () => {
+    expect(expand("FREQ=MONTHLY;COUNT=3", "2026-01-31T17:00:00Z", "UTC")).toEqual([
+      "2026-01-31T17:00:00.000Z",
+      "2026-03-31T17:00:00.000Z",
+      "2026-05-31T17:00:00.000Z",
+    ]);
+  });
+
+  it("counts every BYDAY occurrence towards COUNT", () => {
+    expect(expand("FREQ=WEEKLY;COUNT=5;BYDAY=TU,TH", "2026-01-06T18:00:00Z", "UTC")).toEqual([
+      "2026-01-06T18:00:00.000Z",
+      "2026-01-08T18:00:00.000Z",
+      "2026-01-13T18:00:00.000Z",
+      "2026-01-15T18:00:00.000Z",
+      "2026-01-20T18:00:00.000Z",
+    ]);
+  });
+
+  it("starts weeks on WKST when the interval skips weeks", () => {
+    // RFC 5545 section 3.8.5.3 examples
+    const days = (wkst: string) =>
+      expand(`FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=${wkst}`, "1997-08-05T13:00:00Z", "America/New_York").map(
+        (iso) => iso.slice(0, 10)
+      );
+
+    expect(days("MO")).toEqual(["1997-08-05", "1997-08-10", "1997-08-19", "1997-08-24"]);
+    expect(days("SU")).toEqual(["1997-08-05", "1997-08-17", "1997-08-19", "1997-08-31"]);
+  });
+
+  it("keeps the wall-clock time across daylight saving changes", () => {
+    expect(expand("FREQ=WEEKLY;COUNT=3", "2026-03-01T14:00:00Z", "America/New_York")).toEqual([
+      "2026-03-01T14:00:00.000Z",
+      "2026-03-08T13:00:00.000Z",
+      "2026-03-15T13:00:00.000Z",
+    ]);
+  });
+
+  it("moves times skipped by the spring change past the gap", () => {
+    expect(expand("FREQ=DAILY;COUNT=3", "2026-03-07T07:30:00Z", "America/New_York")).toEqual([
+      "2026-03-07T07:30:00.000Z",
+      "2026-03-08T07:30:00.000Z",
+      "2026-03-09T06:30:00.000Z",
+    ]);
+  });
+
+  it("resolves times repeated by the fall change to the first one", () => {
+    expect(expand("FREQ=DAILY;COUNT=3", "2026-10-31T05:30:00Z", "America/New_York")).toEqual([
+      "2026-10-31T05:30:00.000Z",
+      "2026-11-01T05:30:00.000Z",
+      "2026-11-02T06:30:00.000Z",
+    ]);
+  });
+
+  it("includes the last day of a DATE UNTIL in the series' zone", () => {
+    expect(expand("FREQ=DAILY;UNTIL=20260105", "2026-01-01T18:00:00Z", "America/Los_Angeles")).toHaveLength(5);
+  });
+
+  it("only returns occurrences inside the window", () => {
+    expect(
+      expand("FREQ=DAILY", "2026-01-01T18:00:00Z", "UTC", "2026-06-03T00:00:00Z", "2026-06-01T00:00:00Z")
+    ).toEqual(["2026-06-01T18:00:00.000Z", "2026-06-02T18:00:00.000Z"]);
+  });
+
+  describe("when the runtime is in another zone", () => {
+    const runtimeZone = process.env.TZ;
+    beforeAll(() => {
+      process.env.TZ = "Asia/Tokyo";
+    });
+    afterAll(() => {
+      process.env.TZ = runtimeZone;
+    });
+
+    it("still reads a DATE UNTIL in the series' zone", () => {
+      expect(expand("FREQ=DAILY;UNTIL=20260105", "2026-01-01T18:00:00Z", "America/Los_Angeles")).toHaveLength(5);
+    });
+  });
+});
+
+describe("series helpers", () => {
+  it("finds the end of a COUNT series", () => {
+    expect(
+      getSeriesEndDate("FREQ=WEEKLY;COUNT=3", "2026-01-06T18:00:00.000Z", "2026-01-06T19:30:00.000Z", "UTC")
+    ).toBe("2026-01-20T19:30:00.000Z");
+    expect(getSeriesEndDate("FREQ=WEEKLY", "2026-01-06T18:00:00.000Z", "2026-01-06T19:30:00.000Z", "UTC")).toBeNull();
+  });
+
+  it("counts occurrences before a time", () => {
+    expect(
+      countOccurrencesBefore("FREQ=DAILY", new Date("2026-01-01T18:00:00Z"), new Date("2026-01-04T00:00:00Z"), "UTC")
+    ).toBe(3);
+  });
+
+  it("round-trips occurrence ids", () => {
+    const id = buildOccurrenceId("series-1", "2026-01-06T18:00:00.000Z");
+    expect(id).toBe("series-1_20260106T180000Z");
+    expect(parseOccurrenceId(id)).toEqual({ seriesId: "series-1", occurrenceStart: "2026-01-06T18:00:00.000Z" });
+    expect(parseOccurrenceId("series-1")).toBeNull();
+  });
+});
+
+describe("expandRecurringEvents", () => {
+  const series: RecurringRow = {
+    id: "series-1",
+    starts_at: "2026-01-05T18:00:00.000Z",
+    ends_at: "2026-01-05T19:00:00.000Z",
+    recurrence_rule: "FREQ=DAILY;COUNT=5",
+    recurrence_exdates: ["2026-01-06T18:00:00.000Z"],
+  };
+  const window = { start: new Date("2026-01-01T00:00:00Z"), end: new Date("2026-02-01T00:00:00Z") };
+
+  it("drops EXDATEs and replaces overridden occurrences", () => {
+    const override: RecurringRow = {
+      id: "override-1",
+      starts_at: "2026-01-07T20:00:00.000Z",
+      ends_at: "2026-01-07T21:00:00.000Z",
+      recurrence_rule: null,
+      parent_event_id: "series-1",
+      recurrence_id: "2026-01-07T18:00:00.000Z",
+    };
+
+    const events = expandRecurringEvents([series], [override], window, "UTC");
+    expect(events.map((event) => [event.id, event.starts_at])).toEqual([
+      ["series-1_20260105T180000Z", "2026-01-05T18:00:00.000Z"],
+      ["series-1_20260108T180000Z", "2026-01-08T18:00:00.000Z"],
+      ["series-1_20260109T180000Z", "2026-01-09T18:00:00.000Z"],
+      ["override-1", "2026-01-07T20:00:00.000Z"],
+    ]);
+    expect(events[3]).toMatchObject({ series_id: "series-1", occurrence_start: "2026-01-07T18:00:00.000Z" });
+  });
+
+  it("keeps the original series times on generated occurrences", () => {
+    const [first] = expandRecurringEvents([series], [], window, "UTC");
+    expect(first).toMatchObject({
+      series_id: "series-1",
+      occurrence_start: "2026-01-05T18:00:00.000Z",
+      series_starts_at: series.starts_at,
+      series_ends_at: series.ends_at,
+    });
+  });
+});
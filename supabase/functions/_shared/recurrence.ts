@@ -0,0 +1,468 @@
+/**
+ * Recurrence Utility
+ * Expands RRULE-based series into concrete occurrences for a date window,
+ * shared by the app and the public events API. Dependency-free so it runs in
+ * the browser and Deno.
+ */
+
+import {
+  parseRRule,
+  resolveRRuleUntil,
+  SUPPORTED_FREQUENCIES,
+  toRRuleUTC,
+  type RRule,
+  type RRuleWeekday,
+} from "./rrule.ts";
+import { fromZonedTime, toZonedTime } from "./timezone.ts";
+
+// Hard limit on generated periods so a malformed rule can never spin forever
+const MAX_PERIODS = 5000;
+
+export interface DateWindow {
+  start: Date;
+  end: Date;
+}
+
+// Minimal row shape needed to expand a series and apply its overrides
+export interface RecurringRow {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  recurrence_rule: string | null;
+  recurrence_exdates?: string[] | null;
+  parent_event_id?: string | null;
+  recurrence_id?: string | null;
+}
+
+// Fields added to rows produced by expansion
+export interface OccurrenceFields {
+  series_id?: string;
+  occurrence_start?: string;
+  // Original series times, kept on occurrences generated from the rule
+  series_starts_at?: string;
+  series_ends_at?: string;
+}
+
+// =====================================================
+// Expansion
+// =====================================================
+
+// Local-field date math, matching date-fns on the zoned Dates used here
+const addDays = (date: Date, amount: number) =>
+  new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() + amount,
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+
+const startOfWeek = (date: Date, weekStartsOn: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() - weekStartsOn + 7) % 7));
+
+const differenceInCalendarDays = (a: Date, b: Date) =>
+  Math.round(
+    (Date.UTC(a.getFullYear(), a.getMonth(), a.getDate()) - Date.UTC(b.getFullYear(), b.getMonth(), b.getDate())) /
+      (24 * 60 * 60 * 1000)
+  );
+
+const differenceInCalendarMonths = (a: Date, b: Date) =>
+  (a.getFullYear() - b.getFullYear()) * 12 + a.getMonth() - b.getMonth();
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+const daysInYear = (year: number) => (new Date(year, 1, 29).getMonth() === 1 ? 366 : 365);
+
+/**
+ * Resolve a BYMONTHDAY value (negative counts from month end) to a day number
+ */
+const resolveMonthDay = (year: number, month: number, day: number): number | null => {
+  const total = daysInMonth(year, month);
+  const resolved = day > 0 ? day : total + day + 1;
+  return resolved >= 1 && resolved <= total ? resolved : null;
+};
+
+/**
+ * Pick the nth entry (negative counts from the end) or all entries without an ordinal
+ */
+const pickOrdinal = <T>(items: T[], ordinal?: number): T[] => {
+  if (ordinal === undefined) return items;
+  const picked = ordinal > 0 ? items[ordinal - 1] : items[items.length + ordinal];
+  return picked !== undefined ? [picked] : [];
+};
+
+/**
+ * All days of a month matching a BYDAY entry (one day when an ordinal is given)
+ */
+const resolveWeekdays = (year: number, month: number, { weekday, ordinal }: RRuleWeekday): number[] => {
+  const total = daysInMonth(year, month);
+  const firstWeekday = new Date(year, month, 1).getDay();
+  const days: number[] = [];
+  for (let day = 1 + ((weekday - firstWeekday + 7) % 7); day <= total; day += 7) {
+    days.push(day);
+  }
+  return pickOrdinal(days, ordinal);
+};
+
+/**
+ * All days of a year matching a BYDAY entry, with ordinals counted within the year
+ */
+const resolveYearWeekdays = (year: number, { weekday, ordinal }: RRuleWeekday): Date[] => {
+  const total = daysInYear(year);
+  const firstWeekday = new Date(year, 0, 1).getDay();
+  const days: Date[] = [];
+  for (let day = 1 + ((weekday - firstWeekday + 7) % 7); day <= total; day += 7) {
+    days.push(new Date(year, 0, day));
+  }
+  return pickOrdinal(days, ordinal);
+};
+
+/**
+ * Days of a month selected by BYMONTHDAY / BYDAY, falling back to the DTSTART day
+ */
+const resolveMonthDays = (year: number, month: number, rule: RRule, dtstart: Date): number[] => {
+  let days: number[] | null = null;
+
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay
+      .map((d) => resolveMonthDay(year, month, d))
+      .filter((d): d is number => d !== null);
+  }
+
+  if (rule.byDay.length > 0) {
+    const weekdays = rule.byDay.flatMap((entry) => resolveWeekdays(year, month, entry));
+    days = days ? days.filter((d) => weekdays.includes(d)) : weekdays;
+  }
+
+  if (!days) {
+    // RFC 5545: months without the DTSTART day are skipped, not clamped
+    const day = dtstart.getDate();
+    days = day <= daysInMonth(year, month) ? [day] : [];
+  }
+
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+};
+
+/**
+ * Whether a day passes the BYMONTH / BYMONTHDAY / BYDAY (weekday only) filters
+ */
+const matchesDayFilters = (day: Date, rule: RRule): boolean => {
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(day.getMonth() + 1)) return false;
+  if (rule.byDay.length > 0 && !rule.byDay.some((d) => d.weekday === day.getDay())) return false;
+  if (
+    rule.byMonthDay.length > 0 &&
+    !rule.byMonthDay.some((d) => resolveMonthDay(day.getFullYear(), day.getMonth(), d) === day.getDate())
+  ) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Days of a year selected by the BYxxx parts of a YEARLY rule
+ */
+const resolveYearDays = (year: number, rule: RRule, dtstart: Date): Date[] => {
+  if (rule.byYearDay.length > 0) {
+    const total = daysInYear(year);
+    return rule.byYearDay
+      .map((d) => (d > 0 ? d : total + d + 1))
+      .filter((d) => d >= 1 && d <= total)
+      .map((d) => new Date(year, 0, d))
+      .filter((day) => matchesDayFilters(day, rule));
+  }
+
+  // BYDAY alone spans the whole year, so "20MO" is the 20th Monday of the year
+  if (rule.byDay.length > 0 && rule.byMonth.length === 0 && rule.byMonthDay.length === 0) {
+    return rule.byDay.flatMap((entry) => resolveYearWeekdays(year, entry));
+  }
+
+  const months = rule.byMonth.length > 0
+    ? rule.byMonth.map((m) => m - 1)
+    : rule.byMonthDay.length > 0
+      ? Array.from({ length: 12 }, (_, m) => m)
+      : [dtstart.getMonth()];
+
+  return months.flatMap((month) =>
+    resolveMonthDays(year, month, rule, dtstart).map((day) => new Date(year, month, day))
+  );
+};
+
+const atStartTime = (year: number, month: number, day: number, dtstart: Date) =>
+  new Date(year, month, day, dtstart.getHours(), dtstart.getMinutes(), dtstart.getSeconds());
+
+const atDayStartTime = (day: Date, dtstart: Date) =>
+  atStartTime(day.getFullYear(), day.getMonth(), day.getDate(), dtstart);
+
+/**
+ * Sort and de-duplicate a period's candidates, then apply BYSETPOS
+ */
+const finalizePeriod = (candidates: Date[], rule: RRule): Date[] => {
+  const times = Array.from(new Set(candidates.map((d) => d.getTime()))).sort((a, b) => a - b);
+  if (rule.bySetPos.length === 0) return times.map((t) => new Date(t));
+
+  const picked = rule.bySetPos.flatMap((pos) => pickOrdinal(times, pos));
+  return Array.from(new Set(picked)).sort((a, b) => a - b).map((t) => new Date(t));
+};
+
+/**
+ * Candidate occurrence starts for the nth period of the rule, in ascending order
+ */
+const periodCandidates = (rule: RRule, dtstart: Date, period: number): Date[] => {
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const day = addDays(dtstart, step);
+      return matchesDayFilters(day, rule) ? [atDayStartTime(day, dtstart)] : [];
+    }
+
+    case "WEEKLY": {
+      const weekStartsOn = rule.wkst ?? 1;
+      const weekStart = addDays(startOfWeek(dtstart, weekStartsOn), step * 7);
+      const weekdays = rule.byDay.length > 0
+        ? rule.byDay.map((d) => d.weekday)
+        : [dtstart.getDay()];
+      return finalizePeriod(
+        weekdays
+          .map((weekday) => addDays(weekStart, (weekday - weekStartsOn + 7) % 7))
+          .filter((day) => rule.byMonth.length === 0 || rule.byMonth.includes(day.getMonth() + 1))
+          .map((day) => atDayStartTime(day, dtstart)),
+        rule
+      );
+    }
+
+    case "MONTHLY": {
+      const month = new Date(dtstart.getFullYear(), dtstart.getMonth() + step, 1);
+      const year = month.getFullYear();
+      const monthIndex = month.getMonth();
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(monthIndex + 1)) return [];
+      return finalizePeriod(
+        resolveMonthDays(year, monthIndex, rule, dtstart).map((day) => atStartTime(year, monthIndex, day, dtstart)),
+        rule
+      );
+    }
+
+    case "YEARLY": {
+      const year = dtstart.getFullYear() + step;
+      return finalizePeriod(
+        resolveYearDays(year, rule, dtstart).map((day) => atDayStartTime(day, dtstart)),
+        rule
+      );
+    }
+
+    default:
+      return [];
+  }
+};
+
+/**
+ * First period that can contain an occurrence at or after `from`.
+ * Only usable when the rule has no COUNT, since COUNT needs every prior occurrence.
+ */
+const firstPeriodFrom = (rule: RRule, dtstart: Date, from: Date): number => {
+  if (from <= dtstart) return 0;
+
+  let elapsed: number;
+  switch (rule.freq) {
+    case "DAILY":
+      elapsed = differenceInCalendarDays(from, dtstart);
+      break;
+    case "WEEKLY":
+      elapsed = Math.floor(differenceInCalendarDays(from, dtstart) / 7);
+      break;
+    case "MONTHLY":
+      elapsed = differenceInCalendarMonths(from, dtstart);
+      break;
+    case "YEARLY":
+      elapsed = from.getFullYear() - dtstart.getFullYear();
+      break;
+    default:
+      return 0;
+  }
+
+  // Step back one period to stay safe around week and month boundaries
+  return Math.max(0, Math.floor(elapsed / rule.interval) - 1);
+};
+
+/**
+ * Expand an RRULE into occurrence start times within [from, to).
+ * The first occurrence is always DTSTART itself, as in RFC 5545.
+ * Parts reported by getUnsupportedRRuleParts are ignored; sub-daily
+ * frequencies expand to DTSTART alone.
+ * Days and times are taken in `timeZone` (the viewer's zone when omitted), so
+ * occurrences keep their wall-clock time across daylight saving changes.
+ */
+export const expandRRule = (
+  rule: string | RRule,
+  dtstart: Date,
+  from: Date,
+  to: Date,
+  timeZone?: string | null
+): Date[] => {
+  const parsed = typeof rule === "string" ? parseRRule(rule) : rule;
+  if (!parsed || !SUPPORTED_FREQUENCIES.includes(parsed.freq)) {
+    return dtstart >= from && dtstart < to ? [dtstart] : [];
+  }
+
+  const zonedStart = toZonedTime(dtstart, timeZone);
+  const until = resolveRRuleUntil(parsed, timeZone);
+  const occurrences: Date[] = [];
+  let emitted = 0;
+  let period = parsed.count ? 0 : firstPeriodFrom(parsed, zonedStart, toZonedTime(from, timeZone));
+
+  for (let i = 0; i < MAX_PERIODS; i++, period++) {
+    const candidates = period === 0
+      ? [zonedStart, ...periodCandidates(parsed, zonedStart, 0).filter((d) => d > zonedStart)]
+      : periodCandidates(parsed, zonedStart, period);
+
+    for (const candidate of candidates) {
+      if (candidate < zonedStart) continue;
+
+      const instant = candidate === zonedStart ? dtstart : fromZonedTime(candidate, timeZone);
+      if (until && instant > until) return occurrences;
+      if (instant >= to) return occurrences;
+
+      emitted++;
+      if (instant >= from) occurrences.push(instant);
+      if (parsed.count && emitted >= parsed.count) return occurrences;
+    }
+  }
+
+  return occurrences;
+};
+
+/**
+ * Number of occurrences of a series that start before a given time
+ */
+export const countOccurrencesBefore = (
+  rule: string,
+  dtstart: Date,
+  before: Date,
+  timeZone?: string | null
+): number => expandRRule(rule, dtstart, dtstart, before, timeZone).length;
+
+/**
+ * End of the last occurrence of a series, or null when the series never ends.
+ * Stored as events.recurrence_end_date so series can be looked up by window.
+ */
+export const getSeriesEndDate = (
+  rule: string | null | undefined,
+  startsAt: string,
+  endsAt: string,
+  timeZone?: string | null
+): string | null => {
+  const parsed = parseRRule(rule);
+  if (!parsed) return null;
+
+  const dtstart = new Date(startsAt);
+  const duration = new Date(endsAt).getTime() - dtstart.getTime();
+
+  const until = resolveRRuleUntil(parsed, timeZone);
+  if (until) {
+    return new Date(until.getTime() + duration).toISOString();
+  }
+  if (parsed.count) {
+    const occurrences = expandRRule(parsed, dtstart, dtstart, new Date(8640000000000000), timeZone);
+    const last = occurrences[occurrences.length - 1] ?? dtstart;
+    return new Date(last.getTime() + duration).toISOString();
+  }
+  return null;
+};
+
+// =====================================================
+// Occurrence identifiers
+// =====================================================
+
+/**
+ * Stable id for an expanded occurrence: `<series id>_<original start in UTC>`
+ */
+export const buildOccurrenceId = (seriesId: string, occurrenceStart: Date | string): string =>
+  `${seriesId}_${toRRuleUTC(new Date(occurrenceStart))}`;
+
+/**
+ * Split an occurrence id back into its series id and original start.
+ * Returns null for plain event ids.
+ */
+export const parseOccurrenceId = (
+  id: string | null | undefined
+): { seriesId: string; occurrenceStart: string } | null => {
+  const match = id?.match(/^(.+)_(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return null;
+
+  const [, seriesId, y, mo, d, h, mi, s] = match;
+  return {
+    seriesId,
+    occurrenceStart: new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)).toISOString(),
+  };
+};
+
+/**
+ * Whether two timestamps refer to the same instant
+ */
+export const isSameInstant = (a: string | Date, b: string | Date) =>
+  new Date(a).getTime() === new Date(b).getTime();
+
+// =====================================================
+// Series expansion
+// =====================================================
+
+/**
+ * Expand series rows into occurrences overlapping the window.
+ * Occurrences listed in a series' exdates are dropped and occurrences with an
+ * override row are replaced by that row.
+ */
+export const expandRecurringEvents = <T extends RecurringRow>(
+  series: T[],
+  overrides: T[],
+  window: DateWindow,
+  timeZone?: string | null
+): Array<T & OccurrenceFields> => {
+  const result: Array<T & OccurrenceFields> = [];
+  const overrideKeys = new Set(
+    overrides
+      .filter((o) => o.parent_event_id && o.recurrence_id)
+      .map((o) => `${o.parent_event_id}|${new Date(o.recurrence_id!).getTime()}`)
+  );
+
+  for (const master of series) {
+    const dtstart = new Date(master.starts_at);
+    const duration = new Date(master.ends_at).getTime() - dtstart.getTime();
+    const exdates = new Set((master.recurrence_exdates || []).map((d) => new Date(d).getTime()));
+
+    const starts = expandRRule(
+      master.recurrence_rule || "",
+      dtstart,
+      new Date(window.start.getTime() - duration + 1),
+      window.end,
+      timeZone
+    );
+
+    for (const start of starts) {
+      const time = start.getTime();
+      if (exdates.has(time) || overrideKeys.has(`${master.id}|${time}`)) continue;
+
+      result.push({
+        ...master,
+        id: buildOccurrenceId(master.id, start),
+        starts_at: start.toISOString(),
+        ends_at: new Date(time + duration).toISOString(),
+        series_id: master.id,
+        occurrence_start: start.toISOString(),
+        series_starts_at: master.starts_at,
+        series_ends_at: master.ends_at,
+      });
+    }
+  }
+
+  for (const override of overrides) {
+    result.push({
+      ...override,
+      series_id: override.parent_event_id || undefined,
+      occurrence_start: override.recurrence_id || undefined,
+    });
+  }
+
+  return result;
+};
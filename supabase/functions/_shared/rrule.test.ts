@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  getUnsupportedRRuleParts,
+  normalizeRRule,
+  parseRRule,
+  parseRRuleDetailed,
+  resolveRRuleUntil,
+  serializeRRule,
+  setRRuleEnd,
+} from "./rrule.ts";
+
+describe("parseRRule / serializeRRule", () => {
+  it("round-trips a rule in canonical part order", () => {
+    const rule = "FREQ=WEEKLY;INTERVAL=2;UNTIL=20260105T045959Z;BYDAY=MO,WE,FR";
+    expect(serializeRRule(parseRRule(rule)!)).toBe(rule);
+    expect(normalizeRRule("byday=MO,WE,FR;interval=2;FREQ=weekly;UNTIL=20260105T045959Z")).toBe(rule);
+  });
+
+  it("accepts the RRULE: prefix", () => {
+    expect(normalizeRRule("RRULE:FREQ=DAILY;COUNT=3")).toBe("FREQ=DAILY;COUNT=3");
+  });
+
+  it("reads ordinals, negative days and set positions", () => {
+    const rule = parseRRule("FREQ=MONTHLY;BYDAY=-1SA,+2MO;BYMONTHDAY=-1;BYSETPOS=1,-1")!;
+    expect(rule.byDay).toEqual([
+      { weekday: 6, ordinal: -1 },
+      { weekday: 1, ordinal: 2 },
+    ]);
+    expect(rule.byMonthDay).toEqual([-1]);
+    expect(rule.bySetPos).toEqual([1, -1]);
+    expect(serializeRRule(rule)).toBe("FREQ=MONTHLY;BYDAY=-1SA,2MO;BYMONTHDAY=-1;BYSETPOS=1,-1");
+  });
+
+  it("keeps the form of DATE, floating and UTC UNTIL values", () => {
+    for (const until of ["20260105", "20260105T100000", "20260105T100000Z"]) {
+      expect(serializeRRule(parseRRule(`FREQ=DAILY;UNTIL=${until}`)!)).toBe(`FREQ=DAILY;UNTIL=${until}`);
+    }
+  });
+
+  it("returns null without a FREQ", () => {
+    expect(parseRRule("INTERVAL=2")).toBeNull();
+    expect(parseRRule("")).toBeNull();
+  });
+});
+
+describe("unknown parts", () => {
+  it("keeps extension and unreadable parts verbatim", () => {
+    const { rule, errors } = parseRRuleDetailed("FREQ=DAILY;X-ALIC-SOURCE=import;INTERVAL=0;FOO=bar");
+
+    expect(errors).toEqual(['Invalid INTERVAL "0"', 'Unknown rule part "FOO"']);
+    expect(serializeRRule(rule!)).toBe("FREQ=DAILY;X-ALIC-SOURCE=import;INTERVAL=0;FOO=bar");
+  });
+
+  it("reports parts the calendar cannot expand", () => {
+    const rule = parseRRule("FREQ=HOURLY;BYWEEKNO=20;BYHOUR=9;X-NAME=x")!;
+    expect(getUnsupportedRRuleParts(rule)).toEqual(["FREQ=HOURLY", "BYHOUR=9", "BYWEEKNO=20", "X-NAME=x"]);
+  });
+
+  it("keeps unknown parts when the end condition changes", () => {
+    expect(setRRuleEnd("FREQ=WEEKLY;COUNT=10;BYDAY=TU;X-NAME=x", { until: new Date("2026-03-01T00:00:00Z") })).toBe(
+      "FREQ=WEEKLY;UNTIL=20260301T000000Z;BYDAY=TU;X-NAME=x"
+    );
+  });
+});
+
+describe("resolveRRuleUntil", () => {
+  it("ends a DATE bound at the end of that day in the time zone", () => {
+    const rule = parseRRule("FREQ=DAILY;UNTIL=20260105")!;
+    expect(resolveRRuleUntil(rule, "America/Los_Angeles")!.toISOString()).toBe("2026-01-06T07:59:59.000Z");
+    expect(resolveRRuleUntil(rule, "Asia/Tokyo")!.toISOString()).toBe("2026-01-05T14:59:59.000Z");
+  });
+
+  it("reads a floating bound in the time zone", () => {
+    const rule = parseRRule("FREQ=DAILY;UNTIL=20260705T100000")!;
+    expect(resolveRRuleUntil(rule, "Europe/Berlin")!.toISOString()).toBe("2026-07-05T08:00:00.000Z");
+  });
+
+  it("leaves a UTC bound as is", () => {
+    const rule = parseRRule("FREQ=DAILY;UNTIL=20260105T100000Z")!;
+    expect(resolveRRuleUntil(rule, "Asia/Tokyo")!.toISOString()).toBe("2026-01-05T10:00:00.000Z");
+  });
+});
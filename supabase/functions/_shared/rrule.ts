@@ -0,0 +1,403 @@
+/**
+ * RRULE Utility
+ * RFC 5545 recurrence rule parsing and serialization, shared by the app and
+ * the public events API. Dependency-free so it runs in the browser and Deno.
+ * Parts that are not understood are kept verbatim so a rule always round-trips,
+ * and parts the calendar cannot expand are reported instead of dropped.
+ */
+
+import { fromZonedTime } from "./timezone.ts";
+
+export type RRuleFrequency =
+  | "SECONDLY"
+  | "MINUTELY"
+  | "HOURLY"
+  | "DAILY"
+  | "WEEKLY"
+  | "MONTHLY"
+  | "YEARLY";
+
+export const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+export type WeekdayCode = (typeof WEEKDAY_CODES)[number];
+
+export interface RRuleWeekday {
+  weekday: number; // 0 = Sunday, 6 = Saturday
+  ordinal?: number; // e.g. 1 = first, -1 = last
+}
+
+export interface RRulePart {
+  name: string;
+  value: string;
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  // For DATE and floating values the UTC fields hold the wall-clock date and
+  // time; resolveRRuleUntil gives the instant in a time zone
+  until?: Date;
+  // UNTIL given as a DATE value (no time part)
+  untilIsDate?: boolean;
+  // UNTIL given without the UTC "Z" suffix (floating local time)
+  untilIsLocal?: boolean;
+  wkst?: number; // 0 = Sunday; RFC default is Monday
+  bySecond: number[];
+  byMinute: number[];
+  byHour: number[];
+  byDay: RRuleWeekday[];
+  byMonthDay: number[];
+  byYearDay: number[];
+  byWeekNo: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  // Parts that are not part of RFC 5545 or had values that could not be read
+  unknown: RRulePart[];
+}
+
+export interface RRuleParseResult {
+  rule: RRule | null;
+  // Problems that make parts of the rule unreadable (kept verbatim in `unknown`)
+  errors: string[];
+}
+
+// Frequencies the calendar expands (events are at most daily)
+export const SUPPORTED_FREQUENCIES: RRuleFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+// Canonical output order of known parts
+const PART_ORDER = [
+  "FREQ",
+  "INTERVAL",
+  "COUNT",
+  "UNTIL",
+  "WKST",
+  "BYSECOND",
+  "BYMINUTE",
+  "BYHOUR",
+  "BYDAY",
+  "BYMONTHDAY",
+  "BYYEARDAY",
+  "BYWEEKNO",
+  "BYMONTH",
+  "BYSETPOS",
+] as const;
+
+const FREQUENCIES: RRuleFrequency[] = ["SECONDLY", "MINUTELY", "HOURLY", "DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+// Allowed ranges for numeric list parts; negative values count from the end
+const LIST_RANGES: Record<string, { min: number; max: number; signed: boolean }> = {
+  BYSECOND: { min: 0, max: 60, signed: false },
+  BYMINUTE: { min: 0, max: 59, signed: false },
+  BYHOUR: { min: 0, max: 23, signed: false },
+  BYMONTHDAY: { min: 1, max: 31, signed: true },
+  BYYEARDAY: { min: 1, max: 366, signed: true },
+  BYWEEKNO: { min: 1, max: 53, signed: true },
+  BYMONTH: { min: 1, max: 12, signed: false },
+  BYSETPOS: { min: 1, max: 366, signed: true },
+};
+
+const LIST_FIELDS: Record<string, keyof RRule> = {
+  BYSECOND: "bySecond",
+  BYMINUTE: "byMinute",
+  BYHOUR: "byHour",
+  BYMONTHDAY: "byMonthDay",
+  BYYEARDAY: "byYearDay",
+  BYWEEKNO: "byWeekNo",
+  BYMONTH: "byMonth",
+  BYSETPOS: "bySetPos",
+};
+
+// =====================================================
+// Helpers
+// =====================================================
+
+/**
+ * Format a date as an RRULE UTC date-time (YYYYMMDDTHHMMSSZ)
+ */
+export const toRRuleUTC = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+
+/**
+ * Parse an UNTIL value (DATE, floating DATE-TIME or UTC DATE-TIME).
+ * DATE and floating values keep their wall-clock fields in UTC so they do not
+ * depend on the runtime's zone.
+ */
+const parseUntil = (value: string): Pick<RRule, "until" | "untilIsDate" | "untilIsLocal"> | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined) {
+    return { until: new Date(Date.UTC(+y, +mo - 1, +d)), untilIsDate: true };
+  }
+  const until = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s));
+  return utc ? { until } : { until, untilIsLocal: true };
+};
+
+const formatUntil = (rule: RRule): string => {
+  const until = rule.until!;
+  if (rule.untilIsDate) return toRRuleUTC(until).slice(0, 8);
+  if (rule.untilIsLocal) return toRRuleUTC(until).slice(0, 15);
+  return toRRuleUTC(until);
+};
+
+const parseNumberList = (name: string, value: string): number[] | null => {
+  const range = LIST_RANGES[name];
+  const numbers: number[] = [];
+
+  for (const token of value.split(",")) {
+    if (!/^[+-]?\d+$/.test(token.trim())) return null;
+    const number = parseInt(token, 10);
+    const magnitude = Math.abs(number);
+    if (number < 0 && !range.signed) return null;
+    if (magnitude < range.min || magnitude > range.max || (range.signed && number === 0)) return null;
+    numbers.push(number);
+  }
+
+  return numbers;
+};
+
+const parseWeekdayList = (value: string): RRuleWeekday[] | null => {
+  const weekdays: RRuleWeekday[] = [];
+
+  for (const token of value.split(",")) {
+    const match = token.trim().toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) return null;
+
+    const ordinal = match[1] ? parseInt(match[1], 10) : undefined;
+    if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 53)) return null;
+
+    weekdays.push({ weekday: WEEKDAY_CODES.indexOf(match[2] as WeekdayCode), ordinal });
+  }
+
+  return weekdays;
+};
+
+/**
+ * Format a BYDAY entry (e.g. "MO", "-1SA")
+ */
+export const formatRRuleWeekday = ({ weekday, ordinal }: RRuleWeekday): string =>
+  `${ordinal !== undefined ? ordinal : ""}${WEEKDAY_CODES[weekday]}`;
+
+// =====================================================
+// Parsing and serialization
+// =====================================================
+
+/**
+ * Create an empty rule with the given frequency
+ */
+export const createRRule = (freq: RRuleFrequency, overrides: Partial<RRule> = {}): RRule => ({
+  freq,
+  interval: 1,
+  bySecond: [],
+  byMinute: [],
+  byHour: [],
+  byDay: [],
+  byMonthDay: [],
+  byYearDay: [],
+  byWeekNo: [],
+  byMonth: [],
+  bySetPos: [],
+  unknown: [],
+  ...overrides,
+});
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix), collecting errors.
+ * Unreadable and non-standard parts are preserved in `unknown`.
+ */
+export const parseRRuleDetailed = (input: string | null | undefined): RRuleParseResult => {
+  const errors: string[] = [];
+  if (!input || !input.trim()) return { rule: null, errors };
+
+  const rule = createRRule("DAILY");
+  let hasFreq = false;
+  const seen = new Set<string>();
+
+  const body = input.trim().replace(/^RRULE:/i, "");
+  for (const part of body.split(";")) {
+    if (!part.trim()) continue;
+
+    const separator = part.indexOf("=");
+    const name = (separator === -1 ? part : part.slice(0, separator)).trim().toUpperCase();
+    const value = separator === -1 ? "" : part.slice(separator + 1).trim();
+    const keep = (reason: string) => {
+      errors.push(reason);
+      rule.unknown.push({ name, value });
+    };
+
+    if (seen.has(name) && (PART_ORDER as readonly string[]).includes(name)) {
+      keep(`${name} appears more than once`);
+      continue;
+    }
+    seen.add(name);
+
+    switch (name) {
+      case "FREQ": {
+        const freq = value.toUpperCase() as RRuleFrequency;
+        if (FREQUENCIES.includes(freq)) {
+          rule.freq = freq;
+          hasFreq = true;
+        } else {
+          keep(`Unknown FREQ "${value}"`);
+        }
+        break;
+      }
+      case "INTERVAL": {
+        const interval = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+        if (interval >= 1) rule.interval = interval;
+        else keep(`Invalid INTERVAL "${value}"`);
+        break;
+      }
+      case "COUNT": {
+        const count = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+        if (count >= 1) rule.count = count;
+        else keep(`Invalid COUNT "${value}"`);
+        break;
+      }
+      case "UNTIL": {
+        const until = parseUntil(value);
+        if (until) Object.assign(rule, until);
+        else keep(`Invalid UNTIL "${value}"`);
+        break;
+      }
+      case "WKST": {
+        const index = WEEKDAY_CODES.indexOf(value.toUpperCase() as WeekdayCode);
+        if (index >= 0) rule.wkst = index;
+        else keep(`Invalid WKST "${value}"`);
+        break;
+      }
+      case "BYDAY": {
+        const weekdays = parseWeekdayList(value);
+        if (weekdays) rule.byDay = weekdays;
+        else keep(`Invalid BYDAY "${value}"`);
+        break;
+      }
+      default: {
+        if (LIST_FIELDS[name]) {
+          const numbers = parseNumberList(name, value);
+          if (numbers) Object.assign(rule, { [LIST_FIELDS[name]]: numbers });
+          else keep(`Invalid ${name} "${value}"`);
+        } else if (name.startsWith("X-")) {
+          rule.unknown.push({ name, value });
+        } else {
+          keep(`Unknown rule part "${name}"`);
+        }
+      }
+    }
+  }
+
+  if (!hasFreq) {
+    errors.push("FREQ is required");
+    return { rule: null, errors };
+  }
+  if (rule.count !== undefined && rule.until) {
+    errors.push("COUNT and UNTIL must not both be set");
+  }
+
+  return { rule, errors };
+};
+
+/**
+ * Parse an RRULE, returning null when it has no usable FREQ
+ */
+export const parseRRule = (input: string | null | undefined): RRule | null =>
+  parseRRuleDetailed(input).rule;
+
+/**
+ * Serialize a rule to an RRULE value (without the "RRULE:" prefix).
+ * Known parts come first in canonical order, then preserved unknown parts.
+ */
+export const serializeRRule = (rule: RRule): string => {
+  const parts: string[] = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule)}`);
+  if (rule.wkst !== undefined) parts.push(`WKST=${WEEKDAY_CODES[rule.wkst]}`);
+  if (rule.bySecond.length) parts.push(`BYSECOND=${rule.bySecond.join(",")}`);
+  if (rule.byMinute.length) parts.push(`BYMINUTE=${rule.byMinute.join(",")}`);
+  if (rule.byHour.length) parts.push(`BYHOUR=${rule.byHour.join(",")}`);
+  if (rule.byDay.length) parts.push(`BYDAY=${rule.byDay.map(formatRRuleWeekday).join(",")}`);
+  if (rule.byMonthDay.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byYearDay.length) parts.push(`BYYEARDAY=${rule.byYearDay.join(",")}`);
+  if (rule.byWeekNo.length) parts.push(`BYWEEKNO=${rule.byWeekNo.join(",")}`);
+  if (rule.byMonth.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.bySetPos.length) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+
+  for (const part of rule.unknown) {
+    parts.push(part.value ? `${part.name}=${part.value}` : part.name);
+  }
+
+  return parts.join(";");
+};
+
+/**
+ * Re-serialize a stored rule in canonical form, or null when it cannot be read
+ */
+export const normalizeRRule = (input: string | null | undefined): string | null => {
+  const rule = parseRRule(input);
+  return rule ? serializeRRule(rule) : null;
+};
+
+/**
+ * Replace the end condition of a rule with an UNTIL (UTC) or a COUNT,
+ * keeping every other part
+ */
+export const setRRuleEnd = (input: string, end: { until?: Date; count?: number }): string => {
+  const rule = parseRRule(input);
+  if (!rule) return input;
+
+  return serializeRRule({
+    ...rule,
+    count: end.until ? undefined : end.count,
+    until: end.until,
+    untilIsDate: false,
+    untilIsLocal: false,
+  });
+};
+
+/**
+ * Instant the UNTIL bound of a rule ends at. DATE and floating values are
+ * wall-clock times in `timeZone` (the viewer's zone when omitted), and a DATE
+ * includes the whole day.
+ */
+export const resolveRRuleUntil = (rule: RRule, timeZone?: string | null): Date | undefined => {
+  const { until } = rule;
+  if (!until || (!rule.untilIsDate && !rule.untilIsLocal)) return until;
+
+  const wallClock = rule.untilIsDate
+    ? new Date(until.getUTCFullYear(), until.getUTCMonth(), until.getUTCDate(), 23, 59, 59)
+    : new Date(
+        until.getUTCFullYear(),
+        until.getUTCMonth(),
+        until.getUTCDate(),
+        until.getUTCHours(),
+        until.getUTCMinutes(),
+        until.getUTCSeconds()
+      );
+  return fromZonedTime(wallClock, timeZone);
+};
+
+// =====================================================
+// Support reporting
+// =====================================================
+
+/**
+ * Parts of a rule the calendar cannot honour when expanding occurrences.
+ * Expansion ignores these; callers should surface them to the user.
+ */
+export const getUnsupportedRRuleParts = (rule: RRule): string[] => {
+  const unsupported: string[] = [];
+
+  if (!SUPPORTED_FREQUENCIES.includes(rule.freq)) unsupported.push(`FREQ=${rule.freq}`);
+  if (rule.bySecond.length) unsupported.push(`BYSECOND=${rule.bySecond.join(",")}`);
+  if (rule.byMinute.length) unsupported.push(`BYMINUTE=${rule.byMinute.join(",")}`);
+  if (rule.byHour.length) unsupported.push(`BYHOUR=${rule.byHour.join(",")}`);
+  if (rule.byWeekNo.length) unsupported.push(`BYWEEKNO=${rule.byWeekNo.join(",")}`);
+  for (const part of rule.unknown) {
+    unsupported.push(part.value ? `${part.name}=${part.value}` : part.name);
+  }
+
+  return unsupported;
+};
@@ -0,0 +1,146 @@
+/**
+ * Timezone Utility
+ * Conversions between wall-clock times in an IANA time zone and UTC instants,
+ * shared by the app and the public events API. Dependency-free so it runs in
+ * the browser and Deno.
+ */
+
+export interface WallClockTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Formatters are expensive to create, so keep one per zone
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Whether a string is an IANA time zone known to the runtime
+ */
+export const isValidTimeZone = (timeZone: string | null | undefined): boolean => {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock time of an instant in a time zone
+ */
+export const getWallClockTime = (date: Date, timeZone: string): WallClockTime => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .filter((part) => part.type !== "literal")
+      .map((part) => [part.type, parseInt(part.value, 10)])
+  );
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+const wallClockAsUTC = (time: WallClockTime) =>
+  Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second);
+
+/**
+ * Offset of a time zone from UTC at an instant, in minutes (east positive)
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((wallClockAsUTC(getWallClockTime(new Date(instant), timeZone)) - instant) / 60000);
+};
+
+/**
+ * Instant of a wall-clock time in a time zone. Times repeated when clocks
+ * fall back resolve to the first occurrence; times skipped when they spring
+ * forward use the offset before the gap, as in RFC 5545.
+ */
+export const zonedTimeToUtc = (time: WallClockTime, timeZone: string): Date => {
+  const naive = wallClockAsUTC(time);
+  const firstGuess = naive - getTimeZoneOffset(new Date(naive), timeZone) * 60000;
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  const candidate = naive - offset * 60000;
+
+  // An earlier offset may also match (repeated hour); prefer it
+  const earlierOffset = getTimeZoneOffset(new Date(candidate - 3600000), timeZone);
+  if (earlierOffset !== offset) {
+    const earlier = naive - earlierOffset * 60000;
+    if (wallClockAsUTC(getWallClockTime(new Date(earlier), timeZone)) === naive) return new Date(earlier);
+  }
+
+  // In a gap the candidate falls before the change, where the earlier offset applies
+  if (wallClockAsUTC(getWallClockTime(new Date(candidate), timeZone)) !== naive) {
+    return new Date(naive - getTimeZoneOffset(new Date(candidate), timeZone) * 60000);
+  }
+
+  return new Date(candidate);
+};
+
+// =====================================================
+// Zoned dates
+// =====================================================
+// A "zoned" Date carries the wall-clock time of a zone in its local fields, so
+// date math on those fields happens in that zone.
+
+/**
+ * Date whose local fields show the wall-clock time of an instant in a time zone.
+ * Without a valid zone the instant is returned in the viewer's zone unchanged.
+ */
+export const toZonedTime = (date: Date | string, timeZone?: string | null): Date => {
+  const instant = new Date(date);
+  if (!isValidTimeZone(timeZone)) return instant;
+
+  const time = getWallClockTime(instant, timeZone!);
+  return new Date(time.year, time.month - 1, time.day, time.hour, time.minute, time.second, instant.getMilliseconds());
+};
+
+/**
+ * Instant of a Date whose local fields hold a wall-clock time in a time zone
+ * (the inverse of toZonedTime)
+ */
+export const fromZonedTime = (date: Date, timeZone?: string | null): Date => {
+  if (!isValidTimeZone(timeZone)) return new Date(date);
+
+  const instant = zonedTimeToUtc(
+    {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+    },
+    timeZone!
+  );
+  return new Date(instant.getTime() + date.getMilliseconds());
+};
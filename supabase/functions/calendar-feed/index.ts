@@ -0,0 +1,199 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { buildCalendar, type IcsEvent } from "../_shared/ics.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Past events kept in the feed; ongoing series and future events are always included
+const HISTORY_DAYS = 90;
+
+// How often calendar apps should re-fetch the feed
+const REFRESH_INTERVAL = "PT1H";
+
+// Rows read per request; the API returns at most max_rows (1000 by default) at once
+const ROWS_PER_PAGE = 1000;
+
+interface FeedEventRow {
+  id: string;
+  title: string;
+  description: string | null;
+  starts_at: string;
+  ends_at: string;
+  status: string;
+  is_recurring: boolean | null;
+  recurrence_rule: string | null;
+  recurrence_exdates: string[] | null;
+  parent_event_id: string | null;
+  recurrence_id: string | null;
+  room_id: string;
+  additional_room_ids: string[] | null;
+  is_whole_building: boolean | null;
+  created_by: string;
+  ministry_id: string | null;
+  rooms: { name: string } | null;
+}
+
+const textResponse = (message: string, status: number) =>
+  new Response(message, {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "text/plain; charset=utf-8" },
+  });
+
+/**
+ * Serves an organization's published events as an iCalendar feed.
+ * The feed is identified by its secret token, passed as `?token=` or as the
+ * last path segment (`/calendar-feed/<token>.ics`), so subscribers need no login.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return textResponse("Method not allowed", 405);
+  }
+
+  try {
+    const url = new URL(req.url);
+    const lastSegment = url.pathname.split("/").pop()?.replace(/\.ics$/i, "");
+    const token = url.searchParams.get("token") || (lastSegment !== "calendar-feed" ? lastSegment : null);
+
+    if (!token) {
+      return textResponse("Missing feed token", 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const { data: feed, error: feedError } = await supabaseAdmin
+      .from("calendar_feeds")
+      .select("id, organization_id, room_id, ministry_id, organizations(name, slug, timezone), rooms(name)")
+      .eq("token", token)
+      .is("revoked_at", null)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+    if (!feed || !feed.organizations) {
+      return textResponse("Calendar feed not found", 404);
+    }
+
+    const organization = feed.organizations as { name: string; slug: string; timezone: string | null };
+    let calendarName = `${organization.name} Events`;
+    if (feed.rooms) {
+      calendarName += ` - ${(feed.rooms as { name: string }).name}`;
+    }
+
+    // Ministry feeds include the events the ministry owns
+    if (feed.ministry_id) {
+      const { data: ministry, error: ministryError } = await supabaseAdmin
+        .schema("budget")
+        .from("ministries")
+        .select("name")
+        .eq("id", feed.ministry_id)
+        .maybeSingle();
+
+      if (ministryError) throw ministryError;
+      if (!ministry) {
+        return textResponse("Calendar feed not found", 404);
+      }
+
+      calendarName += ` - ${ministry.name}`;
+    }
+
+    // Standalone events and overrides that have not long ended, plus series still running
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const rows: FeedEventRow[] = [];
+    for (let from = 0; ; from += ROWS_PER_PAGE) {
+      const { data: page, error: eventsError } = await supabaseAdmin
+        .from("events")
+        .select(`
+          id, title, description, starts_at, ends_at, status, is_recurring,
+          recurrence_rule, recurrence_exdates, parent_event_id, recurrence_id,
+          room_id, additional_room_ids, is_whole_building, created_by, ministry_id, rooms(name)
+        `)
+        .eq("organization_id", feed.organization_id)
+        .or(
+          `ends_at.gte.${since},recurrence_end_date.gte.${since},and(recurrence_rule.not.is.null,recurrence_end_date.is.null)`
+        )
+        .order("id")
+        .range(from, from + ROWS_PER_PAGE - 1);
+
+      if (eventsError) throw eventsError;
+      rows.push(...((page || []) as FeedEventRow[]));
+      if (!page || page.length < ROWS_PER_PAGE) break;
+    }
+
+    // Names of additional rooms, for the location of multi-room events
+    const { data: rooms, error: roomsError } = await supabaseAdmin
+      .from("rooms")
+      .select("id, name")
+      .eq("organization_id", feed.organization_id);
+
+    if (roomsError) throw roomsError;
+    const roomNames = new Map((rooms || []).map((room) => [room.id, room.name]));
+
+    // Room feeds include multi-room and whole-building events holding the room
+    const holdsFeedRoom = (row: FeedEventRow) =>
+      !feed.room_id ||
+      row.room_id === feed.room_id ||
+      !!row.is_whole_building ||
+      (row.additional_room_ids || []).includes(feed.room_id);
+
+    const included = (row: FeedEventRow) =>
+      row.status === "published" &&
+      holdsFeedRoom(row) &&
+      (!feed.ministry_id || row.ministry_id === feed.ministry_id);
+
+    const getLocation = (row: FeedEventRow) => {
+      if (row.is_whole_building) return "Whole building";
+      const additional = (row.additional_room_ids || []).map((id) => roomNames.get(id)).filter(Boolean);
+      return [row.rooms?.name, ...additional].filter(Boolean).join(", ");
+    };
+
+    const toIcsEvent = (row: FeedEventRow): IcsEvent => ({
+      ...row,
+      room: { name: getLocation(row) },
+    });
+
+    // Overrides left out of the feed still hide their occurrence of the series
+    const events = rows.filter(included).map(toIcsEvent);
+    const excluded = rows
+      .filter((row) => row.parent_event_id && !included(row))
+      .map(toIcsEvent);
+
+    // Stored recurrence rules were serialized by the app's RRULE module and are written as is
+    const body = buildCalendar(events, excluded, {
+      calendarName,
+      productName: organization.name,
+      timezone: organization.timezone || "America/New_York",
+      uidDomain: `${organization.slug}.events`,
+      includeDescription: true,
+      includeLocation: true,
+      refreshInterval: REFRESH_INTERVAL,
+    });
+
+    return new Response(req.method === "HEAD" ? null : body, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="${organization.slug}.ics"`,
+        "Cache-Control": "public, max-age=900",
+      },
+    });
+  } catch (error) {
+    console.error("Error serving calendar feed:", error);
+    return textResponse("Unable to load calendar feed", 500);
+  }
+});
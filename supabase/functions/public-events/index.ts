@@ -0,0 +1,351 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { buildOccurrenceId, expandRecurringEvents } from "../_shared/recurrence.ts";
+import { getWallClockTime, zonedTimeToUtc } from "../_shared/timezone.ts";
+
+const APP_URL = Deno.env.get("APP_URL") || "https://app.addislidet.info";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, if-none-match",
+  "Access-Control-Expose-Headers": "ETag, Link",
+};
+
+// Version in the URL; a breaking change to the response schema gets a new one
+const API_VERSION = "v1";
+
+// Range returned when none is given, and the longest range one request may span
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rows read per request; the API returns at most max_rows (1000 by default) at once
+const ROWS_PER_PAGE = 1000;
+
+interface PublicEventRow {
+  id: string;
+  title: string;
+  description: string | null;
+  starts_at: string;
+  ends_at: string;
+  status: string;
+  category: string | null;
+  ministry_id: string | null;
+  registration_enabled: boolean;
+  recurrence_rule: string | null;
+  recurrence_exdates: string[] | null;
+  parent_event_id: string | null;
+  recurrence_id: string | null;
+  room_id: string;
+  additional_room_ids: string[] | null;
+  is_whole_building: boolean | null;
+}
+
+// Columns read for the response; nothing about who booked or reviewed an event
+const EVENT_COLUMNS = `
+  id, title, description, starts_at, ends_at, status, category, ministry_id,
+  registration_enabled, recurrence_rule, recurrence_exdates, parent_event_id,
+  recurrence_id, room_id, additional_room_ids, is_whole_building
+`;
+
+/**
+ * An event as returned by the API. Fields are only ever added within a version.
+ */
+interface PublicEvent {
+  // Occurrences of a series get "<series id>_<original start in UTC>"
+  id: string;
+  series_id: string | null;
+  title: string;
+  description: string | null;
+  starts_at: string;
+  ends_at: string;
+  category: string | null;
+  ministry: string | null;
+  location: {
+    whole_building: boolean;
+    rooms: string[];
+  };
+  registration_enabled: boolean;
+  url: string;
+}
+
+const jsonResponse = (body: unknown, status: number, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json; charset=utf-8", ...headers },
+  });
+
+const errorResponse = (code: string, message: string, status: number) =>
+  jsonResponse({ error: { code, message } }, status);
+
+const parsePositiveInt = (value: string | null, fallback: number): number | null => {
+  if (value === null) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+const parseDate = (value: string | null, fallback: Date): Date | null => {
+  if (value === null) return fallback;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+// Midnight of the day an instant falls on in a time zone
+const startOfDay = (date: Date, timeZone: string): Date => {
+  const { year, month, day } = getWallClockTime(date, timeZone);
+  return zonedTimeToUtc({ year, month, day, hour: 0, minute: 0, second: 0 }, timeZone);
+};
+
+// Weak validator of a response body, for If-None-Match
+const computeETag = async (body: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `W/"${hex.slice(0, 32)}"`;
+};
+
+const matchesETag = (header: string | null, etag: string): boolean =>
+  !!header && header.split(",").some((tag) => {
+    const trimmed = tag.trim();
+    return trimmed === "*" || trimmed.replace(/^W\//, "") === etag.replace(/^W\//, "");
+  });
+
+/**
+ * Read-only JSON API of an organization's published events:
+ *
+ *   GET /public-events/v1/<organization slug>/events?start=&end=&page=&per_page=
+ *
+ * Recurring series are expanded into occurrences within the range. Responses
+ * carry an ETag, so clients polling with If-None-Match get 304 until an event
+ * in the page changes.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return errorResponse("method_not_allowed", "Only GET requests are supported", 405);
+  }
+
+  try {
+    const url = new URL(req.url);
+    const segments = url.pathname.split("/").filter(Boolean);
+    const [version, slug, resource] = segments.slice(segments.indexOf("public-events") + 1);
+
+    if (version !== API_VERSION) {
+      return errorResponse("unknown_version", `Unknown API version; use /public-events/${API_VERSION}/`, 404);
+    }
+    if (!slug || resource !== "events") {
+      return errorResponse("not_found", `Use /public-events/${API_VERSION}/<organization slug>/events`, 404);
+    }
+
+    const page = parsePositiveInt(url.searchParams.get("page"), 1);
+    const perPage = parsePositiveInt(url.searchParams.get("per_page"), DEFAULT_PAGE_SIZE);
+    if (!page || !perPage || perPage > MAX_PAGE_SIZE) {
+      return errorResponse(
+        "invalid_parameter",
+        `page must be a positive integer and per_page between 1 and ${MAX_PAGE_SIZE}`,
+        400
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const { data: organization, error: orgError } = await supabaseAdmin
+      .from("organizations")
+      .select("id, name, slug, timezone")
+      .eq("slug", slug)
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (orgError) throw orgError;
+    if (!organization) {
+      return errorResponse("not_found", "Organization not found", 404);
+    }
+
+    // Without a start the range begins at midnight in the organization's time
+    // zone, so the response and its ETag stay the same through the day
+    const start = parseDate(
+      url.searchParams.get("start"),
+      startOfDay(new Date(), organization.timezone || "America/New_York")
+    );
+    if (!start) {
+      return errorResponse("invalid_parameter", "start must be an ISO 8601 date or time", 400);
+    }
+    const end = parseDate(url.searchParams.get("end"), new Date(start.getTime() + DEFAULT_RANGE_DAYS * DAY_MS));
+    if (!end || end <= start) {
+      return errorResponse("invalid_parameter", "end must be an ISO 8601 date or time after start", 400);
+    }
+    if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return errorResponse("invalid_parameter", `The range may span at most ${MAX_RANGE_DAYS} days`, 400);
+    }
+
+    const rangeStart = start.toISOString();
+    const rangeEnd = end.toISOString();
+    const eventsQuery = () =>
+      supabaseAdmin.from("events").select(EVENT_COLUMNS).eq("organization_id", organization.id);
+
+    // Every matching row, read a page at a time
+    const readAll = async (
+      query: () => ReturnType<typeof eventsQuery>
+    ): Promise<PublicEventRow[]> => {
+      const rows: PublicEventRow[] = [];
+      for (let from = 0; ; from += ROWS_PER_PAGE) {
+        const { data: page, error } = await query()
+          .order("id")
+          .range(from, from + ROWS_PER_PAGE - 1);
+
+        if (error) throw error;
+        rows.push(...((page || []) as PublicEventRow[]));
+        if (!page || page.length < ROWS_PER_PAGE) return rows;
+      }
+    };
+
+    const [standalone, seriesRows, rooms, ministries] = await Promise.all([
+      readAll(() =>
+        eventsQuery()
+          .eq("status", "published")
+          .is("recurrence_rule", null)
+          .is("parent_event_id", null)
+          .lt("starts_at", rangeEnd)
+          .gt("ends_at", rangeStart)
+      ),
+      readAll(() =>
+        eventsQuery()
+          .eq("status", "published")
+          .not("recurrence_rule", "is", null)
+          .is("parent_event_id", null)
+          .lt("starts_at", rangeEnd)
+          .or(`recurrence_end_date.is.null,recurrence_end_date.gt.${rangeStart}`)
+      ),
+      supabaseAdmin.from("rooms").select("id, name, is_active").eq("organization_id", organization.id).order("name"),
+      supabaseAdmin.rpc("list_public_ministries", { _organization_id: organization.id }),
+    ]);
+
+    if (rooms.error) throw rooms.error;
+    if (ministries.error) throw ministries.error;
+
+    // Every override of the series is read, whatever its status or date, so
+    // an unpublished change or one moved out of the range still hides the
+    // occurrence it replaces
+    const overrides = seriesRows.length > 0
+      ? await readAll(() => eventsQuery().in("parent_event_id", seriesRows.map((row) => row.id)))
+      : [];
+
+    const roomNames = new Map((rooms.data || []).map((room) => [room.id, room.name]));
+    const activeRooms = (rooms.data || []).filter((room) => room.is_active).map((room) => room.name);
+    const ministryNames = new Map(
+      ((ministries.data || []) as { id: string; name: string }[]).map((ministry) => [ministry.id, ministry.name])
+    );
+
+    const occurrences = [
+      ...standalone,
+      ...expandRecurringEvents(
+        seriesRows,
+        overrides,
+        { start, end },
+        organization.timezone
+      ).filter(
+        (event) =>
+          event.status === "published" && new Date(event.starts_at) < end && new Date(event.ends_at) > start
+      ),
+    ].sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime() || a.id.localeCompare(b.id));
+
+    const toPublicEvent = (event: (typeof occurrences)[number]): PublicEvent => {
+      const seriesId = "series_id" in event ? event.series_id || null : null;
+      return {
+        id: event.parent_event_id && event.recurrence_id
+          ? buildOccurrenceId(event.parent_event_id, event.recurrence_id)
+          : event.id,
+        series_id: seriesId,
+        title: event.title,
+        description: event.description,
+        starts_at: new Date(event.starts_at).toISOString(),
+        ends_at: new Date(event.ends_at).toISOString(),
+        category: event.category,
+        ministry: event.ministry_id ? ministryNames.get(event.ministry_id) || null : null,
+        location: {
+          whole_building: !!event.is_whole_building,
+          rooms: event.is_whole_building
+            ? activeRooms
+            : [event.room_id, ...(event.additional_room_ids || [])]
+                .map((id) => roomNames.get(id))
+                .filter((name): name is string => !!name),
+        },
+        registration_enabled: event.registration_enabled,
+        url: `${APP_URL}/public/${organization.slug}`,
+      };
+    };
+
+    const total = occurrences.length;
+    const totalPages = Math.max(1, Math.ceil(total / perPage));
+    const events = occurrences.slice((page - 1) * perPage, page * perPage).map(toPublicEvent);
+
+    const pageUrl = (target: number) => {
+      const link = new URL(url);
+      link.searchParams.set("start", rangeStart);
+      link.searchParams.set("end", rangeEnd);
+      link.searchParams.set("page", String(target));
+      link.searchParams.set("per_page", String(perPage));
+      return link.toString();
+    };
+    const nextPage = page < totalPages ? pageUrl(page + 1) : null;
+    const previousPage = page > 1 ? pageUrl(Math.min(page - 1, totalPages)) : null;
+
+    const body = JSON.stringify({
+      version: API_VERSION,
+      organization: {
+        name: organization.name,
+        slug: organization.slug,
+        timezone: organization.timezone,
+      },
+      range: { start: rangeStart, end: rangeEnd },
+      pagination: {
+        page,
+        per_page: perPage,
+        total,
+        total_pages: totalPages,
+        next: nextPage,
+        previous: previousPage,
+      },
+      events,
+    });
+
+    const etag = await computeETag(body);
+    const headers = {
+      ...corsHeaders,
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": "public, max-age=300",
+      ETag: etag,
+      ...(nextPage || previousPage
+        ? {
+            Link: [nextPage && `<${nextPage}>; rel="next"`, previousPage && `<${previousPage}>; rel="prev"`]
+              .filter(Boolean)
+              .join(", "),
+          }
+        : {}),
+    };
+
+    if (matchesETag(req.headers.get("If-None-Match"), etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(req.method === "HEAD" ? null : body, { status: 200, headers });
+  } catch (error) {
+    console.error("Error serving public events:", error);
+    return errorResponse("internal_error", "Unable to load events", 500);
+  }
+});
@@ -21,7 +21,7 @@ interface EventNotificationRequest {
   eventStartTime: string;
   eventEndTime: string;
   roomName: string;
-  status: "approved" | "rejected" | "published" | "unapproved";
+  status: "approved" | "rejected" | "published" | "unapproved" | "hold_promoted";
   requesterName: string;
   reviewerNotes?: string;
 }
@@ -105,6 +105,13 @@ serve(async (req) => {
         statusColor = "#f59e0b";
         statusBadge = "PENDING REVIEW";
         break;
+      case "hold_promoted":
+        subject = `Room Available: ${eventTitle}`;
+        heading = "The Time You Were Waiting For Is Free";
+        message = `The booking in the way of your hold for "${eventTitle}" has been released. Your event has been moved to pending review and will be reviewed soon.`;
+        statusColor = "#f59e0b";
+        statusBadge = "PENDING REVIEW";
+        break;
       default:
         subject = `Event Update: ${eventTitle}`;
         heading = "Event Status Update";
@@ -0,0 +1,291 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+const RESEND_API_KEY = Deno.env.get("RESEND_API");
+const RESEND_FROM_EMAIL =
+  Deno.env.get("RESEND_FROM_EMAIL") || "Event Calendar <team@addislidet.info>";
+const CHURCH_NAME =
+  Deno.env.get("CHURCH_NAME") || "Addis Lidet International Church";
+const CHURCH_LOGO_URL =
+  Deno.env.get("CHURCH_LOGO_URL") || "https://addislidet.info/logo.png";
+const APP_URL = Deno.env.get("APP_URL") || "https://app.addislidet.info";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface RegistrationEmailRequest {
+  registrationId: string;
+}
+
+interface RegistrationEventRow {
+  id: string;
+  title: string;
+  starts_at: string;
+  ends_at: string;
+  recurrence_rule: string | null;
+  rooms: { name: string } | null;
+  organizations: { name: string; timezone: string | null } | null;
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatDateTime = (value: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat("en-US", {
+    dateStyle: "full",
+    timeStyle: "short",
+    timeZone,
+  }).format(value);
+
+const detailRow = (label: string, value: string) => `
+                      <tr>
+                        <td style="padding: 8px 0; color: #6b7280; font-size: 14px; font-weight: 600;">
+                          ${label}:
+                        </td>
+                        <td style="padding: 8px 0; color: #1f2937; font-size: 14px; text-align: right;">
+                          ${value}
+                        </td>
+                      </tr>`;
+
+/**
+ * Emails a registrant that their place is confirmed or that they are on the
+ * waitlist. Takes only the registration id: the recipient and content come
+ * from the database, and a status is emailed once (see notified_status), so
+ * callers can invoke it after any change to a registration.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { registrationId }: RegistrationEmailRequest = await req.json();
+
+    if (!registrationId) {
+      return jsonResponse({ error: "Missing registrationId" }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const { data: registration, error: registrationError } = await supabaseAdmin
+      .from("event_registrations")
+      .select("id, event_id, occurrence_start, name, email, headcount, status, notified_status, check_in_token")
+      .eq("id", registrationId)
+      .maybeSingle();
+
+    if (registrationError) throw registrationError;
+    if (!registration) {
+      return jsonResponse({ error: "Registration not found" }, 404);
+    }
+
+    // Cancelled registrations and walk-ins without an email get no email;
+    // other statuses are sent once
+    if (
+      !registration.email ||
+      registration.status === "cancelled" ||
+      registration.status === registration.notified_status
+    ) {
+      return jsonResponse({ success: true, skipped: true }, 200);
+    }
+
+    if (!RESEND_API_KEY) {
+      console.error("RESEND_API_KEY is not configured");
+      return jsonResponse({ error: "Email service not configured" }, 500);
+    }
+
+    const { data: event, error: eventError } = await supabaseAdmin
+      .from("events")
+      .select("id, title, starts_at, ends_at, recurrence_rule, rooms(name), organizations(name, timezone)")
+      .eq("id", registration.event_id)
+      .single();
+
+    if (eventError) throw eventError;
+    const series = event as unknown as RegistrationEventRow;
+
+    // Occurrences of a series start at occurrence_start unless moved
+    let title = series.title;
+    let roomName = series.rooms?.name || "";
+    let startsAt = new Date(series.starts_at);
+    let endsAt = new Date(series.ends_at);
+
+    if (registration.occurrence_start) {
+      const { data: override, error: overrideError } = await supabaseAdmin
+        .from("events")
+        .select("id, title, starts_at, ends_at, recurrence_rule, rooms(name), organizations(name, timezone)")
+        .eq("parent_event_id", series.id)
+        .eq("recurrence_id", registration.occurrence_start)
+        .maybeSingle();
+
+      if (overrideError) throw overrideError;
+
+      if (override) {
+        const occurrence = override as unknown as RegistrationEventRow;
+        title = occurrence.title;
+        roomName = occurrence.rooms?.name || roomName;
+        startsAt = new Date(occurrence.starts_at);
+        endsAt = new Date(occurrence.ends_at);
+      } else {
+        const duration = endsAt.getTime() - startsAt.getTime();
+        startsAt = new Date(registration.occurrence_start);
+        endsAt = new Date(startsAt.getTime() + duration);
+      }
+    }
+
+    const timeZone = series.organizations?.timezone || "America/New_York";
+    const organizationName = series.organizations?.name || CHURCH_NAME;
+    const confirmed = registration.status === "confirmed";
+    const statusColor = confirmed ? "#10b981" : "#f59e0b";
+    const statusBadge = confirmed ? "CONFIRMED" : "WAITLISTED";
+    const subject = confirmed
+      ? `You're registered: ${title}`
+      : `You're on the waitlist: ${title}`;
+    const message = confirmed
+      ? `Your place at <strong>${escapeHtml(title)}</strong> is confirmed. We look forward to seeing you!`
+      : `<strong>${escapeHtml(title)}</strong> is full, so you have been added to the waitlist. We will email you if a place opens up.`;
+
+    const htmlBody = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f3f4f6;">
+  <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background-color: #f3f4f6;">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Status Badge -->
+          <tr>
+            <td style="padding: 30px 30px 20px; text-align: center;">
+              <span style="display: inline-block; padding: 8px 20px; background-color: ${statusColor}; color: #ffffff; font-size: 12px; font-weight: 700; letter-spacing: 1px; border-radius: 20px;">
+                ${statusBadge}
+              </span>
+            </td>
+          </tr>
+
+          <!-- Message -->
+          <tr>
+            <td style="padding: 0 30px 20px;">
+              <p style="margin: 0 0 15px; color: #1f2937; font-size: 16px; line-height: 1.6;">
+                Hello ${escapeHtml(registration.name)},
+              </p>
+              <p style="margin: 0; color: #4b5563; font-size: 15px; line-height: 1.6;">
+                ${message}
+              </p>
+            </td>
+          </tr>
+
+          <!-- Event Details -->
+          <tr>
+            <td style="padding: 0 30px 30px;">
+              <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background-color: #f9fafb; border-radius: 8px; border: 1px solid #e5e7eb;">
+                <tr>
+                  <td style="padding: 20px;">
+                    <h3 style="margin: 0 0 15px; color: #1f2937; font-size: 18px; font-weight: 600;">
+                      Event Details
+                    </h3>
+                    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
+                      ${detailRow("Event", escapeHtml(title))}
+                      ${roomName ? detailRow("Room", escapeHtml(roomName)) : ""}
+                      ${detailRow("Start Time", formatDateTime(startsAt, timeZone))}
+                      ${detailRow("End Time", formatDateTime(endsAt, timeZone))}
+                      ${detailRow("Attendees", String(registration.headcount))}
+                    </table>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Ticket -->
+          <tr>
+            <td style="padding: 0 30px 30px; text-align: center;">
+              <a href="${APP_URL}/ticket/${registration.check_in_token}" style="display: inline-block; padding: 12px 28px; background-color: #1f2937; color: #ffffff; font-size: 14px; font-weight: 600; text-decoration: none; border-radius: 8px;">
+                View Your Ticket
+              </a>
+              <p style="margin: 12px 0 0; color: #6b7280; font-size: 13px;">
+                ${confirmed ? "Show its QR code at the door to check in." : "Your ticket shows whether your place has been confirmed."}
+              </p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 40px 30px; background: linear-gradient(180deg, #f9fafb 0%, #f3f4f6 100%); border-top: 1px solid #e5e7eb; text-align: center;">
+              <img src="${CHURCH_LOGO_URL}" alt="${CHURCH_NAME}" style="width: 48px; height: 48px; border-radius: 12px; margin-bottom: 16px; display: block; margin-left: auto; margin-right: auto;" />
+              <p style="margin: 0 0 8px; color: #1f2937; font-size: 14px; font-weight: 600;">
+                ${escapeHtml(organizationName)}
+              </p>
+              <p style="margin: 0; color: #9ca3af; font-size: 11px;">
+                You received this email because you registered for this event on our public calendar.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+    `;
+
+    const res = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${RESEND_API_KEY}`,
+      },
+      body: JSON.stringify({
+        from: RESEND_FROM_EMAIL,
+        to: [registration.email],
+        subject,
+        html: htmlBody,
+      }),
+    });
+
+    const data = await res.json();
+
+    if (!res.ok) {
+      console.error("Failed to send registration email:", data);
+      return jsonResponse({ error: "Failed to send email", details: data }, res.status);
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from("event_registrations")
+      .update({ notified_status: registration.status })
+      .eq("id", registration.id);
+
+    if (updateError) throw updateError;
+
+    console.log(`Registration ${registration.status} email sent for registration:`, registration.id);
+    return jsonResponse({ success: true, data }, 200);
+  } catch (error) {
+    console.error("Error in send-registration-email function:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
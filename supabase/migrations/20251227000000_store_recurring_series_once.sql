@@ -0,0 +1,369 @@
+-- Store recurring series once and expand occurrences on read
+-- Previously every occurrence of a recurring event was materialized as its own row
+-- (parent_event_id -> parent). Series are now stored as a single row carrying the
+-- recurrence_rule; occurrences are expanded for the requested window by the client
+-- services. Rows with parent_event_id are now per-occurrence overrides only.
+
+-- =====================================================
+-- Override and exception columns
+-- =====================================================
+
+-- Original start of the occurrence an override row replaces (RFC 5545 RECURRENCE-ID)
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS recurrence_id TIMESTAMPTZ;
+
+-- Original starts of occurrences removed from the series (RFC 5545 EXDATE)
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS recurrence_exdates TIMESTAMPTZ[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.events.recurrence_id IS 'For override rows (parent_event_id set): original start of the occurrence this row replaces. NULL otherwise.';
+COMMENT ON COLUMN public.events.recurrence_exdates IS 'For series rows: original starts of occurrences that were removed from the series.';
+COMMENT ON COLUMN public.events.parent_event_id IS 'Reference to the series row for per-occurrence overrides. NULL for standalone events and series rows.';
+COMMENT ON COLUMN public.events.recurrence_end_date IS 'End of the last occurrence for series ending by UNTIL or COUNT, used to look series up by date window. NULL means no known end date.';
+
+-- =====================================================
+-- Occurrence expansion
+-- =====================================================
+
+-- Occurrence starts of a recurrence rule within [_from, _to), taken in the
+-- given time zone. Mirrors expandRRule in supabase/functions/_shared/recurrence.ts:
+-- DTSTART is always the first occurrence, sub-daily frequencies and parts the
+-- calendar cannot expand are ignored, and a DATE or floating UNTIL is read in
+-- the time zone.
+CREATE OR REPLACE FUNCTION public.expand_recurrence_rule(
+  _rule TEXT,
+  _dtstart TIMESTAMPTZ,
+  _time_zone TEXT,
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ
+)
+RETURNS SETOF TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _weekdays CONSTANT TEXT[] := ARRAY['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+  _body TEXT := upper(regexp_replace(COALESCE(_rule, ''), '^\s*RRULE:', '', 'i'));
+  _freq TEXT := substring(_body FROM '(?:^|;)FREQ=([A-Z]+)');
+  _interval INTEGER := GREATEST(COALESCE(substring(_body FROM '(?:^|;)INTERVAL=(\d+)')::INTEGER, 1), 1);
+  _count INTEGER := substring(_body FROM '(?:^|;)COUNT=(\d+)')::INTEGER;
+  _until_text TEXT := substring(_body FROM '(?:^|;)UNTIL=(\d{8}(?:T\d{6}Z?)?)(?:;|$)');
+  _wkst INTEGER := COALESCE(array_position(_weekdays, substring(_body FROM '(?:^|;)WKST=([A-Z]{2})')) - 1, 1);
+  _by_day TEXT[] := string_to_array(substring(_body FROM '(?:^|;)BYDAY=([^;]+)'), ',');
+  _by_month_day INTEGER[] := string_to_array(substring(_body FROM '(?:^|;)BYMONTHDAY=([^;]+)'), ',')::INTEGER[];
+  _by_year_day INTEGER[] := string_to_array(substring(_body FROM '(?:^|;)BYYEARDAY=([^;]+)'), ',')::INTEGER[];
+  _by_month INTEGER[] := string_to_array(substring(_body FROM '(?:^|;)BYMONTH=([^;]+)'), ',')::INTEGER[];
+  _by_set_pos INTEGER[] := string_to_array(substring(_body FROM '(?:^|;)BYSETPOS=([^;]+)'), ',')::INTEGER[];
+  _day_weekdays INTEGER[];
+  _day_ordinals INTEGER[];
+  _ordinal_scope TEXT;
+  _until TIMESTAMPTZ;
+  _local TIMESTAMP;
+  _start DATE;
+  _period INTEGER := 0;
+  _period_start DATE;
+  _period_end DATE;
+  _candidates DATE[];
+  _day DATE;
+  _candidate TIMESTAMP;
+  _instant TIMESTAMPTZ;
+  _emitted INTEGER := 0;
+  _elapsed INTEGER;
+BEGIN
+  IF _freq IS NULL OR _freq NOT IN ('DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY') THEN
+    IF _dtstart >= _from AND _dtstart < _to THEN
+      RETURN NEXT _dtstart;
+    END IF;
+    RETURN;
+  END IF;
+
+  _time_zone := COALESCE(_time_zone, 'UTC');
+  _local := _dtstart AT TIME ZONE _time_zone;
+  _start := _local::DATE;
+  _by_day := COALESCE(_by_day, '{}');
+  _by_month_day := COALESCE(_by_month_day, '{}');
+  _by_year_day := COALESCE(_by_year_day, '{}');
+  _by_month := COALESCE(_by_month, '{}');
+  _by_set_pos := COALESCE(_by_set_pos, '{}');
+
+  -- BYDAY entries split into weekday and optional ordinal ("-1SU" -> 0, -1)
+  SELECT
+    COALESCE(array_agg(array_position(_weekdays, right(entry, 2)) - 1 ORDER BY n), '{}'),
+    COALESCE(array_agg(NULLIF(left(entry, length(entry) - 2), '')::INTEGER ORDER BY n), '{}')
+  INTO _day_weekdays, _day_ordinals
+  FROM unnest(_by_day) WITH ORDINALITY AS d(entry, n);
+
+  -- Ordinals count within the month, within the year, or not at all
+  _ordinal_scope := CASE
+    WHEN _freq = 'MONTHLY' THEN 'month'
+    WHEN _freq = 'YEARLY' AND cardinality(_by_year_day) = 0 THEN
+      CASE WHEN cardinality(_by_month) = 0 AND cardinality(_by_month_day) = 0 THEN 'year' ELSE 'month' END
+    ELSE 'none'
+  END;
+
+  IF _until_text IS NOT NULL THEN
+    _until := CASE
+      WHEN length(_until_text) = 8 THEN
+        (to_date(_until_text, 'YYYYMMDD') + TIME '23:59:59') AT TIME ZONE _time_zone
+      WHEN right(_until_text, 1) = 'Z' THEN
+        to_timestamp(left(_until_text, 15), 'YYYYMMDD"T"HH24MISS')::TIMESTAMP AT TIME ZONE 'UTC'
+      ELSE
+        to_timestamp(_until_text, 'YYYYMMDD"T"HH24MISS')::TIMESTAMP AT TIME ZONE _time_zone
+    END;
+  END IF;
+
+  -- Without COUNT, skip periods that end before the window
+  IF _count IS NULL AND _from > _dtstart THEN
+    _elapsed := CASE _freq
+      WHEN 'DAILY' THEN (_from AT TIME ZONE _time_zone)::DATE - _start
+      WHEN 'WEEKLY' THEN floor(((_from AT TIME ZONE _time_zone)::DATE - _start) / 7.0)::INTEGER
+      WHEN 'MONTHLY' THEN
+        (extract(year FROM _from AT TIME ZONE _time_zone) - extract(year FROM _local))::INTEGER * 12
+        + (extract(month FROM _from AT TIME ZONE _time_zone) - extract(month FROM _local))::INTEGER
+      ELSE (extract(year FROM _from AT TIME ZONE _time_zone) - extract(year FROM _local))::INTEGER
+    END;
+    _period := GREATEST(0, floor(_elapsed::NUMERIC / _interval)::INTEGER - 1);
+  END IF;
+
+  FOR _i IN 1..5000 LOOP
+    CASE _freq
+      WHEN 'DAILY' THEN
+        _period_start := _start + _period * _interval;
+        _period_end := _period_start;
+      WHEN 'WEEKLY' THEN
+        _period_start := _start - ((extract(dow FROM _start)::INTEGER - _wkst + 7) % 7) + _period * _interval * 7;
+        _period_end := _period_start + 6;
+      WHEN 'MONTHLY' THEN
+        _period_start := (date_trunc('month', _start) + make_interval(months => _period * _interval))::DATE;
+        _period_end := (_period_start + INTERVAL '1 month - 1 day')::DATE;
+      ELSE
+        _period_start := make_date(extract(year FROM _start)::INTEGER + _period * _interval, 1, 1);
+        _period_end := make_date(extract(year FROM _period_start)::INTEGER, 12, 31);
+    END CASE;
+
+    SELECT COALESCE(array_agg(v.day ORDER BY v.day), '{}')
+    INTO _candidates
+    FROM generate_series(_period_start, _period_end, INTERVAL '1 day') AS g(d)
+    CROSS JOIN LATERAL (
+      SELECT
+        g.d::DATE AS day,
+        extract(month FROM g.d)::INTEGER AS month,
+        extract(day FROM g.d)::INTEGER AS month_day,
+        extract(doy FROM g.d)::INTEGER AS year_day,
+        extract(dow FROM g.d)::INTEGER AS weekday,
+        extract(day FROM date_trunc('month', g.d) + INTERVAL '1 month - 1 day')::INTEGER AS month_length,
+        extract(doy FROM make_date(extract(year FROM g.d)::INTEGER, 12, 31))::INTEGER AS year_length
+    ) AS v
+    WHERE (cardinality(_by_month) = 0 OR v.month = ANY(_by_month))
+      AND (_freq <> 'YEARLY' OR cardinality(_by_year_day) = 0
+        OR v.year_day = ANY(_by_year_day) OR v.year_day - v.year_length - 1 = ANY(_by_year_day))
+      AND (_freq = 'WEEKLY' OR cardinality(_by_month_day) = 0
+        OR v.month_day = ANY(_by_month_day) OR v.month_day - v.month_length - 1 = ANY(_by_month_day))
+      AND (cardinality(_by_day) = 0 OR EXISTS (
+        SELECT 1
+        FROM unnest(_day_weekdays, _day_ordinals) AS b(weekday, ordinal)
+        WHERE b.weekday = v.weekday
+          AND (b.ordinal IS NULL OR CASE _ordinal_scope
+            WHEN 'month' THEN b.ordinal IN ((v.month_day - 1) / 7 + 1, -((v.month_length - v.month_day) / 7 + 1))
+            WHEN 'year' THEN b.ordinal IN ((v.year_day - 1) / 7 + 1, -((v.year_length - v.year_day) / 7 + 1))
+            ELSE true
+          END)
+      ))
+      -- Days the rule does not select fall back to the DTSTART day
+      AND (_freq <> 'WEEKLY' OR cardinality(_by_day) > 0 OR v.weekday = extract(dow FROM _start))
+      AND (_freq NOT IN ('MONTHLY', 'YEARLY') OR cardinality(_by_year_day) > 0
+        OR cardinality(_by_month_day) > 0 OR cardinality(_by_day) > 0
+        OR v.month_day = extract(day FROM _start))
+      AND (_freq <> 'YEARLY' OR cardinality(_by_year_day) > 0 OR cardinality(_by_month) > 0
+        OR cardinality(_by_month_day) > 0 OR cardinality(_by_day) > 0
+        OR v.month = extract(month FROM _start));
+
+    IF _freq <> 'DAILY' AND cardinality(_by_set_pos) > 0 THEN
+      SELECT COALESCE(array_agg(DISTINCT day ORDER BY day), '{}')
+      INTO _candidates
+      FROM (
+        SELECT _candidates[CASE WHEN pos > 0 THEN pos ELSE cardinality(_candidates) + pos + 1 END] AS day
+        FROM unnest(_by_set_pos) AS pos
+      ) AS picked
+      WHERE day IS NOT NULL;
+    END IF;
+
+    IF _period = 0 THEN
+      _candidates := _start || _candidates;
+    END IF;
+
+    FOREACH _day IN ARRAY _candidates LOOP
+      _candidate := _day + _local::TIME;
+      CONTINUE WHEN _candidate < _local OR (_candidate = _local AND _emitted > 0);
+
+      IF _candidate = _local THEN
+        _instant := _dtstart;
+      ELSE
+        -- Times skipped when clocks spring forward move past the gap; times
+        -- repeated when they fall back resolve to the first occurrence
+        _instant := _candidate AT TIME ZONE _time_zone;
+        IF (_instant - INTERVAL '1 hour') AT TIME ZONE _time_zone = _candidate THEN
+          _instant := _instant - INTERVAL '1 hour';
+        END IF;
+      END IF;
+
+      IF (_until IS NOT NULL AND _instant > _until) OR _instant >= _to THEN
+        RETURN;
+      END IF;
+
+      _emitted := _emitted + 1;
+      IF _instant >= _from THEN
+        RETURN NEXT _instant;
+      END IF;
+      IF _count IS NOT NULL AND _emitted >= _count THEN
+        RETURN;
+      END IF;
+    END LOOP;
+
+    _period := _period + 1;
+  END LOOP;
+END;
+$$;
+
+COMMENT ON FUNCTION public.expand_recurrence_rule(TEXT, TIMESTAMPTZ, TEXT, TIMESTAMPTZ, TIMESTAMPTZ) IS 'Occurrence starts of a recurrence rule within [_from, _to), expanded in the given time zone like the app does.';
+
+-- =====================================================
+-- Collapse previously materialized instances
+-- =====================================================
+
+-- Every occurrence used to be its own row. The EventDialog generated at most
+-- 100 instances after the series start, up to the series' UNTIL or one year
+-- ahead. Within that horizon each row is matched to an occurrence of the rule:
+-- - rows at an occurrence's start keep that occurrence
+-- - rows moved to another time take the nearest occurrence left without a row
+-- - occurrences left without a row were deleted one by one and become EXDATEs
+-- Rows that are plain copies of their series at the original time are then
+-- regenerated on read; the rest stay as overrides of their occurrence.
+DO $$
+DECLARE
+  _series RECORD;
+  _child RECORD;
+  _expected TIMESTAMPTZ[];
+  _original TIMESTAMPTZ;
+BEGIN
+  FOR _series IN
+    SELECT parent.id, parent.starts_at, parent.recurrence_rule, organizations.timezone
+    FROM public.events parent
+    LEFT JOIN public.organizations ON organizations.id = parent.organization_id
+    WHERE parent.parent_event_id IS NULL
+      AND EXISTS (SELECT 1 FROM public.events child WHERE child.parent_event_id = parent.id)
+  LOOP
+    _expected := ARRAY(
+      SELECT starts
+      FROM public.expand_recurrence_rule(
+        _series.recurrence_rule,
+        _series.starts_at,
+        COALESCE(_series.timezone, 'America/New_York'),
+        _series.starts_at + INTERVAL '1 second',
+        CASE
+          WHEN _series.recurrence_rule ~* '(COUNT|UNTIL)=' THEN 'infinity'::TIMESTAMPTZ
+          ELSE _series.starts_at + INTERVAL '365 days'
+        END
+      ) AS starts
+      LIMIT 100
+    );
+
+    UPDATE public.events
+    SET recurrence_id = starts_at
+    WHERE parent_event_id = _series.id
+      AND starts_at = ANY(_expected);
+
+    FOR _child IN
+      SELECT id, starts_at
+      FROM public.events
+      WHERE parent_event_id = _series.id
+        AND recurrence_id IS NULL
+      ORDER BY starts_at
+    LOOP
+      SELECT expected INTO _original
+      FROM unnest(_expected) AS expected
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.events
+        WHERE parent_event_id = _series.id AND recurrence_id = expected
+      )
+      ORDER BY abs(extract(epoch FROM expected - _child.starts_at)), expected
+      LIMIT 1;
+
+      IF _original IS NULL THEN
+        -- More rows than the rule has occurrences: keep the row as its own event
+        UPDATE public.events
+        SET parent_event_id = NULL, is_recurring = false, recurrence_rule = NULL, recurrence_end_date = NULL
+        WHERE id = _child.id;
+      ELSE
+        UPDATE public.events SET recurrence_id = _original WHERE id = _child.id;
+      END IF;
+    END LOOP;
+
+    UPDATE public.events
+    SET recurrence_exdates = ARRAY(
+      SELECT expected
+      FROM unnest(_expected) AS expected
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.events
+        WHERE parent_event_id = _series.id AND recurrence_id = expected
+      )
+      ORDER BY expected
+    )
+    WHERE id = _series.id;
+  END LOOP;
+END;
+$$;
+
+-- Instances that are plain copies of their series are regenerated on read
+DELETE FROM public.events child
+USING public.events parent
+WHERE child.parent_event_id = parent.id
+  AND child.starts_at = child.recurrence_id
+  AND child.title = parent.title
+  AND child.description IS NOT DISTINCT FROM parent.description
+  AND child.room_id = parent.room_id
+  AND child.status = parent.status
+  AND (child.ends_at - child.starts_at) = (parent.ends_at - parent.starts_at);
+
+-- recurrence_end_date now bounds the series window: derive it from UNTIL.
+-- COUNT-based series keep NULL and are treated as open-ended until next saved.
+UPDATE public.events
+SET recurrence_end_date =
+  (to_timestamp(substring(recurrence_rule from 'UNTIL=(\d{8}T\d{6})'), 'YYYYMMDD"T"HH24MISS')::timestamp AT TIME ZONE 'UTC')
+  + (ends_at - starts_at)
+WHERE parent_event_id IS NULL
+  AND recurrence_rule ~ 'UNTIL=\d{8}T\d{6}';
+
+-- One override per occurrence
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_parent_recurrence_id
+  ON public.events(parent_event_id, recurrence_id)
+  WHERE parent_event_id IS NOT NULL;
+
+-- Series rows are looked up by window on every calendar read
+CREATE INDEX IF NOT EXISTS idx_events_series_window
+  ON public.events(organization_id, starts_at, recurrence_end_date)
+  WHERE recurrence_rule IS NOT NULL;
+
+-- =====================================================
+-- Room overlap constraint
+-- =====================================================
+
+-- A series row only occupies its first occurrence, and an override of that
+-- occurrence would collide with it. Conflicts involving recurring series are
+-- checked against expanded occurrences by eventService.checkConflicts, so the
+-- exclusion constraint now only covers standalone events.
+ALTER TABLE public.events
+DROP CONSTRAINT IF EXISTS no_overlap_per_room;
+
+ALTER TABLE public.events
+ADD CONSTRAINT no_overlap_per_room
+EXCLUDE USING gist (
+  room_id WITH =,
+  tstzrange(starts_at, ends_at, '[)') WITH &&
+)
+WHERE (
+  room_allows_overlap = false
+  AND recurrence_rule IS NULL
+  AND parent_event_id IS NULL
+);
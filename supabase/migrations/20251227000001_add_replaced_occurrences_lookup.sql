@@ -0,0 +1,34 @@
+-- Occurrences replaced by override rows
+-- An override hides the occurrence it replaces even after moving to another
+-- time or while it is not published. Override rows are only readable where
+-- row-level security allows (visitors see published rows only), so the starts
+-- of replaced occurrences are exposed separately.
+
+-- =====================================================
+-- Replaced occurrences of series
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.list_replaced_occurrences(_series_ids UUID[])
+RETURNS TABLE (series_id UUID, occurrence_start TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.parent_event_id, o.recurrence_id
+  FROM public.events o
+  JOIN public.events s ON s.id = o.parent_event_id
+  WHERE o.parent_event_id = ANY(_series_ids)
+    AND o.recurrence_id IS NOT NULL
+    AND (
+      s.status = 'published'
+      OR s.organization_id IN (
+        SELECT organization_id FROM public.user_organizations
+        WHERE user_id = auth.uid()
+      )
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_replaced_occurrences(UUID[]) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.list_replaced_occurrences(UUID[]) IS 'Original starts of occurrences replaced by override rows, for series the caller can see.';
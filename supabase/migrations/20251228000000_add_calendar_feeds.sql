@@ -0,0 +1,65 @@
+-- Subscribable calendar feeds
+-- Each feed is a secret token that the calendar-feed edge function exchanges for
+-- an iCalendar document of an organization's published events, optionally
+-- narrowed to one room or one ministry. Calendar apps poll the feed URL
+-- (webcal://) so subscribers stay up to date without re-downloading exports.
+
+-- =====================================================
+-- Feeds table
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  room_id UUID REFERENCES public.rooms(id) ON DELETE CASCADE,
+  ministry_id UUID REFERENCES budget.ministries(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  revoked_at TIMESTAMPTZ,
+  CONSTRAINT calendar_feeds_single_filter CHECK (room_id IS NULL OR ministry_id IS NULL)
+);
+
+COMMENT ON TABLE public.calendar_feeds IS 'Token-protected iCalendar feeds of published events, served by the calendar-feed edge function.';
+COMMENT ON COLUMN public.calendar_feeds.token IS 'Secret part of the feed URL. Revoke the feed and create a new one to rotate it.';
+COMMENT ON COLUMN public.calendar_feeds.room_id IS 'Only include events in this room. NULL for all rooms.';
+COMMENT ON COLUMN public.calendar_feeds.ministry_id IS 'Only include events owned by this ministry (events.ministry_id). NULL for all ministries.';
+COMMENT ON COLUMN public.calendar_feeds.revoked_at IS 'Set when the feed link is reset; revoked tokens no longer resolve.';
+
+-- One active feed per organization / room / ministry combination
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feeds_active_scope
+  ON public.calendar_feeds(
+    organization_id,
+    COALESCE(room_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(ministry_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  )
+  WHERE revoked_at IS NULL;
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Feeds only expose published events, so any member may look up or create one
+CREATE POLICY "Users can view calendar feeds in their organizations"
+  ON public.calendar_feeds FOR SELECT
+  TO authenticated
+  USING (public.user_belongs_to_org(auth.uid(), organization_id));
+
+CREATE POLICY "Users can create calendar feeds in their organizations"
+  ON public.calendar_feeds FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.user_belongs_to_org(auth.uid(), organization_id)
+    AND created_by = auth.uid()
+  );
+
+-- Resetting a link revokes the old token
+CREATE POLICY "Creators and admins can revoke calendar feeds"
+  ON public.calendar_feeds FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR public.is_org_admin(auth.uid(), organization_id)
+  );
@@ -0,0 +1,88 @@
+-- Multi-room and whole-building bookings
+-- An event keeps its main room in room_id and can reserve further rooms, or the
+-- whole building, so one event (and one approval) covers conferences that use
+-- several rooms at once instead of duplicate events per room.
+
+-- =====================================================
+-- Reservation columns
+-- =====================================================
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS additional_room_ids UUID[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS is_whole_building BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.events.room_id IS 'Main room of the event. Further rooms reserved by the event are in additional_room_ids.';
+COMMENT ON COLUMN public.events.additional_room_ids IS 'Rooms reserved by the event besides room_id.';
+COMMENT ON COLUMN public.events.is_whole_building IS 'The event reserves every room of the organization.';
+
+-- Room filters and conflict checks look events up by any reserved room
+CREATE INDEX IF NOT EXISTS idx_events_additional_room_ids
+  ON public.events USING gin(additional_room_ids);
+
+-- =====================================================
+-- Conflict check across reserved rooms
+-- =====================================================
+
+-- The no_overlap_per_room constraint only sees the main room. Standalone events
+-- that reserve more rooms (or the building) are checked here, counting the same
+-- statuses as eventService.checkConflicts. Recurring series keep being checked
+-- against expanded occurrences by the client. Runs as definer so bookings the
+-- requester cannot see still count.
+CREATE OR REPLACE FUNCTION public.check_event_room_reservations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conflicting_title TEXT;
+BEGIN
+  IF NEW.recurrence_rule IS NOT NULL
+    OR NEW.parent_event_id IS NOT NULL
+    OR NEW.status NOT IN ('pending_review', 'approved', 'published') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Events with only a main room are covered by no_overlap_per_room
+  IF NOT NEW.is_whole_building AND cardinality(NEW.additional_room_ids) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT e.title INTO conflicting_title
+  FROM public.events e
+  WHERE e.organization_id = NEW.organization_id
+    AND e.id <> NEW.id
+    AND e.recurrence_rule IS NULL
+    AND e.parent_event_id IS NULL
+    AND e.status IN ('pending_review', 'approved', 'published')
+    AND tstzrange(e.starts_at, e.ends_at, '[)') && tstzrange(NEW.starts_at, NEW.ends_at, '[)')
+    AND (
+      NEW.is_whole_building
+      OR e.is_whole_building
+      OR EXISTS (
+        SELECT 1
+        FROM public.rooms r
+        WHERE r.id = ANY (ARRAY[e.room_id] || e.additional_room_ids)
+          AND r.id = ANY (ARRAY[NEW.room_id] || NEW.additional_room_ids)
+          AND r.allow_overlap = false
+      )
+    )
+  LIMIT 1;
+
+  IF conflicting_title IS NOT NULL THEN
+    RAISE EXCEPTION 'A reserved room is already booked for "%" during this time', conflicting_title
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_event_room_reservations_trigger ON public.events;
+CREATE TRIGGER check_event_room_reservations_trigger
+  BEFORE INSERT OR UPDATE OF room_id, additional_room_ids, is_whole_building, starts_at, ends_at, status
+  ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_event_room_reservations();
@@ -0,0 +1,135 @@
+-- Setup and teardown buffers around room bookings
+-- Rooms often need prep and cleanup time. Buffers block the room for other
+-- bookings but are not part of the event time shown publicly or exported.
+-- Rooms carry default buffers that new events start from.
+
+-- =====================================================
+-- Buffer columns
+-- =====================================================
+
+ALTER TABLE public.rooms
+  ADD COLUMN IF NOT EXISTS default_setup_minutes INTEGER NOT NULL DEFAULT 0
+    CHECK (default_setup_minutes BETWEEN 0 AND 1440),
+  ADD COLUMN IF NOT EXISTS default_teardown_minutes INTEGER NOT NULL DEFAULT 0
+    CHECK (default_teardown_minutes BETWEEN 0 AND 1440);
+
+COMMENT ON COLUMN public.rooms.default_setup_minutes IS 'Setup time new events in this room start with, in minutes.';
+COMMENT ON COLUMN public.rooms.default_teardown_minutes IS 'Teardown time new events in this room start with, in minutes.';
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS setup_minutes INTEGER NOT NULL DEFAULT 0
+    CHECK (setup_minutes BETWEEN 0 AND 1440),
+  ADD COLUMN IF NOT EXISTS teardown_minutes INTEGER NOT NULL DEFAULT 0
+    CHECK (teardown_minutes BETWEEN 0 AND 1440),
+  ADD COLUMN IF NOT EXISTS blocked_starts_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS blocked_ends_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.events.setup_minutes IS 'Time the rooms are held before starts_at for preparation.';
+COMMENT ON COLUMN public.events.teardown_minutes IS 'Time the rooms are held after ends_at for cleanup.';
+COMMENT ON COLUMN public.events.blocked_starts_at IS 'starts_at minus setup time. Maintained by trigger; used by room conflict checks.';
+COMMENT ON COLUMN public.events.blocked_ends_at IS 'ends_at plus teardown time. Maintained by trigger; used by room conflict checks.';
+
+-- Expressions over timestamptz - interval are not immutable, so the blocked
+-- range is stored rather than generated
+CREATE OR REPLACE FUNCTION public.apply_event_buffers()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.blocked_starts_at := NEW.starts_at - make_interval(mins => NEW.setup_minutes);
+  NEW.blocked_ends_at := NEW.ends_at + make_interval(mins => NEW.teardown_minutes);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named to run before the other BEFORE triggers on events, which read the blocked range
+DROP TRIGGER IF EXISTS apply_event_buffers_trigger ON public.events;
+CREATE TRIGGER apply_event_buffers_trigger
+  BEFORE INSERT OR UPDATE OF starts_at, ends_at, setup_minutes, teardown_minutes
+  ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_event_buffers();
+
+UPDATE public.events
+SET blocked_starts_at = starts_at,
+    blocked_ends_at = ends_at;
+
+ALTER TABLE public.events
+  ALTER COLUMN blocked_starts_at SET NOT NULL,
+  ALTER COLUMN blocked_ends_at SET NOT NULL;
+
+-- =====================================================
+-- Conflict checks over the blocked range
+-- =====================================================
+
+ALTER TABLE public.events
+DROP CONSTRAINT IF EXISTS no_overlap_per_room;
+
+ALTER TABLE public.events
+ADD CONSTRAINT no_overlap_per_room
+EXCLUDE USING gist (
+  room_id WITH =,
+  tstzrange(blocked_starts_at, blocked_ends_at, '[)') WITH &&
+)
+WHERE (
+  room_allows_overlap = false
+  AND recurrence_rule IS NULL
+  AND parent_event_id IS NULL
+);
+
+CREATE OR REPLACE FUNCTION public.check_event_room_reservations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conflicting_title TEXT;
+BEGIN
+  IF NEW.recurrence_rule IS NOT NULL
+    OR NEW.parent_event_id IS NOT NULL
+    OR NEW.status NOT IN ('pending_review', 'approved', 'published') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Events with only a main room are covered by no_overlap_per_room
+  IF NOT NEW.is_whole_building AND cardinality(NEW.additional_room_ids) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT e.title INTO conflicting_title
+  FROM public.events e
+  WHERE e.organization_id = NEW.organization_id
+    AND e.id <> NEW.id
+    AND e.recurrence_rule IS NULL
+    AND e.parent_event_id IS NULL
+    AND e.status IN ('pending_review', 'approved', 'published')
+    AND tstzrange(e.blocked_starts_at, e.blocked_ends_at, '[)')
+      && tstzrange(NEW.blocked_starts_at, NEW.blocked_ends_at, '[)')
+    AND (
+      NEW.is_whole_building
+      OR e.is_whole_building
+      OR EXISTS (
+        SELECT 1
+        FROM public.rooms r
+        WHERE r.id = ANY (ARRAY[e.room_id] || e.additional_room_ids)
+          AND r.id = ANY (ARRAY[NEW.room_id] || NEW.additional_room_ids)
+          AND r.allow_overlap = false
+      )
+    )
+  LIMIT 1;
+
+  IF conflicting_title IS NOT NULL THEN
+    RAISE EXCEPTION 'A reserved room is already booked for "%" during this time', conflicting_title
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_event_room_reservations_trigger ON public.events;
+CREATE TRIGGER check_event_room_reservations_trigger
+  BEFORE INSERT OR UPDATE OF room_id, additional_room_ids, is_whole_building, starts_at, ends_at,
+    setup_minutes, teardown_minutes, status
+  ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_event_room_reservations();
@@ -0,0 +1,85 @@
+-- Bookings for conflict checks
+-- Requesters can only read their own events and the ones under review, so
+-- conflict checks made in the app would miss approved bookings of other
+-- people. The bookings that can hold a room in a time range are exposed here
+-- to members of the organization, with only what a conflict check shows.
+
+-- =====================================================
+-- Bookings in a time range
+-- =====================================================
+
+-- Bookings under review or approved whose blocked times (buffers included)
+-- meet the range, series that may have occurrences in it, and every override
+-- of those series, whatever its status, since an override hides the
+-- occurrence it replaces.
+CREATE OR REPLACE FUNCTION public.list_room_bookings(
+  _organization_id UUID,
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  id UUID,
+  organization_id UUID,
+  title TEXT,
+  status public.event_status,
+  created_by UUID,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  blocked_starts_at TIMESTAMPTZ,
+  blocked_ends_at TIMESTAMPTZ,
+  setup_minutes INTEGER,
+  teardown_minutes INTEGER,
+  room_id UUID,
+  additional_room_ids UUID[],
+  is_whole_building BOOLEAN,
+  is_recurring BOOLEAN,
+  recurrence_rule TEXT,
+  recurrence_exdates TIMESTAMPTZ[],
+  recurrence_end_date TIMESTAMPTZ,
+  parent_event_id UUID,
+  recurrence_id TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bookings AS (
+    SELECT e.*
+    FROM public.events e
+    WHERE e.organization_id = _organization_id
+      AND public.user_belongs_to_org(auth.uid(), _organization_id)
+      AND e.status IN ('pending_review', 'approved', 'published')
+      AND (
+        (
+          e.recurrence_rule IS NULL
+          AND e.blocked_starts_at < _to
+          AND e.blocked_ends_at > _from
+        )
+        OR (
+          e.recurrence_rule IS NOT NULL
+          AND e.parent_event_id IS NULL
+          AND e.starts_at < _to
+          AND (e.recurrence_end_date IS NULL OR e.recurrence_end_date > _from)
+        )
+      )
+  )
+  SELECT b.id, b.organization_id, b.title, b.status, b.created_by, b.starts_at, b.ends_at,
+    b.blocked_starts_at, b.blocked_ends_at, b.setup_minutes, b.teardown_minutes,
+    b.room_id, b.additional_room_ids, b.is_whole_building, b.is_recurring,
+    b.recurrence_rule, b.recurrence_exdates, b.recurrence_end_date, b.parent_event_id, b.recurrence_id
+  FROM bookings b
+  UNION
+  SELECT o.id, o.organization_id, o.title, o.status, o.created_by, o.starts_at, o.ends_at,
+    o.blocked_starts_at, o.blocked_ends_at, o.setup_minutes, o.teardown_minutes,
+    o.room_id, o.additional_room_ids, o.is_whole_building, o.is_recurring,
+    o.recurrence_rule, o.recurrence_exdates, o.recurrence_end_date, o.parent_event_id, o.recurrence_id
+  FROM public.events o
+  JOIN bookings s ON s.id = o.parent_event_id
+  WHERE s.recurrence_rule IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_room_bookings(UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_room_bookings(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+
+COMMENT ON FUNCTION public.list_room_bookings(UUID, TIMESTAMPTZ, TIMESTAMPTZ) IS 'Bookings that may hold a room between _from and _to, with the overrides of their series, for room and resource conflict checks by members of the organization.';
@@ -0,0 +1,13 @@
+-- Room capacity and features
+-- Lets bookers look for a room by size and equipment ("60 people with a
+-- projector") instead of knowing every room by name.
+
+ALTER TABLE public.rooms
+  ADD COLUMN IF NOT EXISTS capacity INTEGER CHECK (capacity IS NULL OR capacity > 0),
+  ADD COLUMN IF NOT EXISTS features TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.rooms.capacity IS 'Number of people the room seats. NULL when unknown.';
+COMMENT ON COLUMN public.rooms.features IS 'Equipment and amenities of the room, e.g. Projector, Piano, Kitchen.';
+
+CREATE INDEX IF NOT EXISTS idx_rooms_features
+  ON public.rooms USING gin(features);
@@ -0,0 +1,192 @@
+-- Room availability windows and building blackout periods
+-- Some rooms can only be booked at certain times of the week (the nursery is
+-- in use during Sunday service), and the whole building closes for
+-- maintenance or holidays. Rooms without windows are bookable at any time.
+-- Times are wall-clock times in the organization's timezone.
+
+-- =====================================================
+-- Availability windows
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.room_availability_windows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  room_id UUID REFERENCES public.rooms(id) ON DELETE CASCADE NOT NULL,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT room_availability_windows_valid_range CHECK (end_time > start_time)
+);
+
+COMMENT ON TABLE public.room_availability_windows IS 'Weekly times a room can be booked. A room with no windows can be booked at any time.';
+COMMENT ON COLUMN public.room_availability_windows.day_of_week IS 'Day of the week, 0 = Sunday through 6 = Saturday.';
+COMMENT ON COLUMN public.room_availability_windows.end_time IS 'End of the window; 24:00 for the end of the day.';
+
+CREATE INDEX IF NOT EXISTS idx_room_availability_windows_room
+  ON public.room_availability_windows(room_id, day_of_week);
+
+-- =====================================================
+-- Blackout periods
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.blackout_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT blackout_periods_valid_range CHECK (ends_on >= starts_on)
+);
+
+COMMENT ON TABLE public.blackout_periods IS 'Dates the whole building is closed and no room can be booked.';
+COMMENT ON COLUMN public.blackout_periods.title IS 'Reason for the closure, shown when a booking is refused.';
+COMMENT ON COLUMN public.blackout_periods.ends_on IS 'Last closed day (inclusive).';
+
+CREATE INDEX IF NOT EXISTS idx_blackout_periods_org_dates
+  ON public.blackout_periods(organization_id, starts_on, ends_on);
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE public.room_availability_windows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.blackout_periods ENABLE ROW LEVEL SECURITY;
+
+-- Members see the rules so the event form can explain refused slots
+CREATE POLICY "Users can view room availability in their organizations"
+  ON public.room_availability_windows FOR SELECT
+  TO authenticated
+  USING (public.user_belongs_to_org(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can manage room availability in their organizations"
+  ON public.room_availability_windows FOR ALL
+  TO authenticated
+  USING (public.is_org_admin(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Users can view blackout periods in their organizations"
+  ON public.blackout_periods FOR SELECT
+  TO authenticated
+  USING (public.user_belongs_to_org(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can manage blackout periods in their organizations"
+  ON public.blackout_periods FOR ALL
+  TO authenticated
+  USING (public.is_org_admin(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+-- =====================================================
+-- Enforce availability on events
+-- =====================================================
+
+-- Checks the time an event holds its rooms (buffers included) against blackout
+-- periods and the availability windows of the rooms it names, counting the
+-- same statuses as the room conflict checks. Series are checked on every
+-- occurrence up to their end (a year ahead when open-ended, as in the event
+-- form), skipping the dates the series excludes and occurrences replaced by
+-- overrides, which are checked as rows of their own. When a series is edited,
+-- occurrences that have already started are not checked again.
+CREATE OR REPLACE FUNCTION public.check_event_room_availability()
+RETURNS TRIGGER AS $$
+DECLARE
+  org_timezone TEXT;
+  check_from TIMESTAMPTZ;
+  occurrence_start TIMESTAMPTZ;
+  occurrence_label TEXT;
+  local_start TIMESTAMP;
+  local_end TIMESTAMP;
+  blackout_title TEXT;
+  unavailable_room TEXT;
+BEGIN
+  IF NEW.status NOT IN ('pending_review', 'approved', 'published') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT o.timezone INTO org_timezone
+  FROM public.organizations o
+  WHERE o.id = NEW.organization_id;
+  org_timezone := COALESCE(org_timezone, 'America/New_York');
+
+  check_from := CASE WHEN TG_OP = 'UPDATE' THEN GREATEST(NEW.starts_at, now()) ELSE NEW.starts_at END;
+
+  FOR occurrence_start IN
+    SELECT NEW.starts_at
+    WHERE NEW.recurrence_rule IS NULL
+    UNION ALL
+    SELECT s
+    FROM public.expand_recurrence_rule(
+      NEW.recurrence_rule,
+      NEW.starts_at,
+      org_timezone,
+      check_from,
+      COALESCE(NEW.recurrence_end_date, check_from + INTERVAL '1 year')
+    ) AS s
+    WHERE NEW.recurrence_rule IS NOT NULL
+      AND NOT s = ANY (NEW.recurrence_exdates)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.events o
+        WHERE o.parent_event_id = NEW.id AND o.recurrence_id = s
+      )
+    ORDER BY 1
+  LOOP
+    local_start := (occurrence_start - (NEW.starts_at - NEW.blocked_starts_at)) AT TIME ZONE org_timezone;
+    local_end := (occurrence_start + (NEW.blocked_ends_at - NEW.starts_at)) AT TIME ZONE org_timezone;
+    occurrence_label := CASE
+      WHEN NEW.recurrence_rule IS NULL THEN 'at this time'
+      ELSE 'on ' || to_char(local_start, 'FMMonth FMDD, YYYY')
+    END;
+
+    SELECT b.title INTO blackout_title
+    FROM public.blackout_periods b
+    WHERE b.organization_id = NEW.organization_id
+      AND local_start < (b.ends_on + 1)::timestamp
+      AND local_end > b.starts_on::timestamp
+    ORDER BY b.starts_on
+    LIMIT 1;
+
+    IF blackout_title IS NOT NULL THEN
+      RAISE EXCEPTION 'The building is closed % for "%"',
+        CASE WHEN NEW.recurrence_rule IS NULL THEN 'during this time' ELSE occurrence_label END,
+        blackout_title
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Whole-building events are only checked against the rooms they name
+    SELECT r.name INTO unavailable_room
+    FROM public.rooms r
+    WHERE r.id = ANY (ARRAY[NEW.room_id] || NEW.additional_room_ids)
+      AND EXISTS (
+        SELECT 1 FROM public.room_availability_windows w WHERE w.room_id = r.id
+      )
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.room_availability_windows w
+        WHERE w.room_id = r.id
+          AND w.day_of_week = EXTRACT(DOW FROM local_start)
+          AND local_start >= local_start::date + w.start_time
+          AND local_end <= local_start::date + w.end_time
+      )
+    ORDER BY r.name
+    LIMIT 1;
+
+    IF unavailable_room IS NOT NULL THEN
+      RAISE EXCEPTION '% is not available %. Check the room''s availability hours.', unavailable_room, occurrence_label
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named to run after apply_event_buffers_trigger, which sets the blocked range
+DROP TRIGGER IF EXISTS check_event_room_availability_trigger ON public.events;
+CREATE TRIGGER check_event_room_availability_trigger
+  BEFORE INSERT OR UPDATE OF room_id, additional_room_ids, starts_at, ends_at,
+    setup_minutes, teardown_minutes, status, recurrence_rule, recurrence_exdates, recurrence_end_date
+  ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_event_room_availability();
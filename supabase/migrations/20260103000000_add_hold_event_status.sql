@@ -0,0 +1,5 @@
+-- Tentative holds on taken rooms
+-- A new enum value cannot be used in the transaction that adds it, so the
+-- status is added on its own before the hold queue is set up.
+
+ALTER TYPE public.event_status ADD VALUE IF NOT EXISTS 'hold';
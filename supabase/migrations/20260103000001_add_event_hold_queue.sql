@@ -0,0 +1,267 @@
+-- Hold queue and automatic promotion
+-- A hold waits for a room that is already booked. Holds do not block rooms.
+-- When a booking in the way is rejected, moved or deleted, the holds on its
+-- time are promoted to pending_review in the order they were placed, as long
+-- as nothing else still holds the room. The client notifies the requesters of
+-- promoted holds through send-event-notification.
+
+-- =====================================================
+-- Hold columns
+-- =====================================================
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS hold_queued_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS hold_promoted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS hold_notified_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.events.hold_queued_at IS 'When the event was placed on hold. Holds on the same time are promoted in this order.';
+COMMENT ON COLUMN public.events.hold_promoted_at IS 'When the hold was promoted to pending_review because its slot freed up.';
+COMMENT ON COLUMN public.events.hold_notified_at IS 'When the requester was told about the promotion.';
+
+-- Holds are single bookings; a series cannot wait for a slot
+ALTER TABLE public.events
+  ADD CONSTRAINT events_hold_is_standalone CHECK (
+    status <> 'hold' OR (recurrence_rule IS NULL AND parent_event_id IS NULL)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_events_holds
+  ON public.events(organization_id, hold_queued_at)
+  WHERE status = 'hold';
+
+CREATE OR REPLACE FUNCTION public.apply_event_hold_queue()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'hold' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'hold') THEN
+    NEW.hold_queued_at := now();
+    NEW.hold_promoted_at := NULL;
+    NEW.hold_notified_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apply_event_hold_queue_trigger ON public.events;
+CREATE TRIGGER apply_event_hold_queue_trigger
+  BEFORE INSERT OR UPDATE OF status
+  ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_event_hold_queue();
+
+-- =====================================================
+-- Only bookings under review or approved hold rooms
+-- =====================================================
+
+-- Same statuses as eventService.checkConflicts, so holds (and rejected events)
+-- can share a slot with the booking they wait on
+ALTER TABLE public.events
+DROP CONSTRAINT IF EXISTS no_overlap_per_room;
+
+ALTER TABLE public.events
+ADD CONSTRAINT no_overlap_per_room
+EXCLUDE USING gist (
+  room_id WITH =,
+  tstzrange(blocked_starts_at, blocked_ends_at, '[)') WITH &&
+)
+WHERE (
+  room_allows_overlap = false
+  AND recurrence_rule IS NULL
+  AND parent_event_id IS NULL
+  AND status IN ('pending_review', 'approved', 'published')
+);
+
+-- =====================================================
+-- Promotion
+-- =====================================================
+
+-- Promote the holds overlapping a freed time range, oldest first. Series in
+-- the way block the hold on each of their occurrences, except skipped ones and
+-- ones replaced by an override, which is checked as a row of its own.
+CREATE OR REPLACE FUNCTION public.promote_event_holds(
+  _organization_id UUID,
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  held RECORD;
+  promoted INTEGER := 0;
+  org_timezone TEXT;
+BEGIN
+  SELECT o.timezone INTO org_timezone
+  FROM public.organizations o
+  WHERE o.id = _organization_id;
+  org_timezone := COALESCE(org_timezone, 'America/New_York');
+
+  FOR held IN
+    SELECT h.*
+    FROM public.events h
+    WHERE h.organization_id = _organization_id
+      AND h.status = 'hold'
+      AND tstzrange(h.blocked_starts_at, h.blocked_ends_at, '[)') && tstzrange(_from, _to, '[)')
+    ORDER BY h.hold_queued_at, h.created_at
+  LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1
+      FROM public.events e
+      WHERE e.organization_id = held.organization_id
+        AND e.id <> held.id
+        AND e.status IN ('pending_review', 'approved', 'published')
+        AND (
+          (
+            e.recurrence_rule IS NULL
+            AND tstzrange(e.blocked_starts_at, e.blocked_ends_at, '[)')
+              && tstzrange(held.blocked_starts_at, held.blocked_ends_at, '[)')
+          )
+          OR (
+            e.recurrence_rule IS NOT NULL
+            AND e.parent_event_id IS NULL
+            AND EXISTS (
+              SELECT 1
+              FROM public.expand_recurrence_rule(
+                e.recurrence_rule,
+                e.starts_at,
+                org_timezone,
+                held.blocked_starts_at - (e.blocked_ends_at - e.starts_at),
+                held.blocked_ends_at + (e.starts_at - e.blocked_starts_at)
+              ) AS s
+              WHERE NOT s = ANY (e.recurrence_exdates)
+                AND NOT EXISTS (
+                  SELECT 1 FROM public.events o
+                  WHERE o.parent_event_id = e.id AND o.recurrence_id = s
+                )
+                AND tstzrange(s - (e.starts_at - e.blocked_starts_at), s + (e.blocked_ends_at - e.starts_at), '[)')
+                  && tstzrange(held.blocked_starts_at, held.blocked_ends_at, '[)')
+            )
+          )
+        )
+        AND (
+          held.is_whole_building
+          OR e.is_whole_building
+          OR EXISTS (
+            SELECT 1
+            FROM public.rooms r
+            WHERE r.id = ANY (ARRAY[e.room_id] || e.additional_room_ids)
+              AND r.id = ANY (ARRAY[held.room_id] || held.additional_room_ids)
+              AND r.allow_overlap = false
+          )
+        )
+    );
+
+    BEGIN
+      UPDATE public.events
+      SET status = 'pending_review',
+          hold_promoted_at = now()
+      WHERE id = held.id;
+      promoted := promoted + 1;
+    EXCEPTION
+      -- The room is closed at that time or still taken; the hold keeps waiting
+      WHEN exclusion_violation OR check_violation THEN
+        NULL;
+    END;
+  END LOOP;
+
+  RETURN promoted;
+END;
+$$;
+
+-- Only run by the trigger below, never called by clients
+REVOKE EXECUTE ON FUNCTION public.promote_event_holds(UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.promote_holds_on_freed_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status NOT IN ('pending_review', 'approved', 'published') THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IN ('pending_review', 'approved', 'published')
+    AND NEW.blocked_starts_at = OLD.blocked_starts_at
+    AND NEW.blocked_ends_at = OLD.blocked_ends_at
+    AND NEW.room_id = OLD.room_id
+    AND NEW.additional_room_ids = OLD.additional_room_ids
+    AND NEW.is_whole_building = OLD.is_whole_building THEN
+    RETURN NULL;
+  END IF;
+
+  -- A series frees its rooms until its last occurrence (NULL = open-ended)
+  PERFORM public.promote_event_holds(
+    OLD.organization_id,
+    OLD.blocked_starts_at,
+    CASE WHEN OLD.recurrence_rule IS NULL THEN OLD.blocked_ends_at ELSE OLD.recurrence_end_date END
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS promote_holds_on_freed_slot_trigger ON public.events;
+CREATE TRIGGER promote_holds_on_freed_slot_trigger
+  AFTER UPDATE OF status, room_id, additional_room_ids, is_whole_building, starts_at, ends_at,
+    setup_minutes, teardown_minutes
+    OR DELETE
+  ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.promote_holds_on_freed_slot();
+
+-- =====================================================
+-- Promotion notifications
+-- =====================================================
+
+-- Promoted holds whose requesters have not been told yet, marked as notified.
+-- Requesters usually cannot see who freed the slot, so this runs as definer.
+CREATE OR REPLACE FUNCTION public.claim_promoted_holds(_organization_id UUID)
+RETURNS TABLE (
+  event_id UUID,
+  title TEXT,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  room_id UUID,
+  additional_room_ids UUID[],
+  is_whole_building BOOLEAN,
+  requester_email TEXT,
+  requester_name TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.user_belongs_to_org(auth.uid(), _organization_id) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.events e
+    SET hold_notified_at = now()
+    WHERE e.organization_id = _organization_id
+      AND e.hold_promoted_at IS NOT NULL
+      AND e.hold_notified_at IS NULL
+    RETURNING e.*
+  )
+  SELECT c.id, c.title, c.starts_at, c.ends_at, c.room_id, c.additional_room_ids, c.is_whole_building,
+    p.email, p.full_name
+  FROM claimed c
+  LEFT JOIN public.profiles p ON p.id = c.created_by;
+END;
+$$;
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+CREATE POLICY "Contributors can update own holds in their organizations"
+  ON public.events FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    AND status = 'hold'
+    AND public.user_belongs_to_org(auth.uid(), organization_id)
+  );
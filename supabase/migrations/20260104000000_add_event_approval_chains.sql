@@ -0,0 +1,303 @@
+-- Multi-stage approval chains per room
+-- Some rooms (sanctuary, gym) need several people to sign off on a booking,
+-- e.g. facilities and then the pastor. A room can have ordered approval steps;
+-- an event naming such rooms is only approved once every step of every room
+-- it names has signed off. Steps with the same order are decided side by side.
+-- Events whose rooms have no steps keep the single admin review.
+-- Occurrence overrides follow the sign-off of their series.
+
+-- =====================================================
+-- Approval steps
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.room_approval_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  room_id UUID REFERENCES public.rooms(id) ON DELETE CASCADE NOT NULL,
+  step_order SMALLINT NOT NULL CHECK (step_order >= 1),
+  name TEXT NOT NULL,
+  approver_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT room_approval_steps_unique_order UNIQUE (room_id, step_order) DEFERRABLE
+);
+
+COMMENT ON TABLE public.room_approval_steps IS 'Ordered sign-offs an event booking the room needs before it is approved.';
+COMMENT ON COLUMN public.room_approval_steps.step_order IS 'Position in the chain, from 1. Steps of different rooms with the same order are decided side by side.';
+COMMENT ON COLUMN public.room_approval_steps.name IS 'Who signs off, e.g. "Facilities" or "Pastor".';
+COMMENT ON COLUMN public.room_approval_steps.approver_id IS 'User who signs off this step; NULL for any admin of the organization.';
+
+CREATE INDEX IF NOT EXISTS idx_room_approval_steps_org
+  ON public.room_approval_steps(organization_id, room_id);
+
+-- =====================================================
+-- Decisions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.event_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+  step_id UUID REFERENCES public.room_approval_steps(id) ON DELETE SET NULL,
+  step_name TEXT NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected')),
+  decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  notes TEXT,
+  decided_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.event_approvals IS 'Each approver''s decision on a step of an event''s approval chain.';
+COMMENT ON COLUMN public.event_approvals.step_name IS 'Name of the step when it was decided, kept if the step is removed.';
+
+CREATE INDEX IF NOT EXISTS idx_event_approvals_event
+  ON public.event_approvals(event_id, decided_at);
+
+-- Decisions only count for the current round of review. A new round starts
+-- when the event (re)enters pending_review or its time or rooms change.
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS review_started_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.events.review_started_at IS 'Start of the current review round; approval decisions made before it no longer count.';
+
+CREATE OR REPLACE FUNCTION public.apply_event_review_start()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'pending_review' AND (
+    TG_OP = 'INSERT'
+    OR OLD.status IS DISTINCT FROM 'pending_review'
+    OR NEW.starts_at IS DISTINCT FROM OLD.starts_at
+    OR NEW.ends_at IS DISTINCT FROM OLD.ends_at
+    OR NEW.room_id IS DISTINCT FROM OLD.room_id
+    OR NEW.additional_room_ids IS DISTINCT FROM OLD.additional_room_ids
+  ) THEN
+    NEW.review_started_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apply_event_review_start_trigger ON public.events;
+CREATE TRIGGER apply_event_review_start_trigger
+  BEFORE INSERT OR UPDATE OF status, starts_at, ends_at, room_id, additional_room_ids
+  ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_event_review_start();
+
+-- =====================================================
+-- Outstanding steps
+-- =====================================================
+
+-- Steps of the rooms an event names that have not signed off in the current
+-- review round. Whole-building events are checked against the rooms they name.
+CREATE OR REPLACE FUNCTION public.outstanding_approval_steps(_event_id UUID)
+RETURNS SETOF public.room_approval_steps
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.*
+  FROM public.events e
+  JOIN public.room_approval_steps s
+    ON s.room_id = ANY (ARRAY[e.room_id] || e.additional_room_ids)
+  WHERE e.id = _event_id
+    AND e.parent_event_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.event_approvals a
+      WHERE a.event_id = e.id
+        AND a.step_id = s.id
+        AND a.decision = 'approved'
+        AND a.decided_at >= COALESCE(e.review_started_at, '-infinity'::timestamptz)
+    )
+  ORDER BY s.step_order, s.name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.outstanding_approval_steps(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.outstanding_approval_steps(UUID) TO authenticated;
+
+-- An event cannot be approved or published, whether created that way or
+-- moved there from another status, while steps are outstanding. Runs after
+-- the write so the steps of a new event's rooms are found.
+CREATE OR REPLACE FUNCTION public.check_event_approval_chain()
+RETURNS TRIGGER AS $$
+DECLARE
+  waiting_step TEXT;
+BEGIN
+  IF NEW.status NOT IN ('approved', 'published')
+    OR (TG_OP = 'UPDATE' AND OLD.status IN ('approved', 'published'))
+    OR NEW.parent_event_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT s.name INTO waiting_step
+  FROM public.outstanding_approval_steps(NEW.id) s
+  LIMIT 1;
+
+  IF waiting_step IS NOT NULL THEN
+    RAISE EXCEPTION 'This event still needs sign-off from "%"', waiting_step
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_event_approval_chain_trigger ON public.events;
+CREATE TRIGGER check_event_approval_chain_trigger
+  AFTER INSERT OR UPDATE OF status
+  ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_event_approval_chain();
+
+-- =====================================================
+-- Signing off
+-- =====================================================
+
+-- Record the caller's decision on the steps of the current stage assigned to
+-- them (or, for steps without an approver, to any admin). A rejection rejects
+-- the event; the last approval approves it. Returns the event's status.
+-- Runs as definer so approvers who are not admins can move the event on.
+CREATE OR REPLACE FUNCTION public.decide_event_approval(
+  _event_id UUID,
+  _decision TEXT,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.event_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.events;
+  caller_is_admin BOOLEAN;
+  current_stage SMALLINT;
+  signed INTEGER;
+BEGIN
+  IF _decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown decision "%"', _decision;
+  END IF;
+
+  SELECT * INTO target FROM public.events WHERE id = _event_id;
+
+  IF NOT FOUND OR NOT public.user_belongs_to_org(auth.uid(), target.organization_id) THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF target.status <> 'pending_review' OR target.parent_event_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This event is not waiting for approval';
+  END IF;
+
+  caller_is_admin := public.is_org_admin(auth.uid(), target.organization_id);
+
+  SELECT min(s.step_order) INTO current_stage
+  FROM public.outstanding_approval_steps(target.id) s;
+
+  IF current_stage IS NULL THEN
+    RAISE EXCEPTION 'This event has no approval steps waiting';
+  END IF;
+
+  INSERT INTO public.event_approvals (organization_id, event_id, step_id, step_name, decision, decided_by, notes)
+  SELECT target.organization_id, target.id, s.id, s.name, _decision, auth.uid(), _notes
+  FROM public.outstanding_approval_steps(target.id) s
+  WHERE s.step_order = current_stage
+    AND (s.approver_id = auth.uid() OR (s.approver_id IS NULL AND caller_is_admin));
+
+  GET DIAGNOSTICS signed = ROW_COUNT;
+  IF signed = 0 THEN
+    RAISE EXCEPTION 'This event is not waiting on you'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _decision = 'rejected' THEN
+    UPDATE public.events
+    SET status = 'rejected',
+        reviewer_id = auth.uid(),
+        reviewer_notes = _notes,
+        updated_at = now()
+    WHERE id = target.id OR parent_event_id = target.id;
+    RETURN 'rejected';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.outstanding_approval_steps(target.id)) THEN
+    RETURN 'pending_review';
+  END IF;
+
+  -- Occurrences rejected on their own stay rejected, like updateSeriesStatus
+  UPDATE public.events
+  SET status = 'approved',
+      reviewer_id = auth.uid(),
+      reviewer_notes = COALESCE(_notes, reviewer_notes),
+      updated_at = now()
+  WHERE id = target.id OR (parent_event_id = target.id AND status <> 'rejected');
+  RETURN 'approved';
+END;
+$$;
+
+-- Replaces a room's approval chain with the given steps, in order. Steps
+-- passed back with their id are updated in place, so sign-offs already made
+-- on them still count; steps left out are removed and new ones added.
+CREATE OR REPLACE FUNCTION public.set_room_approval_steps(_room_id UUID, _steps JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  room_organization_id UUID;
+BEGIN
+  SELECT organization_id INTO room_organization_id FROM public.rooms WHERE id = _room_id;
+
+  IF NOT FOUND OR NOT public.is_org_admin(auth.uid(), room_organization_id) THEN
+    RAISE EXCEPTION 'Only admins can change the approval steps of this room'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Steps swap places while they are renumbered
+  SET CONSTRAINTS public.room_approval_steps_unique_order DEFERRED;
+
+  DELETE FROM public.room_approval_steps s
+  WHERE s.room_id = _room_id
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(_steps) step
+      WHERE step->>'id' = s.id::TEXT
+    );
+
+  UPDATE public.room_approval_steps s
+  SET step_order = step.position,
+      name = step.value->>'name',
+      approver_id = (step.value->>'approver_id')::UUID
+  FROM jsonb_array_elements(_steps) WITH ORDINALITY AS step(value, position)
+  WHERE s.room_id = _room_id AND s.id::TEXT = step.value->>'id';
+
+  INSERT INTO public.room_approval_steps (organization_id, room_id, step_order, name, approver_id)
+  SELECT room_organization_id, _room_id, step.position, step.value->>'name', (step.value->>'approver_id')::UUID
+  FROM jsonb_array_elements(_steps) WITH ORDINALITY AS step(value, position)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.room_approval_steps s
+    WHERE s.room_id = _room_id AND s.id::TEXT = step.value->>'id'
+  );
+END;
+$$;
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE public.room_approval_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view approval steps in their organizations"
+  ON public.room_approval_steps FOR SELECT
+  TO authenticated
+  USING (public.user_belongs_to_org(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can manage approval steps in their organizations"
+  ON public.room_approval_steps FOR ALL
+  TO authenticated
+  USING (public.is_org_admin(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+-- Decisions are only written through decide_event_approval
+CREATE POLICY "Users can view approval decisions in their organizations"
+  ON public.event_approvals FOR SELECT
+  TO authenticated
+  USING (public.user_belongs_to_org(auth.uid(), organization_id));
@@ -0,0 +1,204 @@
+-- Event history (audit trail)
+-- Events only keep their last reviewer and notes, so every status change
+-- overwrites the one before. event_history records who created, edited,
+-- submitted, approved, rejected, published or deleted an event and when,
+-- like budget.expense_history does for expenses. Entries are written by
+-- triggers, so every path that changes an event is covered, and they are kept
+-- after the event is deleted.
+
+-- =====================================================
+-- History table
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.event_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  event_id UUID NOT NULL,
+  series_id UUID NOT NULL,
+  occurrence_start TIMESTAMPTZ,
+  event_title TEXT NOT NULL,
+  event_created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL, -- 'created', 'edited', 'submitted', 'approved', 'signed_off', 'rejected', 'published', 'deleted', etc.
+  previous_status public.event_status,
+  new_status public.event_status,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_name TEXT NOT NULL,
+  notes TEXT,
+  changes JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.event_history IS 'Audit trail of every change to an event. Kept after the event is deleted.';
+COMMENT ON COLUMN public.event_history.event_id IS 'Event row the entry is about (no foreign key, so entries survive deletion).';
+COMMENT ON COLUMN public.event_history.series_id IS 'Series the row belongs to (the event itself for standalone events and series rows).';
+COMMENT ON COLUMN public.event_history.occurrence_start IS 'Original start of the occurrence, for occurrence override rows.';
+COMMENT ON COLUMN public.event_history.changes IS 'Edited fields as {"field": {"from": ..., "to": ...}}.';
+
+CREATE INDEX IF NOT EXISTS idx_event_history_series
+  ON public.event_history(series_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_event_history_org_created
+  ON public.event_history(organization_id, created_at);
+
+-- =====================================================
+-- Recording
+-- =====================================================
+
+-- Name of the user making the change; 'System' for changes without a user
+CREATE OR REPLACE FUNCTION public.event_history_actor_name()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT COALESCE(NULLIF(p.full_name, ''), p.email) FROM public.profiles p WHERE p.id = auth.uid()),
+    'System'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_event_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tracked_fields TEXT[] := ARRAY[
+    'title', 'description', 'starts_at', 'ends_at', 'room_id', 'additional_room_ids',
+    'is_whole_building', 'setup_minutes', 'teardown_minutes', 'recurrence_rule', 'recurrence_exdates'
+  ];
+  field TEXT;
+  old_row JSONB;
+  new_row JSONB;
+  entry_action TEXT;
+  entry_notes TEXT;
+  entry_changes JSONB := '{}'::jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.event_history (
+      organization_id, event_id, series_id, occurrence_start, event_title, event_created_by,
+      action, new_status, actor_id, actor_name
+    ) VALUES (
+      NEW.organization_id, NEW.id, COALESCE(NEW.parent_event_id, NEW.id), NEW.recurrence_id, NEW.title, NEW.created_by,
+      CASE WHEN NEW.parent_event_id IS NULL THEN 'created' ELSE 'occurrence_edited' END,
+      NEW.status, auth.uid(), public.event_history_actor_name()
+    );
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.event_history (
+      organization_id, event_id, series_id, occurrence_start, event_title, event_created_by,
+      action, previous_status, actor_id, actor_name
+    ) VALUES (
+      OLD.organization_id, OLD.id, COALESCE(OLD.parent_event_id, OLD.id), OLD.recurrence_id, OLD.title, OLD.created_by,
+      CASE WHEN OLD.parent_event_id IS NULL THEN 'deleted' ELSE 'occurrence_restored' END,
+      OLD.status, auth.uid(), public.event_history_actor_name()
+    );
+    RETURN OLD;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+  new_row := to_jsonb(NEW);
+  FOREACH field IN ARRAY tracked_fields LOOP
+    IF old_row -> field IS DISTINCT FROM new_row -> field THEN
+      entry_changes := entry_changes || jsonb_build_object(
+        field, jsonb_build_object('from', old_row -> field, 'to', new_row -> field)
+      );
+    END IF;
+  END LOOP;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    entry_action := CASE
+      WHEN NEW.status = 'pending_review' AND OLD.status = 'hold' THEN 'hold_promoted'
+      WHEN NEW.status = 'pending_review' AND OLD.status IN ('approved', 'published') THEN 'unapproved'
+      WHEN NEW.status = 'pending_review' THEN 'submitted'
+      WHEN NEW.status = 'approved' AND OLD.status = 'published' THEN 'unpublished'
+      WHEN NEW.status = 'approved' THEN 'approved'
+      WHEN NEW.status = 'published' THEN 'published'
+      WHEN NEW.status = 'rejected' THEN 'rejected'
+      WHEN NEW.status = 'hold' THEN 'held'
+      ELSE 'status_changed'
+    END;
+    IF NEW.status IN ('approved', 'rejected') AND NEW.reviewer_notes IS DISTINCT FROM OLD.reviewer_notes THEN
+      entry_notes := NEW.reviewer_notes;
+    END IF;
+  ELSIF entry_changes <> '{}'::jsonb THEN
+    entry_action := 'edited';
+  ELSE
+    -- Bookkeeping only (updated_at, hold notifications, review rounds)
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.event_history (
+    organization_id, event_id, series_id, occurrence_start, event_title, event_created_by,
+    action, previous_status, new_status, actor_id, actor_name, notes, changes
+  ) VALUES (
+    NEW.organization_id, NEW.id, COALESCE(NEW.parent_event_id, NEW.id), NEW.recurrence_id, NEW.title, NEW.created_by,
+    entry_action, OLD.status, NEW.status, auth.uid(), public.event_history_actor_name(), entry_notes,
+    NULLIF(entry_changes, '{}'::jsonb)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_event_history_trigger ON public.events;
+CREATE TRIGGER record_event_history_trigger
+  AFTER INSERT OR UPDATE OR DELETE
+  ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_event_history();
+
+-- Sign-offs in an approval chain that do not change the status yet
+CREATE OR REPLACE FUNCTION public.record_event_approval_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.decision <> 'approved' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.event_history (
+    organization_id, event_id, series_id, event_title, event_created_by,
+    action, previous_status, new_status, actor_id, actor_name, notes
+  )
+  SELECT e.organization_id, e.id, e.id, e.title, e.created_by,
+    'signed_off', e.status, e.status, auth.uid(), public.event_history_actor_name(),
+    COALESCE(NEW.step_name || COALESCE(': ' || NEW.notes, ''), NEW.notes)
+  FROM public.events e
+  WHERE e.id = NEW.event_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_event_approval_history_trigger ON public.event_approvals;
+CREATE TRIGGER record_event_approval_history_trigger
+  AFTER INSERT
+  ON public.event_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_event_approval_history();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE public.event_history ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the triggers above
+CREATE POLICY "Admins can view event history in their organizations"
+  ON public.event_history FOR SELECT
+  TO authenticated
+  USING (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Users can view history of own events"
+  ON public.event_history FOR SELECT
+  TO authenticated
+  USING (
+    event_created_by = auth.uid()
+    AND public.user_belongs_to_org(auth.uid(), organization_id)
+  );
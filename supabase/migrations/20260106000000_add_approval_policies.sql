@@ -0,0 +1,275 @@
+-- Auto-approval policies
+-- Routine bookings (weekly prayer meetings, short events in small rooms) do
+-- not need an admin to look at them. An organization can define policies that
+-- approve an event as soon as it is submitted for review when every condition
+-- the policy sets holds: the requester's role, the rooms booked, the length of
+-- the event, or a recurring series that was approved before. Events whose
+-- rooms have an approval chain always go through the chain.
+
+-- =====================================================
+-- Policies
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.approval_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  requester_roles public.app_role[],
+  room_ids UUID[],
+  max_duration_minutes INTEGER CHECK (max_duration_minutes > 0),
+  require_approved_series BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- A policy without conditions would approve everything
+  CONSTRAINT approval_policies_has_condition CHECK (
+    requester_roles IS NOT NULL
+    OR room_ids IS NOT NULL
+    OR max_duration_minutes IS NOT NULL
+    OR require_approved_series
+  )
+);
+
+COMMENT ON TABLE public.approval_policies IS 'Conditions under which events submitted for review are approved without an admin.';
+COMMENT ON COLUMN public.approval_policies.requester_roles IS 'Roles of the requester that qualify; NULL for any role.';
+COMMENT ON COLUMN public.approval_policies.room_ids IS 'Rooms the event may book; every room it names must be listed. NULL for any room. Whole-building events never qualify.';
+COMMENT ON COLUMN public.approval_policies.max_duration_minutes IS 'Longest event (or occurrence) that qualifies; NULL for any length.';
+COMMENT ON COLUMN public.approval_policies.require_approved_series IS 'Only recurring series an admin has approved before qualify.';
+
+CREATE INDEX IF NOT EXISTS idx_approval_policies_org
+  ON public.approval_policies(organization_id)
+  WHERE is_active;
+
+DROP TRIGGER IF EXISTS update_approval_policies_updated_at ON public.approval_policies;
+CREATE TRIGGER update_approval_policies_updated_at
+  BEFORE UPDATE ON public.approval_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- Policy that approved an event
+-- =====================================================
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS approval_policy_id UUID REFERENCES public.approval_policies(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS approval_policy_name TEXT;
+
+COMMENT ON COLUMN public.events.approval_policy_id IS 'Policy that approved the event without an admin; NULL for events approved by a reviewer.';
+COMMENT ON COLUMN public.events.approval_policy_name IS 'Name of that policy when it approved the event, kept if the policy is removed.';
+
+-- The policy no longer explains the status once the event leaves approval
+CREATE OR REPLACE FUNCTION public.reset_event_approval_policy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status NOT IN ('approved', 'published') THEN
+    NEW.approval_policy_id := NULL;
+    NEW.approval_policy_name := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reset_event_approval_policy_trigger ON public.events;
+CREATE TRIGGER reset_event_approval_policy_trigger
+  BEFORE UPDATE OF status
+  ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_event_approval_policy();
+
+-- =====================================================
+-- Evaluation
+-- =====================================================
+
+-- Approve an event under review, with its occurrences under review, when an
+-- active policy of its organization matches. Called by the client when an
+-- event is submitted for review. Returns the name of the matching policy, or
+-- NULL when the event still needs a reviewer. Runs as definer because
+-- requesters cannot approve their own events.
+CREATE OR REPLACE FUNCTION public.apply_approval_policies(_event_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.events;
+  policy public.approval_policies;
+  requester_role public.app_role;
+BEGIN
+  SELECT * INTO target FROM public.events WHERE id = _event_id;
+
+  IF NOT FOUND
+    OR NOT (target.created_by = auth.uid() OR public.is_org_admin(auth.uid(), target.organization_id)) THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF target.status <> 'pending_review' OR target.parent_event_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Rooms with an approval chain need their sign-offs
+  IF EXISTS (SELECT 1 FROM public.outstanding_approval_steps(target.id)) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT uo.role INTO requester_role
+  FROM public.user_organizations uo
+  WHERE uo.user_id = target.created_by
+    AND uo.organization_id = target.organization_id;
+
+  SELECT p.* INTO policy
+  FROM public.approval_policies p
+  WHERE p.organization_id = target.organization_id
+    AND p.is_active
+    AND (p.requester_roles IS NULL OR requester_role = ANY (p.requester_roles))
+    AND (
+      p.room_ids IS NULL
+      OR (NOT target.is_whole_building AND (ARRAY[target.room_id] || target.additional_room_ids) <@ p.room_ids)
+    )
+    AND (
+      p.max_duration_minutes IS NULL
+      OR target.ends_at - target.starts_at <= make_interval(mins => p.max_duration_minutes)
+    )
+    AND (
+      NOT p.require_approved_series
+      OR (
+        target.recurrence_rule IS NOT NULL
+        AND EXISTS (
+          SELECT 1
+          FROM public.event_history h
+          WHERE h.series_id = target.id
+            AND h.action = 'approved'
+        )
+      )
+    )
+  ORDER BY p.created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Occurrences rejected on their own stay rejected, like updateSeriesStatus
+  UPDATE public.events
+  SET status = 'approved',
+      reviewer_id = NULL,
+      approval_policy_id = policy.id,
+      approval_policy_name = policy.name,
+      updated_at = now()
+  WHERE id = target.id
+    OR (parent_event_id = target.id AND status = 'pending_review');
+
+  RETURN policy.name;
+END;
+$$;
+
+-- =====================================================
+-- History
+-- =====================================================
+
+-- Same as before, with approvals made by a policy logged as 'auto_approved'
+-- under the policy's name instead of the requester's
+CREATE OR REPLACE FUNCTION public.record_event_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tracked_fields TEXT[] := ARRAY[
+    'title', 'description', 'starts_at', 'ends_at', 'room_id', 'additional_room_ids',
+    'is_whole_building', 'setup_minutes', 'teardown_minutes', 'recurrence_rule', 'recurrence_exdates'
+  ];
+  field TEXT;
+  old_row JSONB;
+  new_row JSONB;
+  entry_action TEXT;
+  entry_notes TEXT;
+  entry_actor_id UUID := auth.uid();
+  entry_actor_name TEXT := public.event_history_actor_name();
+  entry_changes JSONB := '{}'::jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.event_history (
+      organization_id, event_id, series_id, occurrence_start, event_title, event_created_by,
+      action, new_status, actor_id, actor_name
+    ) VALUES (
+      NEW.organization_id, NEW.id, COALESCE(NEW.parent_event_id, NEW.id), NEW.recurrence_id, NEW.title, NEW.created_by,
+      CASE WHEN NEW.parent_event_id IS NULL THEN 'created' ELSE 'occurrence_edited' END,
+      NEW.status, entry_actor_id, entry_actor_name
+    );
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.event_history (
+      organization_id, event_id, series_id, occurrence_start, event_title, event_created_by,
+      action, previous_status, actor_id, actor_name
+    ) VALUES (
+      OLD.organization_id, OLD.id, COALESCE(OLD.parent_event_id, OLD.id), OLD.recurrence_id, OLD.title, OLD.created_by,
+      CASE WHEN OLD.parent_event_id IS NULL THEN 'deleted' ELSE 'occurrence_restored' END,
+      OLD.status, entry_actor_id, entry_actor_name
+    );
+    RETURN OLD;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+  new_row := to_jsonb(NEW);
+  FOREACH field IN ARRAY tracked_fields LOOP
+    IF old_row -> field IS DISTINCT FROM new_row -> field THEN
+      entry_changes := entry_changes || jsonb_build_object(
+        field, jsonb_build_object('from', old_row -> field, 'to', new_row -> field)
+      );
+    END IF;
+  END LOOP;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    entry_action := CASE
+      WHEN NEW.approval_policy_id IS NOT NULL AND OLD.approval_policy_id IS NULL THEN 'auto_approved'
+      WHEN NEW.status = 'pending_review' AND OLD.status = 'hold' THEN 'hold_promoted'
+      WHEN NEW.status = 'pending_review' AND OLD.status IN ('approved', 'published') THEN 'unapproved'
+      WHEN NEW.status = 'pending_review' THEN 'submitted'
+      WHEN NEW.status = 'approved' AND OLD.status = 'published' THEN 'unpublished'
+      WHEN NEW.status = 'approved' THEN 'approved'
+      WHEN NEW.status = 'published' THEN 'published'
+      WHEN NEW.status = 'rejected' THEN 'rejected'
+      WHEN NEW.status = 'hold' THEN 'held'
+      ELSE 'status_changed'
+    END;
+    IF entry_action = 'auto_approved' THEN
+      entry_actor_id := NULL;
+      entry_actor_name := 'Policy: ' || NEW.approval_policy_name;
+    ELSIF NEW.status IN ('approved', 'rejected') AND NEW.reviewer_notes IS DISTINCT FROM OLD.reviewer_notes THEN
+      entry_notes := NEW.reviewer_notes;
+    END IF;
+  ELSIF entry_changes <> '{}'::jsonb THEN
+    entry_action := 'edited';
+  ELSE
+    -- Bookkeeping only (updated_at, hold notifications, review rounds)
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.event_history (
+    organization_id, event_id, series_id, occurrence_start, event_title, event_created_by,
+    action, previous_status, new_status, actor_id, actor_name, notes, changes
+  ) VALUES (
+    NEW.organization_id, NEW.id, COALESCE(NEW.parent_event_id, NEW.id), NEW.recurrence_id, NEW.title, NEW.created_by,
+    entry_action, OLD.status, NEW.status, entry_actor_id, entry_actor_name, entry_notes,
+    NULLIF(entry_changes, '{}'::jsonb)
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE public.approval_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage approval policies in their organizations"
+  ON public.approval_policies FOR ALL
+  TO authenticated
+  USING (public.is_org_admin(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
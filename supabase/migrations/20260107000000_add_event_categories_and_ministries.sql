@@ -0,0 +1,81 @@
+-- Event categories and owning ministries
+-- Events carried no type and their ministry was inferred from the creator's
+-- profiles.ministry_name, so a ministry's events moved with whoever booked
+-- them. Events now have a category (service, rehearsal, meeting, ...) and an
+-- owning ministry from budget.ministries, used to filter and color the
+-- calendar and to scope ministry feeds.
+
+-- =====================================================
+-- Categories
+-- =====================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'event_category') THEN
+    CREATE TYPE public.event_category AS ENUM (
+      'service',
+      'rehearsal',
+      'meeting',
+      'outreach',
+      'wedding',
+      'funeral'
+    );
+  END IF;
+END $$;
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS category public.event_category,
+  ADD COLUMN IF NOT EXISTS ministry_id UUID REFERENCES budget.ministries(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.events.category IS 'Kind of event; NULL when not set.';
+COMMENT ON COLUMN public.events.ministry_id IS 'Ministry that owns the event; NULL for events of the whole church.';
+
+CREATE INDEX IF NOT EXISTS idx_events_category
+  ON public.events(organization_id, category)
+  WHERE category IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_events_ministry
+  ON public.events(ministry_id)
+  WHERE ministry_id IS NOT NULL;
+
+-- =====================================================
+-- Backfill
+-- =====================================================
+
+-- Existing events belong to the ministry their creator is in
+UPDATE public.events e
+SET ministry_id = m.id
+FROM public.profiles p
+JOIN budget.ministries m ON m.name = p.ministry_name
+WHERE p.id = e.created_by
+  AND m.organization_id = e.organization_id
+  AND e.ministry_id IS NULL;
+
+-- =====================================================
+-- Ministry names for the public calendar
+-- =====================================================
+
+-- budget.ministries is only readable by members; visitors of the public
+-- calendar need the names to filter by ministry
+CREATE OR REPLACE FUNCTION public.list_public_ministries(_organization_id UUID)
+RETURNS TABLE (id UUID, name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.name
+  FROM budget.ministries m
+  JOIN public.organizations o ON o.id = m.organization_id
+  WHERE m.organization_id = _organization_id
+    AND m.is_active
+    AND o.is_active
+  ORDER BY m.name;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_public_ministries(UUID) TO anon, authenticated;
+
+-- =====================================================
+-- Feeds
+-- =====================================================
+
+COMMENT ON COLUMN public.calendar_feeds.ministry_id IS 'Only include events owned by this ministry. NULL for all ministries.';
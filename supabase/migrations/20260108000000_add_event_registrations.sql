@@ -0,0 +1,384 @@
+-- Public event registration (RSVP)
+-- Published events can take registrations from the public calendar: a name,
+-- an email and a headcount. Events may cap the number of attendees; people
+-- who register once the cap is reached join a waitlist and are confirmed in
+-- the order they registered as places free up. Registrations are written by
+-- register_for_event only, so visitors never read each other's details.
+-- Recurring series take registrations per occurrence.
+
+-- =====================================================
+-- Registration settings
+-- =====================================================
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS registration_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS registration_capacity INTEGER CHECK (registration_capacity > 0);
+
+COMMENT ON COLUMN public.events.registration_enabled IS 'Visitors of the public calendar can register once the event is published.';
+COMMENT ON COLUMN public.events.registration_capacity IS 'Most attendees (headcount) confirmed per event or occurrence; NULL for no limit.';
+
+-- =====================================================
+-- Registrations
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.event_registrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+  occurrence_start TIMESTAMPTZ,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 200),
+  email TEXT NOT NULL CHECK (email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$'),
+  headcount INTEGER NOT NULL DEFAULT 1 CHECK (headcount BETWEEN 1 AND 20),
+  status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'waitlisted', 'cancelled')),
+  notified_status TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.event_registrations IS 'Sign-ups for published events, made from the public calendar through register_for_event.';
+COMMENT ON COLUMN public.event_registrations.event_id IS 'Standalone event or recurring series registered for.';
+COMMENT ON COLUMN public.event_registrations.occurrence_start IS 'Original start of the occurrence, for series; NULL for standalone events.';
+COMMENT ON COLUMN public.event_registrations.headcount IS 'People the registration is for, counted against the capacity.';
+COMMENT ON COLUMN public.event_registrations.notified_status IS 'Status the registrant was last emailed about, set by send-registration-email.';
+
+-- One active registration per email and event (or occurrence)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_registrations_email
+  ON public.event_registrations(
+    event_id,
+    COALESCE(occurrence_start, '-infinity'::timestamptz),
+    lower(email)
+  )
+  WHERE status <> 'cancelled';
+
+CREATE INDEX IF NOT EXISTS idx_event_registrations_event
+  ON public.event_registrations(event_id, occurrence_start, created_at);
+
+DROP TRIGGER IF EXISTS update_event_registrations_updated_at ON public.event_registrations;
+CREATE TRIGGER update_event_registrations_updated_at
+  BEFORE UPDATE ON public.event_registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- Waitlist
+-- =====================================================
+
+-- Confirm waitlisted registrations in the order they were made while they
+-- fit in the capacity. Stops at the first that does not fit, so a smaller
+-- party never jumps the line.
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist(_event_id UUID, _occurrence_start TIMESTAMPTZ)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  capacity INTEGER;
+  taken INTEGER;
+  waiting public.event_registrations;
+  promoted INTEGER := 0;
+BEGIN
+  SELECT registration_capacity INTO capacity FROM public.events WHERE id = _event_id;
+
+  SELECT COALESCE(SUM(headcount), 0) INTO taken
+  FROM public.event_registrations
+  WHERE event_id = _event_id
+    AND occurrence_start IS NOT DISTINCT FROM _occurrence_start
+    AND status = 'confirmed';
+
+  FOR waiting IN
+    SELECT *
+    FROM public.event_registrations
+    WHERE event_id = _event_id
+      AND occurrence_start IS NOT DISTINCT FROM _occurrence_start
+      AND status = 'waitlisted'
+    ORDER BY created_at
+  LOOP
+    EXIT WHEN capacity IS NOT NULL AND taken + waiting.headcount > capacity;
+
+    UPDATE public.event_registrations SET status = 'confirmed' WHERE id = waiting.id;
+    taken := taken + waiting.headcount;
+    promoted := promoted + 1;
+  END LOOP;
+
+  RETURN promoted;
+END;
+$$;
+
+-- Only run by the triggers below, never called by clients
+REVOKE EXECUTE ON FUNCTION public.promote_event_waitlist(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Places free up when a confirmed registration is cancelled, shrinks or is
+-- removed
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist_on_release()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Nothing to promote when the event itself is being deleted
+    IF OLD.status = 'confirmed' AND EXISTS (SELECT 1 FROM public.events WHERE id = OLD.event_id) THEN
+      PERFORM public.promote_event_waitlist(OLD.event_id, OLD.occurrence_start);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.status = 'confirmed' AND (NEW.status <> 'confirmed' OR NEW.headcount < OLD.headcount) THEN
+    PERFORM public.promote_event_waitlist(NEW.event_id, NEW.occurrence_start);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS promote_event_waitlist_trigger ON public.event_registrations;
+CREATE TRIGGER promote_event_waitlist_trigger
+  AFTER UPDATE OF status, headcount OR DELETE
+  ON public.event_registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.promote_event_waitlist_on_release();
+
+-- Raising or removing the cap confirms the waitlist of every occurrence
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist_on_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  occurrence TIMESTAMPTZ;
+BEGIN
+  IF NEW.registration_capacity IS NULL
+    OR NEW.registration_capacity > COALESCE(OLD.registration_capacity, 0) THEN
+    FOR occurrence IN
+      SELECT DISTINCT occurrence_start
+      FROM public.event_registrations
+      WHERE event_id = NEW.id AND status = 'waitlisted'
+    LOOP
+      PERFORM public.promote_event_waitlist(NEW.id, occurrence);
+    END LOOP;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS promote_event_waitlist_capacity_trigger ON public.events;
+CREATE TRIGGER promote_event_waitlist_capacity_trigger
+  AFTER UPDATE OF registration_capacity
+  ON public.events
+  FOR EACH ROW
+  WHEN (NEW.registration_capacity IS DISTINCT FROM OLD.registration_capacity)
+  EXECUTE FUNCTION public.promote_event_waitlist_on_capacity();
+
+-- =====================================================
+-- Registering
+-- =====================================================
+
+-- Published, registration-enabled event or occurrence that has not ended.
+-- Occurrences are named by their original start, which must be a date of the
+-- series that was not removed from it. Settings come from the series; an
+-- occurrence's own row decides whether it is still published, what it is
+-- called and when it takes place. occurrence_start is NULL for standalone
+-- events. Only what a registration page shows is returned.
+CREATE OR REPLACE FUNCTION public.open_registration_event(_event_id UUID, _occurrence_start TIMESTAMPTZ)
+RETURNS TABLE (
+  event_id UUID,
+  organization_id UUID,
+  title TEXT,
+  occurrence_start TIMESTAMPTZ,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  registration_capacity INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.events;
+  occurrence public.events;
+  occurrence_starts TIMESTAMPTZ;
+  occurrence_ends TIMESTAMPTZ;
+  org_timezone TEXT;
+BEGIN
+  SELECT * INTO target
+  FROM public.events e
+  WHERE e.id = _event_id AND e.parent_event_id IS NULL;
+
+  IF NOT FOUND OR NOT target.registration_enabled THEN
+    RAISE EXCEPTION 'Registration is not open for this event';
+  END IF;
+
+  IF target.recurrence_rule IS NULL THEN
+    occurrence := target;
+    occurrence_starts := target.starts_at;
+    occurrence_ends := target.ends_at;
+  ELSE
+    SELECT o.timezone INTO org_timezone FROM public.organizations o WHERE o.id = target.organization_id;
+
+    IF _occurrence_start IS NULL
+      OR _occurrence_start = ANY (target.recurrence_exdates)
+      OR NOT EXISTS (
+        SELECT 1
+        FROM public.expand_recurrence_rule(
+          target.recurrence_rule,
+          target.starts_at,
+          COALESCE(org_timezone, 'America/New_York'),
+          _occurrence_start,
+          _occurrence_start + INTERVAL '1 second'
+        ) AS s
+        WHERE s = _occurrence_start
+      ) THEN
+      RAISE EXCEPTION 'Choose a date of this event to register for';
+    END IF;
+
+    SELECT * INTO occurrence
+    FROM public.events e
+    WHERE e.parent_event_id = target.id AND e.recurrence_id = _occurrence_start;
+
+    IF NOT FOUND THEN
+      occurrence := target;
+      occurrence_starts := _occurrence_start;
+      occurrence_ends := _occurrence_start + (target.ends_at - target.starts_at);
+    ELSE
+      occurrence_starts := occurrence.starts_at;
+      occurrence_ends := occurrence.ends_at;
+    END IF;
+  END IF;
+
+  IF occurrence.status <> 'published' OR occurrence_ends <= now() THEN
+    RAISE EXCEPTION 'Registration is not open for this event';
+  END IF;
+
+  RETURN QUERY SELECT
+    target.id,
+    target.organization_id,
+    occurrence.title,
+    CASE WHEN target.recurrence_rule IS NULL THEN NULL ELSE _occurrence_start END,
+    occurrence_starts,
+    occurrence_ends,
+    target.registration_capacity;
+END;
+$$;
+
+-- Only run by register_for_event, never called by clients
+REVOKE EXECUTE ON FUNCTION public.open_registration_event(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Places taken and waiting for an event or occurrence; no personal details
+CREATE OR REPLACE FUNCTION public.event_registration_counts(_event_id UUID, _occurrence_start TIMESTAMPTZ DEFAULT NULL)
+RETURNS TABLE (capacity INTEGER, confirmed_count INTEGER, waitlisted_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.registration_capacity,
+    COALESCE(SUM(r.headcount) FILTER (WHERE r.status = 'confirmed'), 0)::INTEGER,
+    COALESCE(SUM(r.headcount) FILTER (WHERE r.status = 'waitlisted'), 0)::INTEGER
+  FROM public.events e
+  LEFT JOIN public.event_registrations r
+    ON r.event_id = e.id
+    AND r.occurrence_start IS NOT DISTINCT FROM _occurrence_start
+  WHERE e.id = _event_id
+    AND e.registration_enabled
+    AND e.status = 'published'
+  GROUP BY e.id;
+$$;
+
+-- Register for an event from the public calendar. Confirmed while the
+-- headcount fits in the capacity and nobody is waiting, waitlisted otherwise.
+CREATE OR REPLACE FUNCTION public.register_for_event(
+  _event_id UUID,
+  _occurrence_start TIMESTAMPTZ,
+  _name TEXT,
+  _email TEXT,
+  _headcount INTEGER DEFAULT 1
+)
+RETURNS TABLE (registration_id UUID, status TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target RECORD;
+  taken INTEGER;
+  waiting INTEGER;
+  new_status TEXT;
+  new_id UUID;
+BEGIN
+  SELECT * INTO target FROM public.open_registration_event(_event_id, _occurrence_start);
+
+  -- Registrations for the same event are counted one at a time
+  PERFORM 1 FROM public.events e WHERE e.id = target.event_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.event_registrations r
+    WHERE r.event_id = target.event_id
+      AND r.occurrence_start IS NOT DISTINCT FROM target.occurrence_start
+      AND lower(r.email) = lower(trim(_email))
+      AND r.status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'This email is already registered for this event';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(r.headcount) FILTER (WHERE r.status = 'confirmed'), 0),
+    COUNT(*) FILTER (WHERE r.status = 'waitlisted')
+  INTO taken, waiting
+  FROM public.event_registrations r
+  WHERE r.event_id = target.event_id
+    AND r.occurrence_start IS NOT DISTINCT FROM target.occurrence_start;
+
+  new_status := CASE
+    WHEN target.registration_capacity IS NULL THEN 'confirmed'
+    WHEN waiting = 0 AND taken + _headcount <= target.registration_capacity THEN 'confirmed'
+    ELSE 'waitlisted'
+  END;
+
+  INSERT INTO public.event_registrations (organization_id, event_id, occurrence_start, name, email, headcount, status)
+  VALUES (target.organization_id, target.event_id, target.occurrence_start, trim(_name), lower(trim(_email)), _headcount, new_status)
+  RETURNING id INTO new_id;
+
+  RETURN QUERY SELECT new_id, new_status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.event_registration_counts(UUID, TIMESTAMPTZ) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.register_for_event(UUID, TIMESTAMPTZ, TEXT, TEXT, INTEGER) TO anon, authenticated;
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE public.event_registrations ENABLE ROW LEVEL SECURITY;
+
+-- Registrations are only created through register_for_event
+CREATE POLICY "Admins can manage registrations in their organizations"
+  ON public.event_registrations FOR ALL
+  TO authenticated
+  USING (public.is_org_admin(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Organizers can view registrations for own events"
+  ON public.event_registrations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id = event_id AND e.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Organizers can update registrations for own events"
+  ON public.event_registrations FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id = event_id AND e.created_by = auth.uid()
+    )
+  );
@@ -0,0 +1,208 @@
+-- Event check-in and attendance
+-- Organizers check registrants in at the door, by searching the attendee
+-- list or scanning the QR code of their ticket, and add people who come
+-- without registering as walk-ins. The attendance of each event or
+-- occurrence is kept in event_attendance so trends of a recurring series can
+-- be charted without reading attendee details.
+
+-- =====================================================
+-- Check-in
+-- =====================================================
+
+ALTER TABLE public.event_registrations
+  ADD COLUMN IF NOT EXISTS check_in_token UUID NOT NULL DEFAULT gen_random_uuid(),
+  ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS checked_in_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS is_walk_in BOOLEAN NOT NULL DEFAULT false;
+
+-- Walk-ins may not leave an email
+ALTER TABLE public.event_registrations ALTER COLUMN email DROP NOT NULL;
+
+ALTER TABLE public.event_registrations
+  DROP CONSTRAINT IF EXISTS event_registrations_email_required;
+ALTER TABLE public.event_registrations
+  ADD CONSTRAINT event_registrations_email_required CHECK (is_walk_in OR email IS NOT NULL);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_registrations_check_in_token
+  ON public.event_registrations(check_in_token);
+
+COMMENT ON COLUMN public.event_registrations.check_in_token IS 'Secret in the QR code of the registration''s ticket, scanned at the door.';
+COMMENT ON COLUMN public.event_registrations.checked_in_at IS 'When the registrant was checked in; NULL until they arrive.';
+COMMENT ON COLUMN public.event_registrations.is_walk_in IS 'Added at the door by an organizer rather than registered in advance.';
+
+-- Organizers add walk-ins to their own events; other registrations are only
+-- made through register_for_event
+CREATE POLICY "Organizers can add walk-ins to own events"
+  ON public.event_registrations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_walk_in
+    AND EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id = event_registrations.event_id
+        AND e.organization_id = event_registrations.organization_id
+        AND e.created_by = auth.uid()
+    )
+  );
+
+-- =====================================================
+-- Attendance
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.event_attendance (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+  occurrence_start TIMESTAMPTZ,
+  registered_count INTEGER NOT NULL DEFAULT 0,
+  checked_in_count INTEGER NOT NULL DEFAULT 0,
+  walk_in_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.event_attendance IS 'Headcounts of each event or occurrence, kept up to date from its registrations.';
+COMMENT ON COLUMN public.event_attendance.event_id IS 'Standalone event or recurring series.';
+COMMENT ON COLUMN public.event_attendance.occurrence_start IS 'Original start of the occurrence, for series; NULL for standalone events.';
+COMMENT ON COLUMN public.event_attendance.registered_count IS 'People confirmed in advance.';
+COMMENT ON COLUMN public.event_attendance.checked_in_count IS 'People registered in advance who were checked in.';
+COMMENT ON COLUMN public.event_attendance.walk_in_count IS 'People added at the door.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_attendance_occurrence
+  ON public.event_attendance(event_id, (COALESCE(occurrence_start, '-infinity'::timestamptz)));
+
+CREATE INDEX IF NOT EXISTS idx_event_attendance_organization
+  ON public.event_attendance(organization_id, occurrence_start);
+
+-- Recount the attendance of an event or occurrence from its registrations
+CREATE OR REPLACE FUNCTION public.refresh_event_attendance(_event_id UUID, _occurrence_start TIMESTAMPTZ)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.event_attendance (
+    organization_id,
+    event_id,
+    occurrence_start,
+    registered_count,
+    checked_in_count,
+    walk_in_count,
+    updated_at
+  )
+  SELECT
+    e.organization_id,
+    e.id,
+    _occurrence_start,
+    COALESCE(SUM(r.headcount) FILTER (WHERE r.status = 'confirmed' AND NOT r.is_walk_in), 0),
+    COALESCE(SUM(r.headcount) FILTER (WHERE r.checked_in_at IS NOT NULL AND r.status <> 'cancelled' AND NOT r.is_walk_in), 0),
+    COALESCE(SUM(r.headcount) FILTER (WHERE r.checked_in_at IS NOT NULL AND r.status <> 'cancelled' AND r.is_walk_in), 0),
+    now()
+  FROM public.events e
+  LEFT JOIN public.event_registrations r
+    ON r.event_id = e.id
+    AND r.occurrence_start IS NOT DISTINCT FROM _occurrence_start
+  WHERE e.id = _event_id
+  GROUP BY e.id
+  ON CONFLICT (event_id, (COALESCE(occurrence_start, '-infinity'::timestamptz)))
+  DO UPDATE SET
+    registered_count = EXCLUDED.registered_count,
+    checked_in_count = EXCLUDED.checked_in_count,
+    walk_in_count = EXCLUDED.walk_in_count,
+    updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+-- Only run by the trigger below, never called by clients
+REVOKE EXECUTE ON FUNCTION public.refresh_event_attendance(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_event_attendance_on_registration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- The attendance row goes with the event when the event is deleted
+    IF EXISTS (SELECT 1 FROM public.events WHERE id = OLD.event_id) THEN
+      PERFORM public.refresh_event_attendance(OLD.event_id, OLD.occurrence_start);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.refresh_event_attendance(NEW.event_id, NEW.occurrence_start);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_event_attendance_trigger ON public.event_registrations;
+CREATE TRIGGER refresh_event_attendance_trigger
+  AFTER INSERT OR UPDATE OF status, headcount, checked_in_at OR DELETE
+  ON public.event_registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_event_attendance_on_registration();
+
+-- Attendance of the registrations made so far
+SELECT public.refresh_event_attendance(event_id, occurrence_start)
+FROM (SELECT DISTINCT event_id, occurrence_start FROM public.event_registrations) AS registered;
+
+-- =====================================================
+-- Tickets
+-- =====================================================
+
+-- Ticket of a registration, shown to the registrant with its QR code. The
+-- token is the secret; no other registration details are exposed.
+CREATE OR REPLACE FUNCTION public.get_registration_ticket(_token UUID)
+RETURNS TABLE (
+  event_id UUID,
+  occurrence_start TIMESTAMPTZ,
+  name TEXT,
+  headcount INTEGER,
+  status TEXT,
+  checked_in_at TIMESTAMPTZ,
+  event_title TEXT,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  organization_name TEXT,
+  timezone TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.event_id,
+    r.occurrence_start,
+    r.name,
+    r.headcount,
+    r.status,
+    r.checked_in_at,
+    COALESCE(o.title, e.title),
+    COALESCE(o.starts_at, r.occurrence_start, e.starts_at),
+    COALESCE(o.ends_at, r.occurrence_start + (e.ends_at - e.starts_at), e.ends_at),
+    org.name,
+    org.timezone
+  FROM public.event_registrations r
+  JOIN public.events e ON e.id = r.event_id
+  JOIN public.organizations org ON org.id = r.organization_id
+  LEFT JOIN public.events o
+    ON o.parent_event_id = e.id
+    AND o.recurrence_id = r.occurrence_start
+  WHERE r.check_in_token = _token;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_registration_ticket(UUID) TO anon, authenticated;
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE public.event_attendance ENABLE ROW LEVEL SECURITY;
+
+-- Headcounts only; written by refresh_event_attendance
+CREATE POLICY "Members can view attendance in their organizations"
+  ON public.event_attendance FOR SELECT
+  TO authenticated
+  USING (public.user_belongs_to_org(auth.uid(), organization_id));
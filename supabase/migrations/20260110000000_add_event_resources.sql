@@ -0,0 +1,117 @@
+-- Event resource requests
+-- Bookings often need more than a room: a projector, a sound tech, chairs or
+-- catering. Admins keep a catalog of the resources their organization can
+-- provide, with how many of each there are, and requesters ask for them on
+-- their events with a quantity and the person or team responsible. Requests
+-- of a recurring series apply to each of its occurrences. Whether the same
+-- equipment is double-booked across overlapping events is checked by the
+-- client, like room conflicts, and shown to approvers.
+
+-- =====================================================
+-- Resources
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.resources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 100),
+  kind TEXT NOT NULL DEFAULT 'equipment' CHECK (kind IN ('equipment', 'staff', 'service')),
+  quantity INTEGER CHECK (quantity > 0),
+  default_responsible TEXT CHECK (length(default_responsible) <= 200),
+  description TEXT CHECK (length(description) <= 500),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.resources IS 'Equipment, staff and services an organization provides for events.';
+COMMENT ON COLUMN public.resources.kind IS 'equipment (projector, chairs), staff (sound tech) or service (catering).';
+COMMENT ON COLUMN public.resources.quantity IS 'How many are available at the same time; NULL when not limited, which is never double-booked.';
+COMMENT ON COLUMN public.resources.default_responsible IS 'Person or team who usually provides the resource, suggested on new requests.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_resources_org_name
+  ON public.resources(organization_id, lower(name));
+
+DROP TRIGGER IF EXISTS update_resources_updated_at ON public.resources;
+CREATE TRIGGER update_resources_updated_at
+  BEFORE UPDATE ON public.resources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- Requests
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.event_resource_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+  resource_id UUID REFERENCES public.resources(id) ON DELETE CASCADE NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  responsible TEXT CHECK (length(responsible) <= 200),
+  notes TEXT CHECK (length(notes) <= 500),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (event_id, resource_id)
+);
+
+COMMENT ON TABLE public.event_resource_requests IS 'Resources an event needs, with quantities and who is responsible for them.';
+COMMENT ON COLUMN public.event_resource_requests.event_id IS 'Standalone event or recurring series; requests of a series apply to each occurrence.';
+COMMENT ON COLUMN public.event_resource_requests.responsible IS 'Person or team providing the resource for this event.';
+
+CREATE INDEX IF NOT EXISTS idx_event_resource_requests_resource
+  ON public.event_resource_requests(resource_id);
+
+DROP TRIGGER IF EXISTS update_event_resource_requests_updated_at ON public.event_resource_requests;
+CREATE TRIGGER update_event_resource_requests_updated_at
+  BEFORE UPDATE ON public.event_resource_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE public.resources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_resource_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view resources in their organizations"
+  ON public.resources FOR SELECT
+  TO authenticated
+  USING (public.user_belongs_to_org(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can manage resources in their organizations"
+  ON public.resources FOR ALL
+  TO authenticated
+  USING (public.is_org_admin(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+-- Every member sees requests, so double-booking can be checked when booking
+CREATE POLICY "Members can view resource requests in their organizations"
+  ON public.event_resource_requests FOR SELECT
+  TO authenticated
+  USING (public.user_belongs_to_org(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can manage resource requests in their organizations"
+  ON public.event_resource_requests FOR ALL
+  TO authenticated
+  USING (public.is_org_admin(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Requesters can manage resource requests for own events"
+  ON public.event_resource_requests FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id = event_resource_requests.event_id AND e.created_by = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id = event_resource_requests.event_id
+        AND e.created_by = auth.uid()
+        AND e.organization_id = event_resource_requests.organization_id
+    )
+  );